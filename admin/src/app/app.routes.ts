@@ -9,6 +9,8 @@ import { DashboardComponent } from './dashboard/dashboard.component';
 import { LoginComponent } from './login/login.component';
 import { AuthGuard } from './auth/guard/auth.guard';
 import { AvailabilityComponent } from './availability/availability.component';
+import { InvoicesComponent } from './invoices/invoices.component';
+import { EmailTemplatesComponent } from './email-templates/email-templates.component';
 import { ForgotPasswordComponent } from './shared/components/forget-password/forget-password.component';
 
 export const routes: Routes = [
@@ -28,5 +30,7 @@ export const routes: Routes = [
     { path: RoutePaths.Terms, component: TermsComponent, canActivate: [AuthGuard] },
     { path: RoutePaths.newTerm, component: TermFormComponent, canActivate: [AuthGuard] },
     { path: 'term/:id', component: TermFormComponent, canActivate: [AuthGuard] },
-    { path: RoutePaths.Availability, component: AvailabilityComponent, canActivate: [AuthGuard] }
+    { path: RoutePaths.Availability, component: AvailabilityComponent, canActivate: [AuthGuard] },
+    { path: RoutePaths.Invoices, component: InvoicesComponent, canActivate: [AuthGuard] },
+    { path: RoutePaths.EmailTemplates, component: EmailTemplatesComponent, canActivate: [AuthGuard] }
   ];
\ No newline at end of file
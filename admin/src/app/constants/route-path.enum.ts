@@ -7,6 +7,8 @@ export enum RoutePaths {
   newTerm='term/new',
   Login='login',
   Availability='availability',
+  Invoices='invoices',
+  EmailTemplates='email-templates',
   FogetPassword='forgot-password'
 
 }
\ No newline at end of file
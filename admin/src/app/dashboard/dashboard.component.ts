@@ -1,5 +1,8 @@
-import { Component, OnInit } from '@angular/core';
-import { ExportService } from '../services/export.service';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { Subscription, timer } from 'rxjs';
+import { switchMap, takeWhile } from 'rxjs/operators';
+import { ExportFormat, ExportService } from '../services/export.service';
 import { UserService } from '../services/user.service';
 import { saveAs } from 'file-saver';
 import { FormsModule } from '@angular/forms';
@@ -12,6 +15,12 @@ import { MatSelectModule } from '@angular/material/select';
 import { MatButtonModule } from '@angular/material/button';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { SnackbarService } from '../services/snackbar.service';
+import { PaymentReportService } from '../services/payment-report.service';
+import { ExportJob } from '../models/export-job.model';
+import { OrganizationService } from '../services/organization.service';
+import { Organization, Speciality } from '../models/user.model';
+import { SpecialityService } from '../services/speciality.service';
+import { PaymentReport, PaymentReportQuery, ReportPeriod } from '../models/payment-report.model';
 import { CommonModule } from '@angular/common';
 
 
@@ -32,20 +41,106 @@ import { CommonModule } from '@angular/common';
   templateUrl: './dashboard.component.html',
   styleUrls: ['./dashboard.component.scss']
 })
-export class DashboardComponent implements OnInit {
+export class DashboardComponent implements OnInit, OnDestroy {
   filters: any = {};
   practitioners: any[] = [];
   statuses: string[] = ['SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
   loading: boolean = false;
-  
+  format: ExportFormat = 'csv';
+  formats: ExportFormat[] = ['csv', 'xlsx', 'ndjson'];
+  specialities: Speciality[] = [];
+  exportJob: ExportJob | null = null;
+  private exportJobSubscription?: Subscription;
+
+  revenueFilters: PaymentReportQuery = { groupBy: 'month' };
+  periods: ReportPeriod[] = ['day', 'week', 'month'];
+  organizations: Organization[] = [];
+  report: PaymentReport | null = null;
+  reportLoading: boolean = false;
+  revenueExporting: boolean = false;
+
   constructor(
     private exportService: ExportService,
     private snackBarService: SnackbarService,
-    private userService: UserService
+    private userService: UserService,
+    private paymentReportService: PaymentReportService,
+    private organizationService: OrganizationService,
+    private specialityService: SpecialityService,
+    private route: ActivatedRoute
   ) {}
 
   ngOnInit() {
     this.loadPractitioners();
+    this.loadOrganizations();
+    this.loadSpecialities();
+    this.loadRevenue();
+
+    // Links in "export ready" emails point back here with the job id
+    const exportJobId = this.route.snapshot.queryParamMap.get('exportJob');
+    if (exportJobId) {
+      this.watchExportJob(exportJobId);
+    }
+  }
+
+  ngOnDestroy() {
+    this.exportJobSubscription?.unsubscribe();
+  }
+
+  loadOrganizations() {
+    this.organizationService.getAllOrganizations().subscribe({
+      next: (organizations) => {
+        this.organizations = organizations;
+      },
+      error: () => {
+        this.snackBarService.showError('Failed to load organizations');
+      }
+    });
+  }
+
+  loadSpecialities() {
+    this.specialityService.getAllSpecialities().subscribe({
+      next: (specialities) => {
+        this.specialities = specialities;
+      },
+      error: () => {
+        this.snackBarService.showError('Failed to load specialities');
+      }
+    });
+  }
+
+  loadRevenue() {
+    this.reportLoading = true;
+    this.paymentReportService.getSummary(this.revenueFilters).subscribe({
+      next: (report) => {
+        this.report = report;
+        this.reportLoading = false;
+      },
+      error: () => {
+        this.snackBarService.showError('Failed to load revenue report');
+        this.reportLoading = false;
+      }
+    });
+  }
+
+  exportRevenueCsv() {
+    this.revenueExporting = true;
+    this.paymentReportService.exportCsv(this.revenueFilters).subscribe({
+      next: (csvData) => {
+        const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
+        saveAs(blob, `payments_${new Date().toISOString().split('T')[0]}.csv`);
+        this.snackBarService.showSuccess('Payments exported successfully');
+        this.revenueExporting = false;
+      },
+      error: () => {
+        this.snackBarService.showError('Export failed');
+        this.revenueExporting = false;
+      }
+    });
+  }
+
+  resetRevenueFilters() {
+    this.revenueFilters = { groupBy: 'month' };
+    this.loadRevenue();
   }
 
   loadPractitioners() {
@@ -59,12 +154,11 @@ export class DashboardComponent implements OnInit {
     });
   }
 
-  exportCsv() {
+  exportConsultations() {
     this.loading = true;
-    this.exportService.exportConsultations(this.filters).subscribe({
-      next: (csvData) => {
-        const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
-        saveAs(blob, `consultations_${new Date().toISOString().split('T')[0]}.csv`);
+    this.exportService.exportConsultations(this.filters, this.format).subscribe({
+      next: (blob) => {
+        saveAs(blob, `consultations_${new Date().toISOString().split('T')[0]}.${this.format}`);
         this.snackBarService.showSuccess('Consultations exported successfully');
         this.loading = false;
       },
@@ -75,6 +169,45 @@ export class DashboardComponent implements OnInit {
     });
   }
 
+  startExportJob() {
+    this.exportService.createJob(this.filters, this.format).subscribe({
+      next: (job) => {
+        this.snackBarService.showSuccess('Export started, you will get an email when it is ready');
+        this.watchExportJob(job.id);
+      },
+      error: () => {
+        this.snackBarService.showError('Could not start the export');
+      }
+    });
+  }
+
+  watchExportJob(id: string) {
+    this.exportJobSubscription?.unsubscribe();
+    this.exportJobSubscription = timer(0, 3000).pipe(
+      switchMap(() => this.exportService.getJob(id)),
+      takeWhile((job) => job.status === 'queued' || job.status === 'running', true)
+    ).subscribe({
+      next: (job) => {
+        this.exportJob = job;
+      },
+      error: () => {
+        this.exportJob = null;
+        this.snackBarService.showError('Export job not found or expired');
+      }
+    });
+  }
+
+  downloadExportJob() {
+    if (!this.exportJob) return;
+    const { id, fileName } = this.exportJob;
+    this.exportService.downloadJob(id).subscribe({
+      next: (blob) => saveAs(blob, fileName),
+      error: () => {
+        this.snackBarService.showError('Download failed');
+      }
+    });
+  }
+
   resetForm() {
     this.filters = {};
     this.snackBarService.showSuccess('Filters reset');
@@ -0,0 +1,220 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
+import { Subscription, forkJoin } from 'rxjs';
+import { MatButtonModule } from '@angular/material/button';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTableModule } from '@angular/material/table';
+import { SnackbarService } from '../services/snackbar.service';
+import { OrganizationService } from '../services/organization.service';
+import { EmailTemplateService } from '../services/email-template.service';
+import {
+  EmailTemplate,
+  EmailTemplateInput,
+  EmailTemplateKeyInfo,
+} from '../models/email-template.model';
+import { Organization } from '../models/user.model';
+
+@Component({
+  selector: 'app-email-templates',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatButtonModule,
+    MatProgressSpinnerModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatSlideToggleModule,
+    MatTableModule,
+  ],
+  templateUrl: './email-templates.component.html',
+  styleUrls: ['./email-templates.component.scss'],
+})
+export class EmailTemplatesComponent implements OnInit, OnDestroy {
+  templates: EmailTemplate[] = [];
+  keys: EmailTemplateKeyInfo[] = [];
+  organizations: Organization[] = [];
+  loading: boolean = false;
+  saving: boolean = false;
+
+  displayedColumns: string[] = ['key', 'language', 'organization', 'subject', 'active', 'actions'];
+
+  filterOrganization: number | '' = '';
+
+  readonly syntaxHint =
+    '{{variable}} inserts a value and {{#if variable}}…{{else}}…{{/if}} a conditional block. ' +
+    'The logo, color and footer of the organization are added around the body.';
+
+  // Template being edited; without an id it is created on save
+  editing: (EmailTemplateInput & { id?: number }) | null = null;
+  previewSubject: string = '';
+  previewHtml: SafeHtml | null = null;
+
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private emailTemplateService: EmailTemplateService,
+    private organizationService: OrganizationService,
+    private snackBarService: SnackbarService,
+    private sanitizer: DomSanitizer,
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.add(
+      forkJoin([
+        this.emailTemplateService.getKeys(),
+        this.organizationService.getAllOrganizations(),
+      ]).subscribe({
+        next: ([keys, organizations]) => {
+          this.keys = keys;
+          this.organizations = organizations;
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(`Failed to load email template options: ${error.message || 'Unknown error'}`);
+        }
+      })
+    );
+    this.loadTemplates();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadTemplates(): void {
+    this.loading = true;
+    this.subscriptions.add(
+      this.emailTemplateService.getAll(this.filterOrganization || undefined).subscribe({
+        next: (templates) => {
+          this.templates = templates;
+          this.loading = false;
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(`Failed to load email templates: ${error.message || 'Unknown error'}`);
+          this.templates = [];
+          this.loading = false;
+        }
+      })
+    );
+  }
+
+  organizationName(organizationId: number | null): string {
+    if (!organizationId) {
+      return 'Platform';
+    }
+    return this.organizations.find((org) => org.id === organizationId)?.name || `#${organizationId}`;
+  }
+
+  get variables(): string[] {
+    return this.keys.find((info) => info.key === this.editing?.key)?.variables || [];
+  }
+
+  newTemplate(): void {
+    this.editing = {
+      organizationId: this.filterOrganization || undefined,
+      key: this.keys[0]?.key || 'invitation',
+      language: 'en',
+      subject: '',
+      body: '',
+      isActive: true,
+    };
+    this.clearPreview();
+  }
+
+  edit(template: EmailTemplate): void {
+    this.editing = {
+      id: template.id,
+      organizationId: template.organizationId ?? undefined,
+      key: template.key,
+      language: template.language,
+      subject: template.subject,
+      body: template.body,
+      isActive: template.isActive,
+    };
+    this.clearPreview();
+  }
+
+  cancel(): void {
+    this.editing = null;
+    this.clearPreview();
+  }
+
+  tag(variable: string): string {
+    return `{{${variable}}}`;
+  }
+
+  insertVariable(variable: string): void {
+    if (this.editing) {
+      this.editing.body = `${this.editing.body}${this.tag(variable)}`;
+    }
+  }
+
+  preview(): void {
+    if (!this.editing) return;
+    const { id, isActive, ...draft } = this.editing;
+    this.subscriptions.add(
+      this.emailTemplateService.preview(draft).subscribe({
+        next: (email) => {
+          this.previewSubject = email.subject;
+          // Rendered by the backend from escaped variables, shown in a sandboxed frame
+          this.previewHtml = this.sanitizer.bypassSecurityTrustHtml(email.html);
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(error.error?.message || 'Failed to preview email template');
+        }
+      })
+    );
+  }
+
+  save(): void {
+    if (!this.editing) return;
+    const { id, organizationId, key, ...changes } = this.editing;
+    const request = id
+      ? this.emailTemplateService.update(id, changes)
+      : this.emailTemplateService.create(this.editing);
+
+    this.saving = true;
+    this.subscriptions.add(
+      request.subscribe({
+        next: () => {
+          this.snackBarService.showSuccess('Email template saved');
+          this.saving = false;
+          this.editing = null;
+          this.clearPreview();
+          this.loadTemplates();
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(error.error?.message || 'Failed to save email template');
+          this.saving = false;
+        }
+      })
+    );
+  }
+
+  remove(template: EmailTemplate): void {
+    if (!confirm(`Delete the ${template.language} "${template.key}" email template?`)) return;
+    this.subscriptions.add(
+      this.emailTemplateService.delete(template.id).subscribe({
+        next: () => {
+          this.snackBarService.showSuccess('Email template deleted');
+          this.loadTemplates();
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(error.error?.message || 'Failed to delete email template');
+        }
+      })
+    );
+  }
+
+  private clearPreview(): void {
+    this.previewSubject = '';
+    this.previewHtml = null;
+  }
+}
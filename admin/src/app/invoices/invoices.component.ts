@@ -0,0 +1,130 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { MatButtonModule } from '@angular/material/button';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatTableModule } from '@angular/material/table';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { SnackbarService } from '../services/snackbar.service';
+import { InvoiceService } from '../services/invoice.service';
+import { OrganizationService } from '../services/organization.service';
+import { Invoice, InvoiceQuery, InvoiceType } from '../models/invoice.model';
+import { Organization } from '../models/user.model';
+
+@Component({
+  selector: 'app-invoices',
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatButtonModule,
+    MatProgressSpinnerModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatTableModule,
+    MatPaginatorModule,
+    MatTooltipModule,
+  ],
+  templateUrl: './invoices.component.html',
+  styleUrls: ['./invoices.component.scss'],
+})
+export class InvoicesComponent implements OnInit, OnDestroy {
+  invoices: Invoice[] = [];
+  totalInvoices: number = 0;
+  currentPage: number = 1;
+  pageSize: number = 10;
+  loading: boolean = false;
+
+  displayedColumns: string[] = ['number', 'type', 'organization', 'patient', 'amount', 'issuedAt', 'actions'];
+
+  filterOrganization: number | '' = '';
+  filterType: InvoiceType | '' = '';
+  organizations: Organization[] = [];
+
+  private subscriptions: Subscription = new Subscription();
+
+  constructor(
+    private invoiceService: InvoiceService,
+    private organizationService: OrganizationService,
+    private snackBarService: SnackbarService,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadOrganizations();
+    this.loadInvoices();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  loadInvoices(): void {
+    this.loading = true;
+    const query: InvoiceQuery = {
+      organizationId: this.filterOrganization || undefined,
+      type: this.filterType || undefined,
+      page: this.currentPage,
+      limit: this.pageSize,
+    };
+
+    this.subscriptions.add(
+      this.invoiceService.getAll(query).subscribe({
+        next: (response) => {
+          this.invoices = response.data.invoices;
+          this.totalInvoices = response.data.pagination.total;
+          this.loading = false;
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(`Failed to load invoices: ${error.message || 'Unknown error'}`);
+          this.invoices = [];
+          this.totalInvoices = 0;
+          this.loading = false;
+        }
+      })
+    );
+  }
+
+  loadOrganizations(): void {
+    this.organizationService.getAllOrganizations().subscribe({
+      next: (orgs) => {
+        this.organizations = orgs;
+      },
+      error: (error) => {
+        console.error('Failed to load organizations:', error);
+      }
+    });
+  }
+
+  onFilterChange(): void {
+    this.currentPage = 1;
+    this.loadInvoices();
+  }
+
+  pageChange(event: PageEvent): void {
+    this.currentPage = event.pageIndex + 1;
+    this.pageSize = event.pageSize;
+    this.loadInvoices();
+  }
+
+  download(invoice: Invoice): void {
+    this.subscriptions.add(
+      this.invoiceService.downloadPdf(invoice.id).subscribe({
+        next: (blob) => {
+          const url = window.URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `${invoice.number}.pdf`;
+          link.click();
+          window.URL.revokeObjectURL(url);
+        },
+        error: (error: any) => {
+          this.snackBarService.showError(`Failed to download ${invoice.number}: ${error.message || 'Unknown error'}`);
+        }
+      })
+    );
+  }
+}
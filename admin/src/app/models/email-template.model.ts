@@ -0,0 +1,41 @@
+export type EmailTemplateKey =
+  | 'invitation'
+  | 'consultationAssigned'
+  | 'selfInvitation'
+  | 'consultationReminder'
+  | 'consultationRescheduled'
+  | 'consultationCancelled'
+  | 'preConsultation'
+  | 'invoice'
+  | 'exportReady';
+
+export interface EmailTemplate {
+  id: number;
+  organizationId: number | null;
+  key: EmailTemplateKey;
+  language: string;
+  subject: string;
+  body: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailTemplateKeyInfo {
+  key: EmailTemplateKey;
+  variables: string[];
+}
+
+export interface EmailTemplateInput {
+  organizationId?: number;
+  key: EmailTemplateKey;
+  language: string;
+  subject: string;
+  body: string;
+  isActive?: boolean;
+}
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+}
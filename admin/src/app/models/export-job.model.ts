@@ -0,0 +1,15 @@
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ExportJob {
+  id: string;
+  status: ExportJobStatus;
+  format: 'csv' | 'xlsx' | 'ndjson';
+  fileName: string;
+  rowCount: number | null;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
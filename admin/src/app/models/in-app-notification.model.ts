@@ -0,0 +1,21 @@
+export interface InAppNotification {
+  id: number;
+  event: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  consultationId: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface InAppNotificationPage {
+  notifications: InAppNotification[];
+  unreadCount: number;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
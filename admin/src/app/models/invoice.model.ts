@@ -0,0 +1,32 @@
+export type InvoiceType = 'INVOICE' | 'CREDIT_NOTE';
+
+export interface Invoice {
+  id: number;
+  type: InvoiceType;
+  number: string;
+  organizationId: number | null;
+  paymentId: number;
+  refundId: number | null;
+  patientId: number;
+  amount: string;
+  currency: string;
+  issuedAt: string;
+  emailedAt: string | null;
+  patient?: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  organization?: {
+    id: number;
+    name: string;
+  } | null;
+}
+
+export interface InvoiceQuery {
+  page?: number;
+  limit?: number;
+  organizationId?: number;
+  type?: InvoiceType;
+}
@@ -0,0 +1,34 @@
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+export interface RevenueRow {
+  key: string | number | null;
+  label: string;
+  currency: string;
+  count: number;
+  gross: number;
+  refunded: number;
+  net: number;
+}
+
+export interface StatusRow {
+  status: string;
+  currency: string;
+  count: number;
+  amount: number;
+}
+
+export interface PaymentReport {
+  totals: RevenueRow[];
+  byOrganization: RevenueRow[];
+  byPractitioner: RevenueRow[];
+  byStatus: StatusRow[];
+  timeline: RevenueRow[];
+}
+
+export interface PaymentReportQuery {
+  dateFrom?: Date | string;
+  dateTo?: Date | string;
+  organizationId?: number;
+  currency?: string;
+  groupBy?: ReportPeriod;
+}
@@ -0,0 +1,59 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { ApiResponse } from '../models/api-response.model';
+import {
+  EmailPreview,
+  EmailTemplate,
+  EmailTemplateInput,
+  EmailTemplateKeyInfo,
+} from '../models/email-template.model';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class EmailTemplateService {
+  private baseUrl = `${environment.apiUrl}/email-templates`;
+
+  constructor(private http: HttpClient) {}
+
+  getAll(organizationId?: number): Observable<EmailTemplate[]> {
+    let params = new HttpParams();
+    if (organizationId) {
+      params = params.set('organizationId', organizationId.toString());
+    }
+    return this.http.get<ApiResponse<EmailTemplate[]>>(this.baseUrl, { params }).pipe(
+      map(response => response.data)
+    );
+  }
+
+  getKeys(): Observable<EmailTemplateKeyInfo[]> {
+    return this.http.get<ApiResponse<EmailTemplateKeyInfo[]>>(`${this.baseUrl}/keys`).pipe(
+      map(response => response.data)
+    );
+  }
+
+  create(template: EmailTemplateInput): Observable<EmailTemplate> {
+    return this.http.post<ApiResponse<EmailTemplate>>(this.baseUrl, template).pipe(
+      map(response => response.data)
+    );
+  }
+
+  update(id: number, template: Partial<EmailTemplateInput>): Observable<EmailTemplate> {
+    return this.http.patch<ApiResponse<EmailTemplate>>(`${this.baseUrl}/${id}`, template).pipe(
+      map(response => response.data)
+    );
+  }
+
+  delete(id: number): Observable<any> {
+    return this.http.delete<ApiResponse<any>>(`${this.baseUrl}/${id}`);
+  }
+
+  preview(template: EmailTemplateInput): Observable<EmailPreview> {
+    return this.http.post<ApiResponse<EmailPreview>>(`${this.baseUrl}/preview`, template).pipe(
+      map(response => response.data)
+    );
+  }
+}
@@ -1,7 +1,12 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
 import { environment } from '../../environments/environment.development';
+import { ApiResponse } from '../models/api-response.model';
+import { ExportJob } from '../models/export-job.model';
 
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
 
 @Injectable({
   providedIn: 'root',
@@ -10,13 +15,40 @@ export class ExportService {
 
   constructor(private http: HttpClient) {}
 
-  exportConsultations(filters: any) {
+  exportConsultations(filters: any, format: ExportFormat = 'csv') {
     let params = new HttpParams();
     if (filters.dateFrom) params = params.set('dateFrom', filters.dateFrom);
     if (filters.dateTo) params = params.set('dateTo', filters.dateTo);
     if (filters.practitionerId) params = params.set('practitionerId', Number(filters.practitionerId));
     if (filters.status) params = params.set('status', filters.status);
+    if (filters.organizationId) params = params.set('organizationId', Number(filters.organizationId));
+    if (filters.groupId) params = params.set('groupId', Number(filters.groupId));
+    if (filters.specialityId) params = params.set('specialityId', Number(filters.specialityId));
 
-    return this.http.get(`${environment.apiUrl}/export/consultations/csv`, { params, responseType: 'text' });
+    return this.http.get(`${environment.apiUrl}/export/consultations/${format}`, { params, responseType: 'blob' });
+  }
+
+  createJob(filters: any, format: ExportFormat = 'csv'): Observable<ExportJob> {
+    const body: any = { format };
+    ['dateFrom', 'dateTo', 'status'].forEach((key) => {
+      if (filters[key]) body[key] = filters[key];
+    });
+    ['practitionerId', 'organizationId', 'groupId', 'specialityId'].forEach((key) => {
+      if (filters[key]) body[key] = Number(filters[key]);
+    });
+
+    return this.http
+      .post<ApiResponse<ExportJob>>(`${environment.apiUrl}/export/jobs`, body)
+      .pipe(map((response) => response.data));
+  }
+
+  getJob(id: string): Observable<ExportJob> {
+    return this.http
+      .get<ApiResponse<ExportJob>>(`${environment.apiUrl}/export/jobs/${id}`)
+      .pipe(map((response) => response.data));
+  }
+
+  downloadJob(id: string): Observable<Blob> {
+    return this.http.get(`${environment.apiUrl}/export/jobs/${id}/download`, { responseType: 'blob' });
   }
 }
@@ -0,0 +1,79 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable, signal } from '@angular/core';
+import { Observable, Subscription, timer } from 'rxjs';
+import { map, switchMap, tap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+import { ApiResponse } from '../models/api-response.model';
+import {
+  InAppNotification,
+  InAppNotificationPage,
+} from '../models/in-app-notification.model';
+
+// The admin app has no socket connection, the unread count is polled
+const UNREAD_COUNT_POLL_MS = 60_000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class InAppNotificationService {
+  private baseUrl = `${environment.apiUrl}/notifications/in-app`;
+  private polling?: Subscription;
+
+  readonly notifications = signal<InAppNotification[]>([]);
+  readonly unreadCount = signal(0);
+
+  constructor(private http: HttpClient) {}
+
+  startPolling(): void {
+    this.stopPolling();
+    this.polling = timer(0, UNREAD_COUNT_POLL_MS)
+      .pipe(switchMap(() => this.getUnreadCount()))
+      .subscribe({ error: () => this.stopPolling() });
+  }
+
+  stopPolling(): void {
+    this.polling?.unsubscribe();
+    this.polling = undefined;
+  }
+
+  load(page = 1, limit = 20): Observable<InAppNotificationPage> {
+    const params = new HttpParams()
+      .set('page', page.toString())
+      .set('limit', limit.toString());
+    return this.http.get<ApiResponse<InAppNotificationPage>>(this.baseUrl, { params }).pipe(
+      map(response => response.data),
+      tap(result => {
+        this.notifications.set(result.notifications);
+        this.unreadCount.set(result.unreadCount);
+      })
+    );
+  }
+
+  getUnreadCount(): Observable<number> {
+    return this.http.get<ApiResponse<{ unreadCount: number }>>(`${this.baseUrl}/unread-count`).pipe(
+      map(response => response.data.unreadCount),
+      tap(count => this.unreadCount.set(count))
+    );
+  }
+
+  markRead(id: number): Observable<InAppNotification> {
+    return this.http.patch<ApiResponse<InAppNotification>>(`${this.baseUrl}/${id}/read`, {}).pipe(
+      map(response => response.data),
+      tap(updated => {
+        this.notifications.update(list => list.map(item => (item.id === id ? updated : item)));
+        this.unreadCount.update(count => Math.max(0, count - 1));
+      })
+    );
+  }
+
+  markAllRead(): Observable<number> {
+    return this.http.patch<ApiResponse<{ updated: number }>>(`${this.baseUrl}/read-all`, {}).pipe(
+      map(response => response.data.updated),
+      tap(() => {
+        const readAt = new Date().toISOString();
+        this.notifications.update(list => list.map(item => ({ ...item, readAt: item.readAt ?? readAt })));
+        this.unreadCount.set(0);
+      })
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { TestBed } from '@angular/core/testing';
+
+import { InvoiceService } from './invoice.service';
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(InvoiceService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+});
@@ -0,0 +1,32 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment.development';
+import { InvoiceQuery } from '../models/invoice.model';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class InvoiceService {
+  private baseUrl = `${environment.apiUrl}/invoice`;
+
+  constructor(private http: HttpClient) {}
+
+  getAll(query?: InvoiceQuery): Observable<any> {
+    let params = new HttpParams();
+
+    if (query) {
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params = params.set(key, value.toString());
+        }
+      });
+    }
+
+    return this.http.get(`${this.baseUrl}`, { params });
+  }
+
+  downloadPdf(id: number): Observable<Blob> {
+    return this.http.get(`${this.baseUrl}/${id}/pdf`, { responseType: 'blob' });
+  }
+}
@@ -0,0 +1,41 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../environments/environment.development';
+import { ApiResponse } from '../models/api-response.model';
+import { PaymentReport, PaymentReportQuery } from '../models/payment-report.model';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PaymentReportService {
+  constructor(private http: HttpClient) {}
+
+  getSummary(query: PaymentReportQuery = {}): Observable<PaymentReport> {
+    return this.http
+      .get<ApiResponse<PaymentReport>>(`${environment.apiUrl}/payment/reports/summary`, {
+        params: this.toParams(query),
+      })
+      .pipe(map((response) => response.data));
+  }
+
+  exportCsv(query: PaymentReportQuery = {}): Observable<string> {
+    const { groupBy, ...filters } = query;
+    return this.http.get(`${environment.apiUrl}/export/payments/csv`, {
+      params: this.toParams(filters),
+      responseType: 'text',
+    });
+  }
+
+  private toParams(query: PaymentReportQuery): HttpParams {
+    let params = new HttpParams();
+
+    Object.entries(query).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') return;
+      params = params.set(key, value instanceof Date ? value.toISOString() : value.toString());
+    });
+
+    return params;
+  }
+}
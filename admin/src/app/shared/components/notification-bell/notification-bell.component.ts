@@ -0,0 +1,43 @@
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { MatBadgeModule } from '@angular/material/badge';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { InAppNotificationService } from '../../../services/in-app-notification.service';
+import { InAppNotification } from '../../../models/in-app-notification.model';
+
+@Component({
+  selector: 'app-notification-bell',
+  standalone: true,
+  imports: [DatePipe, MatBadgeModule, MatButtonModule, MatIconModule, MatMenuModule],
+  templateUrl: './notification-bell.component.html',
+  styleUrls: ['./notification-bell.component.scss'],
+})
+export class NotificationBellComponent implements OnInit, OnDestroy {
+  readonly notificationService = inject(InAppNotificationService);
+
+  ngOnInit(): void {
+    this.notificationService.startPolling();
+  }
+
+  ngOnDestroy(): void {
+    this.notificationService.stopPolling();
+  }
+
+  refresh(): void {
+    this.notificationService.load().subscribe();
+  }
+
+  open(notification: InAppNotification): void {
+    if (!notification.readAt) {
+      this.notificationService.markRead(notification.id).subscribe();
+    }
+  }
+
+  markAllRead(event: MouseEvent): void {
+    // Keep the menu open
+    event.stopPropagation();
+    this.notificationService.markAllRead().subscribe();
+  }
+}
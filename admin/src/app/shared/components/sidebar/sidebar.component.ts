@@ -11,6 +11,7 @@ import { RoutePaths } from '../../../constants/route-path.enum';
 import { AuthService } from '../../../auth/auth.service';
 import { LoginUser } from '../../../models/user.model';
 import { MatMenuModule } from '@angular/material/menu';
+import { NotificationBellComponent } from '../notification-bell/notification-bell.component';
 
 @Component({
   selector: 'app-sidebar',
@@ -25,7 +26,8 @@ import { MatMenuModule } from '@angular/material/menu';
     MatListModule,
     MatBadgeModule,
     AngularSvgIconModule,
-    MatMenuModule
+    MatMenuModule,
+    NotificationBellComponent
   ]
 })
 export class SidebarComponent {
@@ -50,6 +52,8 @@ export class SidebarComponent {
       { icon: "icon-user.svg", label: "Resource Management", route: RoutePaths.ResourceManager },
       { icon: "icon-term.svg", label: 'Terms', route: RoutePaths.Terms },
       { icon: "icon-queue.svg", label: "Availability Management", route: RoutePaths.Availability },
+      { icon: "icon-term.svg", label: "Invoices", route: RoutePaths.Invoices },
+      { icon: "icon-term.svg", label: "Email Templates", route: RoutePaths.EmailTemplates },
       { icon: "icon-queue.svg", label: "Waiting Queues", route: "/queue" },
       { icon: "server.svg", label: "Mediasoup", route: "/mediasoup" },
     ];
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."payment_webhook_events" (
+    "id" TEXT NOT NULL,
+    "type" VARCHAR(100) NOT NULL,
+    "paymentId" INTEGER,
+    "payload" JSONB,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_paymentId_idx" ON "public"."payment_webhook_events"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."payment_config" ADD COLUMN     "stripeWebhookSecret" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "organizationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."payment_customers" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "stripeCustomerId" VARCHAR(255) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_customers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_organizationId_idx" ON "public"."payments"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_customers_userId_organizationId_key" ON "public"."payment_customers"("userId", "organizationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_customers" ADD CONSTRAINT "payment_customers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_customers" ADD CONSTRAINT "payment_customers_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentProvider" AS ENUM ('STRIPE', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "public"."payment_config" ADD COLUMN     "manualInstructions" TEXT,
+ADD COLUMN     "provider" "public"."PaymentProvider" NOT NULL DEFAULT 'STRIPE';
+
+-- AlterTable
+ALTER TABLE "public"."payment_refunds" ALTER COLUMN "stripeRefundId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "provider" "public"."PaymentProvider" NOT NULL DEFAULT 'STRIPE',
+ADD COLUMN     "providerReference" TEXT;
+
+-- Backfill provider references of existing Stripe payments
+UPDATE "public"."payments" SET "providerReference" = "stripeIntentId" WHERE "stripeIntentId" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_providerReference_key" ON "public"."payments"("providerReference");
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "public"."InvoiceType" AS ENUM ('INVOICE', 'CREDIT_NOTE');
+
+-- CreateTable
+CREATE TABLE "public"."invoices" (
+    "id" SERIAL NOT NULL,
+    "type" "public"."InvoiceType" NOT NULL,
+    "documentKey" VARCHAR(50) NOT NULL,
+    "number" VARCHAR(50) NOT NULL,
+    "sequenceKey" VARCHAR(50) NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "organizationId" INTEGER,
+    "paymentId" INTEGER NOT NULL,
+    "refundId" INTEGER,
+    "patientId" INTEGER NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "pdf" BYTEA NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailedAt" TIMESTAMP(3),
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invoice_sequences" (
+    "key" VARCHAR(50) NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_documentKey_key" ON "public"."invoices"("documentKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_refundId_key" ON "public"."invoices"("refundId");
+
+-- CreateIndex
+CREATE INDEX "invoices_paymentId_idx" ON "public"."invoices"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "invoices_patientId_idx" ON "public"."invoices"("patientId");
+
+-- CreateIndex
+CREATE INDEX "invoices_organizationId_idx" ON "public"."invoices"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_sequenceKey_sequence_key" ON "public"."invoices"("sequenceKey", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "public"."payment_refunds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invoices" ADD CONSTRAINT "invoices_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
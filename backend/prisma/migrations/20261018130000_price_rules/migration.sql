@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."price_rules" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "specialityId" INTEGER,
+    "groupId" INTEGER,
+    "practitionerId" INTEGER,
+    "minDurationMinutes" INTEGER,
+    "maxDurationMinutes" INTEGER,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "currency" VARCHAR(3),
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_rules_organizationId_isActive_idx" ON "public"."price_rules"("organizationId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "public"."price_rules" ADD CONSTRAINT "price_rules_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."price_rules" ADD CONSTRAINT "price_rules_specialityId_fkey" FOREIGN KEY ("specialityId") REFERENCES "public"."speciality"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."price_rules" ADD CONSTRAINT "price_rules_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."price_rules" ADD CONSTRAINT "price_rules_practitionerId_fkey" FOREIGN KEY ("practitionerId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
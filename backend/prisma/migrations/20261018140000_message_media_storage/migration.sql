@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."message" ADD COLUMN     "mediaKey" VARCHAR(512),
+ADD COLUMN     "mediaStorage" VARCHAR(32);
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."attachment_access_logs" (
+    "id" SERIAL NOT NULL,
+    "messageId" INTEGER NOT NULL,
+    "consultationId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "granted" BOOLEAN NOT NULL,
+    "reason" TEXT,
+    "ipAddress" VARCHAR(64),
+    "userAgent" VARCHAR(512),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachment_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attachment_access_logs_messageId_idx" ON "public"."attachment_access_logs"("messageId");
+
+-- CreateIndex
+CREATE INDEX "attachment_access_logs_consultationId_idx" ON "public"."attachment_access_logs"("consultationId");
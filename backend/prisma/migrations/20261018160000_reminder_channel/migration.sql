@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."consultation_reminder" ADD COLUMN     "channel" "public"."MessageService";
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "public"."consultation" ADD COLUMN     "reminderPlanId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."consultation_reminder" ADD COLUMN     "planStepId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."reminder_plans" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "groupId" INTEGER,
+    "name" VARCHAR(255) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reminder_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."reminder_plan_steps" (
+    "id" SERIAL NOT NULL,
+    "planId" INTEGER NOT NULL,
+    "offsetMinutes" INTEGER NOT NULL,
+    "channel" "public"."MessageService",
+    "templateKey" VARCHAR(255),
+
+    CONSTRAINT "reminder_plan_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reminder_plans_organizationId_isActive_idx" ON "public"."reminder_plans"("organizationId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "reminder_plans_groupId_idx" ON "public"."reminder_plans"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reminder_plan_steps_planId_offsetMinutes_key" ON "public"."reminder_plan_steps"("planId", "offsetMinutes");
+
+-- AddForeignKey
+ALTER TABLE "public"."consultation" ADD CONSTRAINT "consultation_reminderPlanId_fkey" FOREIGN KEY ("reminderPlanId") REFERENCES "public"."reminder_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."reminder_plans" ADD CONSTRAINT "reminder_plans_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."reminder_plans" ADD CONSTRAINT "reminder_plans_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "public"."groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."reminder_plan_steps" ADD CONSTRAINT "reminder_plan_steps_planId_fkey" FOREIGN KEY ("planId") REFERENCES "public"."reminder_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."consultation_reminder" ADD CONSTRAINT "consultation_reminder_planStepId_fkey" FOREIGN KEY ("planStepId") REFERENCES "public"."reminder_plan_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
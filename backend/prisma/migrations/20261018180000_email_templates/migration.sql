@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."email_templates" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER,
+    "key" VARCHAR(100) NOT NULL,
+    "language" VARCHAR(35) NOT NULL,
+    "subject" VARCHAR(255) NOT NULL,
+    "body" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_templates_key_isActive_idx" ON "public"."email_templates"("key", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_organizationId_key_language_key" ON "public"."email_templates"("organizationId", "key", "language");
+
+-- AddForeignKey
+ALTER TABLE "public"."email_templates" ADD CONSTRAINT "email_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "public"."NotificationStatus" AS ENUM ('PENDING', 'SENT', 'DELIVERED', 'READ', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."notification_outbox" (
+    "id" SERIAL NOT NULL,
+    "channel" "public"."MessageService" NOT NULL,
+    "recipient" VARCHAR(255) NOT NULL,
+    "templateKey" VARCHAR(100),
+    "payload" JSONB NOT NULL,
+    "status" "public"."NotificationStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextAttemptAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "provider" VARCHAR(50),
+    "providerMessageId" VARCHAR(255),
+    "consultationId" INTEGER,
+    "userId" INTEGER,
+    "resentFromId" INTEGER,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_status_nextAttemptAt_idx" ON "public"."notification_outbox"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_provider_providerMessageId_idx" ON "public"."notification_outbox"("provider", "providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_recipient_idx" ON "public"."notification_outbox"("recipient");
+
+-- CreateIndex
+CREATE INDEX "notification_outbox_consultationId_idx" ON "public"."notification_outbox"("consultationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."notification_outbox" ADD CONSTRAINT "notification_outbox_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "public"."consultation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."notification_outbox" ADD CONSTRAINT "notification_outbox_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."NotificationEvent" AS ENUM ('REMINDER', 'CONSULTATION_ASSIGNED', 'PATIENT_WAITING', 'CHAT_MESSAGE', 'INVITATION');
+
+-- CreateEnum
+CREATE TYPE "public"."NotificationChannel" AS ENUM ('EMAIL', 'SMS', 'WHATSAPP', 'IN_APP');
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationStatus" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "public"."user_notification_settings" ADD COLUMN     "quietHoursEnd" VARCHAR(5),
+ADD COLUMN     "quietHoursStart" VARCHAR(5),
+ADD COLUMN     "timezone" VARCHAR(64);
+
+-- AlterTable
+ALTER TABLE "public"."notification_outbox" ADD COLUMN     "event" "public"."NotificationEvent";
+
+-- CreateTable
+CREATE TABLE "public"."user_notification_preferences" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "event" "public"."NotificationEvent" NOT NULL,
+    "channel" "public"."NotificationChannel" NOT NULL,
+    "enabled" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_notification_preferences_userId_event_channel_key" ON "public"."user_notification_preferences"("userId", "event", "channel");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_notification_preferences" ADD CONSTRAINT "user_notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
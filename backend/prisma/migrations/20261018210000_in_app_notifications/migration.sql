@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."in_app_notifications" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "event" "public"."NotificationEvent" NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "consultationId" INTEGER,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "in_app_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "in_app_notifications_userId_readAt_idx" ON "public"."in_app_notifications"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "in_app_notifications_userId_createdAt_idx" ON "public"."in_app_notifications"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."in_app_notifications" ADD CONSTRAINT "in_app_notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."in_app_notifications" ADD CONSTRAINT "in_app_notifications_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "public"."consultation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."consultation" ADD COLUMN     "patientConfirmedAt" TIMESTAMP(3);
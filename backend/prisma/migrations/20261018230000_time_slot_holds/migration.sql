@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "public"."TimeSlotStatus" ADD VALUE 'HELD';
+
+-- AlterTable
+ALTER TABLE "public"."time_slots" ADD COLUMN     "heldById" INTEGER,
+ADD COLUMN     "heldUntil" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "time_slots_status_heldUntil_idx" ON "public"."time_slots"("status", "heldUntil");
+
+-- AddForeignKey
+ALTER TABLE "public"."time_slots" ADD CONSTRAINT "time_slots_heldById_fkey" FOREIGN KEY ("heldById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
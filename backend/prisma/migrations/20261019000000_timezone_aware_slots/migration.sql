@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."practitioner_availability" ADD COLUMN     "timezone" VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "public"."time_slots" ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "startsAt" TIMESTAMP(3),
+ADD COLUMN     "timezone" VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Existing slots were generated with UTC wall-clock times
+UPDATE "public"."time_slots"
+SET "startsAt" = "date" + "startTime"::time,
+    "endsAt" = "date" + "endTime"::time;
+
+ALTER TABLE "public"."time_slots" ALTER COLUMN "startsAt" SET NOT NULL,
+ALTER COLUMN "endsAt" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "time_slots_practitionerId_startsAt_idx" ON "public"."time_slots"("practitionerId", "startsAt");
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."AvailabilityExceptionType" AS ENUM ('VACATION', 'SICK_LEAVE', 'PUBLIC_HOLIDAY', 'EXTRA_HOURS');
+
+-- AlterTable
+ALTER TABLE "public"."time_slots" ADD COLUMN     "conflictingExceptionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."availability_exceptions" (
+    "id" SERIAL NOT NULL,
+    "practitionerId" INTEGER,
+    "organizationId" INTEGER,
+    "type" "public"."AvailabilityExceptionType" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "slotDuration" INTEGER,
+    "timezone" VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    "reason" VARCHAR(255),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "availability_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "time_slots_conflictingExceptionId_idx" ON "public"."time_slots"("conflictingExceptionId");
+
+-- CreateIndex
+CREATE INDEX "availability_exceptions_practitionerId_startDate_idx" ON "public"."availability_exceptions"("practitionerId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "availability_exceptions_organizationId_startDate_idx" ON "public"."availability_exceptions"("organizationId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."time_slots" ADD CONSTRAINT "time_slots_conflictingExceptionId_fkey" FOREIGN KEY ("conflictingExceptionId") REFERENCES "public"."availability_exceptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."availability_exceptions" ADD CONSTRAINT "availability_exceptions_practitionerId_fkey" FOREIGN KEY ("practitionerId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."availability_exceptions" ADD CONSTRAINT "availability_exceptions_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."cancellation_policies" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "allowReschedule" BOOLEAN NOT NULL DEFAULT true,
+    "allowCancellation" BOOLEAN NOT NULL DEFAULT true,
+    "cutoffMinutes" INTEGER NOT NULL DEFAULT 120,
+    "freeCancellationMinutes" INTEGER NOT NULL DEFAULT 1440,
+    "lateCancellationFeePercent" INTEGER NOT NULL DEFAULT 50,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cancellation_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cancellation_policies_organizationId_key" ON "public"."cancellation_policies"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."cancellation_policies" ADD CONSTRAINT "cancellation_policies_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
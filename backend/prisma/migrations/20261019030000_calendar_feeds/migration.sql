@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."calendar_feeds" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "token" VARCHAR(64) NOT NULL,
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_userId_key" ON "public"."calendar_feeds"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_token_key" ON "public"."calendar_feeds"("token");
+
+-- AddForeignKey
+ALTER TABLE "public"."calendar_feeds" ADD CONSTRAINT "calendar_feeds_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -29,6 +29,15 @@ import { NotificationModule } from './notification/notification.module';
 import { CoreModule } from './core/core.module';
 import { ChatModule } from './chat/chat.module';
 import { ConsultationModule } from './consultation/consultation.module';
+import { PaymentModule } from './payment/payment.module';
+import { InvoiceModule } from './invoice/invoice.module';
+import { EmailTemplateModule } from './email-template/email-template.module';
+import { EmailOutboxModule } from './common/email/email-outbox.module';
+import { NotificationOutboxApiModule } from './notification-outbox/notification-outbox-api.module';
+import { InAppNotificationModule } from './in-app-notification/in-app-notification.module';
+import { WhatsappInboundModule } from './whatsapp-inbound/whatsapp-inbound.module';
+import { ConsultationBookingModule } from './consultation-booking/consultation-booking.module';
+import { CalendarFeedModule } from './calendar/calendar-feed.module';
 
 @Module({
   imports: [
@@ -62,6 +71,15 @@ import { ConsultationModule } from './consultation/consultation.module';
     CoreModule,
     MediasoupModule,
     ConsultationModule,
+    PaymentModule,
+    InvoiceModule,
+    EmailTemplateModule,
+    EmailOutboxModule,
+    NotificationOutboxApiModule,
+    InAppNotificationModule,
+    WhatsappInboundModule,
+    ConsultationBookingModule,
+    CalendarFeedModule,
   ],
   controllers: [AppController],
   providers: [
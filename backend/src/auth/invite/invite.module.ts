@@ -8,9 +8,10 @@ import { ConfigModule } from '../../config/config.module';
 import { AuthService } from '../auth.service';
 import { AuthGuard } from '../guards/auth.guard';
 import { CoreModule } from '../../core/core.module';
+import { NotificationOutboxModule } from '../../notification-outbox/notification-outbox.module';
 
 @Module({
-  imports: [DatabaseModule, JwtModule, ConfigModule, CoreModule],
+  imports: [DatabaseModule, JwtModule, ConfigModule, CoreModule, NotificationOutboxModule],
   controllers: [InviteController, PublicInviteController],
   providers: [InviteService, AuthService, AuthGuard],
   exports: [InviteService]
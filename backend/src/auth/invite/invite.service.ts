@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpExceptionHelper } from '../../common/helpers/execption/http-exception.helper';
 import { DatabaseService } from '../../database/database.service';
-import { InvitationStatus, UserRole } from '@prisma/client';
+import { InvitationStatus, MessageService, NotificationEvent, NotificationStatus, UserRole } from '@prisma/client';
 import { EmailService } from '../../common/email/email.service';
 import { ConfigService } from '../../config/config.service';
+import { NotificationOutboxService } from '../../notification-outbox/notification-outbox.service';
+import { I18nService, RecipientLocale } from '../../i18n/i18n.service';
 import { v4 as uuidv4 } from 'uuid';
 import { addMinutes, isAfter } from 'date-fns';
 
@@ -23,7 +25,9 @@ export class InviteService {
   constructor(
     private prisma: DatabaseService,
     private emailService: EmailService,
-    private configService: ConfigService
+    private configService: ConfigService,
+    private notificationOutboxService: NotificationOutboxService,
+    private i18nService: I18nService
   ) { }
 
   /**
@@ -286,7 +290,7 @@ export class InviteService {
     this.logger.log(`manualSend flag: ${inviteData.manualSend}`);
     if (!inviteData.manualSend) {
       this.logger.log('Triggering email send...');
-      await this.sendInvitationEmail(invite, consultation, inviteData.timezone || 'Asia/Kolkata');
+      await this.sendInvitationEmail(invite, consultation, inviteData.timezone);
     } else {
       this.logger.log('Skipping email send (manual send flag is true)');
     }
@@ -301,7 +305,7 @@ export class InviteService {
     };
   }
 
-  private async sendInvitationEmail(invite: any, consultation: any, timezone: string) {
+  private async sendInvitationEmail(invite: any, consultation: any, timezone?: string) {
     try {
       const patientBaseUrl = this.configService.patientUrl || 'https://app.hcw-at-home.com';
       const acknowledgeLink = `${patientBaseUrl}/acknowledge-invite/${invite.token}`;
@@ -310,22 +314,12 @@ export class InviteService {
         `${consultation.owner.firstName} ${consultation.owner.lastName}` :
         'HCW@Home practitioner';
 
-      // Format scheduled date in IST if available
-      let scheduledTimeIST: string | undefined = undefined;
-      let deviceTestCutoffIST: string | undefined = undefined;
-
-      if (consultation.scheduledDate) {
-        const consultationTime = new Date(consultation.scheduledDate);
-        const twoMinutesBefore = new Date(consultationTime.getTime() - 2 * 60 * 1000);
-
-        scheduledTimeIST = this.formatTimeIST(consultationTime);
-        deviceTestCutoffIST = this.formatTimeIST(twoMinutesBefore);
-
-        this.logger.log(`[sendInvitationEmail] IST Times:`, {
-          consultation: scheduledTimeIST,
-          deviceTestCutoff: deviceTestCutoffIST
-        });
-      }
+      // Rendered in the invitee's language, at the timezone picked in the form
+      const locale = await this.i18nService.localeForUser({
+        email: invite.inviteEmail,
+        consultationId: consultation.id,
+        timezone,
+      });
 
       this.logger.log('Preparing to send invitation email', {
         to: invite.inviteEmail,
@@ -334,8 +328,8 @@ export class InviteService {
         acknowledgeLink,
         role: invite.role,
         inviteeName: invite.name,
-        scheduledTimeIST,
-        deviceTestCutoffIST
+        scheduledDate: consultation.scheduledDate,
+        locale
       });
 
       await this.emailService.sendConsultationInvitationEmail(
@@ -346,8 +340,8 @@ export class InviteService {
         invite.role,
         invite.name,
         invite.notes,
-        scheduledTimeIST,
-        deviceTestCutoffIST
+        consultation.scheduledDate,
+        locale
       );
 
       this.logger.log(`Invitation email sent successfully to: ${invite.inviteEmail}`);
@@ -611,13 +605,18 @@ export class InviteService {
       'HCW@Home practitioner';
 
     try {
+      const locale = await this.i18nService.localeForUser({
+        email: invite.inviteEmail,
+        consultationId: invite.consultationId,
+      });
       await this.emailService.sendPreConsultationEmail(
         invite.inviteEmail,
         invite.name || 'Patient',
         practitionerName,
         invite.consultation.id,
         consultationRoomUrl,
-        invite.consultation.scheduledDate!
+        invite.consultation.scheduledDate!,
+        locale
       );
 
       this.logger.log(`Pre-consultation email sent successfully to ${invite.inviteEmail} for consultation ${invite.consultationId}`);
@@ -839,7 +838,7 @@ export class InviteService {
 
     const consultation = await this.prisma.consultation.findUnique({
       where: { id: consultationId },
-      select: { ownerId: true, scheduledDate: true },
+      select: { ownerId: true, scheduledDate: true, messageService: true },
     });
     if (!consultation) throw new Error('Consultation not found');
     if (
@@ -895,21 +894,52 @@ export class InviteService {
       `Creating acknowledgement link for invitation: ${acknowledgeLink}`,
     );
 
-    // Format scheduled date in IST if available
-    let scheduledTimeIST: string | undefined = undefined;
-    let deviceTestCutoffIST: string | undefined = undefined;
-
-    if (consultation.scheduledDate) {
-      const consultationTime = new Date(consultation.scheduledDate);
-      const twoMinutesBefore = new Date(consultationTime.getTime() - 2 * 60 * 1000);
-
-      scheduledTimeIST = this.formatTimeIST(consultationTime);
-      deviceTestCutoffIST = this.formatTimeIST(twoMinutesBefore);
+    const locale = await this.i18nService.localeForUser({
+      email: inviteEmail,
+      consultationId,
+    });
 
-      this.logger.log(`[createInvitationEmail] IST Times:`, {
-        consultation: scheduledTimeIST,
-        deviceTestCutoff: deviceTestCutoffIST
+    // Consultations set up to message by SMS invite by SMS when the
+    // invited user has a phone number and wants invitations by SMS, and
+    // fall back to email otherwise
+    if (consultation.messageService === MessageService.SMS) {
+      const invitedUser = await this.prisma.user.findFirst({
+        where: { email: { equals: inviteEmail.trim(), mode: 'insensitive' } },
+        select: { id: true, phoneNumber: true },
       });
+      if (invitedUser?.phoneNumber) {
+        try {
+          // A single attempt: the email fallback replaces retries
+          const notification = await this.notificationOutboxService.dispatch(
+            {
+              channel: MessageService.SMS,
+              recipient: invitedUser.phoneNumber,
+              templateKey: 'invitation',
+              event: NotificationEvent.INVITATION,
+              payload: {
+                body: this.buildInvitationSms(inviterName, acknowledgeLink, consultation.scheduledDate, locale),
+              },
+              consultationId,
+              userId: invitedUser.id,
+            },
+            { maxAttempts: 1 },
+          );
+          if (
+            notification.status === NotificationStatus.FAILED ||
+            notification.status === NotificationStatus.SKIPPED
+          ) {
+            throw new Error(notification.lastError || 'SMS not sent');
+          }
+          this.logger.log(
+            `Sent ${role} invitation SMS to ${invitedUser.phoneNumber} for consultation ${consultationId} by ${inviterUserId}`,
+          );
+          return invitation;
+        } catch (error) {
+          this.logger.error(
+            `Failed to send invitation SMS to ${invitedUser.phoneNumber}, falling back to email: ${error.message}`,
+          );
+        }
+      }
     }
 
     try {
@@ -921,8 +951,8 @@ export class InviteService {
         role,
         name,
         notes,
-        scheduledTimeIST,
-        deviceTestCutoffIST
+        consultation.scheduledDate,
+        locale
       );
       this.logger.log(
         `Sent ${role} invitation email to ${inviteEmail} for consultation ${consultationId} by ${inviterUserId}`,
@@ -937,6 +967,22 @@ export class InviteService {
     return invitation;
   }
 
+  private buildInvitationSms(
+    inviterName: string,
+    acknowledgeLink: string,
+    scheduledDate: Date | null,
+    locale: RecipientLocale,
+  ): string {
+    const t = this.i18nService.translator('invitation', locale);
+    return scheduledDate
+      ? t('smsScheduled', {
+          inviter: inviterName,
+          time: this.i18nService.formatDateTime(scheduledDate, locale),
+          link: acknowledgeLink,
+        })
+      : t('sms', { inviter: inviterName, link: acknowledgeLink });
+  }
+
   /**
    * Alias method for createInvitationEmail for backward compatibility
    */
@@ -0,0 +1,169 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { AvailabilityExceptionService } from './availability-exception.service';
+import { CreateAvailabilityExceptionDto } from './dto/create-availability-exception.dto';
+
+@ApiTags('availability')
+@ApiBearerAuth()
+@Controller('availability-exceptions')
+@UseGuards(AuthGuard, RolesGuard)
+export class AvailabilityExceptionController {
+  constructor(
+    private readonly availabilityExceptionService: AvailabilityExceptionService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary:
+      'Add a vacation, sick leave, public holiday or extra hours to the availability',
+  })
+  async create(@Body() dto: CreateAvailabilityExceptionDto, @Req() req) {
+    const result = await this.availabilityExceptionService.create(
+      dto,
+      req.user,
+    );
+    return ApiResponseDto.success(
+      result,
+      result.conflictingSlots.length > 0
+        ? `Exception added, ${result.conflictingSlots.length} booked consultations need to be rescheduled`
+        : 'Exception added successfully',
+      201,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get()
+  @ApiOperation({
+    summary:
+      'List exceptions of the current practitioner, by default the upcoming ones',
+  })
+  @ApiQuery({ name: 'startDate', required: false })
+  @ApiQuery({ name: 'endDate', required: false })
+  async findMine(
+    @Req() req,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const exceptions =
+      await this.availabilityExceptionService.findForPractitioner(
+        req.user.id,
+        startDate ? new Date(startDate) : undefined,
+        endDate ? new Date(endDate) : undefined,
+      );
+    return ApiResponseDto.success(
+      exceptions,
+      'Exceptions retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get('conflicts')
+  @ApiOperation({
+    summary:
+      'Booked slots of the current practitioner an exception was added over',
+  })
+  async findConflicts(@Req() req) {
+    const slots = await this.availabilityExceptionService.findConflictingSlots(
+      req.user.id,
+    );
+    return ApiResponseDto.success(
+      slots,
+      'Conflicting slots retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get('practitioner/:practitionerId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List exceptions that apply to a practitioner' })
+  async findForPractitioner(
+    @Param('practitionerId', ParseIntPipe) practitionerId: number,
+    @Req() req,
+  ) {
+    const exceptions =
+      await this.availabilityExceptionService.findForPractitioner(
+        practitionerId,
+      );
+    return ApiResponseDto.success(
+      exceptions,
+      'Exceptions retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get('organization/:organizationId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List exceptions of a whole organization' })
+  async findForOrganization(
+    @Param('organizationId', ParseIntPipe) organizationId: number,
+    @Req() req,
+  ) {
+    const exceptions =
+      await this.availabilityExceptionService.findForOrganization(
+        organizationId,
+      );
+    return ApiResponseDto.success(
+      exceptions,
+      'Exceptions retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Remove an exception' })
+  async remove(@Param('id', ParseIntPipe) id: number, @Req() req) {
+    const exception = await this.availabilityExceptionService.remove(
+      id,
+      req.user,
+    );
+    return ApiResponseDto.success(
+      exception,
+      'Exception removed successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
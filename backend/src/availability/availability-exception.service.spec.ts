@@ -0,0 +1,184 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import {
+  AvailabilityExceptionType,
+  TimeSlotStatus,
+  UserRole,
+} from '@prisma/client';
+import {
+  AvailabilityExceptionService,
+  exceptionIntervals,
+} from './availability-exception.service';
+
+describe('AvailabilityExceptionService', () => {
+  const practitioner = { id: 3, role: UserRole.PRACTITIONER };
+  const admin = { id: 1, role: UserRole.ADMIN };
+  const slot = (id: number, startsAt: string, status: TimeSlotStatus) => ({
+    id,
+    status,
+    startsAt: new Date(startsAt),
+    endsAt: new Date(new Date(startsAt).getTime() + 30 * 60 * 1000),
+  });
+
+  let prisma: any;
+  let service: AvailabilityExceptionService;
+
+  beforeEach(() => {
+    prisma = {
+      $transaction: jest.fn((operations) => Promise.all(operations)),
+      availabilityException: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 12, ...data })),
+      },
+      organization: { findUnique: jest.fn().mockResolvedValue({ id: 5 }) },
+      organizationMember: {
+        findMany: jest.fn().mockResolvedValue([{ userId: 3 }, { userId: 4 }]),
+      },
+      timeSlot: {
+        findMany: jest.fn().mockResolvedValue([]),
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    service = new AvailabilityExceptionService(prisma, {
+      defaultTimezone: 'Europe/Zurich',
+    } as any);
+  });
+
+  it('removes free slots of a vacation and flags the booked ones', async () => {
+    prisma.timeSlot.findMany.mockResolvedValue([
+      slot(1, '2026-12-21T08:00:00Z', TimeSlotStatus.AVAILABLE),
+      slot(2, '2026-12-22T08:00:00Z', TimeSlotStatus.BOOKED),
+      slot(3, '2026-12-23T08:00:00Z', TimeSlotStatus.BLOCKED),
+    ]);
+    prisma.timeSlot.deleteMany.mockResolvedValue({ count: 2 });
+
+    const result = await service.create(
+      {
+        type: AvailabilityExceptionType.VACATION,
+        startDate: '2026-12-21',
+        endDate: '2026-12-25',
+      },
+      practitioner,
+    );
+
+    expect(prisma.availabilityException.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        practitionerId: 3,
+        organizationId: null,
+        startDate: new Date('2026-12-21T00:00:00Z'),
+        endDate: new Date('2026-12-25T00:00:00Z'),
+        timezone: 'Europe/Zurich',
+      }),
+    });
+    expect(prisma.timeSlot.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          practitionerId: 3,
+          startsAt: { lt: new Date('2026-12-25T23:00:00Z') },
+          endsAt: { gt: new Date('2026-12-20T23:00:00Z') },
+        },
+      }),
+    );
+    expect(prisma.timeSlot.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: [1, 3] } },
+    });
+    expect(prisma.timeSlot.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [2] } },
+      data: { conflictingExceptionId: 12 },
+    });
+    expect(result).toEqual(
+      expect.objectContaining({ deletedTimeSlots: 2, conflictingSlots: [2] }),
+    );
+  });
+
+  it('applies public holidays to every practitioner of the organization', async () => {
+    await service.create(
+      {
+        type: AvailabilityExceptionType.PUBLIC_HOLIDAY,
+        organizationId: 5,
+        startDate: '2026-12-25',
+        endDate: '2026-12-25',
+        reason: 'Christmas',
+      },
+      admin,
+    );
+
+    expect(prisma.availabilityException.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        practitionerId: null,
+        organizationId: 5,
+      }),
+    });
+    expect(prisma.timeSlot.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ practitionerId: { in: [3, 4] } }),
+      }),
+    );
+  });
+
+  it('leaves existing slots alone for extra hours', async () => {
+    const result = await service.create(
+      {
+        type: AvailabilityExceptionType.EXTRA_HOURS,
+        startDate: '2026-10-24',
+        endDate: '2026-10-24',
+        startTime: '09:00',
+        endTime: '12:00',
+      },
+      practitioner,
+    );
+
+    expect(prisma.availabilityException.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ slotDuration: 30 }),
+    });
+    expect(prisma.timeSlot.findMany).not.toHaveBeenCalled();
+    expect(result.conflictingSlots).toEqual([]);
+  });
+
+  it('only lets admins add exceptions for others', async () => {
+    await expect(
+      service.create(
+        {
+          type: AvailabilityExceptionType.PUBLIC_HOLIDAY,
+          organizationId: 5,
+          startDate: '2026-12-25',
+          endDate: '2026-12-25',
+        },
+        practitioner,
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('requires times for extra hours', async () => {
+    await expect(
+      service.create(
+        {
+          type: AvailabilityExceptionType.EXTRA_HOURS,
+          startDate: '2026-10-24',
+          endDate: '2026-10-24',
+        },
+        practitioner,
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('covers the window of a partial exception on each of its days', () => {
+    const intervals = exceptionIntervals({
+      startDate: new Date('2026-10-24T00:00:00Z'),
+      endDate: new Date('2026-10-25T00:00:00Z'),
+      startTime: '08:00',
+      endTime: '12:00',
+      timezone: 'Europe/Zurich',
+    });
+
+    expect(intervals).toEqual([
+      {
+        startsAt: new Date('2026-10-24T06:00:00Z'),
+        endsAt: new Date('2026-10-24T10:00:00Z'),
+      },
+      {
+        startsAt: new Date('2026-10-25T07:00:00Z'),
+        endsAt: new Date('2026-10-25T11:00:00Z'),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,337 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  AvailabilityException,
+  AvailabilityExceptionType,
+  Prisma,
+  TimeSlotStatus,
+  UserRole,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { isValidTimezone } from '../i18n/i18n.service';
+import {
+  addCalendarDays,
+  startOfZonedDay,
+  zonedTimeToUtcShifted,
+} from '../common/helpers/timezone.helper';
+import { CreateAvailabilityExceptionDto } from './dto/create-availability-exception.dto';
+
+export interface ExceptionInterval {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+interface Actor {
+  id: number;
+  role: UserRole;
+}
+
+/** Longest range of a single exception, in days */
+const MAX_EXCEPTION_DAYS = 366;
+
+/** Every exception type but extra hours makes the practitioner unavailable */
+export function isBlockingException(
+  exception: Pick<AvailabilityException, 'type'>,
+): boolean {
+  return exception.type !== AvailabilityExceptionType.EXTRA_HOURS;
+}
+
+/** Exceptions of the practitioner or their organizations overlapping the days */
+export function exceptionsAffecting(
+  practitionerId: number,
+  startDate: Date,
+  endDate?: Date,
+): Prisma.AvailabilityExceptionWhereInput {
+  return {
+    ...(endDate ? { startDate: { lte: endDate } } : {}),
+    endDate: { gte: startDate },
+    OR: [
+      { practitionerId },
+      {
+        practitionerId: null,
+        organization: { members: { some: { userId: practitionerId } } },
+      },
+    ],
+  };
+}
+
+/**
+ * Instants an exception covers: its window on each of its days, or its days
+ * as a whole.
+ */
+export function exceptionIntervals(
+  exception: Pick<
+    AvailabilityException,
+    'startDate' | 'endDate' | 'startTime' | 'endTime' | 'timezone'
+  >,
+): ExceptionInterval[] {
+  const { startTime, endTime, timezone } = exception;
+  const firstDay = exception.startDate.toISOString().slice(0, 10);
+  const lastDay = exception.endDate.toISOString().slice(0, 10);
+
+  if (!startTime || !endTime) {
+    return [
+      {
+        startsAt: startOfZonedDay(firstDay, timezone),
+        endsAt: startOfZonedDay(addCalendarDays(lastDay, 1), timezone),
+      },
+    ];
+  }
+
+  const intervals: ExceptionInterval[] = [];
+  for (let day = firstDay; day <= lastDay; day = addCalendarDays(day, 1)) {
+    intervals.push({
+      startsAt: zonedTimeToUtcShifted(day, startTime, timezone),
+      endsAt: zonedTimeToUtcShifted(day, endTime, timezone),
+    });
+  }
+  return intervals;
+}
+
+export function overlapsAny(
+  slot: { startsAt: Date; endsAt: Date },
+  intervals: ExceptionInterval[],
+): boolean {
+  return intervals.some(
+    (interval) =>
+      slot.startsAt < interval.endsAt && slot.endsAt > interval.startsAt,
+  );
+}
+
+/**
+ * Vacations, sick leave, public holidays and extra hours that override the
+ * weekly availability of practitioners. Slot generation leaves out the time
+ * an exception blocks; adding one removes the free slots it covers and flags
+ * the booked ones, whose consultations need to be rescheduled.
+ */
+@Injectable()
+export class AvailabilityExceptionService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(dto: CreateAvailabilityExceptionDto, actor: Actor) {
+    if (dto.organizationId && dto.practitionerId) {
+      throw new BadRequestException(
+        'An exception is either for a practitioner or for an organization',
+      );
+    }
+    const forOthers =
+      !!dto.organizationId ||
+      (!!dto.practitionerId && dto.practitionerId !== actor.id);
+    if (forOthers && actor.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can add exceptions for others');
+    }
+
+    const startDate = new Date(`${dto.startDate.slice(0, 10)}T00:00:00Z`);
+    const endDate = new Date(`${dto.endDate.slice(0, 10)}T00:00:00Z`);
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    if (
+      (endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000) >=
+      MAX_EXCEPTION_DAYS
+    ) {
+      throw new BadRequestException(
+        `An exception can span at most ${MAX_EXCEPTION_DAYS} days`,
+      );
+    }
+
+    if (!!dto.startTime !== !!dto.endTime) {
+      throw new BadRequestException(
+        'startTime and endTime go together, or neither for whole days',
+      );
+    }
+    if (dto.startTime && dto.endTime && dto.startTime >= dto.endTime) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+    if (dto.type === AvailabilityExceptionType.EXTRA_HOURS) {
+      if (!dto.startTime) {
+        throw new BadRequestException('Extra hours need a start and end time');
+      }
+      if (dto.organizationId) {
+        throw new BadRequestException(
+          'Extra hours are added for a practitioner, not an organization',
+        );
+      }
+    }
+
+    if (dto.timezone && !isValidTimezone(dto.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${dto.timezone}`);
+    }
+
+    if (dto.organizationId) {
+      const organization = await this.databaseService.organization.findUnique({
+        where: { id: dto.organizationId },
+        select: { id: true },
+      });
+      if (!organization) {
+        throw new NotFoundException('Organization not found');
+      }
+    }
+
+    const exception = await this.databaseService.availabilityException.create({
+      data: {
+        type: dto.type,
+        practitionerId: dto.organizationId
+          ? null
+          : (dto.practitionerId ?? actor.id),
+        organizationId: dto.organizationId ?? null,
+        startDate,
+        endDate,
+        startTime: dto.startTime ?? null,
+        endTime: dto.endTime ?? null,
+        slotDuration:
+          dto.type === AvailabilityExceptionType.EXTRA_HOURS
+            ? (dto.slotDuration ?? 30)
+            : null,
+        timezone: dto.timezone ?? this.configService.defaultTimezone,
+        reason: dto.reason ?? null,
+      },
+    });
+
+    const applied = isBlockingException(exception)
+      ? await this.applyToSlots(exception)
+      : { deletedTimeSlots: 0, conflictingSlots: [] };
+    return { exception, ...applied };
+  }
+
+  /** Exceptions that apply to the practitioner, by default the upcoming ones */
+  async findForPractitioner(
+    practitionerId: number,
+    startDate?: Date,
+    endDate?: Date,
+  ) {
+    const today = new Date(
+      `${new Date().toISOString().slice(0, 10)}T00:00:00Z`,
+    );
+    return this.databaseService.availabilityException.findMany({
+      where: exceptionsAffecting(practitionerId, startDate ?? today, endDate),
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  async findForOrganization(organizationId: number) {
+    return this.databaseService.availabilityException.findMany({
+      where: { organizationId },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Removes an exception. Its flags on booked slots go with it; the free
+   * slots it removed come back on the next slot generation.
+   */
+  async remove(id: number, actor: Actor) {
+    const exception =
+      await this.databaseService.availabilityException.findUnique({
+        where: { id },
+      });
+    if (!exception) {
+      throw new NotFoundException('Availability exception not found');
+    }
+    if (
+      actor.role !== UserRole.ADMIN &&
+      exception.practitionerId !== actor.id
+    ) {
+      throw new ForbiddenException(
+        'You do not have permission to remove this exception',
+      );
+    }
+
+    return this.databaseService.availabilityException.delete({ where: { id } });
+  }
+
+  /** Booked slots of the practitioner an exception was added over */
+  async findConflictingSlots(practitionerId: number) {
+    return this.databaseService.timeSlot.findMany({
+      where: {
+        practitionerId,
+        conflictingExceptionId: { not: null },
+        status: TimeSlotStatus.BOOKED,
+        startsAt: { gte: new Date() },
+      },
+      include: {
+        conflictingException: true,
+        consultation: {
+          select: { id: true, status: true, scheduledDate: true },
+        },
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+  }
+
+  /**
+   * Deletes the free and blocked slots the exception covers and flags the
+   * booked ones, and those patients are booking, as conflicting.
+   */
+  private async applyToSlots(exception: AvailabilityException) {
+    const intervals = exceptionIntervals(exception);
+    const slots = await this.databaseService.timeSlot.findMany({
+      where: {
+        practitionerId: exception.practitionerId
+          ? exception.practitionerId
+          : {
+              in: await this.organizationPractitionerIds(
+                exception.organizationId!,
+              ),
+            },
+        startsAt: { lt: intervals[intervals.length - 1].endsAt },
+        endsAt: { gt: intervals[0].startsAt },
+      },
+      select: { id: true, startsAt: true, endsAt: true, status: true },
+    });
+    const covered = slots.filter((slot) => overlapsAny(slot, intervals));
+    const freeIds = covered
+      .filter(
+        (slot) =>
+          slot.status === TimeSlotStatus.AVAILABLE ||
+          slot.status === TimeSlotStatus.BLOCKED,
+      )
+      .map((slot) => slot.id);
+    const conflictingIds = covered
+      .filter(
+        (slot) =>
+          slot.status === TimeSlotStatus.BOOKED ||
+          slot.status === TimeSlotStatus.HELD,
+      )
+      .map((slot) => slot.id);
+
+    const [deleted] = await this.databaseService.$transaction([
+      this.databaseService.timeSlot.deleteMany({
+        where: { id: { in: freeIds } },
+      }),
+      this.databaseService.timeSlot.updateMany({
+        where: { id: { in: conflictingIds } },
+        data: { conflictingExceptionId: exception.id },
+      }),
+    ]);
+
+    if (conflictingIds.length > 0) {
+      console.log(
+        `[AvailabilityException] exception ${exception.id} covers ${conflictingIds.length} booked slots`,
+      );
+    }
+    return {
+      deletedTimeSlots: deleted.count,
+      conflictingSlots: conflictingIds,
+    };
+  }
+
+  private async organizationPractitionerIds(organizationId: number) {
+    const members = await this.databaseService.organizationMember.findMany({
+      where: {
+        organizationId,
+        user: { role: UserRole.PRACTITIONER },
+      },
+      select: { userId: true },
+    });
+    return members.map((member) => member.userId);
+  }
+}
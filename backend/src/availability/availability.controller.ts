@@ -149,6 +149,7 @@ export class AvailabilityController {
         endTime: String(createAvailabilityDto.endTime || ''),
         slotDuration: Number(createAvailabilityDto.slotDuration || 30),
         isActive: createAvailabilityDto.isActive === undefined ? true : Boolean(createAvailabilityDto.isActive),
+        timezone: createAvailabilityDto.timezone,
       };
 
       console.log(`[Controller] Calling service with processed data:`, data);
@@ -318,13 +319,37 @@ export class AvailabilityController {
     @Query('practitionerId', ParseIntPipe) practitionerId: number,
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
+    @Req() req: any,
+    @Query('timezone') timezone?: string,
   ) {
     return this.availabilityService.getAvailableSlots(
       practitionerId,
       new Date(startDate),
       new Date(endDate),
+      req.user?.id,
+      timezone,
     );
   }
+
+  @Post('slots/:id/hold')
+  @ApiResponse({
+    status: 201,
+    description: 'Time slot held for the current user while they book it.',
+    type: TimeSlotResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'Time slot was taken by someone else.' })
+  holdTimeSlot(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+    return this.availabilityService.holdTimeSlot(id, Number(req.user.id));
+  }
+
+  @Delete('slots/:id/hold')
+  @ApiResponse({
+    status: 200,
+    description: 'Hold of the current user released.',
+  })
+  releaseHold(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+    return this.availabilityService.releaseHold(id, Number(req.user.id));
+  }
   
   @Get('slots/:practitionerId')
   @ApiResponse({
@@ -336,6 +361,7 @@ export class AvailabilityController {
     @Param('practitionerId', ParseIntPipe) practitionerId: number,
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
+    @Query('timezone') timezone?: string,
   ) {
     try {
       console.log(`[${new Date().toISOString()}] [getAllPractitionerSlots] practitionerId=${practitionerId}, startDate=${startDate}, endDate=${endDate}`);
@@ -382,6 +408,7 @@ export class AvailabilityController {
         practitionerId,
         start as any,
         end as any,
+        timezone,
       );
 
       console.log(`[getAllPractitionerSlots] retrieved ${Array.isArray(slots) ? slots.length : 'unknown'} slots for practitioner ${practitionerId}`);
@@ -460,11 +487,13 @@ export class AvailabilityController {
     @Req() req: any,
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
+    @Query('timezone') timezone?: string,
   ) {
     console.log(`[${new Date().toISOString()}] GET my-slots request received:`, { 
       user: req.user?.id,
       startDate, 
-      endDate 
+      endDate,
+      timezone
     });
     
     const practitionerId = Number(req.user.id);
@@ -517,16 +546,18 @@ export class AvailabilityController {
       // Record this request
       recentRequests[requestKey] = now;
       
-      console.log(`[${new Date().toISOString()}] Calling availabilityService.getAvailableSlots:`, {
+      console.log(`[${new Date().toISOString()}] Calling availabilityService.getPractitionerSlots:`, {
         practitionerId,
         start,
-        end
+        end,
+        timezone
       });
       
-      const slots = await this.availabilityService.getAvailableSlots(
+      const slots = await this.availabilityService.getPractitionerSlots(
         practitionerId,
         start,
         end,
+        timezone,
       );
       
       console.log(`[${new Date().toISOString()}] Retrieved ${slots.length} slots`);
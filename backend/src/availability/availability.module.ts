@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { AvailabilityService } from './availability.service';
 import { AvailabilityController } from './availability.controller';
+import { AvailabilityExceptionService } from './availability-exception.service';
+import { AvailabilityExceptionController } from './availability-exception.controller';
 import { DatabaseModule } from '../database/database.module';
 import { AuthModule } from '../auth/auth.module';
+import { ConfigModule } from '../config/config.module';
 
 @Module({
-  imports: [DatabaseModule, AuthModule],
-  controllers: [AvailabilityController],
-  providers: [AvailabilityService],
-  exports: [AvailabilityService],
+  imports: [DatabaseModule, AuthModule, ConfigModule],
+  controllers: [AvailabilityController, AvailabilityExceptionController],
+  providers: [AvailabilityService, AvailabilityExceptionService],
+  exports: [AvailabilityService, AvailabilityExceptionService],
 })
 export class AvailabilityModule {}
@@ -0,0 +1,304 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { AvailabilityExceptionType, TimeSlotStatus } from '@prisma/client';
+import { AvailabilityService } from './availability.service';
+
+describe('AvailabilityService', () => {
+  let prisma: any;
+  let service: AvailabilityService;
+
+  const bookableBy = (userId?: number) => ({
+    OR: [
+      { status: TimeSlotStatus.AVAILABLE },
+      { status: TimeSlotStatus.HELD, heldUntil: { lt: expect.any(Date) } },
+      ...(userId ? [{ status: TimeSlotStatus.HELD, heldById: userId }] : []),
+    ],
+  });
+
+  beforeEach(() => {
+    prisma = {
+      timeSlot: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({ id: 5 }),
+      },
+    };
+    prisma.$transaction = jest.fn((callback) => callback(prisma));
+    service = new AvailabilityService(prisma, {
+      slotHoldMinutes: 10,
+      defaultTimezone: 'Europe/Zurich',
+    } as any);
+  });
+
+  describe('holdTimeSlot', () => {
+    it('holds a free slot for the configured minutes', async () => {
+      const before = Date.now();
+
+      await service.holdTimeSlot(5, 7);
+
+      const { where, data } = prisma.timeSlot.updateMany.mock.calls[0][0];
+      expect(where).toEqual({ id: 5, ...bookableBy(7) });
+      expect(data.status).toBe(TimeSlotStatus.HELD);
+      expect(data.heldById).toBe(7);
+      expect(data.heldUntil.getTime()).toBeGreaterThanOrEqual(
+        before + 10 * 60 * 1000,
+      );
+    });
+
+    it('releases the other slots the user holds', async () => {
+      await service.holdTimeSlot(5, 7);
+
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(prisma.timeSlot.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { not: 5 },
+          status: TimeSlotStatus.HELD,
+          heldById: 7,
+        },
+        data: {
+          status: TimeSlotStatus.AVAILABLE,
+          heldById: null,
+          heldUntil: null,
+        },
+      });
+    });
+
+    it('reports a slot someone else holds or booked as a conflict', async () => {
+      prisma.timeSlot.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.holdTimeSlot(5, 7)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      // The user's other holds stay until a new one succeeds
+      expect(prisma.timeSlot.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports unknown slots as not found', async () => {
+      prisma.timeSlot.updateMany.mockResolvedValue({ count: 0 });
+      prisma.timeSlot.findUnique.mockResolvedValue(null);
+
+      await expect(service.holdTimeSlot(5, 7)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('bookTimeSlot', () => {
+    it('books the slot with a conditional update in the given transaction', async () => {
+      const tx = {
+        timeSlot: {
+          updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+          findUnique: jest.fn().mockResolvedValue({ id: 5 }),
+        },
+      };
+
+      await service.bookTimeSlot(5, 42, 7, tx as any);
+
+      expect(tx.timeSlot.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, ...bookableBy(7) },
+        data: {
+          status: TimeSlotStatus.BOOKED,
+          consultationId: 42,
+          heldById: null,
+          heldUntil: null,
+        },
+      });
+      expect(prisma.timeSlot.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('lets only one of two concurrent bookings through', async () => {
+      prisma.timeSlot.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const results = await Promise.allSettled([
+        service.bookTimeSlot(5, 42, 7),
+        service.bookTimeSlot(5, 43, 8),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+    });
+  });
+
+  describe('generateTimeSlots', () => {
+    const availability = (
+      dayOfWeek: number,
+      startTime: string,
+      endTime: string,
+    ) => ({
+      practitionerId: 3,
+      dayOfWeek,
+      startTime,
+      endTime,
+      slotDuration: 60,
+      timezone: 'Europe/Zurich',
+      isActive: true,
+    });
+
+    const generate = async (startDate: string, endDate: string) => {
+      await service.generateTimeSlots(
+        3,
+        new Date(startDate),
+        new Date(endDate),
+      );
+      return prisma.timeSlot.createMany.mock.calls[0]?.[0].data ?? [];
+    };
+
+    beforeEach(() => {
+      prisma.practitionerAvailability = { findMany: jest.fn() };
+      prisma.availabilityException = {
+        findMany: jest.fn().mockResolvedValue([]),
+      };
+      prisma.timeSlot.findMany = jest.fn().mockResolvedValue([]);
+      prisma.timeSlot.createMany = jest.fn().mockResolvedValue({ count: 0 });
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it("stores slots as instants of the practitioner's wall-clock times", async () => {
+      prisma.practitionerAvailability.findMany.mockResolvedValue([
+        availability(6, '09:00', '11:00'),
+        availability(0, '09:00', '10:00'),
+      ]);
+
+      // Clocks go back on Sunday 25 October 2026 in Zurich
+      const slots = await generate('2026-10-24', '2026-10-25');
+
+      expect(
+        slots.map((slot) => [
+          slot.startsAt.toISOString(),
+          slot.endsAt.toISOString(),
+        ]),
+      ).toEqual([
+        ['2026-10-24T07:00:00.000Z', '2026-10-24T08:00:00.000Z'],
+        ['2026-10-24T08:00:00.000Z', '2026-10-24T09:00:00.000Z'],
+        ['2026-10-25T08:00:00.000Z', '2026-10-25T09:00:00.000Z'],
+      ]);
+      expect(slots[2]).toEqual(
+        expect.objectContaining({
+          date: new Date('2026-10-25T00:00:00Z'),
+          startTime: '09:00',
+          endTime: '10:00',
+          timezone: 'Europe/Zurich',
+        }),
+      );
+    });
+
+    it('skips start times the clocks jump over', async () => {
+      prisma.practitionerAvailability.findMany.mockResolvedValue([
+        availability(0, '01:00', '04:00'),
+      ]);
+
+      // 02:00 does not exist on Sunday 29 March 2026 in Zurich
+      const slots = await generate('2026-03-29', '2026-03-29');
+
+      expect(slots.map((slot) => slot.startTime)).toEqual(['01:00', '03:00']);
+      expect(slots[1].startsAt).toEqual(new Date('2026-03-29T01:00:00Z'));
+    });
+
+    it('leaves out blocked time and adds extra hours', async () => {
+      prisma.practitionerAvailability.findMany.mockResolvedValue([
+        availability(1, '09:00', '12:00'),
+      ]);
+      prisma.availabilityException.findMany.mockResolvedValue([
+        {
+          type: AvailabilityExceptionType.VACATION,
+          startDate: new Date('2026-10-19T00:00:00Z'),
+          endDate: new Date('2026-10-19T00:00:00Z'),
+          startTime: '10:00',
+          endTime: '11:00',
+          timezone: 'Europe/Zurich',
+        },
+        {
+          type: AvailabilityExceptionType.EXTRA_HOURS,
+          startDate: new Date('2026-10-24T00:00:00Z'),
+          endDate: new Date('2026-10-24T00:00:00Z'),
+          startTime: '14:00',
+          endTime: '15:00',
+          slotDuration: 30,
+          timezone: 'Europe/Zurich',
+        },
+      ]);
+
+      // Monday 19 to Saturday 24 October 2026
+      const slots = await generate('2026-10-19', '2026-10-24');
+
+      expect(
+        slots.map(
+          (slot) => `${slot.date.toISOString().slice(0, 10)} ${slot.startTime}`,
+        ),
+      ).toEqual([
+        '2026-10-19 09:00',
+        '2026-10-19 11:00',
+        '2026-10-24 14:00',
+        '2026-10-24 14:30',
+      ]);
+    });
+
+    it('leaves out slots that already exist', async () => {
+      prisma.practitionerAvailability.findMany.mockResolvedValue([
+        availability(6, '09:00', '11:00'),
+      ]);
+      prisma.timeSlot.findMany.mockResolvedValueOnce([
+        { startsAt: new Date('2026-10-24T07:00:00Z') },
+      ]);
+
+      const slots = await generate('2026-10-24', '2026-10-24');
+
+      expect(slots.map((slot) => slot.startTime)).toEqual(['10:00']);
+    });
+  });
+
+  it("queries available slots by the calendar days of the viewer's timezone", async () => {
+    prisma.timeSlot.findMany = jest.fn().mockResolvedValue([]);
+
+    await service.getAvailableSlots(
+      3,
+      new Date('2030-07-01'),
+      new Date('2030-07-02'),
+      7,
+      'America/New_York',
+    );
+
+    expect(prisma.timeSlot.findMany).toHaveBeenCalledWith({
+      where: {
+        practitionerId: 3,
+        startsAt: {
+          gte: new Date('2030-07-01T04:00:00Z'),
+          lt: new Date('2030-07-03T04:00:00Z'),
+        },
+        ...bookableBy(7),
+      },
+      orderBy: { startsAt: 'asc' },
+    });
+  });
+
+  it('rejects unknown viewer timezones', async () => {
+    await expect(
+      service.getAvailableSlots(3, new Date(), new Date(), 7, 'Mars/Olympus'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('releases expired holds', async () => {
+    prisma.timeSlot.updateMany.mockResolvedValue({ count: 3 });
+
+    await expect(service.releaseExpiredHolds()).resolves.toBe(3);
+    expect(prisma.timeSlot.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: TimeSlotStatus.HELD,
+        heldUntil: { lt: expect.any(Date) },
+      },
+      data: {
+        status: TimeSlotStatus.AVAILABLE,
+        heldById: null,
+        heldUntil: null,
+      },
+    });
+  });
+});
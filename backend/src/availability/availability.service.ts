@@ -4,10 +4,31 @@ import {
   ConflictException,
   BadRequestException,
 } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  AvailabilityExceptionType,
+  Prisma,
+  TimeSlotStatus,
+} from '@prisma/client';
 import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
 import { CreateAvailabilityDto } from './dto/create-availability.dto';
 import { UpdateAvailabilityDto } from './dto/update-availability.dto';
 import { CreateTimeSlotDto } from './dto/time-slot.dto';
+import { isValidTimezone } from '../i18n/i18n.service';
+import {
+  addCalendarDays,
+  dayOfWeek,
+  startOfZonedDay,
+  toZonedParts,
+  zonedTimeToUtc,
+} from '../common/helpers/timezone.helper';
+import {
+  exceptionIntervals,
+  exceptionsAffecting,
+  isBlockingException,
+  overlapsAny,
+} from './availability-exception.service';
 
 // Interface for raw availability data
 interface RawAvailabilityData {
@@ -17,11 +38,18 @@ interface RawAvailabilityData {
   endTime: string;
   slotDuration: number;
   isActive: boolean;
+  timezone?: string;
 }
 
+/** How far ahead slots of deactivated weekdays are removed */
+const DEACTIVATION_HORIZON_DAYS = 90;
+
 @Injectable()
 export class AvailabilityService {
-  constructor(private databaseService: DatabaseService) {}
+  constructor(
+    private databaseService: DatabaseService,
+    private configService: ConfigService,
+  ) {}
 
   async createAvailabilityRaw(data: RawAvailabilityData) {
     try {
@@ -47,6 +75,8 @@ export class AvailabilityService {
       if (typeof data.slotDuration !== 'number' || data.slotDuration < 15 || data.slotDuration > 120) {
         throw new BadRequestException('slotDuration must be between 15 and 120 minutes');
       }
+
+      const timezone = this.availabilityTimezone(data.timezone);
       
       // Check if availability already exists for this day
       const existingAvailability =
@@ -67,6 +97,7 @@ export class AvailabilityService {
             startTime: data.startTime,
             endTime: data.endTime,
             slotDuration: data.slotDuration,
+            timezone,
             isActive: data.isActive
           },
           include: {
@@ -95,6 +126,7 @@ export class AvailabilityService {
           startTime: data.startTime,
           endTime: data.endTime,
           slotDuration: data.slotDuration,
+          timezone,
           isActive: data.isActive
         },
         include: {
@@ -137,7 +169,8 @@ export class AvailabilityService {
         startTime: data.startTime,
         endTime: data.endTime,
         slotDuration: Number(data.slotDuration || 30),
-        isActive: data.isActive !== false
+        isActive: data.isActive !== false,
+        timezone: data.timezone,
       };
       
       return this.createAvailabilityRaw(rawData);
@@ -217,6 +250,12 @@ export class AvailabilityService {
   async update(id: number, updateAvailabilityDto: UpdateAvailabilityDto) {
     await this.findOne(id);
 
+    if (updateAvailabilityDto.timezone !== undefined) {
+      updateAvailabilityDto.timezone = this.availabilityTimezone(
+        updateAvailabilityDto.timezone,
+      );
+    }
+
     return this.databaseService.practitionerAvailability.update({
       where: { id },
       data: updateAvailabilityDto,
@@ -271,6 +310,14 @@ export class AvailabilityService {
         throw new BadRequestException('daysOfWeek must contain integers between 0 and 6');
       }
 
+      // Weekdays are those of the practitioner's calendar
+      const availability = await this.databaseService.practitionerAvailability.findFirst({
+        where: { practitionerId, dayOfWeek: { in: validDays } },
+        orderBy: { updatedAt: 'desc' },
+        select: { timezone: true },
+      });
+      const timezone = availability?.timezone ?? this.configService.defaultTimezone;
+
       // Deactivate availability records in bulk
       const deactivateResult = await this.databaseService.practitionerAvailability.updateMany({
         where: {
@@ -286,16 +333,13 @@ export class AvailabilityService {
 
       // Compute future dates (up to 90 days) that match the provided weekdays
       const datesToDelete: Date[] = [];
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const horizonDays = 90; // match generate-time limit
-      const end = new Date(today.getTime() + horizonDays * 24 * 60 * 60 * 1000);
-
-      for (let d = new Date(today); d <= end; d.setDate(d.getDate() + 1)) {
-        const dow = d.getDay();
-        if (validDays.includes(dow)) {
-          // Use UTC midnight same as generator
-          datesToDelete.push(new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), 0, 0, 0)));
+      const today = toZonedParts(new Date(), timezone).date;
+
+      for (let i = 0; i <= DEACTIVATION_HORIZON_DAYS; i++) {
+        const day = addCalendarDays(today, i);
+        if (validDays.includes(dayOfWeek(day))) {
+          // Slot dates are stored at UTC midnight
+          datesToDelete.push(new Date(`${day}T00:00:00Z`));
         }
       }
 
@@ -305,12 +349,12 @@ export class AvailabilityService {
       let deletedCount = 0;
 
       if (datesToDelete.length > 0) {
-        // Find booked slots that should be skipped
+        // Find booked slots, and slots patients are booking, that should be skipped
         const bookedSlots = await this.databaseService.timeSlot.findMany({
           where: {
             practitionerId,
             date: { in: datesToDelete as any },
-            status: 'BOOKED',
+            status: { in: ['BOOKED', 'HELD'] },
           },
           select: { id: true },
         });
@@ -323,7 +367,7 @@ export class AvailabilityService {
           where: {
             practitionerId,
             date: { in: datesToDelete as any },
-            status: { not: 'BOOKED' },
+            status: { notIn: ['BOOKED', 'HELD'] },
           },
         });
 
@@ -358,6 +402,7 @@ export class AvailabilityService {
         startTime: String(a.startTime || '').trim(),
         endTime: String(a.endTime || '').trim(),
         slotDuration: Number(a.slotDuration || 30),
+        timezone: this.availabilityTimezone(a.timezone),
         isActive: a.isActive === undefined ? true : Boolean(a.isActive)
       })).filter(a => a.practitionerId && !isNaN(a.dayOfWeek));
 
@@ -395,69 +440,87 @@ export class AvailabilityService {
       // Get all active availabilities for this practitioner
       const availabilities = await this.findAllByPractitioner(practitionerId);
       console.log(`Found ${availabilities.length} availability configurations`);
-      
-      if (availabilities.length === 0) {
+
+      // Days are calendar days of the availability's timezone, the instants
+      // of their slots are only computed per day
+      const firstDay = new Date(startDate).toISOString().slice(0, 10);
+      const lastDay = new Date(endDate).toISOString().slice(0, 10);
+
+      const exceptions = await this.databaseService.availabilityException.findMany({
+        where: exceptionsAffecting(
+          practitionerId,
+          new Date(`${firstDay}T00:00:00Z`),
+          new Date(`${lastDay}T00:00:00Z`),
+        ),
+      });
+      const extraHours = exceptions.filter(
+        (exception) => exception.type === AvailabilityExceptionType.EXTRA_HOURS,
+      );
+      const blockedIntervals = exceptions
+        .filter(isBlockingException)
+        .flatMap((exception) => exceptionIntervals(exception));
+      console.log(`Found ${exceptions.length} availability exceptions`);
+
+      if (availabilities.length === 0 && extraHours.length === 0) {
         return [];
       }
       
-      const timeSlots: any[] = [];
-
-      // Create a new date object to avoid mutating the input
-      for (
-        let currentDate = new Date(startDate);
-        currentDate <= endDate;
-        currentDate.setDate(currentDate.getDate() + 1)
-      ) {
-        const dayOfWeek = currentDate.getDay();
+      // Keyed by start, as extra hours may overlap the weekly ones
+      const slotsByStart = new Map<number, any>();
+
+      for (let day = firstDay; day <= lastDay; day = addCalendarDays(day, 1)) {
         const availability = availabilities.find(
-          (a) => a.dayOfWeek === dayOfWeek && a.isActive === true,
+          (a) => a.dayOfWeek === dayOfWeek(day) && a.isActive === true,
         );
-
-        if (availability) {
-          console.log(`Generating slots for ${new Date(currentDate).toISOString().split('T')[0]} (day ${dayOfWeek})`);
-          
-          // Clone the date to avoid mutation
+        const windows = [
+          ...(availability ? [availability] : []),
+          ...extraHours.filter(
+            (exception) =>
+              exception.startDate.toISOString().slice(0, 10) <= day &&
+              exception.endDate.toISOString().slice(0, 10) >= day,
+          ),
+        ];
+
+        for (const window of windows) {
           const slots = this.generateSlotsForDay(
             practitionerId,
-            new Date(currentDate),
-            availability.startTime,
-            availability.endTime,
-            availability.slotDuration,
+            day,
+            window.startTime!,
+            window.endTime!,
+            window.slotDuration ?? 30,
+            window.timezone,
           );
-          
-          console.log(`Generated ${slots.length} slots for ${new Date(currentDate).toISOString().split('T')[0]}`);
-          timeSlots.push(...slots);
+          for (const slot of slots) {
+            if (!overlapsAny(slot, blockedIntervals)) {
+              slotsByStart.set(slot.startsAt.getTime(), slot);
+            }
+          }
         }
       }
 
+      const timeSlots = [...slotsByStart.values()];
       console.log(`Total generated slots: ${timeSlots.length}`);
       
       // Find existing slots to avoid duplicates
-      const existingSlots = await this.databaseService.timeSlot.findMany({
-        where: {
-          practitionerId,
-          date: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-      });
+      const existingSlots = timeSlots.length
+        ? await this.databaseService.timeSlot.findMany({
+            where: {
+              practitionerId,
+              startsAt: { in: timeSlots.map((slot) => slot.startsAt) },
+            },
+            select: { startsAt: true },
+          })
+        : [];
       
       console.log(`Found ${existingSlots.length} existing slots`);
 
-      // Create a set of existing slot keys for efficient lookup
-      const existingSlotKeys = new Set(
-        existingSlots.map(
-          (slot) => `${slot.date.toISOString().split('T')[0]}_${slot.startTime}`,
-        ),
+      const existingStarts = new Set(
+        existingSlots.map((slot) => slot.startsAt.getTime()),
       );
 
       // Filter out slots that already exist
       const newSlots = timeSlots.filter(
-        (slot: any) => {
-          const key = `${slot.date.toISOString().split('T')[0]}_${slot.startTime}`;
-          return !existingSlotKeys.has(key);
-        }
+        (slot: any) => !existingStarts.has(slot.startsAt.getTime()),
       );
       
       console.log(`New slots to be created: ${newSlots.length}`);
@@ -470,19 +533,29 @@ export class AvailabilityService {
       }
 
       // Return all slots for the date range
-      return this.getPractitionerSlots(practitionerId, startDate, endDate);
+      return this.getPractitionerSlots(
+        practitionerId,
+        startDate,
+        endDate,
+        (availabilities[0] ?? extraHours[0]).timezone,
+      );
     } catch (error) {
       console.error('Error generating time slots:', error);
       throw error;
     }
   }
 
+  /**
+   * Slots of one calendar day (YYYY-MM-DD) with wall-clock times in
+   * `timezone`. Start times skipped by a daylight saving change have no slot.
+   */
   private generateSlotsForDay(
     practitionerId: number,
-    date: Date,
+    day: string,
     startTime: string,
     endTime: string,
     slotDuration: number,
+    timezone: string,
   ): any[] {
     try {
       const slots: any[] = [];
@@ -506,9 +579,6 @@ export class AvailabilityService {
         return [];
       }
       
-      console.log(`Generating slots for day: ${date.toISOString().split('T')[0]}, ` +
-                  `startTime: ${startTime}, endTime: ${endTime}, duration: ${slotDuration}min`);
-      
       // Generate slots until we reach or exceed end time
       while (currentTime + slotDuration <= endTimeMinutes) {
         const slotStartHour = Math.floor(currentTime / 60);
@@ -521,24 +591,27 @@ export class AvailabilityService {
         const formattedStartTime = `${slotStartHour.toString().padStart(2, '0')}:${slotStartMinute.toString().padStart(2, '0')}`;
         const formattedEndTime = `${slotEndHour.toString().padStart(2, '0')}:${slotEndMinute.toString().padStart(2, '0')}`;
         
-        // Create UTC date at midnight for consistent storage
-        const slotDate = new Date(
-          Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 0, 0, 0)
-        );
-        
-        slots.push({
-          practitionerId,
-          date: slotDate,
-          startTime: formattedStartTime,
-          endTime: formattedEndTime,
-          status: 'AVAILABLE',
-        });
+        const startsAt = zonedTimeToUtc(day, formattedStartTime, timezone);
+        if (startsAt) {
+          slots.push({
+            practitionerId,
+            // Calendar date at UTC midnight for consistent storage
+            date: new Date(`${day}T00:00:00Z`),
+            startTime: formattedStartTime,
+            endTime: formattedEndTime,
+            startsAt,
+            endsAt: new Date(startsAt.getTime() + slotDuration * 60 * 1000),
+            timezone,
+            status: 'AVAILABLE',
+          });
+        } else {
+          console.log(`Skipping ${day} ${formattedStartTime} (${timezone}): not a wall-clock time on that day`);
+        }
 
         // Move to next slot start time
         currentTime += slotDuration;
       }
 
-      console.log(`Generated ${slots.length} slots for ${date.toISOString().split('T')[0]}`);
       return slots;
     } catch (error) {
       console.error('Error generating slots for day:', error);
@@ -546,49 +619,32 @@ export class AvailabilityService {
     }
   }
 
+  /**
+   * Slots a patient can book between two calendar days of the viewer's
+   * timezone, UTC when not given. Past slots are left out.
+   */
   async getAvailableSlots(
     practitionerId: number,
     startDate: Date,
     endDate: Date,
+    userId?: number,
+    timezone?: string,
   ) {
+    const range = this.dayRange(startDate, endDate, this.viewerTimezone(timezone));
     try {
-      const start = new Date(startDate);
-      start.setUTCHours(0, 0, 0, 0);
-  
-      const end = new Date(endDate);
-      end.setUTCHours(23, 59, 59, 999);
-  
-      // Get the current date and time to filter out past slots
       const now = new Date();
-      const currentDate = new Date();
-      currentDate.setHours(0, 0, 0, 0);
   
       return this.databaseService.timeSlot.findMany({
         where: {
           practitionerId,
-          date: {
-            gte: start,
-            lte: end,
+          startsAt: {
+            gte: range.gte > now ? range.gte : now,
+            lt: range.lt,
           },
-          OR: [
-            {
-              // Future dates
-              date: {
-                gt: currentDate
-              }
-            },
-            {
-              // Today but future time
-              date: {
-                equals: currentDate
-              },
-              startTime: {
-                gt: `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
-              }
-            }
-          ]
+          // Slots held by other patients are back once their hold expires
+          ...this.bookableBy(userId),
         },
-        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+        orderBy: { startsAt: 'asc' },
       });
     } catch (error) {
       console.error('Error getting available slots:', error);
@@ -596,59 +652,42 @@ export class AvailabilityService {
     }
   }
   
+  /**
+   * Every slot of a practitioner between two calendar days of the viewer's
+   * timezone, by default from today for 30 days.
+   */
   async getPractitionerSlots(
     practitionerId: number,
     startDate?: Date,
     endDate?: Date,
+    timezone?: string,
   ) {
+    const zone = this.viewerTimezone(timezone);
     try {
-      console.log(`[getPractitionerSlots] Called with practitioner ${practitionerId}, startDate: ${startDate}, endDate: ${endDate}`);
+      console.log(`[getPractitionerSlots] Called with practitioner ${practitionerId}, startDate: ${startDate}, endDate: ${endDate}, timezone: ${zone}`);
       
       // If dates are missing or invalid, provide sensible defaults
-      const now = new Date();
-      console.log(`[getPractitionerSlots] Current time: ${now.toISOString()} (${now.toDateString()})`);
-      
+      const today = toZonedParts(new Date(), zone).date;
       const start = startDate && !isNaN(new Date(startDate).getTime())
         ? new Date(startDate)
-        : new Date(now);
-        
-      // DON'T set hours to 0 UTC as this might exclude current day in some timezones
-      // Instead, use local date comparison
-      start.setHours(0, 0, 0, 0);
-      console.log(`[getPractitionerSlots] Start date before UTC conversion: ${start.toISOString()} (local: ${start.toDateString()})`);
-
-      const defaultEnd = new Date(start.getTime() + 30 * 24 * 60 * 60 * 1000);
+        : new Date(`${today}T00:00:00Z`);
       const end = endDate && !isNaN(new Date(endDate).getTime())
         ? new Date(endDate)
-        : defaultEnd;
-      // Set to end of day
-      end.setHours(23, 59, 59, 999);
-      console.log(`[getPractitionerSlots] End date before UTC conversion: ${end.toISOString()} (local: ${end.toDateString()})`);
+        : new Date(start.getTime() + 30 * 24 * 60 * 60 * 1000);
+      const range = this.dayRange(start, end, zone);
 
-      console.log(`[getPractitionerSlots] Final date range for DB query: ${start.toISOString()} to ${end.toISOString()}`);
-      console.log(`[getPractitionerSlots] Local dates: ${start.toDateString()} to ${end.toDateString()}`);
+      console.log(`[getPractitionerSlots] Final range for DB query: ${range.gte.toISOString()} to ${range.lt.toISOString()}`);
 
       // Get all slots regardless of status
       const slots = await this.databaseService.timeSlot.findMany({
         where: {
           practitionerId,
-          date: {
-            gte: start,
-            lte: end,
-          },
+          startsAt: range,
         },
-        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+        orderBy: { startsAt: 'asc' },
       });
       
       console.log(`[getPractitionerSlots] Found ${slots.length} slots in database for practitioner ${practitionerId}`);
-      if (slots.length > 0) {
-        console.log(`[getPractitionerSlots] Sample slots:`, slots.slice(0, 3).map(s => ({
-          id: s.id,
-          date: s.date,
-          startTime: s.startTime,
-          status: s.status
-        })));
-      }
       
       return slots;
     } catch (error) {
@@ -665,7 +704,7 @@ export class AvailabilityService {
         where: {
           practitionerId,
         },
-        orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+        orderBy: { startsAt: 'asc' },
       });
       
       console.log(`[DEBUG] Found ${slots.length} total slots in database for practitioner ${practitionerId}`);
@@ -676,26 +715,78 @@ export class AvailabilityService {
     }
   }
 
-  async bookTimeSlot(timeSlotId: number, consultationId: number) {
-    const timeSlot = await this.databaseService.timeSlot.findUnique({
-      where: { id: timeSlotId },
+  /**
+   * Reserves a free slot for `userId` while they complete the booking. Holding
+   * a slot the user already holds extends the hold. A user holds one slot at
+   * a time, so their other holds are released along with the new one.
+   */
+  async holdTimeSlot(timeSlotId: number, userId: number) {
+    const heldUntil = new Date(
+      Date.now() + this.configService.slotHoldMinutes * 60 * 1000,
+    );
+    return this.databaseService.$transaction(async (tx) => {
+      const { count } = await tx.timeSlot.updateMany({
+        where: { id: timeSlotId, ...this.bookableBy(userId) },
+        data: { status: TimeSlotStatus.HELD, heldById: userId, heldUntil },
+      });
+      if (count === 0) {
+        await this.throwUnavailable(timeSlotId, tx);
+      }
+      await tx.timeSlot.updateMany({
+        where: { id: { not: timeSlotId }, status: TimeSlotStatus.HELD, heldById: userId },
+        data: { status: TimeSlotStatus.AVAILABLE, heldById: null, heldUntil: null },
+      });
+
+      return tx.timeSlot.findUnique({ where: { id: timeSlotId } });
     });
+  }
 
-    if (!timeSlot) {
-      throw new NotFoundException('Time slot not found');
-    }
+  async releaseHold(timeSlotId: number, userId: number) {
+    const { count } = await this.databaseService.timeSlot.updateMany({
+      where: { id: timeSlotId, status: TimeSlotStatus.HELD, heldById: userId },
+      data: { status: TimeSlotStatus.AVAILABLE, heldById: null, heldUntil: null },
+    });
+    return { released: count > 0 };
+  }
 
-    if (timeSlot.status !== 'AVAILABLE') {
-      throw new ConflictException('Time slot is not available');
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpiredHolds() {
+    const { count } = await this.databaseService.timeSlot.updateMany({
+      where: { status: TimeSlotStatus.HELD, heldUntil: { lt: new Date() } },
+      data: { status: TimeSlotStatus.AVAILABLE, heldById: null, heldUntil: null },
+    });
+    if (count > 0) {
+      console.log(`[releaseExpiredHolds] released ${count} expired slot holds`);
     }
+    return count;
+  }
 
-    return this.databaseService.timeSlot.update({
-      where: { id: timeSlotId },
+  /**
+   * Books a slot that is free or held by `userId`. The check and the update
+   * are one conditional statement, so of two concurrent bookings only one
+   * matches; pass the transaction the consultation is created in to roll it
+   * back with the conflict.
+   */
+  async bookTimeSlot(
+    timeSlotId: number,
+    consultationId: number,
+    userId?: number,
+    db: Prisma.TransactionClient = this.databaseService,
+  ) {
+    const { count } = await db.timeSlot.updateMany({
+      where: { id: timeSlotId, ...this.bookableBy(userId) },
       data: {
-        status: 'BOOKED',
+        status: TimeSlotStatus.BOOKED,
         consultationId,
+        heldById: null,
+        heldUntil: null,
       },
     });
+    if (count === 0) {
+      await this.throwUnavailable(timeSlotId, db);
+    }
+
+    return db.timeSlot.findUnique({ where: { id: timeSlotId } });
   }
 
   async releaseTimeSlot(timeSlotId: number) {
@@ -704,10 +795,79 @@ export class AvailabilityService {
       data: {
         status: 'AVAILABLE',
         consultationId: null,
+        heldById: null,
+        heldUntil: null,
       },
     });
   }
 
+  private isHeld(timeSlot: { status: string; heldUntil: Date | null }) {
+    return (
+      timeSlot.status === TimeSlotStatus.HELD &&
+      !!timeSlot.heldUntil &&
+      timeSlot.heldUntil > new Date()
+    );
+  }
+
+  /** Timezone of new availability, the default one when not given */
+  private availabilityTimezone(timezone?: string | null): string {
+    if (!timezone) {
+      return this.configService.defaultTimezone;
+    }
+    if (!isValidTimezone(timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+    return timezone;
+  }
+
+  /** Timezone dates of slot queries are calendar days in, UTC by default */
+  private viewerTimezone(timezone?: string | null): string {
+    if (!timezone) {
+      return 'UTC';
+    }
+    if (!isValidTimezone(timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+    return timezone;
+  }
+
+  /** Instants from the start of `startDate` to the end of `endDate` in the timezone */
+  private dayRange(startDate: Date, endDate: Date, timezone: string) {
+    const firstDay = new Date(startDate).toISOString().slice(0, 10);
+    const lastDay = new Date(endDate).toISOString().slice(0, 10);
+    return {
+      gte: startOfZonedDay(firstDay, timezone),
+      lt: startOfZonedDay(addCalendarDays(lastDay, 1), timezone),
+    };
+  }
+
+  /** Slots that are free, held past their expiry or held by `userId` */
+  private bookableBy(userId?: number): Prisma.TimeSlotWhereInput {
+    return {
+      OR: [
+        { status: TimeSlotStatus.AVAILABLE },
+        { status: TimeSlotStatus.HELD, heldUntil: { lt: new Date() } },
+        ...(userId ? [{ status: TimeSlotStatus.HELD, heldById: userId }] : []),
+      ],
+    };
+  }
+
+  private async throwUnavailable(
+    timeSlotId: number,
+    db: Prisma.TransactionClient,
+  ): Promise<never> {
+    const timeSlot = await db.timeSlot.findUnique({
+      where: { id: timeSlotId },
+      select: { id: true },
+    });
+    if (!timeSlot) {
+      throw new NotFoundException('Time slot not found');
+    }
+    throw new ConflictException(
+      'This time slot was just taken. Please choose another one.',
+    );
+  }
+
   async updateSlotStatus(slotId: number, status: 'AVAILABLE' | 'BLOCKED', practitionerId: number) {
     // First check if the slot belongs to this practitioner
     const timeSlot = await this.databaseService.timeSlot.findFirst({
@@ -725,6 +885,10 @@ export class AvailabilityService {
       throw new ConflictException('Cannot modify a booked time slot');
     }
 
+    if (this.isHeld(timeSlot)) {
+      throw new ConflictException('Cannot modify a time slot a patient is booking');
+    }
+
     return this.databaseService.timeSlot.update({
       where: { id: slotId },
       data: { status },
@@ -748,6 +912,10 @@ export class AvailabilityService {
       throw new ConflictException('Cannot delete a booked time slot');
     }
 
+    if (this.isHeld(timeSlot)) {
+      throw new ConflictException('Cannot delete a time slot a patient is booking');
+    }
+
     // Delete the time slot
     return this.databaseService.timeSlot.delete({
       where: { id: slotId },
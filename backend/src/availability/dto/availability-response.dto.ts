@@ -19,6 +19,9 @@ export class AvailabilityResponseDto {
   @ApiProperty()
   slotDuration: number;
 
+  @ApiProperty({ example: 'Europe/Zurich' })
+  timezone: string;
+
   @ApiProperty()
   isActive: boolean;
 
@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { AvailabilityExceptionType } from '@prisma/client';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateAvailabilityExceptionDto {
+  @ApiProperty({ enum: AvailabilityExceptionType })
+  @IsEnum(AvailabilityExceptionType)
+  type: AvailabilityExceptionType;
+
+  @ApiPropertyOptional({
+    description:
+      'Practitioner the exception is for, the current user when omitted. Admins only',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  practitionerId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Organization whose practitioners all get the exception, e.g. for public holidays. Admins only',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  organizationId?: number;
+
+  @ApiProperty({ description: 'First day, YYYY-MM-DD', example: '2026-12-24' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day, YYYY-MM-DD', example: '2026-12-26' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Start of the window on each day, the whole day when omitted. Required for extra hours',
+    example: '09:00',
+  })
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'startTime must be HH:mm' })
+  startTime?: string;
+
+  @ApiPropertyOptional({ example: '12:00' })
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'endTime must be HH:mm' })
+  endTime?: string;
+
+  @ApiPropertyOptional({
+    description: 'Length of the slots of extra hours in minutes',
+    default: 30,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(15)
+  @Max(120)
+  slotDuration?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA timezone of the days and times, the default timezone when omitted',
+    example: 'Europe/Zurich',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ example: 'Christmas' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  reason?: string;
+}
@@ -52,6 +52,16 @@ export class CreateAvailabilityDto {
   @Max(120)
   slotDuration: number = 30;
 
+  @ApiProperty({
+    required: false,
+    description:
+      'IANA timezone of the start and end times, the default timezone when omitted',
+    example: 'Europe/Zurich',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
   @ApiProperty()
   @IsOptional()
   @IsBoolean()
@@ -11,6 +11,7 @@ import { Transform } from 'class-transformer';
 
 export enum TimeSlotStatus {
   AVAILABLE = 'AVAILABLE',
+  HELD = 'HELD',
   BOOKED = 'BOOKED',
   BLOCKED = 'BLOCKED',
 }
@@ -58,12 +59,27 @@ export class TimeSlotResponseDto {
   @ApiProperty()
   endTime: string;
 
+  @ApiProperty({ description: 'Start of the slot as an instant' })
+  startsAt: Date;
+
+  @ApiProperty({ description: 'End of the slot as an instant' })
+  endsAt: Date;
+
+  @ApiProperty({
+    description: 'IANA timezone of the date, start and end times',
+    example: 'Europe/Zurich',
+  })
+  timezone: string;
+
   @ApiProperty()
   status: TimeSlotStatus;
 
   @ApiProperty()
   consultationId?: number;
 
+  @ApiProperty({ required: false, description: 'End of the hold of a HELD slot' })
+  heldUntil?: Date;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -87,4 +103,12 @@ export class GetAvailableSlotsDto {
   @IsNotEmpty()
   @IsDateString()
   endDate: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'IANA timezone the dates are calendar days in, UTC by default',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
 }
@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { UserRole } from '@prisma/client';
+import { Response } from 'express';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { CalendarFeedService } from './calendar-feed.service';
+
+@ApiTags('calendar')
+@Controller('calendar')
+export class CalendarFeedController {
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  // Fetched by calendar apps, which authenticate with the token in the
+  // address; written directly so the response interceptor does not wrap it
+  @Get('feed/:token.ics')
+  @SkipThrottle()
+  @ApiOperation({ summary: "A practitioner's consultations as iCalendar feed" })
+  @ApiResponse({ status: 200, description: 'text/calendar document' })
+  @ApiResponse({ status: 404, description: 'Unknown or rotated feed address' })
+  async getFeed(@Param('token') token: string, @Res() res: Response) {
+    const ical = await this.calendarFeedService.renderFeed(token);
+    res
+      .type('text/calendar; charset=utf-8')
+      .set('Cache-Control', 'private, no-cache')
+      .send(ical);
+  }
+
+  @Get('feed')
+  @ApiBearerAuth()
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(UserRole.PRACTITIONER)
+  @ApiOperation({ summary: 'Address of the own calendar feed, if any' })
+  async getOwnFeed(@Req() req) {
+    const feed = await this.calendarFeedService.getFeed(req.user.id);
+    return ApiResponseDto.success(
+      feed,
+      'Calendar feed retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post('feed')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(UserRole.PRACTITIONER)
+  @ApiOperation({
+    summary: 'Create the own calendar feed, or move it to a new secret address',
+  })
+  async rotateFeed(@Req() req) {
+    const feed = await this.calendarFeedService.rotateFeed(req.user.id);
+    return ApiResponseDto.success(
+      feed,
+      'Calendar feed address created successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Delete('feed')
+  @ApiBearerAuth()
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(UserRole.PRACTITIONER)
+  @ApiOperation({ summary: 'Turn the own calendar feed off' })
+  async revokeFeed(@Req() req) {
+    await this.calendarFeedService.revokeFeed(req.user.id);
+    return ApiResponseDto.success(
+      null,
+      'Calendar feed revoked successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { AuthModule } from '../auth/auth.module';
+import { CalendarModule } from './calendar.module';
+import { CalendarFeedController } from './calendar-feed.controller';
+import { CalendarFeedService } from './calendar-feed.service';
+
+@Module({
+  imports: [DatabaseModule, ConfigModule, AuthModule, CalendarModule],
+  controllers: [CalendarFeedController],
+  providers: [CalendarFeedService],
+})
+export class CalendarFeedModule {}
@@ -0,0 +1,105 @@
+import { UserRole } from '@prisma/client';
+import { CalendarFeedService } from './calendar-feed.service';
+
+jest.mock('../config/config.service', () => ({ ConfigService: class {} }));
+jest.mock('./consultation-calendar.service', () => ({
+  ConsultationCalendarService: class {},
+}));
+
+describe('CalendarFeedService', () => {
+  const now = new Date('2030-03-04T12:00:00Z');
+  const feed = {
+    id: 5,
+    userId: 3,
+    token: 'a'.repeat(64),
+    createdAt: now,
+    updatedAt: now,
+    lastAccessedAt: null,
+    user: { role: UserRole.PRACTITIONER },
+  };
+
+  let prisma: any;
+  let consultationCalendarService: { practitionerEvents: jest.Mock };
+  let service: CalendarFeedService;
+
+  beforeEach(() => {
+    prisma = {
+      calendarFeed: {
+        findUnique: jest.fn().mockResolvedValue(feed),
+        upsert: jest.fn(({ create }) =>
+          Promise.resolve({ ...feed, ...create }),
+        ),
+        update: jest.fn().mockResolvedValue(feed),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    consultationCalendarService = {
+      practitionerEvents: jest.fn().mockResolvedValue([
+        {
+          uid: 'consultation-42@api.example.com',
+          sequence: 1,
+          startsAt: new Date('2030-03-05T09:00:00Z'),
+          endsAt: new Date('2030-03-05T09:30:00Z'),
+          summary: 'Consultation #42',
+        },
+      ]),
+    };
+    service = new CalendarFeedService(
+      prisma,
+      {
+        calendarFeedBaseUrl: 'https://api.example.com/api/v1/calendar/feed',
+      } as any,
+      consultationCalendarService as any,
+    );
+  });
+
+  it('publishes the practitioner events of the last month and next year', async () => {
+    const ics = await service.renderFeed(feed.token, now);
+
+    expect(consultationCalendarService.practitionerEvents).toHaveBeenCalledWith(
+      3,
+      new Date('2030-02-02T12:00:00Z'),
+      new Date('2031-03-04T12:00:00Z'),
+    );
+    expect(ics).toContain('METHOD:PUBLISH\r\n');
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M\r\n');
+    expect(ics).toContain('UID:consultation-42@api.example.com\r\n');
+    expect(prisma.calendarFeed.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { lastAccessedAt: now },
+    });
+  });
+
+  it('does not know unknown tokens', async () => {
+    prisma.calendarFeed.findUnique.mockResolvedValue(null);
+
+    await expect(service.renderFeed('unknown', now)).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(
+      consultationCalendarService.practitionerEvents,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('closes the feed of users who are no longer practitioners', async () => {
+    prisma.calendarFeed.findUnique.mockResolvedValue({
+      ...feed,
+      user: { role: UserRole.PATIENT },
+    });
+
+    await expect(service.renderFeed(feed.token, now)).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('moves the feed to a new secret address', async () => {
+    const info = await service.rotateFeed(3);
+
+    const [{ create, update }] = prisma.calendarFeed.upsert.mock.calls[0];
+    expect(create.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(update).toEqual({ token: create.token, lastAccessedAt: null });
+    expect(info.url).toBe(
+      `https://api.example.com/api/v1/calendar/feed/${create.token}.ics`,
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { buildIcal } from '../common/helpers/ical.helper';
+import { ConsultationCalendarService } from './consultation-calendar.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Past consultations stay in the feed for this many days */
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+/** How often subscribed calendars are asked to fetch the feed again */
+const FEED_REFRESH_MINUTES = 60;
+
+export interface CalendarFeedInfo {
+  url: string;
+  createdAt: Date;
+  updatedAt: Date;
+  lastAccessedAt: Date | null;
+}
+
+/**
+ * Practitioners' iCalendar subscriptions. Calendar apps cannot send a bearer
+ * token, so the feed's address holds a secret token instead; rotating it
+ * locks out every calendar subscribed to the old address.
+ */
+@Injectable()
+export class CalendarFeedService {
+  private readonly logger = new Logger(CalendarFeedService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly consultationCalendarService: ConsultationCalendarService,
+  ) {}
+
+  async getFeed(userId: number): Promise<CalendarFeedInfo | null> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { userId },
+    });
+    return feed ? this.toInfo(feed) : null;
+  }
+
+  /** Creates the practitioner's feed, or gives it a new address */
+  async rotateFeed(userId: number): Promise<CalendarFeedInfo> {
+    const token = randomBytes(32).toString('hex');
+    const feed = await this.prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, token },
+      update: { token, lastAccessedAt: null },
+    });
+    this.logger.log(`Calendar feed address of user ${userId} rotated`);
+    return this.toInfo(feed);
+  }
+
+  async revokeFeed(userId: number): Promise<void> {
+    await this.prisma.calendarFeed.deleteMany({ where: { userId } });
+    this.logger.log(`Calendar feed of user ${userId} revoked`);
+  }
+
+  /** The feed's iCalendar document, for calendars subscribed to its address */
+  async renderFeed(token: string, now = new Date()): Promise<string> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { token },
+      include: { user: { select: { role: true } } },
+    });
+    // Users who are no longer practitioners lose their feed too
+    if (!feed || feed.user.role !== UserRole.PRACTITIONER) {
+      throw HttpExceptionHelper.notFound('Calendar feed not found');
+    }
+
+    const events = await this.consultationCalendarService.practitionerEvents(
+      feed.userId,
+      new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+      new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS),
+    );
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: now },
+    });
+
+    return buildIcal(
+      {
+        method: 'PUBLISH',
+        name: 'HCW-Home consultations',
+        refreshMinutes: FEED_REFRESH_MINUTES,
+        events,
+      },
+      now,
+    );
+  }
+
+  private toInfo(feed: {
+    token: string;
+    createdAt: Date;
+    updatedAt: Date;
+    lastAccessedAt: Date | null;
+  }): CalendarFeedInfo {
+    return {
+      url: `${this.configService.calendarFeedBaseUrl}/${feed.token}.ics`,
+      createdAt: feed.createdAt,
+      updatedAt: feed.updatedAt,
+      lastAccessedAt: feed.lastAccessedAt,
+    };
+  }
+}
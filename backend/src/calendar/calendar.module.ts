@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { ConsultationCalendarService } from './consultation-calendar.service';
+
+// Only the events, so EmailModule can import it; the feeds need AuthModule,
+// which imports EmailModule itself, and live in CalendarFeedModule
+@Module({
+  imports: [DatabaseModule, ConfigModule],
+  providers: [ConsultationCalendarService],
+  exports: [ConsultationCalendarService],
+})
+export class CalendarModule {}
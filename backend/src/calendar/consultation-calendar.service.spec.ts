@@ -0,0 +1,158 @@
+import { ConsultationStatus } from '@prisma/client';
+import { ConsultationCalendarService } from './consultation-calendar.service';
+
+jest.mock('../config/config.service', () => ({ ConfigService: class {} }));
+
+describe('ConsultationCalendarService', () => {
+  const jane = {
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+  };
+  const doctor = {
+    firstName: 'John',
+    lastName: 'Smith, MD',
+    email: 'john@example.com',
+  };
+  const consultation = {
+    id: 42,
+    version: 3,
+    status: ConsultationStatus.SCHEDULED,
+    scheduledDate: new Date('2030-03-04T14:30:00Z'),
+    timeSlot: {
+      startsAt: new Date('2030-03-04T14:30:00Z'),
+      endsAt: new Date('2030-03-04T15:15:00Z'),
+    },
+    owner: doctor,
+    participants: [{ user: jane }],
+  };
+
+  let prisma: any;
+  let service: ConsultationCalendarService;
+
+  const lines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+  beforeEach(() => {
+    prisma = {
+      consultation: {
+        findUnique: jest.fn().mockResolvedValue(consultation),
+        findMany: jest.fn().mockResolvedValue([consultation]),
+      },
+      timeSlot: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    service = new ConsultationCalendarService(prisma, {
+      backendApiBaseUrl: 'https://api.example.com',
+      emailSenderAddress: 'care@example.com',
+      practitionerUrl: 'https://practitioner.example.com',
+    } as any);
+  });
+
+  describe('emailAttachment', () => {
+    it('invites to the booked slot with the version as sequence', async () => {
+      const invite = await service.emailAttachment(42);
+
+      expect(invite).toEqual(
+        expect.objectContaining({
+          filename: 'invite.ics',
+          type: 'text/calendar; charset=UTF-8; method=REQUEST',
+        }),
+      );
+      const ics = invite!.content.toString('utf8');
+      expect(ics.endsWith('\r\n')).toBe(true);
+      expect(ics.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+      expect(lines(ics)).toEqual(
+        expect.arrayContaining([
+          'METHOD:REQUEST',
+          'UID:consultation-42@api.example.com',
+          'SEQUENCE:3',
+          'DTSTART:20300304T143000Z',
+          'DTEND:20300304T151500Z',
+          'SUMMARY:Consultation with John Smith\\, MD',
+          'STATUS:CONFIRMED',
+          'ORGANIZER;CN="John Smith, MD":mailto:care@example.com',
+          'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE;CN=Jane Doe:mailto:jane@example.com',
+        ]),
+      );
+    });
+
+    it('cancels the event of cancelled consultations', async () => {
+      prisma.consultation.findUnique.mockResolvedValue({
+        ...consultation,
+        version: 4,
+        status: ConsultationStatus.CANCELLED,
+      });
+
+      const invite = await service.emailAttachment(42);
+
+      expect(invite!.filename).toBe('cancel.ics');
+      expect(lines(invite!.content.toString('utf8'))).toEqual(
+        expect.arrayContaining([
+          'METHOD:CANCEL',
+          'SEQUENCE:4',
+          'STATUS:CANCELLED',
+        ]),
+      );
+    });
+
+    it('lasts the default duration without a time slot', async () => {
+      prisma.consultation.findUnique.mockResolvedValue({
+        ...consultation,
+        timeSlot: null,
+      });
+
+      const invite = await service.emailAttachment(42);
+
+      expect(lines(invite!.content.toString('utf8'))).toContain(
+        'DTEND:20300304T150000Z',
+      );
+    });
+
+    it('has no invite for consultations without a date', async () => {
+      prisma.consultation.findUnique.mockResolvedValue({
+        ...consultation,
+        scheduledDate: null,
+      });
+
+      await expect(service.emailAttachment(42)).resolves.toBeNull();
+    });
+  });
+
+  describe('practitionerEvents', () => {
+    it('leaves patients out and lists each appointment once', async () => {
+      prisma.timeSlot.findMany.mockResolvedValue([
+        {
+          id: 8,
+          consultationId: 42,
+          startsAt: consultation.timeSlot.startsAt,
+          endsAt: consultation.timeSlot.endsAt,
+          updatedAt: new Date('2030-03-01T08:00:00Z'),
+        },
+        {
+          id: 9,
+          consultationId: null,
+          startsAt: new Date('2030-03-04T09:00:00Z'),
+          endsAt: new Date('2030-03-04T09:30:00Z'),
+          updatedAt: new Date('2030-03-01T08:00:00Z'),
+        },
+      ]);
+
+      const events = await service.practitionerEvents(
+        3,
+        new Date('2030-03-01T00:00:00Z'),
+        new Date('2030-04-01T00:00:00Z'),
+      );
+
+      expect(events.map((event) => event.uid)).toEqual([
+        'timeslot-9@api.example.com',
+        'consultation-42@api.example.com',
+      ]);
+      expect(events[1]).toEqual(
+        expect.objectContaining({
+          summary: 'Consultation #42',
+          url: 'https://practitioner.example.com',
+        }),
+      );
+      expect(events[1].attendees).toBeUndefined();
+    });
+  });
+});
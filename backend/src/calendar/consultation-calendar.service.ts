@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { ConsultationStatus, Prisma, TimeSlotStatus } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import {
+  buildIcal,
+  IcalEvent,
+  IcalMethod,
+  IcalPerson,
+} from '../common/helpers/ical.helper';
+import { EmailAttachment } from '../common/email/transports/email-transport.interface';
+
+/** Length of consultations booked without a time slot */
+const DEFAULT_DURATION_MINUTES = 30;
+
+/** Consultations a practitioner's calendar shows, cancelled ones included */
+const CALENDAR_STATUSES = [
+  ConsultationStatus.SCHEDULED,
+  ConsultationStatus.WAITING,
+  ConsultationStatus.ACTIVE,
+  ConsultationStatus.CANCELLED,
+];
+
+const personSelect = {
+  select: { firstName: true, lastName: true, email: true },
+} as const;
+
+const consultationInclude = {
+  timeSlot: { select: { startsAt: true, endsAt: true } },
+  owner: personSelect,
+  participants: { include: { user: personSelect } },
+} satisfies Prisma.ConsultationInclude;
+
+type CalendarConsultation = Prisma.ConsultationGetPayload<{
+  include: typeof consultationInclude;
+}>;
+
+type Person = { firstName: string; lastName: string; email: string };
+
+/**
+ * Calendar events of consultations, for the .ics files of emails and the
+ * practitioners' subscription feeds. The consultation's version is the
+ * event's sequence, so calendars replace an earlier invite once the
+ * consultation is moved or cancelled.
+ */
+@Injectable()
+export class ConsultationCalendarService {
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Invite to attach to an email about the consultation: a request, or a
+   * cancellation once it is cancelled. Null while it has no date.
+   */
+  async emailAttachment(
+    consultationId: number,
+  ): Promise<EmailAttachment | null> {
+    const consultation = await this.prisma.consultation.findUnique({
+      where: { id: consultationId },
+      include: consultationInclude,
+    });
+    if (!consultation?.scheduledDate) {
+      return null;
+    }
+
+    const owner = consultation.owner ? fullName(consultation.owner) : null;
+    const event = this.toEvent(consultation, {
+      summary: owner
+        ? `Consultation with ${owner}`
+        : `Consultation #${consultation.id}`,
+      organizer: {
+        email: this.configService.emailSenderAddress,
+        name: owner ?? undefined,
+      },
+      attendees: consultation.participants
+        .filter(({ user }) => !!user.email)
+        .map(({ user }) => toPerson(user)),
+    });
+    const method: IcalMethod =
+      event.status === 'CANCELLED' ? 'CANCEL' : 'REQUEST';
+
+    return {
+      filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+      type: `text/calendar; charset=UTF-8; method=${method}`,
+      content: Buffer.from(buildIcal({ method, events: [event] }), 'utf8'),
+    };
+  }
+
+  /**
+   * Events of the practitioner's consultations and booked slots between the
+   * dates. Patients are left out of the events, which end up in calendars
+   * outside the platform.
+   */
+  async practitionerEvents(
+    practitionerId: number,
+    from: Date,
+    to: Date,
+  ): Promise<IcalEvent[]> {
+    const [consultations, bookedSlots] = await Promise.all([
+      this.prisma.consultation.findMany({
+        where: {
+          ownerId: practitionerId,
+          isDeleted: false,
+          status: { in: CALENDAR_STATUSES },
+          scheduledDate: { gte: from, lt: to },
+        },
+        include: consultationInclude,
+        orderBy: { scheduledDate: 'asc' },
+      }),
+      this.prisma.timeSlot.findMany({
+        where: {
+          practitionerId,
+          status: TimeSlotStatus.BOOKED,
+          startsAt: { gte: from, lt: to },
+        },
+        orderBy: { startsAt: 'asc' },
+      }),
+    ]);
+
+    const url = this.configService.practitionerUrl || undefined;
+    const events = consultations.map((consultation) =>
+      this.toEvent(consultation, {
+        summary: `Consultation #${consultation.id}`,
+        url,
+      }),
+    );
+    // Slots of listed consultations would show the same appointment twice
+    const listed = new Set(
+      consultations.map((consultation) => consultation.id),
+    );
+    const slotEvents = bookedSlots
+      .filter(
+        (slot) => !slot.consultationId || !listed.has(slot.consultationId),
+      )
+      .map((slot): IcalEvent => ({
+        uid: this.uid('timeslot', slot.id),
+        sequence: 0,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+        summary: 'Booked time slot',
+        url,
+        updatedAt: slot.updatedAt,
+      }));
+
+    return [...events, ...slotEvents].sort(
+      (a, b) => a.startsAt.getTime() - b.startsAt.getTime(),
+    );
+  }
+
+  private toEvent(
+    consultation: CalendarConsultation,
+    details: Pick<IcalEvent, 'summary' | 'url' | 'organizer' | 'attendees'>,
+  ): IcalEvent {
+    // The booked slot knows the length of the consultation
+    const startsAt =
+      consultation.timeSlot?.startsAt ?? consultation.scheduledDate!;
+    const endsAt =
+      consultation.timeSlot?.endsAt ??
+      new Date(startsAt.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000);
+    return {
+      uid: this.uid('consultation', consultation.id),
+      sequence: consultation.version,
+      startsAt,
+      endsAt,
+      status:
+        consultation.status === ConsultationStatus.CANCELLED
+          ? 'CANCELLED'
+          : 'CONFIRMED',
+      ...details,
+    };
+  }
+
+  private uid(kind: string, id: number): string {
+    const host =
+      safeHostname(this.configService.backendApiBaseUrl) ?? 'hcw-home';
+    return `${kind}-${id}@${host}`;
+  }
+}
+
+function fullName(person: Pick<Person, 'firstName' | 'lastName'>): string {
+  return `${person.firstName} ${person.lastName}`.trim();
+}
+
+function toPerson(person: Person): IcalPerson {
+  return { email: person.email, name: fullName(person) || undefined };
+}
+
+function safeHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
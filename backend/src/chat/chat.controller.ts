@@ -13,7 +13,10 @@ import {
   ParseIntPipe,
   ValidationPipe,
   UsePipes,
+  Req,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
@@ -134,6 +137,36 @@ export class ChatController {
     return this.chatService.getMessageReadStatus(messageId, consultationId);
   }
 
+  @Get('attachments/:messageId')
+  @ApiOperation({
+    summary: 'Download the file attached to a message',
+    description:
+      'Only participants and the owner of the consultation may download it. Each attempt is logged.',
+  })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 403, description: 'Not a participant or owner' })
+  @ApiResponse({ status: 404, description: 'Attachment not found or deleted' })
+  async downloadAttachment(
+    @Param('messageId', ParseIntPipe) messageId: number,
+    @Req() req: any,
+    @Res() res: Response,
+  ) {
+    const { stream, fileName, mediaType } =
+      await this.chatService.openAttachment(messageId, req.user.id, {
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+    res.setHeader('Content-Type', mediaType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    stream.on('error', (error) => res.destroy(error));
+    stream.pipe(res);
+  }
+
   @Get('unread-count')
   @ApiOperation({
     summary: 'Get unread message count for a user in a consultation',
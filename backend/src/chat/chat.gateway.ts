@@ -52,6 +52,18 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     private readonly configService: ConfigService,
   ) { }
 
+  /**
+   * Pushes a stored message to everyone in the consultation room, also for
+   * messages that did not come through this gateway (e.g. WhatsApp replies)
+   */
+  emitNewMessage(consultationId: number, message: unknown) {
+    this.server.to(`consultation:${consultationId}`).emit('new_message', {
+      message,
+      consultationId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   async handleConnection(client: Socket) {
     try {
       const { consultationId, userId, userRole, joinType } =
@@ -184,12 +196,7 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       this.stopTyping(client);
 
       // Emit message to all participants in consultation
-      const consultationRoom = `consultation:${consultationId}`;
-      this.server.to(consultationRoom).emit('new_message', {
-        message: createdMessage,
-        consultationId,
-        timestamp: new Date().toISOString(),
-      });
+      this.emitNewMessage(consultationId, createdMessage);
 
       this.logger.log(
         `Message sent: User ${userId}, Consultation ${consultationId}, Message ID: ${createdMessage.id}`,
@@ -11,6 +11,6 @@ import { ConfigModule } from 'src/config/config.module';
   imports: [AuthModule, DatabaseModule, StorageModule, ConfigModule],
   providers: [ChatGateway, ChatService],
   controllers: [ChatController],
-  exports: [ChatService],
+  exports: [ChatService, ChatGateway],
 })
 export class ChatModule { }
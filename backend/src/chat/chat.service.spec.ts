@@ -0,0 +1,127 @@
+import { Readable } from 'stream';
+import { ChatService } from './chat.service';
+
+// The chat service imports its dependencies through the `src/` alias
+jest.mock(
+  'src/database/database.service',
+  () => ({ DatabaseService: class {} }),
+  {
+    virtual: true,
+  },
+);
+jest.mock('src/storage/storage.service', () => ({ StorageService: class {} }), {
+  virtual: true,
+});
+jest.mock('src/config/config.service', () => ({ ConfigService: class {} }), {
+  virtual: true,
+});
+
+describe('ChatService attachments', () => {
+  let service: ChatService;
+  let prisma: any;
+  let storageService: any;
+
+  const message = {
+    id: 7,
+    consultationId: 3,
+    mediaKey: 'consultation-3/report.pdf',
+    mediaStorage: 'local',
+    mediaType: 'application/pdf',
+    fileName: 'report.pdf',
+    consultation: { isDeleted: false },
+  };
+
+  beforeEach(() => {
+    prisma = {
+      message: {
+        findUnique: jest.fn().mockResolvedValue(message),
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      participant: { findUnique: jest.fn().mockResolvedValue(null) },
+      consultation: { count: jest.fn().mockResolvedValue(0) },
+      attachmentAccessLog: { create: jest.fn() },
+    };
+    storageService = {
+      getStream: jest.fn().mockResolvedValue(Readable.from(['%PDF'])),
+      delete: jest.fn(),
+    };
+    service = new ChatService(prisma, storageService, {} as any);
+  });
+
+  it('streams the file to a participant and logs the access', async () => {
+    prisma.participant.findUnique.mockResolvedValue({ id: 1 });
+
+    const download = await service.openAttachment(7, 42, {
+      ipAddress: '10.0.0.1',
+    });
+
+    expect(download.fileName).toBe('report.pdf');
+    expect(download.mediaType).toBe('application/pdf');
+    expect(storageService.getStream).toHaveBeenCalledWith(
+      'consultation-3/report.pdf',
+      'local',
+    );
+    expect(prisma.attachmentAccessLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        messageId: 7,
+        consultationId: 3,
+        userId: 42,
+        granted: true,
+        ipAddress: '10.0.0.1',
+      }),
+    });
+  });
+
+  it('lets the consultation owner download without being a participant', async () => {
+    prisma.consultation.count.mockResolvedValue(1);
+
+    await expect(service.openAttachment(7, 42)).resolves.toBeDefined();
+    expect(prisma.consultation.count).toHaveBeenCalledWith({
+      where: { id: 3, ownerId: 42 },
+    });
+  });
+
+  it('refuses and logs access from other users', async () => {
+    await expect(service.openAttachment(7, 99)).rejects.toThrow(
+      'User does not have access to this consultation',
+    );
+    expect(storageService.getStream).not.toHaveBeenCalled();
+    expect(prisma.attachmentAccessLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 99, granted: false }),
+    });
+  });
+
+  it('hides attachments of deleted consultations', async () => {
+    prisma.participant.findUnique.mockResolvedValue({ id: 1 });
+    prisma.message.findUnique.mockResolvedValue({
+      ...message,
+      consultation: { isDeleted: true },
+    });
+
+    await expect(service.openAttachment(7, 42)).rejects.toThrow(
+      'Attachment not found',
+    );
+    expect(storageService.getStream).not.toHaveBeenCalled();
+  });
+
+  it('deletes stored files of a consultation and clears their keys', async () => {
+    prisma.message.findMany.mockResolvedValue([
+      { id: 7, mediaKey: 'consultation-3/a.pdf', mediaStorage: 'local' },
+      { id: 8, mediaKey: 'consultation-3/b.png', mediaStorage: 's3' },
+    ]);
+    storageService.delete.mockRejectedValueOnce(new Error('gone'));
+
+    const deleted = await service.deleteConsultationAttachments(3);
+
+    expect(deleted).toBe(2);
+    expect(storageService.delete).toHaveBeenCalledWith(
+      'consultation-3/b.png',
+      's3',
+    );
+    expect(prisma.message.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [7, 8] } },
+      data: { mediaKey: null, mediaStorage: null, mediaUrl: null },
+    });
+  });
+});
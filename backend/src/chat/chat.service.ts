@@ -6,8 +6,20 @@ import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.
 import { DatabaseService } from 'src/database/database.service';
 import { CreateMessageDto, MessageType } from './dto/create-message.dto';
 import { ReadMessageDto } from './dto/read-message.dto';
-import { StorageService } from 'src/storage/storage.service';
+import { StorageService, StoredFile } from 'src/storage/storage.service';
 import { ConfigService } from 'src/config/config.service';
+import { Readable } from 'stream';
+
+export interface AttachmentAccessContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AttachmentDownload {
+  stream: Readable;
+  fileName: string;
+  mediaType: string;
+}
 
 @Injectable()
 export class ChatService {
@@ -21,7 +33,7 @@ export class ChatService {
 
   async createMessage(data: CreateMessageDto, file?: Express.Multer.File) {
     try {
-      let mediaUrl: string | undefined;
+      let stored: StoredFile | undefined;
       let mediaType: string | undefined;
       let fileName: string | undefined;
       let fileSize: number | undefined;
@@ -30,7 +42,10 @@ export class ChatService {
       if (file) {
         this.validateFile(file);
 
-        mediaUrl = await this.storageService.uploadFile(file);
+        stored = await this.storageService.upload(
+          file,
+          `consultation-${data.consultationId}`,
+        );
         mediaType = file.mimetype;
         fileName = file.originalname;
         fileSize = file.size;
@@ -38,7 +53,7 @@ export class ChatService {
         // Enhanced message type determination
         messageType = this.determineMessageType(file.mimetype);
 
-        this.logger.log(`File uploaded for message: ${mediaUrl}, type: ${messageType}, size: ${fileSize} bytes`);
+        this.logger.log(`File uploaded for message: ${stored.key}, type: ${messageType}, size: ${fileSize} bytes`);
       }
 
       await this.verifyConsultationAccess(data.userId, data.consultationId);
@@ -49,7 +64,9 @@ export class ChatService {
           consultationId: data.consultationId,
           content: data.content,
           clientUuid: data.clientUuid,
-          mediaUrl: mediaUrl || data.mediaUrl,
+          mediaUrl: stored ? null : data.mediaUrl,
+          mediaKey: stored?.key,
+          mediaStorage: stored?.storage,
           mediaType: mediaType || data.mediaType,
           messageType,
           fileName: fileName || data.fileName,
@@ -88,7 +105,7 @@ export class ChatService {
         `Message created: ID ${message.id}, User ${data.userId}, Consultation ${data.consultationId}, Type: ${messageType}`,
       );
 
-      return message;
+      return this.withSignedMediaUrl(message);
     } catch (error) {
       this.logger.error('Failed to create message:', error);
       throw error;
@@ -130,7 +147,7 @@ export class ChatService {
         skip: offset,
       });
 
-      return messages.reverse();
+      return this.withSignedMediaUrls(messages.reverse());
     } catch (error) {
       this.logger.error('Failed to get messages:', error);
       throw error;
@@ -460,10 +477,22 @@ export class ChatService {
           content: '[Message deleted]',
           editedAt: new Date(),
           mediaUrl: null,
+          mediaKey: null,
+          mediaStorage: null,
           mediaType: null,
         },
       });
 
+      if (message.mediaKey) {
+        await this.storageService
+          .delete(message.mediaKey, message.mediaStorage)
+          .catch((error) =>
+            this.logger.warn(
+              `Could not delete file of message ${messageId}: ${error.message}`,
+            ),
+          );
+      }
+
       this.logger.log(`Message deleted: ID ${messageId}, User ${userId}`);
 
       return updatedMessage;
@@ -530,28 +559,185 @@ export class ChatService {
 
       this.logger.log(`Message edited: ID ${messageId}, User ${userId}`);
 
-      return updatedMessage;
+      return this.withSignedMediaUrl(updatedMessage);
     } catch (error) {
       this.logger.error('Failed to edit message:', error);
       throw error;
     }
   }
 
-  private async verifyConsultationAccess(
+  /**
+   * Replaces `mediaUrl` of uploaded files with a short-lived signed link.
+   * Messages whose `mediaUrl` was provided by the client keep it as is.
+   */
+  async withSignedMediaUrl<
+    T extends {
+      mediaUrl: string | null;
+      mediaKey: string | null;
+      mediaStorage: string | null;
+    },
+  >(message: T): Promise<T> {
+    if (!message.mediaKey) {
+      return message;
+    }
+    try {
+      const mediaUrl = await this.storageService.getSignedUrl(
+        message.mediaKey,
+        message.mediaStorage,
+      );
+      return { ...message, mediaUrl };
+    } catch (error) {
+      this.logger.warn(
+        `Could not sign media link for file ${message.mediaKey}: ${error.message}`,
+      );
+      return { ...message, mediaUrl: null };
+    }
+  }
+
+  async withSignedMediaUrls<
+    T extends {
+      mediaUrl: string | null;
+      mediaKey: string | null;
+      mediaStorage: string | null;
+    },
+  >(messages: T[]): Promise<T[]> {
+    return Promise.all(messages.map((message) => this.withSignedMediaUrl(message)));
+  }
+
+  /**
+   * Streams a stored chat attachment to a participant or the owner of its
+   * consultation. Every attempt, granted or not, is recorded in
+   * `AttachmentAccessLog`. Attachments of deleted consultations are gone.
+   */
+  async openAttachment(
+    messageId: number,
     userId: number,
-    consultationId: number,
+    context: AttachmentAccessContext = {},
+  ): Promise<AttachmentDownload> {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      include: { consultation: { select: { isDeleted: true } } },
+    });
+    if (!message || !message.mediaKey) {
+      throw HttpExceptionHelper.notFound('Attachment not found');
+    }
+
+    const deny = async (reason: string) => {
+      await this.logAttachmentAccess(message, userId, context, reason);
+      this.logger.warn(
+        `Denied attachment of message ${messageId} to user ${userId}: ${reason}`,
+      );
+    };
+
+    if (!message.consultation || message.consultation.isDeleted) {
+      await deny('Consultation deleted');
+      throw HttpExceptionHelper.notFound('Attachment not found');
+    }
+    if (!(await this.hasConsultationAccess(userId, message.consultationId))) {
+      await deny('Not a participant or owner');
+      throw HttpExceptionHelper.forbidden(
+        'User does not have access to this consultation',
+      );
+    }
+
+    const stream = await this.storageService.getStream(
+      message.mediaKey,
+      message.mediaStorage,
+    );
+    await this.logAttachmentAccess(message, userId, context);
+
+    return {
+      stream,
+      fileName: message.fileName || `attachment-${message.id}`,
+      mediaType: message.mediaType || 'application/octet-stream',
+    };
+  }
+
+  /**
+   * Removes the stored files of a consultation's messages, so that neither
+   * signed links nor the download endpoint can serve them anymore.
+   */
+  async deleteConsultationAttachments(consultationId: number): Promise<number> {
+    const messages = await this.prisma.message.findMany({
+      where: { consultationId, mediaKey: { not: null } },
+      select: { id: true, mediaKey: true, mediaStorage: true },
+    });
+
+    for (const message of messages) {
+      try {
+        await this.storageService.delete(message.mediaKey!, message.mediaStorage);
+      } catch (error) {
+        this.logger.warn(
+          `Could not delete stored file ${message.mediaKey} of message ${message.id}: ${error.message}`,
+        );
+      }
+    }
+
+    if (messages.length > 0) {
+      await this.prisma.message.updateMany({
+        where: { id: { in: messages.map((message) => message.id) } },
+        data: { mediaKey: null, mediaStorage: null, mediaUrl: null },
+      });
+    }
+    return messages.length;
+  }
+
+  private async logAttachmentAccess(
+    message: { id: number; consultationId: number },
+    userId: number,
+    context: AttachmentAccessContext,
+    deniedReason?: string,
   ) {
+    try {
+      await this.prisma.attachmentAccessLog.create({
+        data: {
+          messageId: message.id,
+          consultationId: message.consultationId,
+          userId,
+          granted: !deniedReason,
+          reason: deniedReason,
+          ipAddress: context.ipAddress?.slice(0, 64),
+          userAgent: context.userAgent?.slice(0, 512),
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to log access to attachment of message ${message.id}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Participants of a consultation and its owner may read and write its
+   * messages.
+   */
+  private async hasConsultationAccess(
+    userId: number,
+    consultationId: number,
+  ): Promise<boolean> {
     const participant = await this.prisma.participant.findUnique({
       where: {
         consultationId_userId: { consultationId, userId },
       },
     });
+    if (participant) {
+      return true;
+    }
 
-    if (!participant) {
+    const owned = await this.prisma.consultation.count({
+      where: { id: consultationId, ownerId: userId },
+    });
+    return owned > 0;
+  }
+
+  private async verifyConsultationAccess(
+    userId: number,
+    consultationId: number,
+  ) {
+    if (!(await this.hasConsultationAccess(userId, consultationId))) {
       throw HttpExceptionHelper.badRequest('User does not have access to this consultation');
     }
-
-    return participant;
   }
 
   private validateFile(file: Express.Multer.File) {
@@ -0,0 +1,119 @@
+jest.mock(
+  'src/config/config.service',
+  () => ({ ConfigService: class ConfigService {} }),
+  { virtual: true },
+);
+
+import { MessageService } from '@prisma/client';
+import { EmailNotificationSender } from './email-notification.sender';
+import { OutboxEmailTransport } from './transports/outbox-email.transport';
+
+describe('EmailNotificationSender', () => {
+  let configService: any;
+  let notificationOutboxService: { registerSender: jest.Mock };
+  let sendgridTransport: any;
+  let smtpTransport: any;
+  let outboxTransport: OutboxEmailTransport;
+
+  const createSender = () =>
+    new EmailNotificationSender(
+      configService,
+      notificationOutboxService as any,
+      sendgridTransport,
+      smtpTransport,
+      outboxTransport,
+    );
+
+  const notification = (payload: object) =>
+    ({
+      id: 7,
+      channel: MessageService.EMAIL,
+      recipient: 'jane@example.com',
+      payload,
+    }) as any;
+
+  const reminder = notification({
+    from: 'care@example.com',
+    subject: 'Reminder: Your Consultation Starts Soon',
+    html: '<p>https://patient.example.com/consultations/42</p>',
+  });
+
+  beforeEach(() => {
+    configService = { emailTransport: null, emailOutboxDir: null };
+    notificationOutboxService = { registerSender: jest.fn() };
+    sendgridTransport = {
+      name: 'sendgrid',
+      isConfigured: jest.fn().mockReturnValue(false),
+      send: jest.fn(),
+    };
+    smtpTransport = {
+      name: 'smtp',
+      isConfigured: jest.fn().mockReturnValue(true),
+      send: jest.fn().mockResolvedValue('<abc@mail.example.com>'),
+    };
+    outboxTransport = new OutboxEmailTransport(configService);
+  });
+
+  it('registers itself with the outbox', () => {
+    const sender = createSender();
+    sender.onModuleInit();
+
+    expect(notificationOutboxService.registerSender).toHaveBeenCalledWith(
+      sender,
+    );
+  });
+
+  it('captures emails in the outbox when no transport is configured', async () => {
+    const result = await createSender().send(reminder);
+
+    const [email] = outboxTransport.list('Jane@Example.com');
+    expect(email).toEqual(
+      expect.objectContaining({
+        to: 'jane@example.com',
+        from: 'care@example.com',
+        subject: 'Reminder: Your Consultation Starts Soon',
+      }),
+    );
+    expect(result).toEqual({ provider: 'outbox', providerMessageId: email.id });
+    expect(sendgridTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('uses the transport selected by EMAIL_TRANSPORT', async () => {
+    configService.emailTransport = 'smtp';
+    sendgridTransport.isConfigured.mockReturnValue(true);
+
+    const result = await createSender().send(reminder);
+
+    expect(smtpTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'jane@example.com' }),
+    );
+    expect(result).toEqual({
+      provider: 'smtp',
+      providerMessageId: '<abc@mail.example.com>',
+    });
+    expect(sendgridTransport.send).not.toHaveBeenCalled();
+    expect(outboxTransport.list()).toHaveLength(0);
+  });
+
+  it('decodes stored attachments', async () => {
+    configService.emailTransport = 'smtp';
+
+    await createSender().send(
+      notification({
+        from: 'care@example.com',
+        subject: 'Invoice INV-2030-0001',
+        html: '<p>Invoice</p>',
+        attachments: [
+          {
+            filename: 'INV-2030-0001.pdf',
+            type: 'application/pdf',
+            content: Buffer.from('%PDF-1.4').toString('base64'),
+          },
+        ],
+      }),
+    );
+
+    const [message] = smtpTransport.send.mock.calls[0];
+    expect(message.attachments[0].content.toString()).toBe('%PDF-1.4');
+  });
+});
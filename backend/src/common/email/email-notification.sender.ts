@@ -0,0 +1,89 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { MessageService, OutboundNotification } from '@prisma/client';
+import { ConfigService } from 'src/config/config.service';
+import { NotificationOutboxService } from '../../notification-outbox/notification-outbox.service';
+import {
+  NotificationSender,
+  NotificationSendResult,
+} from '../../notification-outbox/notification-sender.interface';
+import {
+  EmailTransport,
+  EmailTransportName,
+} from './transports/email-transport.interface';
+import { SendgridEmailTransport } from './transports/sendgrid-email.transport';
+import { SmtpEmailTransport } from './transports/smtp-email.transport';
+import { OutboxEmailTransport } from './transports/outbox-email.transport';
+
+/** Email as stored in the notification outbox; attachments are base64 */
+export interface EmailPayload {
+  from: string;
+  subject: string;
+  html: string;
+  attachments?: { filename: string; type: string; content: string }[];
+}
+
+/** Hands outbox emails to the configured transport */
+@Injectable()
+export class EmailNotificationSender
+  implements NotificationSender, OnModuleInit
+{
+  readonly channel = MessageService.EMAIL;
+  readonly transport: EmailTransport;
+  private readonly logger = new Logger(EmailNotificationSender.name);
+
+  constructor(
+    configService: ConfigService,
+    private readonly notificationOutboxService: NotificationOutboxService,
+    sendgridTransport: SendgridEmailTransport,
+    smtpTransport: SmtpEmailTransport,
+    outboxTransport: OutboxEmailTransport,
+  ) {
+    const transports: Record<EmailTransportName, EmailTransport> = {
+      sendgrid: sendgridTransport,
+      smtp: smtpTransport,
+      outbox: outboxTransport,
+    };
+
+    const selected = configService.emailTransport;
+    if (selected) {
+      this.transport = transports[selected];
+      if (!this.transport.isConfigured()) {
+        this.logger.warn(
+          `EMAIL_TRANSPORT is "${selected}" but it is not configured, sending will fail`,
+        );
+      }
+    } else if (sendgridTransport.isConfigured()) {
+      this.transport = sendgridTransport;
+    } else {
+      this.transport = outboxTransport;
+      this.logger.warn(
+        'No email transport configured: emails are captured in the outbox and not delivered. Set EMAIL_TRANSPORT to sendgrid or smtp.',
+      );
+    }
+    this.logger.log(
+      `Emails are sent through the ${this.transport.name} transport`,
+    );
+  }
+
+  onModuleInit(): void {
+    this.notificationOutboxService.registerSender(this);
+  }
+
+  async send(
+    notification: OutboundNotification,
+  ): Promise<NotificationSendResult> {
+    const payload = notification.payload as unknown as EmailPayload;
+    const messageId = await this.transport.send({
+      to: notification.recipient,
+      from: payload.from,
+      subject: payload.subject,
+      html: payload.html,
+      attachments: payload.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        type: attachment.type,
+        content: Buffer.from(attachment.content, 'base64'),
+      })),
+    });
+    return { provider: this.transport.name, providerMessageId: messageId };
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from 'src/auth/guards/auth.guard';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/common/decorators/roles.decorator';
+import { ApiResponseDto } from 'src/common/helpers/response/api-response.dto';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
+import { ConfigService } from 'src/config/config.service';
+import { OutboxEmailTransport } from './transports/outbox-email.transport';
+
+/**
+ * Emails captured by the outbox transport. Only available in development,
+ * where they would otherwise be lost.
+ */
+@ApiTags('Email outbox')
+@ApiBearerAuth()
+@Controller('email/outbox')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class EmailOutboxController {
+  constructor(
+    private readonly outbox: OutboxEmailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List captured emails, newest first' })
+  @ApiQuery({ name: 'to', required: false, type: String })
+  list(@Req() req: Request, @Query('to') to?: string) {
+    this.assertDevelopment();
+    return ApiResponseDto.success(
+      this.outbox.list(to),
+      'Captured emails retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a captured email' })
+  findOne(@Param('id') id: string, @Req() req: Request) {
+    this.assertDevelopment();
+    const email = this.outbox.find(id);
+    if (!email) {
+      throw HttpExceptionHelper.notFound('Captured email not found');
+    }
+    return ApiResponseDto.success(
+      email,
+      'Captured email retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Clear captured emails' })
+  clear(@Req() req: Request) {
+    this.assertDevelopment();
+    this.outbox.clear();
+    return ApiResponseDto.success(
+      null,
+      'Captured emails cleared successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  private assertDevelopment(): void {
+    if (!this.configService.isDevelopment) {
+      throw HttpExceptionHelper.notFound(
+        'Email outbox is only available in development',
+      );
+    }
+  }
+}
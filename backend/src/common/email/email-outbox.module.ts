@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from 'src/config/config.module';
+import { AuthModule } from 'src/auth/auth.module';
+import { EmailModule } from './email.module';
+import { EmailOutboxController } from './email-outbox.controller';
+
+// Separate from EmailModule, which AuthModule itself imports
+@Module({
+  imports: [ConfigModule, EmailModule, AuthModule],
+  controllers: [EmailOutboxController],
+})
+export class EmailOutboxModule {}
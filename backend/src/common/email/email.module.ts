@@ -1,9 +1,32 @@
 import { Module } from '@nestjs/common';
 import { EmailService } from './email.service';
 import { ConfigModule } from 'src/config/config.module';
+import { I18nModule } from 'src/i18n/i18n.module';
+import { DatabaseModule } from 'src/database/database.module';
+import { EmailTemplateService } from 'src/email-template/email-template.service';
+import { NotificationOutboxModule } from 'src/notification-outbox/notification-outbox.module';
+import { EmailNotificationSender } from './email-notification.sender';
+import { SendgridEmailTransport } from './transports/sendgrid-email.transport';
+import { SmtpEmailTransport } from './transports/smtp-email.transport';
+import { OutboxEmailTransport } from './transports/outbox-email.transport';
+import { CalendarModule } from 'src/calendar/calendar.module';
+
 @Module({
-  imports: [ConfigModule],
-  providers: [EmailService],
-  exports: [EmailService], 
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    I18nModule,
+    NotificationOutboxModule,
+    CalendarModule,
+  ],
+  providers: [
+    EmailService,
+    EmailTemplateService,
+    EmailNotificationSender,
+    SendgridEmailTransport,
+    SmtpEmailTransport,
+    OutboxEmailTransport,
+  ],
+  exports: [EmailService, EmailTemplateService, OutboxEmailTransport],
 })
 export class EmailModule {}
@@ -0,0 +1,264 @@
+jest.mock(
+  'src/config/config.service',
+  () => ({ ConfigService: class ConfigService {} }),
+  { virtual: true },
+);
+jest.mock('../../calendar/consultation-calendar.service', () => ({
+  ConsultationCalendarService: class {},
+}));
+
+import {
+  MessageService,
+  NotificationEvent,
+  NotificationStatus,
+} from '@prisma/client';
+import { EmailService } from './email.service';
+import { I18nService } from '../../i18n/i18n.service';
+import { NotificationOutboxService } from '../../notification-outbox/notification-outbox.service';
+
+describe('EmailService', () => {
+  let configService: any;
+  let i18nService: I18nService;
+  let emailTemplateService: { render: jest.Mock };
+  let notificationOutboxService: { dispatch: jest.Mock };
+  let consultationCalendarService: { emailAttachment: jest.Mock };
+
+  const createService = () =>
+    new EmailService(
+      configService,
+      i18nService,
+      emailTemplateService as any,
+      notificationOutboxService as any,
+      consultationCalendarService as any,
+    );
+
+  const sendReminder = (service: EmailService) =>
+    service.sendConsultationReminderEmail(
+      'jane@example.com',
+      'Jane',
+      'Monday, March 4, 2030 at 02:30 PM UTC',
+      'https://patient.example.com/consultations/42',
+      42,
+      { language: 'en', timezone: 'UTC' },
+    );
+
+  beforeEach(() => {
+    configService = {
+      emailSenderAddress: 'care@example.com',
+      defaultLanguage: 'en',
+      defaultTimezone: 'UTC',
+    };
+    i18nService = new I18nService({} as any, configService);
+    emailTemplateService = { render: jest.fn().mockResolvedValue(null) };
+    notificationOutboxService = {
+      dispatch: jest
+        .fn()
+        .mockResolvedValue({ id: 1, status: NotificationStatus.SENT }),
+    };
+    consultationCalendarService = {
+      emailAttachment: jest.fn().mockResolvedValue(null),
+    };
+  });
+
+  it('records emails in the notification outbox', async () => {
+    await sendReminder(createService());
+
+    expect(notificationOutboxService.dispatch).toHaveBeenCalledWith(
+      {
+        channel: MessageService.EMAIL,
+        recipient: 'jane@example.com',
+        templateKey: 'consultationReminder',
+        event: NotificationEvent.REMINDER,
+        consultationId: 42,
+        payload: expect.objectContaining({
+          from: 'care@example.com',
+          subject: 'Reminder: Your Consultation Starts Soon',
+          html: expect.stringContaining(
+            'https://patient.example.com/consultations/42',
+          ),
+        }),
+      },
+      undefined,
+    );
+  });
+
+  it('stores attachments as base64', async () => {
+    await createService().sendInvoiceEmail(
+      'jane@example.com',
+      'Jane',
+      'Invoice',
+      'INV-2030-0001',
+      '$120.00',
+      'Healthcare Platform',
+      Buffer.from('%PDF-1.4'),
+      2,
+      { language: 'en', timezone: 'UTC' },
+    );
+
+    const [input] = notificationOutboxService.dispatch.mock.calls[0];
+    expect(input.templateKey).toBe('invoice');
+    expect(input.event).toBeUndefined();
+    expect(input.payload.attachments).toEqual([
+      {
+        filename: 'INV-2030-0001.pdf',
+        type: 'application/pdf',
+        content: Buffer.from('%PDF-1.4').toString('base64'),
+      },
+    ]);
+  });
+
+  it('attaches the calendar invite of the consultation', async () => {
+    consultationCalendarService.emailAttachment.mockResolvedValue({
+      filename: 'invite.ics',
+      type: 'text/calendar; charset=UTF-8; method=REQUEST',
+      content: Buffer.from('BEGIN:VCALENDAR'),
+    });
+
+    await sendReminder(createService());
+
+    expect(consultationCalendarService.emailAttachment).toHaveBeenCalledWith(
+      42,
+    );
+    const [input] = notificationOutboxService.dispatch.mock.calls[0];
+    expect(input.payload.attachments).toEqual([
+      {
+        filename: 'invite.ics',
+        type: 'text/calendar; charset=UTF-8; method=REQUEST',
+        content: Buffer.from('BEGIN:VCALENDAR').toString('base64'),
+      },
+    ]);
+  });
+
+  it('sends the email without invite when it cannot be built', async () => {
+    consultationCalendarService.emailAttachment.mockRejectedValue(
+      new Error('Connection lost'),
+    );
+
+    await sendReminder(createService());
+
+    const [input] = notificationOutboxService.dispatch.mock.calls[0];
+    expect(input.payload.attachments).toBeUndefined();
+  });
+
+  it('sends cancellations with their own template', async () => {
+    await createService().sendConsultationChangedEmail(
+      'jane@example.com',
+      'Jane',
+      42,
+      new Date('2030-03-04T14:30:00Z'),
+      true,
+      'https://patient.example.com/dashboard',
+      { language: 'en', timezone: 'UTC' },
+    );
+
+    expect(notificationOutboxService.dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateKey: 'consultationCancelled',
+        event: undefined,
+        payload: expect.objectContaining({
+          subject: 'Your consultation #42 was cancelled',
+        }),
+      }),
+      undefined,
+    );
+  });
+
+  it('does not fail while the outbox retries the email', async () => {
+    notificationOutboxService.dispatch.mockResolvedValue({
+      id: 1,
+      status: NotificationStatus.PENDING,
+      lastError: 'Connection timeout',
+    });
+
+    await expect(sendReminder(createService())).resolves.toMatchObject({
+      status: NotificationStatus.PENDING,
+    });
+  });
+
+  it('does not fail when the recipient turned the email off', async () => {
+    notificationOutboxService.dispatch.mockResolvedValue({
+      id: 1,
+      status: NotificationStatus.SKIPPED,
+      lastError: 'REMINDER notifications by EMAIL are turned off',
+    });
+
+    await expect(sendReminder(createService())).resolves.toMatchObject({
+      status: NotificationStatus.SKIPPED,
+    });
+  });
+
+  it('fails when the outbox gave up on the email', async () => {
+    notificationOutboxService.dispatch.mockResolvedValue({
+      id: 1,
+      status: NotificationStatus.FAILED,
+      lastError: '550 Mailbox unavailable',
+    });
+
+    await expect(sendReminder(createService())).rejects.toThrow(
+      '550 Mailbox unavailable',
+    );
+  });
+
+  it('sends reminders with the dispatch options of the reminder channel', async () => {
+    notificationOutboxService.dispatch.mockResolvedValue({
+      id: 1,
+      status: NotificationStatus.FAILED,
+      attempts: 1,
+      lastError: 'Connection timeout',
+    });
+    const expiresAt = new Date('2030-03-04T14:30:00Z');
+
+    await expect(
+      createService().sendConsultationReminderEmail(
+        'jane@example.com',
+        'Jane',
+        'Monday, March 4, 2030 at 02:30 PM UTC',
+        'https://patient.example.com/consultations/42',
+        42,
+        { language: 'en', timezone: 'UTC' },
+        { maxAttempts: 1, expiresAt },
+      ),
+    ).rejects.toThrow('Connection timeout');
+    expect(notificationOutboxService.dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({ templateKey: 'consultationReminder' }),
+      { maxAttempts: 1, expiresAt },
+    );
+  });
+
+  it('skips reminders quiet hours would hold back past the consultation', async () => {
+    const prisma = {
+      outboundNotification: {
+        create: jest.fn(({ data }) =>
+          Promise.resolve({ id: 1, attempts: 0, ...data }),
+        ),
+      },
+      user: { findFirst: jest.fn().mockResolvedValue({ id: 9 }) },
+    };
+    const outbox = new NotificationOutboxService(
+      prisma as any,
+      { notificationMaxAttempts: 3 } as any,
+      {
+        check: jest.fn().mockResolvedValue({
+          allowed: true,
+          deferUntil: new Date('2030-03-04T15:00:00Z'),
+        }),
+      } as any,
+    );
+    const emailSender = { channel: MessageService.EMAIL, send: jest.fn() };
+    outbox.registerSender(emailSender);
+    notificationOutboxService = outbox as any;
+
+    const notification = await createService().sendConsultationReminderEmail(
+      'jane@example.com',
+      'Jane',
+      'Monday, March 4, 2030 at 02:30 PM UTC',
+      'https://patient.example.com/consultations/42',
+      42,
+      { language: 'en', timezone: 'UTC' },
+      { maxAttempts: 1, expiresAt: new Date('2030-03-04T14:30:00Z') },
+    );
+
+    expect(notification.status).toBe(NotificationStatus.SKIPPED);
+    expect(emailSender.send).not.toHaveBeenCalled();
+  });
+});
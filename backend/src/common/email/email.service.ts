@@ -1,87 +1,111 @@
 import { Injectable, Logger } from '@nestjs/common';
-import sgMail from '@sendgrid/mail';
 import { ConfigService } from 'src/config/config.service';
-import { UserRole } from '@prisma/client';
+import {
+  MessageService,
+  NotificationEvent,
+  NotificationStatus,
+  OutboundNotification,
+  UserRole,
+} from '@prisma/client';
 import { HttpExceptionHelper } from '../helpers/execption/http-exception.helper';
+import { I18nService, RecipientLocale } from '../../i18n/i18n.service';
+import {
+  EmailTemplateService,
+  RenderedEmail,
+} from '../../email-template/email-template.service';
+import { EmailTemplateKey } from '../../email-template/email-template.constants';
+import { TemplateVariables } from '../../email-template/template-engine';
+import {
+  DispatchOptions,
+  NotificationOutboxService,
+} from '../../notification-outbox/notification-outbox.service';
+import { EmailAttachment } from './transports/email-transport.interface';
+import { EmailPayload } from './email-notification.sender';
+import { ConsultationCalendarService } from '../../calendar/consultation-calendar.service';
+
+// Notification preference deciding whether a user gets an email; emails
+// the user asked for themselves (invoices, exports…) are always sent
+const TEMPLATE_EVENTS: Partial<Record<EmailTemplateKey, NotificationEvent>> = {
+  invitation: NotificationEvent.INVITATION,
+  consultationAssigned: NotificationEvent.CONSULTATION_ASSIGNED,
+  consultationReminder: NotificationEvent.REMINDER,
+  preConsultation: NotificationEvent.REMINDER,
+};
 
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
   private senderEmail: string;
-  private isConfigured: boolean = false;
 
-  constructor(private readonly configService: ConfigService) {
-    const apiKey = this.configService.emailSendgridApiKey;
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly i18nService: I18nService,
+    private readonly emailTemplateService: EmailTemplateService,
+    private readonly notificationOutboxService: NotificationOutboxService,
+    private readonly consultationCalendarService: ConsultationCalendarService,
+  ) {
     this.senderEmail = this.configService.emailSenderAddress;
-
-    // Check if email is properly configured
-    const hasValidApiKey = apiKey && apiKey !== 'YOUR_SENDGRID_API_KEY_HERE';
-    const hasValidSenderEmail = this.senderEmail && this.senderEmail !== 'no-reply@yourdomain.com';
-
-    if (!hasValidApiKey || !hasValidSenderEmail) {
-      this.logger.warn('⚠️  EmailService starting in DISABLED mode');
-      this.logger.warn('Email functionality will not work until proper configuration is provided:');
-
-      if (!hasValidApiKey) {
-        this.logger.warn('- Set EMAIL_SENDGRID_API_KEY to a valid SendGrid API key');
-      }
-      if (!hasValidSenderEmail) {
-        this.logger.warn('- Set EMAIL_SENDER_ADDRESS to a valid email address');
-      }
-
-      this.logger.warn('Application will continue to run, but email features will be mocked');
-      this.isConfigured = false;
-      return;
-    }
-
-    try {
-      sgMail.setApiKey(apiKey);
-      this.isConfigured = true;
-      this.logger.log('✅ SendGrid EmailService configured successfully');
-    } catch (error) {
-      this.logger.error('Failed to configure SendGrid API key:', error);
-      this.logger.warn('EmailService starting in DISABLED mode due to configuration error');
-      this.isConfigured = false;
+    if (!this.senderEmail || this.senderEmail === 'no-reply@yourdomain.com') {
+      this.logger.warn('Set EMAIL_SENDER_ADDRESS to a valid email address');
     }
   }
 
+  /**
+   * Records the email in the notification outbox, which sends it right
+   * away and retries failed sends later. Throws only when the email
+   * failed for good; emails the recipient turned off are skipped. Returns
+   * the outbox record, for callers that react to a skipped or queued email.
+   */
   private async sendEmail(
     to: string,
     subject: string,
     htmlContent: string,
-  ): Promise<void> {
-    if (!this.isConfigured) {
-      this.logger.warn(`Email service not configured - Mocking email to ${to} - ${subject}`);
-      return;
-    }
-
-    const msg = {
-      to,
+    options: {
+      templateKey: EmailTemplateKey;
+      consultationId?: number;
+      attachments?: EmailAttachment[];
+      dispatchOptions?: DispatchOptions;
+    },
+  ): Promise<OutboundNotification> {
+    const payload: EmailPayload = {
       from: this.senderEmail,
       subject,
       html: htmlContent,
+      attachments: options.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        type: attachment.type,
+        content: attachment.content.toString('base64'),
+      })),
     };
-    const maxAttempts = 3;
-    let attempt = 0;
-    let lastError: any = null;
-
-    while (attempt < maxAttempts) {
-      try {
-        attempt += 1;
-        await sgMail.send(msg);
-        this.logger.log(`Email sent to ${to} - ${subject} (attempt ${attempt})`);
-        return;
-      } catch (error) {
-        lastError = error;
-        this.logger.warn(`Attempt ${attempt} to send email to ${to} failed: ${error?.message || error}`);
-        // exponential backoff before retrying
-        const backoffMs = Math.pow(2, attempt) * 250; 
-        await new Promise((res) => setTimeout(res, backoffMs));
-      }
-    }
+    const notification = await this.notificationOutboxService.dispatch(
+      {
+        channel: MessageService.EMAIL,
+        recipient: to,
+        templateKey: options.templateKey,
+        event: TEMPLATE_EVENTS[options.templateKey],
+        payload: { ...payload },
+        consultationId: options.consultationId,
+      },
+      options.dispatchOptions,
+    );
 
-    this.logger.error(`All ${maxAttempts} attempts to send email to ${to} failed`, lastError);
-    throw lastError;
+    if (notification.status === NotificationStatus.FAILED) {
+      throw new Error(
+        notification.lastError || `Could not send email to ${to}`,
+      );
+    }
+    if (notification.status === NotificationStatus.SKIPPED) {
+      this.logger.log(`Email to ${to} - ${subject} skipped: ${notification.lastError}`);
+      return notification;
+    }
+    if (notification.status === NotificationStatus.PENDING) {
+      this.logger.warn(
+        notification.attempts
+          ? `Email to ${to} - ${subject} failed and will be retried (notification ${notification.id})`
+          : `Email to ${to} - ${subject} held back by quiet hours (notification ${notification.id})`,
+      );
+    }
+    return notification;
   }
 
   async sendConsultationInvitationEmail(
@@ -92,74 +116,103 @@ export class EmailService {
     role: UserRole,
     inviteeName?: string,
     notes?: string,
-    scheduledTimeIST?: string,
-    deviceTestCutoffIST?: string
+    scheduledDate?: Date | null,
+    locale?: RecipientLocale,
   ) {
     try {
       this.logger.log(`[EmailService] 📧 Starting to send consultation invitation email to: ${toEmail}`);
-      this.logger.log(`[EmailService] Email service configured: ${this.isConfigured}`);
       this.logger.log(`[EmailService] Sender email: ${this.senderEmail}`);
 
       if (!toEmail?.trim() || !magicLinkUrl?.trim()) {
         throw new Error('Email address and magic link URL are required');
       }
 
-      const roleDisplay = this.getRoleDisplayName(role);
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator('invitation', locale);
+      const common = this.i18nService.translator('common', locale);
+      const roleDisplay = this.getRoleDisplayName(role, locale);
 
-      const subject = `Consultation Invitation: Join as ${roleDisplay}`;
       const urlDomain = new URL(magicLinkUrl).hostname;
       const securityNotice =
-        role === UserRole.PATIENT
-          ? 'This link is personal and expires in 24 hours for your privacy.'
-          : 'This invitation link is secure and expires in 24 hours.';
+        role === UserRole.PATIENT ? t('securityPatient') : t('securityOther');
+
+      // Device testing closes 2 minutes before the consultation starts
+      const scheduledTime = scheduledDate
+        ? this.i18nService.formatDateTime(scheduledDate, locale)
+        : undefined;
+      const deviceTestCutoff = scheduledDate
+        ? this.i18nService.formatDateTime(new Date(new Date(scheduledDate).getTime() - 2 * 60 * 1000), locale)
+        : undefined;
+
+      const custom = await this.customEmail(
+        'invitation',
+        locale,
+        {
+          inviteeName,
+          inviterName,
+          role: roleDisplay,
+          consultationId,
+          link: magicLinkUrl,
+          platform: urlDomain,
+          scheduledTime,
+          deviceTestUntil: deviceTestCutoff,
+          notes,
+        },
+        { consultationId },
+      );
 
-      const html = `
-        <html>
+      const subject = custom?.subject ?? t('subject', { role: roleDisplay });
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
         <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
           <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
             <div style="background:#2563eb;color:#fff;padding:32px;text-align:center;">
-              <h1 style="margin-bottom:8px;">You're Invited!</h1>
-              <p style="color:#dbeafe;">Healthcare Consultation Invitation</p>
+              <h1 style="margin-bottom:8px;">${t('title')}</h1>
+              <p style="color:#dbeafe;">${t('subtitle')}</p>
             </div>
             <div style="padding:32px;">
-              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">Hello${inviteeName ? ` ${inviteeName}` : ''},</p>
-              <p><strong>${inviterName}</strong> has invited you to join a healthcare consultation as <strong>${roleDisplay}</strong>.</p>
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${inviteeName ? common('hello', { name: inviteeName }) : common('helloAnonymous')}</p>
+              <p>${t('intro', { inviter: inviterName, role: roleDisplay })}</p>
               <div style="background:#f1f5f9;padding:16px;border-radius:6px;margin:24px 0;">
-                <p><strong>Consultation ID:</strong> #${consultationId}</p>
-                <p><strong>Role:</strong> ${roleDisplay}</p>
-                <p><strong>Invited by:</strong> ${inviterName}</p>
-                ${scheduledTimeIST ? `<p><strong>Scheduled Time (IST):</strong> ${scheduledTimeIST}</p>` : ''}
-                ${deviceTestCutoffIST ? `<p><strong>Device Testing Until (IST):</strong> ${deviceTestCutoffIST}</p>` : ''}
-                <p><strong>Platform:</strong> ${urlDomain}</p>
+                <p><strong>${common('consultationId')}</strong> #${consultationId}</p>
+                <p><strong>${t('role')}</strong> ${roleDisplay}</p>
+                <p><strong>${t('invitedBy')}</strong> ${inviterName}</p>
+                ${scheduledTime ? `<p><strong>${t('scheduledTime')}</strong> ${scheduledTime}</p>` : ''}
+                ${deviceTestCutoff ? `<p><strong>${t('deviceTestUntil')}</strong> ${deviceTestCutoff}</p>` : ''}
+                <p><strong>${t('platform')}</strong> ${urlDomain}</p>
               </div>
-              ${notes ? `<div style="background:#fff7ed;border:1px solid #fdba74;padding:12px;border-radius:6px;margin-bottom:20px;"><strong>Note from ${inviterName}:</strong> ${notes}</div>` : ''}
+              ${notes ? `<div style="background:#fff7ed;border:1px solid #fdba74;padding:12px;border-radius:6px;margin-bottom:20px;"><strong>${t('noteFrom', { inviter: inviterName })}</strong> ${notes}</div>` : ''}
               <div style="text-align:center;margin:32px 0;">
-                <a href="${magicLinkUrl}" style="background:#f59e0b;color:#fff;padding:16px 32px;border-radius:8px;text-decoration:none;font-weight:600;font-size:16px;">Acknowledge & Test Devices</a>
+                <a href="${magicLinkUrl}" style="background:#f59e0b;color:#fff;padding:16px 32px;border-radius:8px;text-decoration:none;font-weight:600;font-size:16px;">${t('button')}</a>
               </div>
-              ${scheduledTimeIST && deviceTestCutoffIST ? `<div style="background:#fef3c7;padding:16px;border-radius:6px;margin-bottom:20px;"><strong>Important:</strong> Device testing closes at ${deviceTestCutoffIST}. Consultation starts at ${scheduledTimeIST}. You'll get a join link 2 minutes before your appointment.</div>` : ''}
-              <div style="background:#ecfdf5;padding:12px;border-radius:6px;margin-bottom:20px;color:#065f46;font-size:14px;"><strong>Security Notice:</strong> ${securityNotice}</div>
+              ${scheduledTime && deviceTestCutoff ? `<div style="background:#fef3c7;padding:16px;border-radius:6px;margin-bottom:20px;">${t('important', { cutoff: deviceTestCutoff, time: scheduledTime })}</div>` : ''}
+              <div style="background:#ecfdf5;padding:12px;border-radius:6px;margin-bottom:20px;color:#065f46;font-size:14px;"><strong>${t('securityNotice')}</strong> ${securityNotice}</div>
               <div style="font-size:14px;color:#64748b;">
-                <strong>What to expect:</strong>
+                <strong>${t('expectTitle')}</strong>
                 <ul style="margin-left:20px;">
-                  ${role === UserRole.PATIENT ? `<li>Secure waiting room access</li><li>Practitioner will admit you</li><li>Chat, voice, and video available</li>` : `<li>Direct consultation room access</li><li>Chat, voice, and video available</li><li>Contribute as ${roleDisplay.toLowerCase()}</li>`}
+                  ${role === UserRole.PATIENT ? `<li>${t('expectWaitingRoom')}</li><li>${t('expectAdmission')}</li><li>${t('expectMedia')}</li>` : `<li>${t('expectRoom')}</li><li>${t('expectMedia')}</li><li>${t('expectContribute', { role: roleDisplay.toLowerCase() })}</li>`}
                 </ul>
-                <strong>Technical requirements:</strong>
+                <strong>${t('requirementsTitle')}</strong>
                 <ul style="margin-left:20px;">
-                  <li>Modern browser (Chrome, Firefox, Safari, Edge)</li>
-                  <li>Stable internet connection</li>
-                  <li>Camera/microphone (optional)</li>
+                  <li>${t('requirementBrowser')}</li>
+                  <li>${t('requirementInternet')}</li>
+                  <li>${t('requirementDevices')}</li>
                 </ul>
               </div>
             </div>
             <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
-              This is an automated message. If you received this in error, please ignore.<br>© ${new Date().getFullYear()} Healthcare Platform.
+              ${t('footer')}<br>${common('copyright', { year: new Date().getFullYear() })}
             </div>
           </div>
         </body>
         </html>
       `;
 
-      await this.sendEmail(toEmail, subject, html);
+      await this.sendEmail(toEmail, subject, html, {
+        templateKey: 'invitation',
+        consultationId,
+        attachments: await this.calendarAttachments(consultationId),
+      });
 
       this.logger.log(
         `Consultation invitation email sent successfully - To: ${toEmail}, Role: ${role}, Consultation: ${consultationId}`,
@@ -179,50 +232,65 @@ export class EmailService {
     practitionerName: string,
     consultationId: number,
     schedulingLink: string,
+    locale?: RecipientLocale,
   ) {
     try {
       if (!toEmail?.trim() || !schedulingLink?.trim()) {
         throw new Error('Email address and scheduling link are required');
       }
 
-      const subject = `Provider Assigned: Schedule Your Consultation`;
-      const html = `
-        <html>
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator('consultationAssigned', locale);
+      const common = this.i18nService.translator('common', locale);
+
+      const custom = await this.customEmail(
+        'consultationAssigned',
+        locale,
+        { patientName, practitionerName, consultationId, link: schedulingLink },
+        { consultationId },
+      );
+
+      const subject = custom?.subject ?? t('subject');
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
         <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
           <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
             <div style="background:#7c3aed;color:#fff;padding:32px;text-align:center;">
-              <h1 style="margin-bottom:8px;">Provider Assigned</h1>
-              <p style="color:#ede9fe;">Your consultation is ready to be scheduled</p>
+              <h1 style="margin-bottom:8px;">${t('title')}</h1>
+              <p style="color:#ede9fe;">${t('subtitle')}</p>
             </div>
             <div style="padding:32px;">
-              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">Hello ${patientName},</p>
-              <p>Your request has been assigned to <strong>${practitionerName}</strong>. Please schedule your appointment at your convenience.</p>
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${common('hello', { name: patientName })}</p>
+              <p>${t('intro', { practitioner: practitionerName })}</p>
               <div style="background:#f3f4f6;padding:16px;border-radius:6px;margin:24px 0;">
-                <p><strong>Consultation ID:</strong> #${consultationId}</p>
-                <p><strong>Assigned Provider:</strong> ${practitionerName}</p>
+                <p><strong>${common('consultationId')}</strong> #${consultationId}</p>
+                <p><strong>${t('assignedProvider')}</strong> ${practitionerName}</p>
               </div>
               <div style="text-align:center;margin:32px 0;">
-                <a href="${schedulingLink}" style="background:#7c3aed;color:#fff;padding:14px 28px;border-radius:8px;text-decoration:none;font-weight:600;font-size:16px;">Schedule Appointment</a>
+                <a href="${schedulingLink}" style="background:#7c3aed;color:#fff;padding:14px 28px;border-radius:8px;text-decoration:none;font-weight:600;font-size:16px;">${t('button')}</a>
               </div>
               <div style="font-size:14px;color:#64748b;">
-                <strong>Next steps:</strong>
+                <strong>${t('nextSteps')}</strong>
                 <ul style="margin-left:20px;">
-                  <li>Click above to choose your time slot</li>
-                  <li>Receive confirmation after scheduling</li>
-                  <li>Join at your scheduled time</li>
+                  <li>${t('stepChoose')}</li>
+                  <li>${t('stepConfirm')}</li>
+                  <li>${t('stepJoin')}</li>
                 </ul>
-                <p>If you need help, reply to this email or contact support.</p>
+                <p>${t('help')}</p>
               </div>
             </div>
             <div style="background:#f3f4f6;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
-              This is an automated message. If the button doesn't work, copy and paste this link:<br><a href="${schedulingLink}">${schedulingLink}</a><br>© ${new Date().getFullYear()} Healthcare Platform.
+              ${t('footer')}<br><a href="${schedulingLink}">${schedulingLink}</a><br>${common('copyright', { year: new Date().getFullYear() })}
             </div>
           </div>
         </body>
         </html>
       `;
 
-      await this.sendEmail(toEmail, subject, html);
+      await this.sendEmail(toEmail, subject, html, {
+        templateKey: 'consultationAssigned',
+        consultationId,
+      });
       this.logger.log(`Consultation assigned email sent to ${toEmail} for consultation ${consultationId}`);
     } catch (error) {
       this.logger.error(
@@ -232,21 +300,33 @@ export class EmailService {
       throw new Error(`Email delivery failed: ${error.message}`);
     }
   }
-  async sendSelfInvitationEmail(toEmail: string, invitationLink: string) {
+  async sendSelfInvitationEmail(
+    toEmail: string,
+    invitationLink: string,
+    locale?: RecipientLocale,
+  ) {
   try {
     if (!toEmail?.trim() || !invitationLink?.trim()) {
       throw new Error('Email address and invitation link are required');
     }
 
-    const subject = `✨ You're Invited to Join Our Healthcare Platform`;
+    locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+    const t = this.i18nService.translator('selfInvitation', locale);
+    const common = this.i18nService.translator('common', locale);
 
-    const html = `
+    const custom = await this.customEmail('selfInvitation', locale, {
+      link: invitationLink,
+    });
+
+    const subject = custom?.subject ?? t('subject');
+
+    const html = custom?.html ?? `
       <!DOCTYPE html>
-      <html lang="en">
+      <html lang="${locale.language}">
       <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Your Healthcare Invitation</title>
+        <title>${t('pageTitle')}</title>
         <style>
           body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
           .header { background: linear-gradient(135deg, #11998e 0%, #38ef7d 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
@@ -258,40 +338,42 @@ export class EmailService {
       </head>
       <body>
         <div class="header">
-          <h1>✨ Welcome!</h1>
-          <p>Your personal invitation to access our healthcare services</p>
+          <h1>${t('title')}</h1>
+          <p>${t('subtitle')}</p>
         </div>
         <div class="content">
-          <p>Hello,</p>
+          <p>${common('helloAnonymous')}</p>
           
-          <p>We’re excited to invite you to our healthcare platform. Use the link below to create your account and start using our services.</p>
+          <p>${t('intro')}</p>
           
           <div style="text-align: center; margin: 30px 0;">
-            <a href="${invitationLink}" class="cta-button">🔗 Accept Invitation</a>
+            <a href="${invitationLink}" class="cta-button">${t('button')}</a>
           </div>
           
-          <p><strong>Next Steps:</strong></p>
+          <p><strong>${t('nextSteps')}</strong></p>
           <ul>
-            <li>Click the button above to accept your invitation</li>
-            <li>Set up your account details</li>
-            <li>Book consultations and manage appointments</li>
+            <li>${t('stepAccept')}</li>
+            <li>${t('stepAccount')}</li>
+            <li>${t('stepBook')}</li>
           </ul>
           
-          <p>If you need assistance, please reach out to our support team.</p>
+          <p>${t('help')}</p>
           
-          <p>Warm regards,<br>
-          Your Healthcare Team</p>
+          <p>${t('regards')}<br>
+          ${t('team')}</p>
         </div>
         <div class="footer">
-          <p>This is an automated message. Please do not reply to this email.</p>
-          <p>If the button above doesn't work, copy and paste this link into your browser:<br>
+          <p>${t('noReply')}</p>
+          <p>${t('linkFallback')}<br>
           <a href="${invitationLink}">${invitationLink}</a></p>
         </div>
       </body>
       </html>
     `;
 
-    await this.sendEmail(toEmail, subject, html);
+    await this.sendEmail(toEmail, subject, html, {
+      templateKey: 'selfInvitation',
+    });
     this.logger.log(`Self-invitation email sent to ${toEmail}`);
   } catch (error) {
     throw HttpExceptionHelper.internalServerError('Failed to send self-invitation email');
@@ -308,52 +390,72 @@ export class EmailService {
     toEmail: string,
     patientName: string,
     scheduledTime: string,
-    consultationLink: string
-  ) {
+    consultationLink: string,
+    consultationId?: number,
+    locale?: RecipientLocale,
+    dispatchOptions?: DispatchOptions,
+  ): Promise<OutboundNotification> {
     try {
       if (!toEmail?.trim() || !consultationLink?.trim()) {
         throw new Error('Email address and consultation link are required');
       }
 
-      const subject = 'Reminder: Your Consultation Starts Soon';
-      const html = `
-        <html>
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator('consultationReminder', locale);
+      const common = this.i18nService.translator('common', locale);
+
+      const custom = await this.customEmail(
+        'consultationReminder',
+        locale,
+        { patientName, scheduledTime, link: consultationLink },
+        { consultationId },
+      );
+
+      const subject = custom?.subject ?? t('subject');
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
         <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
           <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
             <div style="background:#059669;color:#fff;padding:32px;text-align:center;">
-              <h1 style="margin-bottom:8px;">Consultation Reminder</h1>
-              <p style="color:#bbf7d0;">Your appointment is about to begin</p>
+              <h1 style="margin-bottom:8px;">${t('title')}</h1>
+              <p style="color:#bbf7d0;">${t('subtitle')}</p>
             </div>
             <div style="padding:32px;">
-              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">Hello <strong>${patientName}</strong>,</p>
-              <p>Your consultation scheduled for <strong>${scheduledTime}</strong> will start in <span style="color:#dc2626;font-weight:600;">1 minute</span>.</p>
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${common('hello', { name: `<strong>${patientName}</strong>` })}</p>
+              <p>${t('intro', { time: scheduledTime })}</p>
               <div style="background:#fef3c7;padding:16px;border-radius:6px;margin:24px 0;">
-                <strong>Ready to join?</strong> Click below to enter the waiting room. The practitioner will admit you soon.
+                ${t('ready')}
               </div>
               <div style="text-align:center;margin:32px 0;">
-                <a href="${consultationLink}" style="background:#059669;color:#fff;padding:16px 32px;border-radius:8px;text-decoration:none;font-weight:600;font-size:16px;">Join Consultation</a>
+                <a href="${consultationLink}" style="background:#059669;color:#fff;padding:16px 32px;border-radius:8px;text-decoration:none;font-weight:600;font-size:16px;">${t('button')}</a>
               </div>
               <div style="background:#f1f5f9;padding:12px;border-radius:6px;margin-bottom:20px;color:#1e293b;font-size:14px;">
-                <strong>Before you join:</strong>
+                <strong>${t('beforeTitle')}</strong>
                 <ul style="margin-left:20px;">
-                  <li>Check camera and microphone</li>
-                  <li>Find a quiet, well-lit space</li>
-                  <li>Have medical records ready if needed</li>
-                  <li>Test your internet connection</li>
+                  <li>${t('beforeDevices')}</li>
+                  <li>${t('beforeSpace')}</li>
+                  <li>${t('beforeRecords')}</li>
+                  <li>${t('beforeConnection')}</li>
                 </ul>
               </div>
-              <div style="font-size:14px;color:#64748b;text-align:center;margin-top:24px;">Need help? Contact support or refresh your browser.</div>
+              <div style="font-size:14px;color:#64748b;text-align:center;margin-top:24px;">${t('help')}</div>
             </div>
             <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
-              © ${new Date().getFullYear()} Healthcare Platform.
+              ${common('copyright', { year: new Date().getFullYear() })}
             </div>
           </div>
         </body>
         </html>
       `;
 
-      await this.sendEmail(toEmail, subject, html);
+      const notification = await this.sendEmail(toEmail, subject, html, {
+        templateKey: 'consultationReminder',
+        consultationId,
+        attachments: await this.calendarAttachments(consultationId),
+        dispatchOptions,
+      });
       this.logger.log(`Consultation reminder email sent to ${toEmail}`);
+      return notification;
     } catch (error) {
       this.logger.error(
         `Failed to send consultation reminder email to ${toEmail}:`,
@@ -363,6 +465,87 @@ export class EmailService {
     }
   }
 
+  /**
+   * Tells a participant their consultation was moved or cancelled. The
+   * attached invite carries the consultation's new version, so calendars
+   * update or remove the appointment of the earlier invite.
+   */
+  async sendConsultationChangedEmail(
+    toEmail: string,
+    recipientName: string,
+    consultationId: number,
+    scheduledDate: Date,
+    cancelled: boolean,
+    consultationLink: string,
+    locale?: RecipientLocale,
+  ) {
+    const templateKey: EmailTemplateKey = cancelled
+      ? 'consultationCancelled'
+      : 'consultationRescheduled';
+    try {
+      if (!toEmail?.trim()) {
+        throw new Error('Email address is required');
+      }
+
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator(templateKey, locale);
+      const common = this.i18nService.translator('common', locale);
+
+      const scheduledTime = this.i18nService.formatDateTime(scheduledDate, locale);
+      const custom = await this.customEmail(
+        templateKey,
+        locale,
+        {
+          recipientName,
+          consultationId,
+          scheduledTime,
+          link: consultationLink,
+        },
+        { consultationId },
+      );
+
+      const color = cancelled ? '#dc2626' : '#2563eb';
+      const subject = custom?.subject ?? t('subject', { consultationId });
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
+        <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
+          <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
+            <div style="background:${color};color:#fff;padding:32px;text-align:center;">
+              <h1 style="margin-bottom:8px;">${t('title')}</h1>
+            </div>
+            <div style="padding:32px;">
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${common('hello', { name: recipientName })}</p>
+              <p>${t('intro', { consultationId, time: scheduledTime })}</p>
+              <div style="text-align:center;margin:32px 0;">
+                <a href="${consultationLink}" style="background:${color};color:#fff;padding:14px 32px;border-radius:6px;text-decoration:none;font-weight:bold;">${t('button')}</a>
+              </div>
+              <div style="font-size:14px;color:#64748b;">${t('calendar')}</div>
+            </div>
+            <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
+              ${common('automated')}<br>${common('copyright', { year: new Date().getFullYear() })}
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+
+      await this.sendEmail(toEmail, subject, html, {
+        templateKey,
+        consultationId,
+        attachments: await this.calendarAttachments(consultationId),
+      });
+      this.logger.log(
+        `Consultation ${consultationId} ${cancelled ? 'cancellation' : 'reschedule'} email sent to ${toEmail}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${templateKey} email to ${toEmail}:`,
+        error.stack,
+      );
+      throw new Error(`Email delivery failed: ${error.message}`);
+    }
+  }
+
   async sendPreConsultationEmail(
     toEmail: string,
     patientName: string,
@@ -370,70 +553,83 @@ export class EmailService {
     consultationId: number,
     consultationRoomUrl: string,
     scheduledDate: Date,
+    locale?: RecipientLocale,
   ) {
     try {
       if (!toEmail?.trim() || !consultationRoomUrl?.trim()) {
         throw new Error('Email address and consultation room URL are required');
       }
 
-      const subject = `Consultation Starting: Join Now`;
-      const formattedDate = scheduledDate.toLocaleString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-        timeZoneName: 'short'
-      });
-      const html = `
-        <html>
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator('preConsultation', locale);
+      const common = this.i18nService.translator('common', locale);
+
+      const formattedDate = this.i18nService.formatDateTime(scheduledDate, locale);
+      const custom = await this.customEmail(
+        'preConsultation',
+        locale,
+        {
+          patientName,
+          practitionerName,
+          consultationId,
+          scheduledTime: formattedDate,
+          link: consultationRoomUrl,
+        },
+        { consultationId },
+      );
+
+      const subject = custom?.subject ?? t('subject');
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
         <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
           <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
             <div style="background:#047857;color:#fff;padding:32px;text-align:center;">
-              <h1 style="margin-bottom:8px;">Consultation Starting Now</h1>
-              <p style="color:#a7f3d0;">Your healthcare appointment is ready</p>
+              <h1 style="margin-bottom:8px;">${t('title')}</h1>
+              <p style="color:#a7f3d0;">${t('subtitle')}</p>
             </div>
             <div style="padding:32px;">
-              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">Hello ${patientName},</p>
-              <p>Your scheduled consultation with <strong>${practitionerName}</strong> is starting now. Please join using the secure link below.</p>
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${common('hello', { name: patientName })}</p>
+              <p>${t('intro', { practitioner: practitionerName })}</p>
               <div style="background:#f0fdf4;padding:16px;border-radius:6px;margin:24px 0;">
-                <p><strong>Consultation ID:</strong> #${consultationId}</p>
-                <p><strong>Practitioner:</strong> ${practitionerName}</p>
-                <p><strong>Scheduled Time:</strong> ${formattedDate}</p>
-                <p><strong>Status:</strong> <span style="color:#059669;font-weight:600;">Ready to Join</span></p>
+                <p><strong>${common('consultationId')}</strong> #${consultationId}</p>
+                <p><strong>${t('practitioner')}</strong> ${practitionerName}</p>
+                <p><strong>${t('scheduledTime')}</strong> ${formattedDate}</p>
+                <p><strong>${t('status')}</strong> <span style="color:#059669;font-weight:600;">${t('readyToJoin')}</span></p>
               </div>
               <div style="text-align:center;margin:32px 0;">
-                <a href="${consultationRoomUrl}" style="background:#047857;color:#fff;padding:18px 36px;border-radius:8px;text-decoration:none;font-weight:600;font-size:18px;">Join Consultation Room</a>
+                <a href="${consultationRoomUrl}" style="background:#047857;color:#fff;padding:18px 36px;border-radius:8px;text-decoration:none;font-weight:600;font-size:18px;">${t('button')}</a>
               </div>
               <div style="background:#eff6ff;padding:12px;border-radius:6px;margin-bottom:20px;color:#1e40af;font-size:14px;">
-                <strong>Reminder:</strong> You'll enter a waiting room first. The practitioner will admit you when ready.
+                ${t('reminder')}
               </div>
               <div style="font-size:14px;color:#64748b;">
-                <strong>What happens next:</strong>
+                <strong>${t('nextTitle')}</strong>
                 <ul style="margin-left:20px;">
-                  <li>Click "Join Consultation Room" above</li>
-                  <li>You'll enter a secure waiting room</li>
-                  <li>Practitioner will be notified of your arrival</li>
-                  <li>Admitted to consultation when ready</li>
+                  <li>${t('nextClick', { button: t('button') })}</li>
+                  <li>${t('nextWaitingRoom')}</li>
+                  <li>${t('nextNotified')}</li>
+                  <li>${t('nextAdmitted')}</li>
                 </ul>
-                <strong>Technical support:</strong>
+                <strong>${t('supportTitle')}</strong>
                 <ul style="margin-left:20px;">
-                  <li>Stable internet connection</li>
-                  <li>Allow camera/microphone permissions</li>
-                  <li>If issues, refresh the page</li>
+                  <li>${t('supportInternet')}</li>
+                  <li>${t('supportPermissions')}</li>
+                  <li>${t('supportRefresh')}</li>
                 </ul>
               </div>
             </div>
             <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
-              This link is secure and personal. If you cannot attend, contact your provider.<br>© ${new Date().getFullYear()} Healthcare Platform.
+              ${t('footer')}<br>${common('copyright', { year: new Date().getFullYear() })}
             </div>
           </div>
         </body>
         </html>
       `;
 
-      await this.sendEmail(toEmail, subject, html);
+      await this.sendEmail(toEmail, subject, html, {
+        templateKey: 'preConsultation',
+        consultationId,
+      });
 
       this.logger.log(
         `Pre-consultation email sent successfully - To: ${toEmail}, Consultation: ${consultationId}`,
@@ -447,18 +643,202 @@ export class EmailService {
     }
   }
 
-  private getRoleDisplayName(role: UserRole): string {
-    switch (role) {
-      case UserRole.PATIENT:
-        return 'Patient';
-      case UserRole.EXPERT:
-        return 'Expert';
-      case UserRole.GUEST:
-        return 'Guest';
-      case UserRole.PRACTITIONER:
-        return 'Practitioner';
-      default:
-        return role;
+  async sendInvoiceEmail(
+    toEmail: string,
+    patientName: string,
+    documentTitle: string,
+    documentNumber: string,
+    formattedAmount: string,
+    organizationName: string,
+    pdf: Buffer,
+    organizationId?: number | null,
+    locale?: RecipientLocale,
+  ) {
+    try {
+      if (!toEmail?.trim()) {
+        throw new Error('Email address is required');
+      }
+
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator('invoice', locale);
+      const common = this.i18nService.translator('common', locale);
+
+      const custom = await this.customEmail(
+        'invoice',
+        locale,
+        {
+          patientName,
+          documentTitle,
+          documentNumber,
+          amount: formattedAmount,
+          organizationName,
+        },
+        { organizationId },
+      );
+
+      const subject =
+        custom?.subject ??
+        t('subject', {
+          title: documentTitle,
+          number: documentNumber,
+          organization: organizationName,
+        });
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
+        <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
+          <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
+            <div style="background:#2563eb;color:#fff;padding:32px;text-align:center;">
+              <h1 style="margin-bottom:8px;">${documentTitle}</h1>
+              <p style="color:#dbeafe;">${organizationName}</p>
+            </div>
+            <div style="padding:32px;">
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${common('hello', { name: patientName })}</p>
+              <p>${t('intro', { title: documentTitle.toLowerCase() })}</p>
+              <div style="background:#f1f5f9;padding:16px;border-radius:6px;margin:24px 0;">
+                <p><strong>${t('number')}</strong> ${documentNumber}</p>
+                <p><strong>${t('amount')}</strong> ${formattedAmount}</p>
+              </div>
+              <div style="font-size:14px;color:#64748b;">${t('dashboard')}</div>
+            </div>
+            <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
+              ${common('automated')}<br>${common('copyright', { year: new Date().getFullYear() })}
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+
+      await this.sendEmail(toEmail, subject, html, {
+        templateKey: 'invoice',
+        attachments: [
+          {
+            filename: `${documentNumber}.pdf`,
+            content: pdf,
+            type: 'application/pdf',
+          },
+        ],
+      });
+      this.logger.log(`${documentTitle} ${documentNumber} sent to ${toEmail}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${documentTitle.toLowerCase()} ${documentNumber} to ${toEmail}:`,
+        error.stack,
+      );
+      throw new Error(`Email delivery failed: ${error.message}`);
+    }
+  }
+
+  async sendExportReadyEmail(
+    toEmail: string,
+    adminName: string,
+    fileName: string,
+    rowCount: number,
+    downloadLink: string,
+    expiresAt: Date,
+    locale?: RecipientLocale,
+  ) {
+    try {
+      if (!toEmail?.trim()) {
+        throw new Error('Email address is required');
+      }
+
+      locale = locale ?? (await this.i18nService.localeForUser({ email: toEmail }));
+      const t = this.i18nService.translator('exportReady', locale);
+      const common = this.i18nService.translator('common', locale);
+
+      const formattedExpiry = this.i18nService.formatDateTime(expiresAt, locale);
+      const custom = await this.customEmail('exportReady', locale, {
+        adminName,
+        fileName,
+        rowCount,
+        link: downloadLink,
+        expiresAt: formattedExpiry,
+      });
+
+      const subject = custom?.subject ?? t('subject', { fileName });
+      const html = custom?.html ?? `
+        <html lang="${locale.language}">
+        <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
+          <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
+            <div style="background:#2563eb;color:#fff;padding:32px;text-align:center;">
+              <h1 style="margin-bottom:8px;">${t('title')}</h1>
+            </div>
+            <div style="padding:32px;">
+              <p style="font-size:18px;color:#1e293b;margin-bottom:16px;">${common('hello', { name: adminName })}</p>
+              <p>${t('intro', { fileName, rowCount })}</p>
+              <div style="text-align:center;margin:32px 0;">
+                <a href="${downloadLink}" style="background:#2563eb;color:#fff;padding:14px 32px;border-radius:6px;text-decoration:none;font-weight:bold;">${t('button')}</a>
+              </div>
+              <div style="font-size:14px;color:#64748b;">${t('available', { expiresAt: formattedExpiry })}</div>
+            </div>
+            <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;">
+              ${common('automated')}<br>${common('copyright', { year: new Date().getFullYear() })}
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+
+      await this.sendEmail(toEmail, subject, html, {
+        templateKey: 'exportReady',
+      });
+      this.logger.log(`Export ready email for ${fileName} sent to ${toEmail}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send export ready email to ${toEmail}:`,
+        error.stack,
+      );
+      throw new Error(`Email delivery failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Calendar invite of the consultation; the email goes out without one
+   * rather than not at all when it cannot be built.
+   */
+  private async calendarAttachments(
+    consultationId?: number,
+  ): Promise<EmailAttachment[] | undefined> {
+    if (!consultationId) {
+      return undefined;
+    }
+    try {
+      const invite =
+        await this.consultationCalendarService.emailAttachment(consultationId);
+      return invite ? [invite] : undefined;
+    } catch (error) {
+      this.logger.warn(
+        `Could not build the calendar invite of consultation ${consultationId}: ${error.message}`,
+      );
+      return undefined;
     }
   }
+
+  /**
+   * The admin-edited version of an email, or null to send the built-in one.
+   * A broken template must not block delivery, so errors fall back too.
+   */
+  private async customEmail(
+    key: EmailTemplateKey,
+    locale: RecipientLocale,
+    variables: TemplateVariables,
+    scope: { organizationId?: number | null; consultationId?: number } = {},
+  ): Promise<RenderedEmail | null> {
+    try {
+      return await this.emailTemplateService.render(key, {
+        ...scope,
+        locale,
+        variables,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not render the "${key}" email template, sending the built-in email: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private getRoleDisplayName(role: UserRole, locale?: RecipientLocale): string {
+    return this.i18nService.translate('roles', role, locale);
+  }
 }
@@ -0,0 +1,34 @@
+import { NotificationDeliveryError } from '../../../notification-outbox/notification-sender.interface';
+
+export type EmailTransportName = 'sendgrid' | 'smtp' | 'outbox';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  type: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Delivery failure of a transport. Permanent failures, such as a rejected
+ * recipient or bad credentials, are not retried by the outbox.
+ */
+export class EmailDeliveryError extends NotificationDeliveryError {}
+
+/** Way of handing an email over for delivery */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+
+  /** Whether the settings the transport needs are present */
+  isConfigured(): boolean;
+
+  /** Resolves with the id of the message at the provider, when it has one */
+  send(message: EmailMessage): Promise<string | undefined>;
+}
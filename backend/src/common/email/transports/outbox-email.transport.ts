@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigService } from 'src/config/config.service';
+import { EmailMessage, EmailTransport } from './email-transport.interface';
+
+// Oldest captured emails are dropped past this count
+const MAX_CAPTURED_EMAILS = 200;
+
+export interface CapturedEmail {
+  id: string;
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+  attachments: { filename: string; type: string; size: number }[];
+  capturedAt: Date;
+}
+
+/**
+ * Records emails instead of delivering them, for development and tests.
+ * The last emails are kept in memory and, with EMAIL_OUTBOX_DIR, written
+ * to disk as JSON.
+ */
+@Injectable()
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox' as const;
+  private readonly logger = new Logger(OutboxEmailTransport.name);
+  private readonly emails: CapturedEmail[] = [];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: EmailMessage): Promise<string> {
+    const email: CapturedEmail = {
+      id: uuidv4(),
+      to: message.to,
+      from: message.from,
+      subject: message.subject,
+      html: message.html,
+      attachments: (message.attachments ?? []).map((attachment) => ({
+        filename: attachment.filename,
+        type: attachment.type,
+        size: attachment.content.length,
+      })),
+      capturedAt: new Date(),
+    };
+
+    this.emails.unshift(email);
+    this.emails.splice(MAX_CAPTURED_EMAILS);
+    this.logger.log(`Captured email to ${email.to} - ${email.subject}`);
+
+    const dir = this.configService.emailOutboxDir;
+    if (dir) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(
+        join(dir, `${email.capturedAt.getTime()}-${email.id}.json`),
+        JSON.stringify(email, null, 2),
+      );
+    }
+    return email.id;
+  }
+
+  /** Captured emails, newest first, optionally only those sent to `to` */
+  list(to?: string): CapturedEmail[] {
+    const recipient = to?.trim().toLowerCase();
+    return recipient
+      ? this.emails.filter((email) => email.to.toLowerCase() === recipient)
+      : [...this.emails];
+  }
+
+  find(id: string): CapturedEmail | undefined {
+    return this.emails.find((email) => email.id === id);
+  }
+
+  clear(): void {
+    this.emails.length = 0;
+  }
+}
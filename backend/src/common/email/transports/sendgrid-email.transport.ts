@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import sgMail from '@sendgrid/mail';
+import { ConfigService } from 'src/config/config.service';
+import {
+  EmailDeliveryError,
+  EmailMessage,
+  EmailTransport,
+} from './email-transport.interface';
+
+const PLACEHOLDER_API_KEY = 'YOUR_SENDGRID_API_KEY_HERE';
+
+@Injectable()
+export class SendgridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid' as const;
+  private readonly apiKey: string | undefined;
+
+  constructor(configService: ConfigService) {
+    this.apiKey = configService.emailSendgridApiKey;
+    if (this.isConfigured()) {
+      sgMail.setApiKey(this.apiKey!);
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey !== PLACEHOLDER_API_KEY;
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    let response: Awaited<ReturnType<typeof sgMail.send>>[0];
+    try {
+      [response] = await sgMail.send({
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        html: message.html,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content.toString('base64'),
+          type: attachment.type,
+          disposition: 'attachment',
+        })),
+      });
+    } catch (error) {
+      // SendGrid answers 4xx for requests that will never succeed, except
+      // for rate limiting
+      const status = Number(error?.code);
+      throw new EmailDeliveryError(
+        error?.message || String(error),
+        !(status >= 400 && status < 500 && status !== 429),
+      );
+    }
+    // Event webhooks refer to the message by this id
+    return response.headers?.['x-message-id'] || undefined;
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { createTransport, Transporter } from 'nodemailer';
+import { ConfigService } from 'src/config/config.service';
+import {
+  EmailDeliveryError,
+  EmailMessage,
+  EmailTransport,
+} from './email-transport.interface';
+
+/**
+ * Sends through any SMTP server, for self-hosted installs without
+ * SendGrid. The connection is opened on the first email.
+ */
+@Injectable()
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.smtpConfig.host;
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    try {
+      const info = await this.getTransporter().sendMail({
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        html: message.html,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.type,
+        })),
+      });
+      return info.messageId;
+    } catch (error) {
+      // 5xx replies are permanent failures; connection errors and 4xx
+      // replies are worth another attempt
+      const responseCode = Number(error?.responseCode);
+      throw new EmailDeliveryError(
+        error?.message || String(error),
+        !(responseCode >= 500 && responseCode < 600) && error?.code !== 'EAUTH',
+      );
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const config = this.configService.smtpConfig;
+      this.transporter = createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: config.user
+          ? { user: config.user, pass: config.password }
+          : undefined,
+      });
+    }
+    return this.transporter;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+function deriveKey(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
+
+/**
+ * Encrypts a secret (e.g. a provider API key) for storage at rest.
+ * The result is `enc:v1:<iv>:<auth tag>:<ciphertext>`, each part base64.
+ */
+export function encryptSecret(plainText: string, key: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(key), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plainText, 'utf8'),
+    cipher.final(),
+  ]);
+  const tag = cipher.getAuthTag();
+
+  return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
+}
+
+/**
+ * Decrypts a value produced by `encryptSecret`. Values stored before
+ * encryption was introduced are returned unchanged.
+ */
+export function decryptSecret(value: string, key: string): string {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+
+  const [iv, tag, encrypted] = value
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(key), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8',
+  );
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
@@ -0,0 +1,134 @@
+/** iTIP method of a calendar: feeds publish, emails request or cancel */
+export type IcalMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcalPerson {
+  email: string;
+  name?: string;
+}
+
+export interface IcalEvent {
+  /** Stays the same across all versions of the event */
+  uid: string;
+  /** Revision of the event; calendars only apply a higher one than they know */
+  sequence: number;
+  startsAt: Date;
+  endsAt: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  organizer?: IcalPerson;
+  attendees?: IcalPerson[];
+  updatedAt?: Date;
+}
+
+export interface IcalCalendar {
+  method?: IcalMethod;
+  /** Name subscribed calendars show */
+  name?: string;
+  /** How often subscribed calendars should fetch the feed again */
+  refreshMinutes?: number;
+  events: IcalEvent[];
+}
+
+const PRODUCT_ID = '-//HCW-Home//Consultations//EN';
+
+/** Lines longer than this many octets are folded */
+const MAX_LINE_OCTETS = 75;
+
+/** iCalendar (RFC 5545) document of the events, with CRLF line breaks */
+export function buildIcal(calendar: IcalCalendar, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(calendar.method ? [`METHOD:${calendar.method}`] : []),
+    ...(calendar.name ? [`X-WR-CALNAME:${escapeText(calendar.name)}`] : []),
+    ...(calendar.refreshMinutes
+      ? [
+          `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`,
+          `X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`,
+        ]
+      : []),
+    ...calendar.events.flatMap((event) => eventLines(event, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** Date-time in UTC, e.g. 20261019T143000Z */
+export function formatIcalDate(at: Date): string {
+  return at
+    .toISOString()
+    .replace(/\.\d{3}/, '')
+    .replace(/[-:]/g, '');
+}
+
+/** TEXT value with backslashes, separators and line breaks escaped */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function eventLines(event: IcalEvent, now: Date): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcalDate(now)}`,
+    `DTSTART:${formatIcalDate(event.startsAt)}`,
+    `DTEND:${formatIcalDate(event.endsAt)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description
+      ? [`DESCRIPTION:${escapeText(event.description)}`]
+      : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `STATUS:${event.status ?? 'CONFIRMED'}`,
+    ...(event.updatedAt
+      ? [`LAST-MODIFIED:${formatIcalDate(event.updatedAt)}`]
+      : []),
+    ...(event.organizer ? [personLine('ORGANIZER', event.organizer)] : []),
+    ...(event.attendees ?? []).map((attendee) =>
+      personLine(
+        'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE',
+        attendee,
+      ),
+    ),
+    'END:VEVENT',
+  ];
+}
+
+function personLine(property: string, person: IcalPerson): string {
+  // Parameter values cannot hold double quotes, and need them around : ; ,
+  const name = person.name?.replace(/"/g, '').trim();
+  const cn = name ? `;CN=${/[:;,]/.test(name) ? `"${name}"` : name}` : '';
+  return `${property}${cn}:mailto:${person.email}`;
+}
+
+/** Splits a line into 75-octet parts, without cutting a character in two */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
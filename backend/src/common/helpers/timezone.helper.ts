@@ -0,0 +1,108 @@
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface ZonedParts {
+  /** Calendar date, YYYY-MM-DD */
+  date: string;
+  /** Wall-clock time, HH:mm */
+  time: string;
+  /** 0 for Sunday to 6 for Saturday */
+  dayOfWeek: number;
+}
+
+/** Calendar date and wall-clock time of an instant in an IANA timezone */
+export function toZonedParts(at: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) =>
+    parts.find((item) => item.type === type)?.value ?? '00';
+  const date = `${part('year')}-${part('month')}-${part('day')}`;
+  return {
+    date,
+    time: `${part('hour')}:${part('minute')}`,
+    dayOfWeek: dayOfWeek(date),
+  };
+}
+
+/** Offset of the timezone from UTC in minutes at an instant, e.g. 120 for Europe/Zurich in summer */
+export function timezoneOffsetMinutes(timezone: string, at: Date): number {
+  const { date, time } = toZonedParts(at, timezone);
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const minuteStart = Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS;
+  return Math.round((wallClock - minuteStart) / MINUTE_MS);
+}
+
+/**
+ * Instant at which the wall clock of the timezone shows `time` (HH:mm) on
+ * `date` (YYYY-MM-DD). Null for times skipped when clocks go forward; of the
+ * times repeated when clocks go back, the earlier one is returned.
+ */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timezone: string,
+): Date | null {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  if (isNaN(wallClock)) {
+    return null;
+  }
+  // Offsets change at most once a day, so the offsets a day apart are the
+  // only candidates
+  const offsets = new Set([
+    timezoneOffsetMinutes(timezone, new Date(wallClock - DAY_MS)),
+    timezoneOffsetMinutes(timezone, new Date(wallClock + DAY_MS)),
+  ]);
+  const matches = [...offsets]
+    .map((offset) => new Date(wallClock - offset * MINUTE_MS))
+    .filter((candidate) => {
+      const parts = toZonedParts(candidate, timezone);
+      return parts.date === date && parts.time === time;
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+  return matches[0] ?? null;
+}
+
+/**
+ * Like `zonedTimeToUtc`, but a time skipped when clocks go forward is read
+ * with the offset before the change, e.g. 02:30 as 03:30 in Europe/Zurich.
+ */
+export function zonedTimeToUtcShifted(
+  date: string,
+  time: string,
+  timezone: string,
+): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  return (
+    zonedTimeToUtc(date, time, timezone) ??
+    new Date(
+      wallClock -
+        timezoneOffsetMinutes(timezone, new Date(wallClock - DAY_MS)) *
+          MINUTE_MS,
+    )
+  );
+}
+
+/** First instant of a calendar day in the timezone */
+export function startOfZonedDay(date: string, timezone: string): Date {
+  // A few zones skip midnight itself when clocks go forward
+  return zonedTimeToUtcShifted(date, '00:00', timezone);
+}
+
+/** Calendar date (YYYY-MM-DD) `days` days after `date` */
+export function addCalendarDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/** Day of the week of a calendar date, 0 for Sunday */
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
@@ -3,6 +3,7 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { DatabaseService } from '../../database/database.service';
 import { EmailService } from '../email/email.service';
 import { ConfigService } from '../../config/config.service';
+import { I18nService } from '../../i18n/i18n.service';
 import { InvitationStatus } from '@prisma/client';
 
 @Injectable()
@@ -13,7 +14,8 @@ export class ReminderService {
   constructor(
     private readonly prisma: DatabaseService,
     private readonly emailService: EmailService,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly i18nService: I18nService
   ) { }
 
   /**
@@ -89,23 +91,31 @@ export class ReminderService {
       const patientBaseUrl = this.configService.patientUrl || 'https://app.hcw-at-home.com';
       const consultationLink = `${patientBaseUrl}/inv/?invite=${invitation.token}`;
 
-      // Format scheduled time in IST
-      const scheduledTimeIST = consultation.scheduledDate ?
-        this.formatTimeIST(new Date(consultation.scheduledDate)) :
+      // Format scheduled time in the invitee's language and timezone
+      const locale = await this.i18nService.localeForUser({
+        email: invitation.inviteEmail,
+        consultationId: consultation.id,
+      });
+      const scheduledTime = consultation.scheduledDate ?
+        this.i18nService.formatDateTime(consultation.scheduledDate, locale) :
         'Not scheduled';
 
       this.logger.log(`[sendConsultationLink] Sending reminder for consultation ${consultation.id}:`, {
         email: invitation.inviteEmail,
-        scheduledTimeIST,
+        scheduledTime,
         link: consultationLink
       });
 
-      // Send the consultation reminder email with join link
+      // Send the consultation reminder email with join link, unless quiet
+      // hours would hold it back until the consultation has started
       await this.emailService.sendConsultationReminderEmail(
         invitation.inviteEmail,
         invitation.name || 'Patient',
-        scheduledTimeIST,
-        consultationLink
+        scheduledTime,
+        consultationLink,
+        consultation.id,
+        locale,
+        { expiresAt: consultation.scheduledDate ?? undefined }
       );
 
       // IMPORTANT: Auto-accept the invitation when sending 2-minute reminder
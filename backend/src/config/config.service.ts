@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService as NestConfigService } from '@nestjs/config';
 import { Environment } from './environment.enum';
 import { UserRole } from '@prisma/client';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 @Injectable()
 export class ConfigService {
@@ -162,10 +164,102 @@ export class ConfigService {
     return this.configService.get<string>('EMAIL_SENDER_ADDRESS')!;
   }
 
+  // How long a patient keeps a chosen time slot while completing the booking
+  get slotHoldMinutes(): number {
+    return this.getNumber('SLOT_HOLD_MINUTES', 10);
+  }
+
   get emailReminderLeadMinutes(): number {
     return Number(this.configService.get('EMAIL_REMINDER_LEAD_MINUTES')) || 60;
   }
 
+  /**
+   * sendgrid, smtp or outbox. Null when EMAIL_TRANSPORT is not set: SendGrid
+   * is then used if it is configured, and the outbox otherwise.
+   */
+  get emailTransport(): 'sendgrid' | 'smtp' | 'outbox' | null {
+    const transport = this.configService
+      .get<string>('EMAIL_TRANSPORT', '')
+      .toLowerCase();
+    if (!transport) {
+      return null;
+    }
+    if (
+      transport !== 'sendgrid' &&
+      transport !== 'smtp' &&
+      transport !== 'outbox'
+    ) {
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transport}"`);
+    }
+    return transport;
+  }
+
+  get smtpConfig(): {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+  } {
+    const port = this.getNumber('SMTP_PORT', 587);
+    return {
+      host: this.configService.get<string>('SMTP_HOST', ''),
+      port,
+      // Implicit TLS on 465, STARTTLS on other ports
+      secure:
+        this.configService.get<string>('SMTP_SECURE', String(port === 465)) ===
+        'true',
+      user: this.configService.get<string>('SMTP_USER') || undefined,
+      password: this.configService.get<string>('SMTP_PASSWORD') || undefined,
+    };
+  }
+
+  // Directory where the outbox transport also writes captured emails
+  get emailOutboxDir(): string | null {
+    return this.configService.get<string>('EMAIL_OUTBOX_DIR') || null;
+  }
+
+  // Notification outbox: every outbound message is attempted up to
+  // NOTIFICATION_MAX_ATTEMPTS times
+  get notificationMaxAttempts(): number {
+    return Math.max(1, this.getNumber('NOTIFICATION_MAX_ATTEMPTS', 5));
+  }
+
+  // Delay before the first retry, doubled for each further one
+  get notificationRetryBaseDelaySeconds(): number {
+    return this.getNumber('NOTIFICATION_RETRY_BASE_DELAY_SECONDS', 60);
+  }
+
+  // Verification key of the signed SendGrid event webhook
+  get sendgridWebhookPublicKey(): string | undefined {
+    return this.configService.get<string>('SENDGRID_WEBHOOK_PUBLIC_KEY') || undefined;
+  }
+
+  get stripeWebhookSecret(): string | undefined {
+    return this.configService.get<string>('STRIPE_WEBHOOK_SECRET');
+  }
+
+  get stripeSecretKey(): string | undefined {
+    return this.configService.get<string>('STRIPE_SECRET_KEY') || undefined;
+  }
+
+  get stripePublishableKey(): string | undefined {
+    return this.configService.get<string>('STRIPE_PUBLISHABLE_KEY') || undefined;
+  }
+
+  /**
+   * Key used to encrypt secrets stored in the database, such as
+   * per-organization Stripe keys. Falls back to APP_SECRET outside production.
+   */
+  get secretsEncryptionKey(): string {
+    const key = this.configService.get<string>('SECRETS_ENCRYPTION_KEY');
+    if (key) return key;
+    if (this.isProduction) {
+      throw new Error('SECRETS_ENCRYPTION_KEY is required in production environment');
+    }
+    return this.jwtSecret || 'development-secrets-key';
+  }
+
   get transportStatsPollInterval(): number {
     return this.getNumber('TRANSPORT_STATS_POLL_INTERVAL', 5000);
   }
@@ -328,6 +422,56 @@ export class ConfigService {
     );
   }
 
+  // SMS Configuration: credentials of the gateways that `SmsProvider`
+  // rows route to
+  get twilioSmsFrom(): string | undefined {
+    return this.configService.get<string>('TWILIO_SMS_FROM') || undefined;
+  }
+
+  get twilioWhatsappFrom(): string | undefined {
+    return this.configService.get<string>('TWILIO_WHATSAPP_FROM') || undefined;
+  }
+
+  // Where Twilio posts the delivery status of SMS and WhatsApp messages
+  get twilioStatusCallbackUrl(): string {
+    return `${this.backendApiBaseUrl.replace(/\/$/, '')}/api/v1/notification-outbox/webhooks/twilio`;
+  }
+
+  // Where Twilio posts incoming WhatsApp messages, used to check their signature
+  get twilioWhatsappInboundUrl(): string {
+    return `${this.backendApiBaseUrl.replace(/\/$/, '')}/api/v1/whatsapp/inbound`;
+  }
+
+  // Address practitioners' calendars subscribe to, followed by the feed token
+  get calendarFeedBaseUrl(): string {
+    return `${this.backendApiBaseUrl.replace(/\/$/, '')}/api/v1/calendar/feed`;
+  }
+
+  get vonageConfig(): { apiKey?: string; apiSecret?: string; from?: string } {
+    return {
+      apiKey: this.configService.get<string>('VONAGE_API_KEY') || undefined,
+      apiSecret: this.configService.get<string>('VONAGE_API_SECRET') || undefined,
+      from: this.configService.get<string>('VONAGE_SMS_FROM') || undefined,
+    };
+  }
+
+  get smsHttpGatewayConfig(): { url?: string; token?: string; from?: string } {
+    return {
+      url: this.configService.get<string>('SMS_HTTP_GATEWAY_URL') || undefined,
+      token: this.configService.get<string>('SMS_HTTP_GATEWAY_TOKEN') || undefined,
+      from: this.configService.get<string>('SMS_HTTP_GATEWAY_FROM') || undefined,
+    };
+  }
+
+  // Language and timezone of outbound messages when the recipient has none
+  get defaultLanguage(): string {
+    return this.configService.get<string>('DEFAULT_LANGUAGE') || 'en';
+  }
+
+  get defaultTimezone(): string {
+    return this.configService.get<string>('DEFAULT_TIMEZONE') || 'UTC';
+  }
+
   // File Upload Configuration
   get maxFileUploadSizeBytes(): number {
     return this.configService.get<number>('upload.maxFileSizeBytes', 10 * 1024 * 1024);
@@ -363,6 +507,58 @@ export class ConfigService {
     return this.getNumber('CONSULTATION_DELETION_BUFFER_HOURS', 1);
   }
 
+  // ================ FILE STORAGE ================
+
+  get storageDriver(): 'cloudinary' | 'local' | 's3' {
+    const driver = this.configService
+      .get<string>('STORAGE_DRIVER', 'cloudinary')
+      .toLowerCase();
+    if (driver !== 'cloudinary' && driver !== 'local' && driver !== 's3') {
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+    }
+    return driver;
+  }
+
+  get storageSignedUrlTtlSeconds(): number {
+    return this.getNumber('STORAGE_SIGNED_URL_TTL_SECONDS', 300);
+  }
+
+  get storageLocalDir(): string {
+    return this.configService.get<string>('STORAGE_LOCAL_DIR', './uploads');
+  }
+
+  get s3Config(): {
+    endpoint?: string;
+    region: string;
+    bucket: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle: boolean;
+  } {
+    return {
+      endpoint: this.configService.get<string>('S3_ENDPOINT') || undefined,
+      region: this.configService.get<string>('S3_REGION', 'us-east-1'),
+      bucket: this.configService.get<string>('S3_BUCKET', ''),
+      accessKeyId: this.configService.get<string>('S3_ACCESS_KEY_ID') || undefined,
+      secretAccessKey:
+        this.configService.get<string>('S3_SECRET_ACCESS_KEY') || undefined,
+      forcePathStyle:
+        this.configService.get<string>('S3_FORCE_PATH_STYLE', 'true') === 'true',
+    };
+  }
+
+  // How long finished export job results stay downloadable
+  get exportResultTtlHours(): number {
+    return this.getNumber('EXPORT_RESULT_TTL_HOURS', 24);
+  }
+
+  get exportStorageDir(): string {
+    return (
+      this.configService.get<string>('EXPORT_STORAGE_DIR') ||
+      join(tmpdir(), 'hcw-exports')
+    );
+  }
+
   get backendApiBaseUrl(): string {
     return this.configService.get<string>('BACKEND_API_BASE_URL') ||
       `http://localhost:${this.port}`;
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { UpsertCancellationPolicyDto } from './dto/upsert-cancellation-policy.dto';
+
+@ApiTags('cancellation-policies')
+@ApiBearerAuth()
+@Controller('cancellation-policies')
+@UseGuards(AuthGuard, RolesGuard)
+export class CancellationPolicyController {
+  constructor(
+    private readonly cancellationPolicyService: CancellationPolicyService,
+  ) {}
+
+  @Get(':organizationId')
+  @ApiOperation({
+    summary: 'Cancellation policy of an organization, or the defaults',
+  })
+  async getPolicy(
+    @Param('organizationId', ParseIntPipe) organizationId: number,
+    @Req() req,
+  ) {
+    const rules = await this.cancellationPolicyService.getRules(organizationId);
+    return ApiResponseDto.success(
+      rules,
+      'Cancellation policy retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Put(':organizationId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Set the cancellation policy of an organization' })
+  async upsertPolicy(
+    @Param('organizationId', ParseIntPipe) organizationId: number,
+    @Body() dto: UpsertCancellationPolicyDto,
+    @Req() req,
+  ) {
+    const rules = await this.cancellationPolicyService.upsertPolicy(
+      organizationId,
+      dto,
+    );
+    return ApiResponseDto.success(
+      rules,
+      'Cancellation policy updated successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { CancellationPolicy } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { UpsertCancellationPolicyDto } from './dto/upsert-cancellation-policy.dto';
+
+export type CancellationRules = Pick<
+  CancellationPolicy,
+  | 'allowReschedule'
+  | 'allowCancellation'
+  | 'cutoffMinutes'
+  | 'freeCancellationMinutes'
+  | 'lateCancellationFeePercent'
+>;
+
+/** Rules of organizations without a policy and of consultations outside any group */
+export const DEFAULT_CANCELLATION_RULES: CancellationRules = {
+  allowReschedule: true,
+  allowCancellation: true,
+  cutoffMinutes: 120,
+  freeCancellationMinutes: 24 * 60,
+  lateCancellationFeePercent: 50,
+};
+
+@Injectable()
+export class CancellationPolicyService {
+  constructor(private readonly prisma: DatabaseService) {}
+
+  async getRules(organizationId: number): Promise<CancellationRules> {
+    const policy = await this.prisma.cancellationPolicy.findUnique({
+      where: { organizationId },
+    });
+    return policy ? this.toRules(policy) : DEFAULT_CANCELLATION_RULES;
+  }
+
+  /** Rules of the organization the consultation's group belongs to */
+  async rulesForConsultation(consultation: {
+    groupId: number | null;
+  }): Promise<CancellationRules> {
+    if (!consultation.groupId) {
+      return DEFAULT_CANCELLATION_RULES;
+    }
+    const group = await this.prisma.group.findUnique({
+      where: { id: consultation.groupId },
+      select: { organizationId: true },
+    });
+    return group
+      ? this.getRules(group.organizationId)
+      : DEFAULT_CANCELLATION_RULES;
+  }
+
+  async upsertPolicy(
+    organizationId: number,
+    dto: UpsertCancellationPolicyDto,
+  ): Promise<CancellationRules> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true },
+    });
+    if (!organization) {
+      throw HttpExceptionHelper.notFound('Organization not found');
+    }
+
+    const current = await this.getRules(organizationId);
+    const rules = { ...current, ...dto };
+    if (rules.freeCancellationMinutes < rules.cutoffMinutes) {
+      throw HttpExceptionHelper.badRequest(
+        'freeCancellationMinutes must not be less than cutoffMinutes',
+      );
+    }
+
+    const policy = await this.prisma.cancellationPolicy.upsert({
+      where: { organizationId },
+      update: dto,
+      create: { organizationId, ...rules },
+    });
+    return this.toRules(policy);
+  }
+
+  private toRules(policy: CancellationPolicy): CancellationRules {
+    return {
+      allowReschedule: policy.allowReschedule,
+      allowCancellation: policy.allowCancellation,
+      cutoffMinutes: policy.cutoffMinutes,
+      freeCancellationMinutes: policy.freeCancellationMinutes,
+      lateCancellationFeePercent: policy.lateCancellationFeePercent,
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { ConsultationBookingService } from './consultation-booking.service';
+import { RescheduleConsultationDto } from './dto/reschedule-consultation.dto';
+import { CancelConsultationDto } from './dto/cancel-consultation.dto';
+
+@ApiTags('consultation')
+@ApiBearerAuth()
+@Controller('consultation')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.PATIENT)
+export class ConsultationBookingController {
+  constructor(
+    private readonly consultationBookingService: ConsultationBookingService,
+  ) {}
+
+  @Get(':id/change-options')
+  @ApiOperation({
+    summary:
+      'Whether the patient can still move or cancel a booked consultation, and the refund of cancelling now',
+  })
+  async getChangeOptions(@Param('id', ParseIntPipe) id: number, @Req() req) {
+    const options = await this.consultationBookingService.getChangeOptions(
+      id,
+      req.user.id,
+    );
+    return ApiResponseDto.success(
+      options,
+      'Change options retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post(':id/reschedule')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Move a booked consultation to another time slot' })
+  async reschedule(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: RescheduleConsultationDto,
+    @Req() req,
+  ) {
+    const consultation = await this.consultationBookingService.reschedule(
+      id,
+      req.user.id,
+      dto.timeSlotId,
+    );
+    return ApiResponseDto.success(
+      consultation,
+      'Consultation rescheduled successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Cancel a booked consultation, refunding its payment under the cancellation policy',
+  })
+  async cancel(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CancelConsultationDto,
+    @Req() req,
+  ) {
+    const result = await this.consultationBookingService.cancel(
+      id,
+      req.user.id,
+      dto.reason,
+    );
+    return ApiResponseDto.success(
+      result,
+      result.refundFailed
+        ? 'Consultation cancelled, the refund will be processed by the organization'
+        : 'Consultation cancelled successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { AvailabilityModule } from '../availability/availability.module';
+import { ReminderModule } from '../reminder/reminder.module';
+import { PaymentModule } from '../payment/payment.module';
+import { EmailModule } from '../common/email/email.module';
+import { ConfigModule } from '../config/config.module';
+import { ConsultationBookingController } from './consultation-booking.controller';
+import { ConsultationBookingService } from './consultation-booking.service';
+import { CancellationPolicyController } from './cancellation-policy.controller';
+import { CancellationPolicyService } from './cancellation-policy.service';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    AuthModule,
+    AvailabilityModule,
+    ReminderModule,
+    PaymentModule,
+    EmailModule,
+    ConfigModule,
+  ],
+  controllers: [ConsultationBookingController, CancellationPolicyController],
+  providers: [ConsultationBookingService, CancellationPolicyService],
+  exports: [ConsultationBookingService],
+})
+export class ConsultationBookingModule {}
@@ -0,0 +1,323 @@
+import { ConflictException } from '@nestjs/common';
+import {
+  ConsultationStatus,
+  PaymentStatus,
+  TimeSlotStatus,
+  UserRole,
+} from '@prisma/client';
+import { ConsultationBookingService } from './consultation-booking.service';
+import { DEFAULT_CANCELLATION_RULES } from './cancellation-policy.service';
+
+jest.mock('../availability/availability.service', () => ({
+  AvailabilityService: class {},
+}));
+jest.mock('../reminder/reminder.service', () => ({
+  ReminderService: class {},
+}));
+jest.mock('../payment/payment.service', () => ({
+  PaymentService: class {},
+}));
+jest.mock('../common/email/email.service', () => ({
+  EmailService: class {},
+}));
+
+describe('ConsultationBookingService', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  let prisma: any;
+  let availabilityService: { bookTimeSlot: jest.Mock };
+  let reminderService: {
+    rescheduleReminders: jest.Mock;
+    cancelReminders: jest.Mock;
+  };
+  let paymentService: { refundPayment: jest.Mock };
+  let cancellationPolicyService: { rulesForConsultation: jest.Mock };
+  let emailService: { sendConsultationChangedEmail: jest.Mock };
+  let service: ConsultationBookingService;
+
+  const consultation = (startsInHours: number, payment: any = null) => ({
+    id: 42,
+    ownerId: 3,
+    groupId: 1,
+    version: 2,
+    status: ConsultationStatus.SCHEDULED,
+    scheduledDate: new Date(Date.now() + startsInHours * HOUR_MS),
+    payment,
+  });
+
+  const paid = {
+    id: 9,
+    amount: '80.00',
+    currency: 'CHF',
+    status: PaymentStatus.COMPLETED,
+  };
+
+  beforeEach(() => {
+    prisma = {
+      consultation: {
+        findFirst: jest.fn().mockResolvedValue(consultation(48)),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 42 }),
+        findUnique: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      timeSlot: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 8,
+          practitionerId: 3,
+          consultationId: null,
+          startsAt: new Date(Date.now() + 72 * HOUR_MS),
+        }),
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      payment: { update: jest.fn() },
+    };
+    prisma.$transaction = jest.fn((callback) => callback(prisma));
+    availabilityService = {
+      bookTimeSlot: jest.fn().mockResolvedValue(undefined),
+    };
+    reminderService = {
+      rescheduleReminders: jest.fn().mockResolvedValue(undefined),
+      cancelReminders: jest.fn().mockResolvedValue(undefined),
+    };
+    paymentService = { refundPayment: jest.fn().mockResolvedValue({}) };
+    cancellationPolicyService = {
+      rulesForConsultation: jest
+        .fn()
+        .mockResolvedValue(DEFAULT_CANCELLATION_RULES),
+    };
+    emailService = {
+      sendConsultationChangedEmail: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new ConsultationBookingService(
+      prisma,
+      availabilityService as any,
+      reminderService as any,
+      paymentService as any,
+      cancellationPolicyService as any,
+      emailService as any,
+      {
+        patientUrl: 'https://patient.example.com',
+        practitionerUrl: 'https://practitioner.example.com',
+      } as any,
+    );
+  });
+
+  describe('reschedule', () => {
+    it('releases the old slot and books the new one in one transaction', async () => {
+      await service.reschedule(42, 7, 8);
+
+      expect(prisma.consultation.updateMany).toHaveBeenCalledWith({
+        where: { id: 42, version: 2, status: ConsultationStatus.SCHEDULED },
+        data: {
+          scheduledDate: expect.any(Date),
+          patientConfirmedAt: null,
+          version: { increment: 1 },
+        },
+      });
+      expect(prisma.timeSlot.updateMany).toHaveBeenCalledWith({
+        where: { consultationId: 42 },
+        data: { status: TimeSlotStatus.AVAILABLE, consultationId: null },
+      });
+      expect(availabilityService.bookTimeSlot).toHaveBeenCalledWith(
+        8,
+        42,
+        7,
+        prisma,
+      );
+      expect(reminderService.rescheduleReminders).toHaveBeenCalledWith(42);
+    });
+
+    it('refuses changes within the cutoff', async () => {
+      prisma.consultation.findFirst.mockResolvedValue(consultation(1));
+
+      await expect(service.reschedule(42, 7, 8)).rejects.toMatchObject({
+        status: 400,
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses slots starting within the cutoff', async () => {
+      prisma.timeSlot.findUnique.mockResolvedValue({
+        id: 8,
+        practitionerId: 3,
+        consultationId: null,
+        startsAt: new Date(Date.now() + HOUR_MS),
+      });
+
+      await expect(service.reschedule(42, 7, 8)).rejects.toMatchObject({
+        status: 400,
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses slots of another practitioner', async () => {
+      prisma.timeSlot.findUnique.mockResolvedValue({
+        id: 8,
+        practitionerId: 4,
+        startsAt: new Date(Date.now() + 72 * HOUR_MS),
+      });
+
+      await expect(service.reschedule(42, 7, 8)).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+
+    it('reports a slot taken meanwhile as a conflict', async () => {
+      availabilityService.bookTimeSlot.mockRejectedValue(
+        new ConflictException('Time slot is no longer available'),
+      );
+
+      await expect(service.reschedule(42, 7, 8)).rejects.toMatchObject({
+        status: 409,
+      });
+      expect(reminderService.rescheduleReminders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('refunds the whole payment before the free cancellation window closes', async () => {
+      prisma.consultation.findFirst.mockResolvedValue(consultation(48, paid));
+
+      const result = await service.cancel(42, 7);
+
+      expect(prisma.consultation.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            status: ConsultationStatus.CANCELLED,
+            version: { increment: 1 },
+          },
+        }),
+      );
+      expect(reminderService.cancelReminders).toHaveBeenCalledWith(42);
+      expect(paymentService.refundPayment).toHaveBeenCalledWith({
+        paymentId: 9,
+        amount: 80,
+        reason: 'Cancelled by the patient',
+      });
+      expect(result.refund).toEqual({
+        refundAmount: 80,
+        feeAmount: 0,
+        currency: 'CHF',
+      });
+    });
+
+    it('keeps the late cancellation fee afterwards', async () => {
+      prisma.consultation.findFirst.mockResolvedValue(consultation(5, paid));
+
+      const result = await service.cancel(42, 7);
+
+      expect(paymentService.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 40 }),
+      );
+      expect(result.refund).toEqual(
+        expect.objectContaining({ refundAmount: 40, feeAmount: 40 }),
+      );
+    });
+
+    it('cancels pending payments instead of refunding them', async () => {
+      prisma.consultation.findFirst.mockResolvedValue(
+        consultation(48, { ...paid, status: PaymentStatus.PENDING }),
+      );
+
+      await service.cancel(42, 7);
+
+      expect(prisma.payment.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { status: PaymentStatus.CANCELLED },
+      });
+      expect(paymentService.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('keeps the cancellation when the refund fails', async () => {
+      prisma.consultation.findFirst.mockResolvedValue(consultation(48, paid));
+      paymentService.refundPayment.mockRejectedValue(new Error('declined'));
+
+      const result = await service.cancel(42, 7);
+
+      expect(result.refundFailed).toBe(true);
+      expect(reminderService.cancelReminders).toHaveBeenCalledWith(42);
+    });
+
+    it('refuses consultations changed meanwhile', async () => {
+      prisma.consultation.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancel(42, 7)).rejects.toMatchObject({
+        status: 409,
+      });
+      expect(reminderService.cancelReminders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyChange', () => {
+    const person = (email: string, role: UserRole) => ({
+      email,
+      firstName: 'Jane',
+      lastName: 'Doe',
+      role,
+    });
+
+    it('emails every participant and the practitioner once', async () => {
+      const practitioner = person('doc@example.com', UserRole.PRACTITIONER);
+      prisma.consultation.findUnique.mockResolvedValue({
+        ...consultation(48),
+        status: ConsultationStatus.CANCELLED,
+        owner: practitioner,
+        participants: [
+          { user: person('jane@example.com', UserRole.PATIENT) },
+          { user: practitioner },
+        ],
+      });
+
+      await service.notifyChange(42);
+
+      expect(emailService.sendConsultationChangedEmail).toHaveBeenCalledTimes(
+        2,
+      );
+      expect(emailService.sendConsultationChangedEmail).toHaveBeenCalledWith(
+        'jane@example.com',
+        'Jane Doe',
+        42,
+        expect.any(Date),
+        true,
+        'https://patient.example.com/dashboard',
+      );
+      expect(emailService.sendConsultationChangedEmail).toHaveBeenCalledWith(
+        'doc@example.com',
+        'Jane Doe',
+        42,
+        expect.any(Date),
+        true,
+        'https://practitioner.example.com',
+      );
+    });
+
+    it('does not fail the change when an email fails', async () => {
+      prisma.consultation.findUnique.mockResolvedValue({
+        ...consultation(48),
+        owner: null,
+        participants: [{ user: person('jane@example.com', UserRole.PATIENT) }],
+      });
+      emailService.sendConsultationChangedEmail.mockRejectedValue(
+        new Error('Email delivery failed'),
+      );
+
+      await expect(service.notifyChange(42)).resolves.toBeUndefined();
+    });
+  });
+
+  it('quotes the refund of cancelling now', async () => {
+    prisma.consultation.findFirst.mockResolvedValue(consultation(5, paid));
+
+    const options = await service.getChangeOptions(42, 7);
+
+    expect(options).toEqual(
+      expect.objectContaining({
+        practitionerId: 3,
+        canReschedule: true,
+        canCancel: true,
+        cancellation: { refundAmount: 40, feeAmount: 40, currency: 'CHF' },
+      }),
+    );
+  });
+});
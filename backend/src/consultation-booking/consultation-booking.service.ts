@@ -0,0 +1,438 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import {
+  Consultation,
+  ConsultationStatus,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  TimeSlotStatus,
+  UserRole,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { AvailabilityService } from '../availability/availability.service';
+import { ReminderService } from '../reminder/reminder.service';
+import { PaymentService } from '../payment/payment.service';
+import { EmailService } from '../common/email/email.service';
+import { ConfigService } from '../config/config.service';
+import {
+  CancellationPolicyService,
+  CancellationRules,
+} from './cancellation-policy.service';
+
+const MINUTE_MS = 60 * 1000;
+
+const recipientSelect = {
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+} as const;
+
+export interface CancellationQuote {
+  /** Paid back to the patient */
+  refundAmount: number;
+  /** Kept from the payment as late cancellation fee */
+  feeAmount: number;
+  currency: string;
+}
+
+export interface ChangeOptions {
+  consultationId: number;
+  practitionerId: number | null;
+  scheduledDate: Date | null;
+  canReschedule: boolean;
+  canCancel: boolean;
+  /** Last instant at which the consultation can be moved or cancelled */
+  changeDeadline: Date | null;
+  /** Until when cancelling is refunded in full */
+  freeCancellationUntil: Date | null;
+  /** What cancelling now would pay back, for paid consultations */
+  cancellation: CancellationQuote | null;
+  rules: CancellationRules;
+}
+
+export interface CancellationResult {
+  consultation: Consultation;
+  /** Refund issued for the payment, null when nothing was paid back */
+  refund: CancellationQuote | null;
+  /** The refund could not be issued and has to be made by an admin */
+  refundFailed: boolean;
+}
+
+type PatientConsultation = Consultation & { payment: Payment | null };
+
+/**
+ * Lets patients move or cancel the consultations they booked on a time slot,
+ * within the cancellation policy of the consultation's organization.
+ */
+@Injectable()
+export class ConsultationBookingService {
+  private readonly logger = new Logger(ConsultationBookingService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly reminderService: ReminderService,
+    private readonly paymentService: PaymentService,
+    private readonly cancellationPolicyService: CancellationPolicyService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getChangeOptions(
+    consultationId: number,
+    patientId: number,
+  ): Promise<ChangeOptions> {
+    const consultation = await this.findPatientConsultation(
+      consultationId,
+      patientId,
+    );
+    const rules =
+      await this.cancellationPolicyService.rulesForConsultation(consultation);
+    const { scheduledDate } = consultation;
+    const changeable =
+      consultation.status === ConsultationStatus.SCHEDULED &&
+      !!scheduledDate &&
+      minutesUntil(scheduledDate) >= rules.cutoffMinutes;
+
+    return {
+      consultationId: consultation.id,
+      practitionerId: consultation.ownerId,
+      scheduledDate,
+      canReschedule: changeable && rules.allowReschedule,
+      canCancel: changeable && rules.allowCancellation,
+      changeDeadline: scheduledDate
+        ? minutesBefore(scheduledDate, rules.cutoffMinutes)
+        : null,
+      freeCancellationUntil: scheduledDate
+        ? minutesBefore(scheduledDate, rules.freeCancellationMinutes)
+        : null,
+      cancellation: changeable
+        ? quoteCancellation(consultation.payment, rules, scheduledDate!)
+        : null,
+      rules,
+    };
+  }
+
+  /**
+   * Moves the consultation to another free slot of its practitioner. The old
+   * slot is released and the new one booked in one transaction, so the
+   * consultation is never left without a slot or with two.
+   */
+  async reschedule(
+    consultationId: number,
+    patientId: number,
+    timeSlotId: number,
+  ): Promise<Consultation> {
+    const consultation = await this.findPatientConsultation(
+      consultationId,
+      patientId,
+    );
+    const rules =
+      await this.cancellationPolicyService.rulesForConsultation(consultation);
+    if (!rules.allowReschedule) {
+      throw HttpExceptionHelper.forbidden(
+        'Consultations of this organization cannot be rescheduled',
+      );
+    }
+    this.assertChangeable(consultation, rules);
+
+    const timeSlot = await this.prisma.timeSlot.findUnique({
+      where: { id: timeSlotId },
+    });
+    if (!timeSlot) {
+      throw HttpExceptionHelper.notFound('Time slot not found');
+    }
+    if (timeSlot.practitionerId !== consultation.ownerId) {
+      throw HttpExceptionHelper.badRequest(
+        'Consultations can only be moved to a slot of the same practitioner',
+      );
+    }
+    if (timeSlot.consultationId === consultationId) {
+      throw HttpExceptionHelper.badRequest(
+        'The consultation is already booked on this slot',
+      );
+    }
+    if (timeSlot.startsAt <= new Date()) {
+      throw HttpExceptionHelper.badRequest(
+        'This time slot has already started',
+      );
+    }
+    // The new time has to leave the same notice as a change of the old one
+    if (minutesUntil(timeSlot.startsAt) < rules.cutoffMinutes) {
+      throw HttpExceptionHelper.badRequest(
+        `Consultations can only be moved to slots starting in ${rules.cutoffMinutes} minutes or later`,
+      );
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.claimVersion(tx, consultation, {
+        scheduledDate: timeSlot.startsAt,
+        // The patient confirmed the old time, not the new one
+        patientConfirmedAt: null,
+      });
+      await this.releaseSlot(tx, consultationId);
+      try {
+        await this.availabilityService.bookTimeSlot(
+          timeSlotId,
+          consultationId,
+          patientId,
+          tx,
+        );
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          throw HttpExceptionHelper.conflict(error.message);
+        }
+        throw error;
+      }
+      return tx.consultation.findUniqueOrThrow({
+        where: { id: consultationId },
+      });
+    });
+
+    await this.reminderService.rescheduleReminders(consultationId);
+    await this.notifyChange(consultationId);
+    this.logger.log(
+      `Consultation ${consultationId} moved by patient ${patientId} to slot ${timeSlotId}`,
+    );
+    return updated;
+  }
+
+  /**
+   * Cancels the consultation and gives its slot back. A completed payment is
+   * refunded in full before the free cancellation window closes and less
+   * the late cancellation fee afterwards; a pending one is cancelled.
+   */
+  async cancel(
+    consultationId: number,
+    patientId: number,
+    reason?: string,
+  ): Promise<CancellationResult> {
+    const consultation = await this.findPatientConsultation(
+      consultationId,
+      patientId,
+    );
+    const rules =
+      await this.cancellationPolicyService.rulesForConsultation(consultation);
+    if (!rules.allowCancellation) {
+      throw HttpExceptionHelper.forbidden(
+        'Consultations of this organization cannot be cancelled online',
+      );
+    }
+    this.assertChangeable(consultation, rules);
+    const quote = quoteCancellation(
+      consultation.payment,
+      rules,
+      consultation.scheduledDate!,
+    );
+
+    const cancelled = await this.prisma.$transaction(async (tx) => {
+      await this.claimVersion(tx, consultation, {
+        status: ConsultationStatus.CANCELLED,
+      });
+      await this.releaseSlot(tx, consultationId);
+      const { payment } = consultation;
+      if (
+        payment &&
+        (payment.status === PaymentStatus.PENDING ||
+          payment.status === PaymentStatus.PROCESSING)
+      ) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: { status: PaymentStatus.CANCELLED },
+        });
+      }
+      return tx.consultation.findUniqueOrThrow({
+        where: { id: consultationId },
+      });
+    });
+    await this.reminderService.cancelReminders(consultationId);
+    await this.notifyChange(consultationId);
+    this.logger.log(
+      `Consultation ${consultationId} cancelled by patient ${patientId}`,
+    );
+
+    if (!quote || quote.refundAmount <= 0) {
+      return { consultation: cancelled, refund: null, refundFailed: false };
+    }
+    // The cancellation stands even if the provider rejects the refund
+    try {
+      await this.paymentService.refundPayment({
+        paymentId: consultation.payment!.id,
+        amount: quote.refundAmount,
+        reason: reason
+          ? `Cancelled by the patient: ${reason}`
+          : 'Cancelled by the patient',
+      });
+      return { consultation: cancelled, refund: quote, refundFailed: false };
+    } catch (error) {
+      this.logger.error(
+        `Refund of payment ${consultation.payment!.id} for cancelled consultation ${consultationId} failed: ${error.message}`,
+      );
+      return { consultation: cancelled, refund: null, refundFailed: true };
+    }
+  }
+
+  /**
+   * Emails the participants and the practitioner the consultation's new time
+   * or its cancellation, with an invite that updates their calendars. The
+   * change stands when an email cannot be sent.
+   */
+  async notifyChange(consultationId: number): Promise<void> {
+    try {
+      const consultation = await this.prisma.consultation.findUnique({
+        where: { id: consultationId },
+        include: {
+          owner: { select: recipientSelect },
+          participants: { include: { user: { select: recipientSelect } } },
+        },
+      });
+      if (!consultation?.scheduledDate) {
+        return;
+      }
+
+      // The practitioner can also be among the participants
+      const recipients = new Map(
+        [
+          ...consultation.participants.map(({ user }) => user),
+          ...(consultation.owner ? [consultation.owner] : []),
+        ]
+          .filter((user) => !!user.email)
+          .map((user) => [user.email, user]),
+      );
+      const cancelled = consultation.status === ConsultationStatus.CANCELLED;
+      const results = await Promise.allSettled(
+        [...recipients.values()].map((user) =>
+          this.emailService.sendConsultationChangedEmail(
+            user.email,
+            `${user.firstName} ${user.lastName}`.trim(),
+            consultationId,
+            consultation.scheduledDate!,
+            cancelled,
+            user.role === UserRole.PATIENT
+              ? `${this.configService.patientUrl}/dashboard`
+              : this.configService.practitionerUrl,
+          ),
+        ),
+      );
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          this.logger.warn(
+            `Change email of consultation ${consultationId} failed: ${result.reason?.message}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Could not notify the participants of consultation ${consultationId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async findPatientConsultation(
+    consultationId: number,
+    patientId: number,
+  ): Promise<PatientConsultation> {
+    const consultation = await this.prisma.consultation.findFirst({
+      where: {
+        id: consultationId,
+        participants: { some: { userId: patientId, role: UserRole.PATIENT } },
+      },
+      include: { payment: true },
+    });
+    if (!consultation) {
+      throw HttpExceptionHelper.notFound('Consultation not found');
+    }
+    return consultation;
+  }
+
+  private assertChangeable(
+    consultation: Consultation,
+    rules: CancellationRules,
+  ): void {
+    if (
+      consultation.status !== ConsultationStatus.SCHEDULED ||
+      !consultation.scheduledDate
+    ) {
+      throw HttpExceptionHelper.badRequest(
+        'Only scheduled consultations can be changed',
+      );
+    }
+    if (minutesUntil(consultation.scheduledDate) < rules.cutoffMinutes) {
+      throw HttpExceptionHelper.badRequest(
+        `Consultations cannot be changed less than ${rules.cutoffMinutes} minutes before their start`,
+      );
+    }
+  }
+
+  /**
+   * Updates the consultation only if nobody changed it since it was read,
+   * e.g. the practitioner starting it or a cancellation via WhatsApp
+   */
+  private async claimVersion(
+    tx: Prisma.TransactionClient,
+    consultation: Consultation,
+    data: Prisma.ConsultationUpdateManyMutationInput,
+  ): Promise<void> {
+    const { count } = await tx.consultation.updateMany({
+      where: {
+        id: consultation.id,
+        version: consultation.version,
+        status: ConsultationStatus.SCHEDULED,
+      },
+      data: { ...data, version: { increment: 1 } },
+    });
+    if (count === 0) {
+      throw HttpExceptionHelper.conflict(
+        'The consultation was changed meanwhile, please reload it',
+      );
+    }
+  }
+
+  /**
+   * Gives the consultation's slot back to the practitioner's calendar, or
+   * drops it when an availability exception covers it meanwhile
+   */
+  private async releaseSlot(
+    tx: Prisma.TransactionClient,
+    consultationId: number,
+  ): Promise<void> {
+    await tx.timeSlot.deleteMany({
+      where: { consultationId, conflictingExceptionId: { not: null } },
+    });
+    await tx.timeSlot.updateMany({
+      where: { consultationId },
+      data: { status: TimeSlotStatus.AVAILABLE, consultationId: null },
+    });
+  }
+}
+
+function minutesUntil(at: Date): number {
+  return (at.getTime() - Date.now()) / MINUTE_MS;
+}
+
+function minutesBefore(at: Date, minutes: number): Date {
+  return new Date(at.getTime() - minutes * MINUTE_MS);
+}
+
+/** Refund and fee of cancelling now, null when nothing was paid */
+function quoteCancellation(
+  payment: Payment | null,
+  rules: CancellationRules,
+  scheduledDate: Date,
+): CancellationQuote | null {
+  if (!payment || payment.status !== PaymentStatus.COMPLETED) {
+    return null;
+  }
+  const amount = Number(payment.amount);
+  const late = minutesUntil(scheduledDate) < rules.freeCancellationMinutes;
+  const feeAmount = late
+    ? Math.round(amount * rules.lateCancellationFeePercent) / 100
+    : 0;
+  return {
+    refundAmount: Math.round((amount - feeAmount) * 100) / 100,
+    feeAmount,
+    currency: payment.currency,
+  };
+}
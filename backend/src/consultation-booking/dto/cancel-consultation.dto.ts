@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CancelConsultationDto {
+  @ApiPropertyOptional({ description: 'Shown to the practitioner' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt } from 'class-validator';
+
+export class RescheduleConsultationDto {
+  @ApiProperty({
+    description:
+      'Free slot of the same practitioner, usually held by the patient beforehand',
+  })
+  @Type(() => Number)
+  @IsInt()
+  timeSlotId: number;
+}
@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class UpsertCancellationPolicyDto {
+  @ApiPropertyOptional({ description: 'Patients may move their consultations' })
+  @IsOptional()
+  @IsBoolean()
+  allowReschedule?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Patients may cancel their consultations',
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowCancellation?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minutes before the start after which nothing can be changed',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30 * 24 * 60)
+  cutoffMinutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Minutes before the start until which cancelling is refunded in full',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30 * 24 * 60)
+  freeCancellationMinutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of the payment kept on later cancellations',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  lateCancellationFeePercent?: number;
+}
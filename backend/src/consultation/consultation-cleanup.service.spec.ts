@@ -4,6 +4,7 @@ import { DatabaseService } from '../../src/database/database.service';
 import { ConfigService } from '../../src/config/config.service';
 import { MediasoupSessionService } from '../../src/mediasoup/mediasoup-session.service';
 import { UserService } from '../../src/user/user.service';
+import { ChatService } from '../../src/chat/chat.service';
 
 enum ConsultationStatus {
   COMPLETED = 'COMPLETED',
@@ -19,6 +20,7 @@ describe('ConsultationCleanupService', () => {
   let userService: any;
   let mediasoupSessionService: any;
   let configService: any;
+  let chatService: any;
 
   beforeEach(async () => {
     db = {
@@ -32,6 +34,7 @@ describe('ConsultationCleanupService', () => {
       cleanupRouterForConsultation: jest.fn(),
       closeTransport: jest.fn(),
     };
+    chatService = { deleteConsultationAttachments: jest.fn() };
     configService = {
       consultationRetentionHours: 24,
       consultationDeletionBufferHours: 1,
@@ -44,6 +47,7 @@ describe('ConsultationCleanupService', () => {
         { provide: UserService, useValue: userService },
         { provide: MediasoupSessionService, useValue: mediasoupSessionService },
         { provide: ConfigService, useValue: configService },
+        { provide: ChatService, useValue: chatService },
       ],
     }).compile();
 
@@ -101,6 +105,9 @@ describe('ConsultationCleanupService', () => {
     expect(userService.anonymizeUser).toHaveBeenCalledWith(101);
     expect(userService.anonymizeUser).toHaveBeenCalledWith(201);
     expect(userService.anonymizeUser).toHaveBeenCalledWith(202);
+    // Chat attachments
+    expect(chatService.deleteConsultationAttachments).toHaveBeenCalledWith(1);
+    expect(chatService.deleteConsultationAttachments).toHaveBeenCalledWith(2);
     // Soft-delete
     expect(db.consultation.updateMany).toHaveBeenCalledWith({
       where: { id: { in: [1, 2] } },
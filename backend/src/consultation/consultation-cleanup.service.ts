@@ -5,6 +5,7 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { ConfigService } from 'src/config/config.service';
 import { MediasoupSessionService } from 'src/mediasoup/mediasoup-session.service';
 import { UserService } from 'src/user/user.service';
+import { ChatService } from 'src/chat/chat.service';
 
 @Injectable()
 export class ConsultationCleanupService {
@@ -15,6 +16,7 @@ export class ConsultationCleanupService {
     private readonly configService: ConfigService,
     private readonly mediasoupSessionService: MediasoupSessionService,
     private readonly userService: UserService,
+    private readonly chatService: ChatService,
   ) {}
 
   @Cron(CronExpression.EVERY_HOUR)
@@ -83,6 +85,23 @@ export class ConsultationCleanupService {
         }
       }
 
+      // --- Delete chat attachments so their links stop working ---
+      for (const consultId of consultationIds) {
+        try {
+          const deleted =
+            await this.chatService.deleteConsultationAttachments(consultId);
+          if (deleted > 0) {
+            this.logger.log(
+              `Deleted ${deleted} chat attachments of expired consultation ${consultId}`,
+            );
+          }
+        } catch (err) {
+          this.logger.error(
+            `Failed to delete chat attachments of consultation ${consultId}: ${err?.message || err}`,
+          );
+        }
+      }
+
       // --- Perform soft-delete ---
       const updateResult = await this.db.consultation.updateMany({
         where: { id: { in: consultationIds } },
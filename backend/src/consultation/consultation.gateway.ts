@@ -17,7 +17,7 @@ import { ConsultationUtilityService } from './consultation-utility.service';
 import { ConsultationMediaSoupService } from './consultation-mediasoup.service';
 import { DatabaseService } from 'src/database/database.service';
 import { MediasoupSessionService } from 'src/mediasoup/mediasoup-session.service';
-import { ConsultationStatus, UserRole } from '@prisma/client';
+import { ConsultationStatus, NotificationEvent, UserRole } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { EndConsultationDto } from './dto/end-consultation.dto';
 import { RateConsultationDto } from './dto/rate-consultation.dto';
@@ -29,6 +29,11 @@ import { ChatService } from '../chat/chat.service';
 import { MessageType } from '../chat/dto/create-message.dto';
 import { EnhancedRealtimeService } from './enhanced-realtime.service';
 import { WaitingRoomService } from './waiting-room.service';
+import {
+  InAppNotificationPublisher,
+  InAppNotificationService,
+  IN_APP_UNREAD_COUNT_EVENT,
+} from '../in-app-notification/in-app-notification.service';
 import {
   UpdateMediaDeviceStatusDto,
   UpdateConnectionQualityDto,
@@ -61,7 +66,12 @@ function sanitizePayload<T extends object, K extends keyof T>(
   },
 })
 export class ConsultationGateway
-  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect, IConsultationGateway {
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    IConsultationGateway,
+    InAppNotificationPublisher {
   @WebSocketServer()
   server: Server;
 
@@ -95,11 +105,13 @@ export class ConsultationGateway
     private readonly enhancedRealtimeService: EnhancedRealtimeService,
     private readonly chatService: ChatService,
     private readonly waitingRoomService: WaitingRoomService,
+    private readonly inAppNotificationService: InAppNotificationService,
   ) { }
 
   afterInit(server: Server) {
     this.logger.log('🚀 ConsultationGateway initialized');
     this.logger.log(`✅ WebSocket server is ready: ${!!server}`);
+    this.inAppNotificationService.registerPublisher(this);
   }
 
   async handleConnection(client: Socket) {
@@ -109,6 +121,13 @@ export class ConsultationGateway
       const userId = Number(q.userId);
       const role = q.role as UserRole;
 
+      // Dashboards connect outside of any consultation, to join the
+      // practitioner room and subscribe to notifications
+      if (!q.consultationId) {
+        this.logger.log(`Client connected without consultation: ${client.id}`);
+        return;
+      }
+
       const allowedRoles = [
         UserRole.PATIENT,
         UserRole.PRACTITIONER,
@@ -290,6 +309,11 @@ export class ConsultationGateway
                 language: patientUser?.country ?? null,
                 message: 'Patient is waiting in the consultation room',
               });
+            await this.notifyPatientWaiting(practitionerId, {
+              consultationId,
+              patientId: userId,
+              patientFirstName: patientUser?.firstName,
+            });
             // Also emit a focused patient_joined event targeted at the practitioner (centralized helper)
             const requestId = (client.handshake.headers && (client.handshake.headers['x-request-id'] as string)) || uuidv4();
             this.emitPatientJoinedToPractitioner(practitionerId, {
@@ -656,6 +680,22 @@ export class ConsultationGateway
     }
   }
 
+  /**
+   * Pushes the in-app notifications of the authenticated user to the client
+   * from now on, and acknowledges with their unread count
+   */
+  @SubscribeMessage('subscribe_notifications')
+  async handleSubscribeNotifications(@ConnectedSocket() client: Socket) {
+    const userId = client.data?.user?.id;
+    if (!userId) {
+      throw new WsException('Authentication required to receive notifications');
+    }
+    await client.join(`notifications:${userId}`);
+    const unreadCount = await this.inAppNotificationService.unreadCount(userId);
+    client.emit(IN_APP_UNREAD_COUNT_EVENT, { unreadCount });
+    return { unreadCount };
+  }
+
   @SubscribeMessage('check_session_status')
   async handleCheckSessionStatus(
     @ConnectedSocket() client: Socket,
@@ -1015,6 +1055,10 @@ export class ConsultationGateway
               message: 'Patient joined via invitation and is waiting.',
               joinTime: now,
             });
+          await this.notifyPatientWaiting(consultation.ownerId, {
+            consultationId,
+            patientId: userId,
+          });
         }
       }
 
@@ -1195,12 +1239,6 @@ export class ConsultationGateway
           message: 'Practitioner assigned to this consultation',
           status: updated.status,
         });
-
-      this.server.to(`practitioner:${practitionerId}`).emit('new_assignment', {
-        consultationId,
-        message: 'You have been assigned a new consultation',
-        status: updated.status,
-      });
     } catch (error) {
       this.logger.error('Assign practitioner failed', error.stack);
       client.emit('error', {
@@ -1374,7 +1412,10 @@ export class ConsultationGateway
           isActive: p.isActive,
           inWaitingRoom: p.inWaitingRoom,
         })),
-        messages: consultation.messages.map((m) => ({
+        // Stored files only have a key; links are signed on every read
+        messages: (
+          await this.chatService.withSignedMediaUrls(consultation.messages)
+        ).map((m) => ({
           id: m.id,
           userId: m.userId,
           content: m.content,
@@ -2572,6 +2613,31 @@ export class ConsultationGateway
     this.server.to(`consultation:${consultationId}`).emit(event, data);
   }
 
+  publishToUser(userId: number, event: string, payload: object): void {
+    this.server?.to(`notifications:${userId}`).emit(event, payload);
+  }
+
+  /**
+   * Tells the practitioner's notification center that a patient is waiting.
+   * Joins of the same consultation refresh the notification while unread.
+   */
+  async notifyPatientWaiting(
+    practitionerId: number,
+    patient: { consultationId: number; patientId: number; patientFirstName?: string | null },
+  ): Promise<void> {
+    await this.inAppNotificationService.notify(
+      practitionerId,
+      {
+        event: NotificationEvent.PATIENT_WAITING,
+        title: 'Patient waiting',
+        body: `${patient.patientFirstName || 'A patient'} is waiting in consultation #${patient.consultationId}`,
+        consultationId: patient.consultationId,
+        data: { patientId: patient.patientId },
+      },
+      { collapse: true },
+    );
+  }
+
   emitToUser(userId: number, event: string, data: any): void {
     // Emit to multiple possible user room patterns for compatibility with
     try {
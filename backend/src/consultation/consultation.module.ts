@@ -18,6 +18,7 @@ import { InviteModule } from '../auth/invite/invite.module';
 import { EnhancedRealtimeService } from './enhanced-realtime.service';
 import { WaitingRoomService } from './waiting-room.service';
 import { ReminderModule } from 'src/reminder/reminder.module';
+import { InAppNotificationModule } from 'src/in-app-notification/in-app-notification.module';
 
 @Module({
   imports: [
@@ -30,6 +31,7 @@ import { ReminderModule } from 'src/reminder/reminder.module';
     ChatModule,
     AuthModule,
     ReminderModule,
+    InAppNotificationModule,
   ],
   controllers: [ConsultationController],
   providers: [
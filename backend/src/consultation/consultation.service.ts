@@ -3,6 +3,7 @@ import {
   Inject,
   Logger,
   HttpStatus,
+  ConflictException,
 } from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { DatabaseService } from 'src/database/database.service';
@@ -10,6 +11,10 @@ import {
   ConsultationStatus,
   UserRole,
   Consultation,
+  Message,
+  MessageService,
+  NotificationEvent,
+  User,
   UserSex,
 } from '@prisma/client';
 import {
@@ -57,6 +62,8 @@ import { InviteService } from '../auth/invite/invite.service';
 import { ConsultationUtilityService } from './consultation-utility.service';
 import { ConsultationMediaSoupService } from './consultation-mediasoup.service';
 import { ChatService } from 'src/chat/chat.service';
+import { I18nService } from 'src/i18n/i18n.service';
+import { InAppNotificationService } from 'src/in-app-notification/in-app-notification.service';
 import {
   CreatePatientConsultationDto,
   CreatePatientConsultationResponseDto,
@@ -85,6 +92,8 @@ export class ConsultationService {
     private consultationGateway: IConsultationGateway,
     private readonly reminderService: ReminderService,
     private readonly chatService: ChatService,
+    private readonly i18nService: I18nService,
+    private readonly inAppNotificationService: InAppNotificationService,
   ) {
     // Log gateway injection status at construction time
     this.logger.log(`ConsultationService constructor. Gateway: ${this.consultationGateway ? 'Available' : 'NULL'}`);
@@ -464,6 +473,30 @@ export class ConsultationService {
     createDto: CreateConsultationDto,
     userId: number,
   ): Promise<ApiResponseDto<ConsultationResponseDto>> {
+    const { creator, createData } = await this.prepareConsultation(
+      createDto,
+      userId,
+    );
+    const consultation = (await this.db.consultation.create({
+      data: createData,
+      include: {
+        participants: true,
+        owner: true,
+      },
+    })) as Consultation;
+    return this.completeConsultationCreation(
+      consultation,
+      createDto,
+      creator,
+      userId,
+    );
+  }
+
+  /** Checks who may create the consultation and builds its create data */
+  private async prepareConsultation(
+    createDto: CreateConsultationDto,
+    userId: number,
+  ): Promise<{ creator: User; createData: any }> {
     const creator = await this.db.user.findUnique({ where: { id: userId } });
     if (!creator) throw HttpExceptionHelper.notFound('Creator user not found');
 
@@ -549,6 +582,9 @@ export class ConsultationService {
       ...(typeof createDto.groupId === 'number' && {
         group: { connect: { id: createDto.groupId } },
       }),
+      ...(typeof createDto.reminderConfig?.planId === 'number' && {
+        reminderPlan: { connect: { id: createDto.reminderConfig.planId } },
+      }),
     };
 
     if (ownerConnect) {
@@ -560,13 +596,19 @@ export class ConsultationService {
       createData.reminderEnabled = createDto.reminderConfig.enabled;
     }
 
-    const consultation = (await this.db.consultation.create({
-      data: createData,
-      include: {
-        participants: true,
-        owner: true,
-      },
-    })) as Consultation;
+    return { creator, createData };
+  }
+
+  /**
+   * Reminders and invitations of extra participants, once the consultation
+   * is stored
+   */
+  private async completeConsultationCreation(
+    consultation: Consultation,
+    createDto: CreateConsultationDto,
+    creator: User,
+    userId: number,
+  ): Promise<ApiResponseDto<ConsultationResponseDto>> {
     // Schedule reminders if consultation has a scheduled date and reminders are enabled
     if (
       consultation.scheduledDate &&
@@ -653,6 +695,11 @@ export class ConsultationService {
           participantDto.role,
           participantDto.name,
           participantDto.notes,
+          consultation.scheduledDate,
+          await this.i18nService.localeForUser({
+            userId: participantUser.id,
+            consultationId: consultation.id,
+          }),
         );
       }
     }
@@ -681,6 +728,8 @@ export class ConsultationService {
 
     // Determine if contact is email or phone
     const isEmail = createDto.contact.includes('@');
+    // Patients reached by phone get their invitation and reminders by SMS
+    const messageService = isEmail ? MessageService.EMAIL : MessageService.SMS;
     const searchCriteria = isEmail
       ? { email: createDto.contact }
       : { phoneNumber: createDto.contact };
@@ -730,6 +779,7 @@ export class ConsultationService {
         symptoms: createDto.symptoms || null,
         scheduledDate: createDto.scheduledDate || null,
         status: ConsultationStatus.SCHEDULED,
+        messageService,
         createdAt: new Date(),
         startedAt: new Date(),
       };
@@ -770,8 +820,8 @@ export class ConsultationService {
 
     this.logger.log(`Created consultation ${createdConsultation.id} for patient ${createdPatient.email}`);
 
-    // Send email invitation to the patient if email is provided
-    if (isEmail && createdPatient.email) {
+    // Send the invitation by email, or by SMS for patients reached by phone
+    if (createdPatient.email && (isEmail || createdPatient.phoneNumber)) {
       try {
         this.logger.log(`Creating invitation for consultation ${createdConsultation.id}, practitioner ${practitionerId}, patient ${createdPatient.email}`);
         const invitation = await this.consultationInvitationService.createInvitation(
@@ -783,7 +833,7 @@ export class ConsultationService {
         );
         this.logger.log(`Successfully created invitation ${invitation.id} for consultation ${createdConsultation.id}`);
       } catch (error) {
-        this.logger.error('Failed to send email invitation:', error);
+        this.logger.error('Failed to send invitation:', error);
         // Don't fail the entire operation if email sending fails
       }
     } else {
@@ -806,6 +856,7 @@ export class ConsultationService {
       scheduledDate: scheduledDate || null,
       timezone: createDto.timezone || null,
       status: ConsultationStatus.SCHEDULED,
+      messageService,
       createdAt: new Date(),
       startedAt: new Date(),
     };
@@ -859,8 +910,8 @@ export class ConsultationService {
     return {
       data: response,
       message: isNewPatient
-        ? 'Patient created and consultation scheduled successfully. Invitation email sent.'
-        : 'Consultation scheduled for existing patient successfully. Invitation email sent.',
+        ? 'Patient created and consultation scheduled successfully. Invitation sent.'
+        : 'Consultation scheduled for existing patient successfully. Invitation sent.',
       statusCode: HttpStatus.CREATED,
     };
   }
@@ -890,33 +941,49 @@ export class ConsultationService {
       throw HttpExceptionHelper.notFound('Time slot not found');
     }
 
-    if (timeSlot.status !== 'AVAILABLE') {
-      throw HttpExceptionHelper.badRequest('Time slot is not available');
-    }
-
-    const scheduledDateTime = new Date(timeSlot.date);
-    const [hours, minutes] = timeSlot.startTime.split(':').map(Number);
-    scheduledDateTime.setHours(hours, minutes, 0, 0);
-
     const consultationDataWithOwner = {
       ...consultationData,
-      scheduledDate: scheduledDateTime,
+      scheduledDate: timeSlot.startsAt,
       ownerId: timeSlot.practitionerId,
     };
 
-    const consultationResult = await this.createConsultation(
+    const { creator, createData } = await this.prepareConsultation(
       consultationDataWithOwner,
       userId,
     );
 
-    if (consultationResult.success && consultationResult.data) {
-      await this.availabilityService.bookTimeSlot(
-        timeSlotId,
-        consultationResult.data.id,
-      );
-    }
+    // The consultation only exists if its slot could be booked: a slot taken
+    // meanwhile rolls the consultation back with a conflict
+    const consultation = (await this.db.$transaction(async (tx) => {
+      const created = await tx.consultation.create({
+        data: createData,
+        include: {
+          participants: true,
+          owner: true,
+        },
+      });
+      try {
+        await this.availabilityService.bookTimeSlot(
+          timeSlotId,
+          created.id,
+          userId,
+          tx,
+        );
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          throw HttpExceptionHelper.conflict(error.message);
+        }
+        throw error;
+      }
+      return created;
+    })) as Consultation;
 
-    return consultationResult;
+    return this.completeConsultationCreation(
+      consultation,
+      consultationDataWithOwner,
+      creator,
+      userId,
+    );
   }
 
   async joinAsPatient(
@@ -1028,6 +1095,11 @@ export class ConsultationService {
             language: patient.country ?? null,
             message: 'Patient joined and is waiting',
           });
+        await this.consultationGateway.notifyPatientWaiting(consultation.ownerId, {
+          consultationId,
+          patientId: patient.id,
+          patientFirstName: patient.firstName,
+        });
         // Targeted patient joined event for dashboard and immediate UI update + sound
         // Use centralized gateway helper to apply debounce and consistent logging
         try {
@@ -1114,7 +1186,11 @@ export class ConsultationService {
         role: p.user.role,
         isActive: p.isActive,
       })),
-      messages: (consultation.messages ?? []).map((m) => ({
+      messages: (
+        await this.chatService.withSignedMediaUrls(
+          (consultation.messages ?? []) as Message[],
+        )
+      ).map((m) => ({
         id: m.id,
         userId: m.userId,
         content: m.content,
@@ -1414,6 +1490,13 @@ export class ConsultationService {
                 language: patient.country ?? null,
                 message: message,
               });
+            if (inWaitingRoom) {
+              await this.consultationGateway.notifyPatientWaiting(consultation.ownerId, {
+                consultationId,
+                patientId: patient.id,
+                patientFirstName: patient.firstName,
+              });
+            }
           } catch (e) {
             this.logger.warn(`Failed to emit waiting_room_notification (smartPatientJoin): ${e?.message ?? e}`);
           }
@@ -1523,7 +1606,9 @@ export class ConsultationService {
           role: p.user.role,
           isActive: p.isActive,
         })),
-        messages: consultation.messages.map((m) => ({
+        messages: (
+          await this.chatService.withSignedMediaUrls(consultation.messages)
+        ).map((m) => ({
           id: m.id,
           userId: m.userId,
           content: m.content,
@@ -1818,7 +1903,11 @@ export class ConsultationService {
           role: p.user.role,
           isActive: p.isActive,
         })),
-        messages: (consultation.messages ?? []).map((m) => ({
+        messages: (
+          await this.chatService.withSignedMediaUrls(
+            consultation.messages ?? [],
+          )
+        ).map((m) => ({
           id: m.id,
           userId: m.userId,
           content: m.content,
@@ -2083,6 +2172,11 @@ export class ConsultationService {
                 language: user.country ?? null,
                 message: 'Patient joined via invitation and is waiting for admission',
               });
+            await this.consultationGateway.notifyPatientWaiting(consultation.ownerId, {
+              consultationId: consultation.id,
+              patientId: user.id,
+              patientFirstName: user.firstName,
+            });
           } catch (e) {
             this.logger.warn(`Failed to emit waiting_room_notification (joinByToken): ${e?.message ?? e}`);
           }
@@ -2190,7 +2284,11 @@ export class ConsultationService {
           role: p.user.role,
           isActive: p.isActive,
         })),
-        messages: (consultation.messages ?? []).map((m) => ({
+        messages: (
+          await this.chatService.withSignedMediaUrls(
+            consultation.messages ?? [],
+          )
+        ).map((m) => ({
           id: m.id,
           userId: m.userId,
           content: m.content,
@@ -2955,15 +3053,17 @@ export class ConsultationService {
     const base = this.mapToHistoryItem(c);
     return {
       ...base,
-      messages: c.messages.map((m) => ({
-        id: m.id,
-        userId: m.userId,
-        content: m.content,
-        mediaUrl: m.mediaUrl ?? null,
-        mediaType: m.mediaType ?? null,
-        consultationId: m.consultationId,
-        createdAt: m.createdAt,
-      })),
+      messages: (await this.chatService.withSignedMediaUrls(c.messages)).map(
+        (m) => ({
+          id: m.id,
+          userId: m.userId,
+          content: m.content,
+          mediaUrl: m.mediaUrl ?? null,
+          mediaType: m.mediaType ?? null,
+          consultationId: m.consultationId,
+          createdAt: m.createdAt,
+        }),
+      ),
     };
   }
 
@@ -3292,12 +3392,12 @@ export class ConsultationService {
         .font('Helvetica')
         .text(message.content || '', { indent: 20 });
 
-      if (message.mediaUrl) {
+      if (message.mediaUrl || message.mediaKey) {
         doc
           .fontSize(8)
           .font('Helvetica-Oblique')
           .text(
-            `Media: ${message.mediaType || 'Unknown'} - ${message.mediaUrl}`,
+            `Media: ${message.mediaType || 'Unknown'} - ${message.mediaKey ? message.fileName || 'attachment' : message.mediaUrl}`,
             { indent: 20 },
           );
       }
@@ -3653,6 +3753,13 @@ export class ConsultationService {
       // Do not roll back assignment for transient email failures
     }
 
+    await this.inAppNotificationService.notify(practitionerId, {
+      event: NotificationEvent.CONSULTATION_ASSIGNED,
+      title: 'New consultation assigned',
+      body: `You have been assigned consultation #${consultationId}`,
+      consultationId,
+    });
+
     // Emit real-time cleanup events
     await this.emitWaitingRoomCleanup(consultationId, practitionerId);
 
@@ -3787,6 +3894,10 @@ export class ConsultationService {
         practitionerName,
         consultation.id,
         schedulingLink,
+        await this.i18nService.localeForUser({
+          userId: patient.user.id,
+          consultationId: consultation.id,
+        }),
       );
 
       this.logger.log(
@@ -5,4 +5,12 @@ export interface IConsultationGateway {
   emitToRoom(consultationId: number, event: string, data: any): void;
   emitToUser(userId: number, event: string, data: any): void;
   emitPatientJoinedToPractitioner(practitionerId: number, payload: any): void;
+  notifyPatientWaiting(
+    practitionerId: number,
+    patient: {
+      consultationId: number;
+      patientId: number;
+      patientFirstName?: string | null;
+    },
+  ): Promise<void>;
 }
@@ -296,6 +296,11 @@ export class WaitingRoomService {
         queuePosition: waitingRoomSession.queuePosition,
         estimatedWaitTime: waitingRoomSession.estimatedWaitTime
       });
+      await this.consultationGateway.notifyPatientWaiting(consultation.ownerId, {
+        consultationId,
+        patientId: userId,
+        patientFirstName: user?.firstName,
+      });
     }
 
     // Send system message to patient
@@ -2,22 +2,23 @@ import { Module } from '@nestjs/common';
 import { DatabaseModule } from 'src/database/database.module';
 import { ConfigModule } from 'src/config/config.module';
 import { StorageModule } from 'src/storage/storage.module';
-import { EmailService } from 'src/common/email/email.service';
+import { EmailModule } from 'src/common/email/email.module';
+import { I18nModule } from 'src/i18n/i18n.module';
 
 @Module({
   imports: [
     DatabaseModule,
     ConfigModule,
     StorageModule,
-  ],
-  providers: [
-    EmailService,
+    I18nModule,
+    EmailModule,
   ],
   exports: [
-    EmailService,
+    EmailModule,
     DatabaseModule,
     ConfigModule,
     StorageModule,
+    I18nModule,
   ],
 })
 export class CoreModule { }
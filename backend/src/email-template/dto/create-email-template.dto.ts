@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+import {
+  EMAIL_TEMPLATE_KEYS,
+  EmailTemplateKey,
+} from '../email-template.constants';
+
+export class CreateEmailTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Organization of the template, or none for the platform',
+  })
+  @IsOptional()
+  @IsInt()
+  organizationId?: number;
+
+  @ApiProperty({ enum: EMAIL_TEMPLATE_KEYS })
+  @IsIn(EMAIL_TEMPLATE_KEYS)
+  key: EmailTemplateKey;
+
+  @ApiProperty({ description: 'Language code or name', example: 'fr' })
+  @IsNotEmpty()
+  @IsString()
+  @Length(2, 35)
+  language: string;
+
+  @ApiProperty({ example: 'Your consultation with {{practitionerName}}' })
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 255)
+  subject: string;
+
+  @ApiProperty({
+    description:
+      'HTML body; {{variable}} inserts an escaped value and {{#if variable}}…{{else}}…{{/if}} a conditional block',
+  })
+  @IsNotEmpty()
+  @IsString()
+  body: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
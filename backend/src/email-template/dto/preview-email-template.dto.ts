@@ -0,0 +1,18 @@
+import { ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { IsObject, IsOptional } from 'class-validator';
+import { CreateEmailTemplateDto } from './create-email-template.dto';
+
+export class PreviewEmailTemplateDto extends PickType(CreateEmailTemplateDto, [
+  'organizationId',
+  'key',
+  'language',
+  'subject',
+  'body',
+] as const) {
+  @ApiPropertyOptional({
+    description: 'Values replacing the sample variables of the email',
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string | number>;
+}
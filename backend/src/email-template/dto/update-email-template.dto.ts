@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateEmailTemplateDto } from './create-email-template.dto';
+
+export class UpdateEmailTemplateDto extends PartialType(
+  OmitType(CreateEmailTemplateDto, ['organizationId', 'key'] as const),
+) {}
@@ -0,0 +1,70 @@
+import { escapeHtml } from './template-engine';
+
+const DEFAULT_PRIMARY_COLOR = '#2563eb';
+
+export interface EmailBranding {
+  name: string;
+  logo?: string | null;
+  primaryColor?: string | null;
+  footerMarkdown?: string | null;
+}
+
+/**
+ * Footer markdown of an organization as HTML: paragraphs, line breaks,
+ * bold, italics and http(s) or mailto links. Everything else is escaped.
+ */
+export function renderFooterMarkdown(markdown?: string | null): string {
+  if (!markdown?.trim()) {
+    return '';
+  }
+  return markdown
+    .trim()
+    .split(/\n{2,}/)
+    .map((paragraph) => {
+      const html = escapeHtml(paragraph)
+        .replace(
+          /\[([^\]]+)\]\(((?:https?:\/\/|mailto:)[^)\s]+)\)/g,
+          '<a href="$2" style="color:inherit;">$1</a>',
+        )
+        .replace(/(\*\*|__)(.+?)\1/g, '<strong>$2</strong>')
+        .replace(/(\*|_)(.+?)\1/g, '<em>$2</em>')
+        .replace(/\n/g, '<br>');
+      return `<p style="margin:0 0 8px;">${html}</p>`;
+    })
+    .join('');
+}
+
+/** Wraps a rendered template body with the organization's logo, color and footer */
+export function brandedEmail(
+  body: string,
+  branding: EmailBranding,
+  language: string,
+): string {
+  const color = primaryColor(branding.primaryColor);
+  const name = escapeHtml(branding.name);
+  const logo =
+    branding.logo && /^https?:\/\//i.test(branding.logo)
+      ? `<img src="${escapeHtml(branding.logo)}" alt="${name}" style="max-height:48px;max-width:200px;">`
+      : `<strong style="font-size:20px;">${name}</strong>`;
+
+  return `
+    <html lang="${escapeHtml(language)}">
+    <body style="font-family: Arial, sans-serif; background: #f4f6fb; margin:0;">
+      <div style="max-width:600px;margin:40px auto;background:#fff;border-radius:8px;box-shadow:0 2px 8px #e5e7eb;overflow:hidden;">
+        <div style="background:${color};color:#fff;padding:24px 32px;text-align:center;">${logo}</div>
+        <div style="padding:32px;color:#1e293b;">${body}</div>
+        <div style="background:#f1f5f9;padding:16px;text-align:center;font-size:12px;color:#6b7280;border-top:3px solid ${color};">
+          ${renderFooterMarkdown(branding.footerMarkdown)}
+          <p style="margin:0;">© ${new Date().getFullYear()} ${name}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function primaryColor(color?: string | null): string {
+  return color && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)
+    ? color
+    : DEFAULT_PRIMARY_COLOR;
+}
@@ -0,0 +1,84 @@
+/** Emails whose content admins can replace, named like their i18n catalog entry */
+export const EMAIL_TEMPLATE_KEYS = [
+  'invitation',
+  'consultationAssigned',
+  'selfInvitation',
+  'consultationReminder',
+  'consultationRescheduled',
+  'consultationCancelled',
+  'preConsultation',
+  'invoice',
+  'exportReady',
+] as const;
+
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
+
+/** Variables every template can use */
+export const COMMON_EMAIL_VARIABLES = ['organization.name', 'year'];
+
+/** Variables of each email, with the sample values used by the preview */
+export const EMAIL_TEMPLATE_VARIABLES: Record<
+  EmailTemplateKey,
+  Record<string, string | number>
+> = {
+  invitation: {
+    inviteeName: 'Jane Doe',
+    inviterName: 'Dr. John Smith',
+    role: 'Patient',
+    consultationId: 42,
+    link: 'https://patient.example.com/invite/abc123',
+    platform: 'patient.example.com',
+    scheduledTime: 'Monday, March 4, 2030 at 02:30 PM UTC',
+    deviceTestUntil: 'Monday, March 4, 2030 at 02:28 PM UTC',
+    notes: 'Please have your latest lab results at hand.',
+  },
+  consultationAssigned: {
+    patientName: 'Jane Doe',
+    practitionerName: 'Dr. John Smith',
+    consultationId: 42,
+    link: 'https://patient.example.com/consultations/42/schedule',
+  },
+  selfInvitation: {
+    link: 'https://patient.example.com/invite/abc123',
+  },
+  consultationReminder: {
+    patientName: 'Jane Doe',
+    scheduledTime: 'Monday, March 4, 2030 at 02:30 PM UTC',
+    link: 'https://patient.example.com/consultations/42',
+  },
+  consultationRescheduled: {
+    recipientName: 'Jane Doe',
+    consultationId: 42,
+    scheduledTime: 'Tuesday, March 5, 2030 at 09:00 AM UTC',
+    link: 'https://patient.example.com/dashboard',
+  },
+  consultationCancelled: {
+    recipientName: 'Jane Doe',
+    consultationId: 42,
+    scheduledTime: 'Monday, March 4, 2030 at 02:30 PM UTC',
+    link: 'https://patient.example.com/dashboard',
+  },
+  preConsultation: {
+    patientName: 'Jane Doe',
+    practitionerName: 'Dr. John Smith',
+    consultationId: 42,
+    scheduledTime: 'Monday, March 4, 2030 at 02:30 PM UTC',
+    link: 'https://patient.example.com/consultations/42/room',
+  },
+  invoice: {
+    patientName: 'Jane Doe',
+    documentTitle: 'Invoice',
+    documentNumber: 'INV-2030-0001',
+    amount: '$120.00',
+    organizationName: 'Healthcare Platform',
+  },
+  exportReady: {
+    adminName: 'Alex Admin',
+    fileName: 'consultations-2030-03-04.csv',
+    rowCount: 1250,
+    link: 'https://admin.example.com/exports/7',
+    expiresAt: 'Tuesday, March 5, 2030 at 02:30 PM UTC',
+  },
+};
+
+export const PLATFORM_EMAIL_BRANDING = { name: 'Healthcare Platform' };
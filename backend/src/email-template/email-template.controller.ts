@@ -0,0 +1,176 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { EmailTemplateService } from './email-template.service';
+import { CreateEmailTemplateDto } from './dto/create-email-template.dto';
+import { UpdateEmailTemplateDto } from './dto/update-email-template.dto';
+import { PreviewEmailTemplateDto } from './dto/preview-email-template.dto';
+
+@ApiTags('Email templates')
+@ApiBearerAuth()
+@Controller('email-templates')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class EmailTemplateController {
+  constructor(private readonly emailTemplateService: EmailTemplateService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List email templates' })
+  @ApiQuery({ name: 'organizationId', required: false, type: Number })
+  @ApiQuery({ name: 'key', required: false, type: String })
+  async findAll(
+    @Req() req: Request,
+    @Query('organizationId', new ParseIntPipe({ optional: true }))
+    organizationId?: number,
+    @Query('key') key?: string,
+  ) {
+    const templates = await this.emailTemplateService.findAll({
+      organizationId,
+      key,
+    });
+    return ApiResponseDto.success(
+      templates,
+      'Email templates retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get('keys')
+  @ApiOperation({ summary: 'List editable emails and their variables' })
+  keys(@Req() req: Request) {
+    return ApiResponseDto.success(
+      this.emailTemplateService.keys(),
+      'Email template keys retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Render a draft email template with sample variables',
+  })
+  async preview(
+    @Body() previewEmailTemplateDto: PreviewEmailTemplateDto,
+    @Req() req: Request,
+  ) {
+    const email = await this.emailTemplateService.preview(
+      previewEmailTemplateDto,
+    );
+    return ApiResponseDto.success(
+      email,
+      'Email template rendered successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an email template' })
+  async findOne(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    const template = await this.emailTemplateService.findOne(id);
+    return ApiResponseDto.success(
+      template,
+      'Email template retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create an email template for an organization or the platform',
+  })
+  async create(
+    @Body() createEmailTemplateDto: CreateEmailTemplateDto,
+    @Req() req: Request,
+  ) {
+    const template = await this.emailTemplateService.create(
+      createEmailTemplateDto,
+    );
+    return ApiResponseDto.success(
+      template,
+      'Email template created successfully',
+      201,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update an email template' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateEmailTemplateDto: UpdateEmailTemplateDto,
+    @Req() req: Request,
+  ) {
+    const template = await this.emailTemplateService.update(
+      id,
+      updateEmailTemplateDto,
+    );
+    return ApiResponseDto.success(
+      template,
+      'Email template updated successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an email template' })
+  async remove(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    await this.emailTemplateService.remove(id);
+    return ApiResponseDto.success(
+      null,
+      'Email template deleted successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
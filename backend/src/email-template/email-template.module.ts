@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CoreModule } from '../core/core.module';
+import { AuthModule } from '../auth/auth.module';
+import { EmailTemplateController } from './email-template.controller';
+
+// EmailTemplateService comes from EmailModule, through CoreModule
+@Module({
+  imports: [CoreModule, AuthModule],
+  controllers: [EmailTemplateController],
+})
+export class EmailTemplateModule {}
@@ -0,0 +1,190 @@
+import { EmailTemplateService } from './email-template.service';
+import { I18nService } from '../i18n/i18n.service';
+
+describe('EmailTemplateService', () => {
+  let service: EmailTemplateService;
+  let prisma: any;
+
+  const locale = { language: 'fr-ch', timezone: 'Europe/Zurich' };
+  const variables = {
+    patientName: 'Jane <Doe>',
+    scheduledTime: 'lundi 4 mars 2030',
+    link: 'https://patient.example.com/consultations/42',
+  };
+
+  beforeEach(() => {
+    prisma = {
+      emailTemplate: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn(),
+        create: jest
+          .fn()
+          .mockImplementation(({ data }) => ({ id: 1, ...data })),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      organization: {
+        findUnique: jest.fn().mockResolvedValue({
+          name: 'Health NGO',
+          logo: 'https://cdn.example.com/logo.png',
+          primaryColor: '#0f766e',
+          footerMarkdown:
+            '**Health NGO** · [Privacy](https://ngo.example.com/privacy)',
+        }),
+      },
+      consultation: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ group: { organizationId: 2 } }),
+      },
+    };
+    const i18nService = new I18nService(prisma, {
+      defaultLanguage: 'en',
+      defaultTimezone: 'UTC',
+    } as any);
+    service = new EmailTemplateService(prisma, i18nService);
+  });
+
+  describe('render', () => {
+    it('returns null without a template, so the built-in email is sent', async () => {
+      await expect(
+        service.render('consultationReminder', { locale, variables }),
+      ).resolves.toBeNull();
+    });
+
+    it("prefers the organization's template in the closest language", async () => {
+      prisma.emailTemplate.findMany.mockResolvedValue([
+        {
+          id: 1,
+          organizationId: null,
+          language: 'fr',
+          subject: 'Plateforme',
+          body: '',
+        },
+        {
+          id: 2,
+          organizationId: 2,
+          language: 'en',
+          subject: 'Organization EN',
+          body: '',
+        },
+        {
+          id: 3,
+          organizationId: 2,
+          language: 'fr',
+          subject: 'Rappel pour {{patientName}}',
+          body: '<p>Bonjour {{patientName}}, rendez-vous le {{scheduledTime}}.</p>',
+        },
+      ]);
+
+      const email = await service.render('consultationReminder', {
+        locale,
+        variables,
+        consultationId: 42,
+      });
+
+      expect(prisma.emailTemplate.findMany).toHaveBeenCalledWith({
+        where: {
+          key: 'consultationReminder',
+          isActive: true,
+          OR: [{ organizationId: null }, { organizationId: 2 }],
+        },
+      });
+      expect(email!.subject).toBe('Rappel pour Jane <Doe>');
+      expect(email!.html).toContain(
+        'Bonjour Jane &lt;Doe&gt;, rendez-vous le lundi 4 mars 2030.',
+      );
+      expect(email!.html).toContain('<html lang="fr-ch">');
+      expect(email!.html).toContain('background:#0f766e');
+      expect(email!.html).toContain('src="https://cdn.example.com/logo.png"');
+      expect(email!.html).toContain(
+        '<strong>Health NGO</strong> · <a href="https://ngo.example.com/privacy" style="color:inherit;">Privacy</a>',
+      );
+    });
+
+    it('brands platform templates for the organization', async () => {
+      prisma.emailTemplate.findMany.mockResolvedValue([
+        {
+          id: 1,
+          organizationId: null,
+          language: 'en',
+          subject: 'Hi',
+          body: '{{organization.name}}',
+        },
+      ]);
+
+      const email = await service.render('consultationReminder', {
+        locale,
+        variables,
+        organizationId: 2,
+      });
+
+      expect(email!.html).toContain('Health NGO');
+      expect(prisma.consultation.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    const dto = {
+      organizationId: 2,
+      key: 'consultationReminder' as const,
+      language: 'French',
+      subject: 'Rappel',
+      body: '{{#if patientName}}Bonjour {{patientName}}{{/if}}',
+    };
+
+    it('stores the normalized language', async () => {
+      await service.create(dto);
+
+      expect(prisma.emailTemplate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ organizationId: 2, language: 'fr' }),
+      });
+    });
+
+    it('rejects variables the email does not provide', async () => {
+      await expect(
+        service.create({ ...dto, body: '{{patientName}} {{invoiceNumber}}' }),
+      ).rejects.toThrow(
+        'Unknown variables in body of "consultationReminder": invoiceNumber',
+      );
+    });
+
+    it('rejects invalid syntax', async () => {
+      await expect(
+        service.create({ ...dto, subject: '{{#if patientName}}Rappel' }),
+      ).rejects.toThrow(
+        'Invalid subject template: {{#if patientName}} is never closed',
+      );
+    });
+
+    it('rejects a second platform template for the same email and language', async () => {
+      prisma.emailTemplate.findFirst.mockResolvedValue({ id: 9 });
+
+      await expect(
+        service.create({ ...dto, organizationId: undefined }),
+      ).rejects.toThrow('already exists for the platform');
+      expect(prisma.emailTemplate.findFirst).toHaveBeenCalledWith({
+        where: {
+          organizationId: null,
+          key: 'consultationReminder',
+          language: 'fr',
+        },
+      });
+    });
+  });
+
+  it('previews drafts with sample variables', async () => {
+    const email = await service.preview({
+      key: 'invoice',
+      language: 'en',
+      subject: '{{documentTitle}} {{documentNumber}}',
+      body: '<p>{{amount}} for {{patientName}}</p>',
+      variables: { patientName: 'Ada' },
+    });
+
+    expect(email.subject).toBe('Invoice INV-2030-0001');
+    expect(email.html).toContain('<p>$120.00 for Ada</p>');
+    expect(email.html).toContain('Healthcare Platform');
+  });
+});
@@ -0,0 +1,299 @@
+import { Injectable } from '@nestjs/common';
+import { EmailTemplate } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import {
+  I18nService,
+  normalizeLanguage,
+  RecipientLocale,
+} from '../i18n/i18n.service';
+import {
+  COMMON_EMAIL_VARIABLES,
+  EMAIL_TEMPLATE_KEYS,
+  EMAIL_TEMPLATE_VARIABLES,
+  EmailTemplateKey,
+  PLATFORM_EMAIL_BRANDING,
+} from './email-template.constants';
+import { brandedEmail, EmailBranding } from './email-layout';
+import {
+  renderTemplate,
+  TemplateSyntaxError,
+  TemplateVariables,
+  templateVariables,
+} from './template-engine';
+import { CreateEmailTemplateDto } from './dto/create-email-template.dto';
+import { UpdateEmailTemplateDto } from './dto/update-email-template.dto';
+import { PreviewEmailTemplateDto } from './dto/preview-email-template.dto';
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+@Injectable()
+export class EmailTemplateService {
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  async findAll(query: {
+    organizationId?: number;
+    key?: string;
+  }): Promise<EmailTemplate[]> {
+    return this.prisma.emailTemplate.findMany({
+      where: { organizationId: query.organizationId, key: query.key },
+      orderBy: [{ organizationId: 'asc' }, { key: 'asc' }, { language: 'asc' }],
+    });
+  }
+
+  async findOne(id: number): Promise<EmailTemplate> {
+    const template = await this.prisma.emailTemplate.findUnique({
+      where: { id },
+    });
+    if (!template) {
+      throw HttpExceptionHelper.notFound('Email template not found');
+    }
+    return template;
+  }
+
+  /** Editable emails and the variables each of them provides */
+  keys(): { key: EmailTemplateKey; variables: string[] }[] {
+    return EMAIL_TEMPLATE_KEYS.map((key) => ({
+      key,
+      variables: [
+        ...Object.keys(EMAIL_TEMPLATE_VARIABLES[key]),
+        ...COMMON_EMAIL_VARIABLES,
+      ],
+    }));
+  }
+
+  async create(dto: CreateEmailTemplateDto): Promise<EmailTemplate> {
+    if (dto.organizationId) {
+      await this.branding(dto.organizationId);
+    }
+    const language = this.language(dto.language);
+    this.validate(dto.key, dto.subject, dto.body);
+    await this.ensureUnique(dto.organizationId ?? null, dto.key, language);
+
+    return this.prisma.emailTemplate.create({
+      data: { ...dto, organizationId: dto.organizationId ?? null, language },
+    });
+  }
+
+  async update(
+    id: number,
+    dto: UpdateEmailTemplateDto,
+  ): Promise<EmailTemplate> {
+    const template = await this.findOne(id);
+    const language = dto.language
+      ? this.language(dto.language)
+      : template.language;
+    this.validate(
+      template.key as EmailTemplateKey,
+      dto.subject ?? template.subject,
+      dto.body ?? template.body,
+    );
+    if (language !== template.language) {
+      await this.ensureUnique(template.organizationId, template.key, language);
+    }
+
+    return this.prisma.emailTemplate.update({
+      where: { id },
+      data: { ...dto, language },
+    });
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.findOne(id);
+    await this.prisma.emailTemplate.delete({ where: { id } });
+  }
+
+  /** Renders a draft with the sample variables of its email */
+  async preview(dto: PreviewEmailTemplateDto): Promise<RenderedEmail> {
+    const language = this.language(dto.language);
+    this.validate(dto.key, dto.subject, dto.body);
+    const branding = await this.branding(dto.organizationId ?? null);
+
+    return this.renderWith(
+      dto,
+      { ...EMAIL_TEMPLATE_VARIABLES[dto.key], ...dto.variables },
+      branding,
+      language,
+    );
+  }
+
+  /**
+   * The admin-edited version of an email: the active template of the
+   * organization, else of the platform, in the first language of the
+   * recipient's fallback chain that has one. Null when none exists, so the
+   * built-in email is sent.
+   */
+  async render(
+    key: EmailTemplateKey,
+    options: {
+      locale: RecipientLocale;
+      variables: TemplateVariables;
+      organizationId?: number | null;
+      consultationId?: number;
+    },
+  ): Promise<RenderedEmail | null> {
+    const organizationId =
+      options.organizationId ??
+      (options.consultationId
+        ? await this.organizationOfConsultation(options.consultationId)
+        : null);
+
+    const templates = await this.prisma.emailTemplate.findMany({
+      where: {
+        key,
+        isActive: true,
+        OR: [
+          { organizationId: null },
+          ...(organizationId ? [{ organizationId }] : []),
+        ],
+      },
+    });
+    if (!templates.length) {
+      return null;
+    }
+
+    const template = this.pick(
+      templates,
+      this.i18nService.languageChain(options.locale.language),
+    );
+    if (!template) {
+      return null;
+    }
+
+    // Platform templates still carry the organization's branding
+    const branding = await this.branding(organizationId);
+    return this.renderWith(
+      template,
+      options.variables,
+      branding,
+      options.locale.language,
+    );
+  }
+
+  private pick(
+    templates: EmailTemplate[],
+    languages: string[],
+  ): EmailTemplate | undefined {
+    for (const language of languages) {
+      const matches = templates.filter(
+        (template) => template.language === language,
+      );
+      const match =
+        matches.find((template) => template.organizationId !== null) ??
+        matches[0];
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  private renderWith(
+    template: { subject: string; body: string },
+    variables: TemplateVariables,
+    branding: EmailBranding,
+    language: string,
+  ): RenderedEmail {
+    const context = {
+      ...variables,
+      organization: { name: branding.name },
+      year: new Date().getFullYear(),
+    };
+    return {
+      subject: renderTemplate(template.subject, context, { escape: false }),
+      html: brandedEmail(
+        renderTemplate(template.body, context),
+        branding,
+        language,
+      ),
+    };
+  }
+
+  private async branding(
+    organizationId: number | null,
+  ): Promise<EmailBranding> {
+    if (!organizationId) {
+      return PLATFORM_EMAIL_BRANDING;
+    }
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        name: true,
+        logo: true,
+        primaryColor: true,
+        footerMarkdown: true,
+      },
+    });
+    if (!organization) {
+      throw HttpExceptionHelper.notFound('Organization not found');
+    }
+    return organization;
+  }
+
+  private async organizationOfConsultation(
+    consultationId: number,
+  ): Promise<number | null> {
+    const consultation = await this.prisma.consultation.findUnique({
+      where: { id: consultationId },
+      select: { group: { select: { organizationId: true } } },
+    });
+    return consultation?.group?.organizationId ?? null;
+  }
+
+  private language(value: string): string {
+    const language = normalizeLanguage(value);
+    if (!language) {
+      throw HttpExceptionHelper.badRequest(`Unknown language "${value}"`);
+    }
+    return language;
+  }
+
+  private validate(key: EmailTemplateKey, subject: string, body: string): void {
+    const allowed = new Set([
+      ...Object.keys(EMAIL_TEMPLATE_VARIABLES[key]),
+      ...COMMON_EMAIL_VARIABLES,
+      'organization',
+    ]);
+    for (const [field, source] of Object.entries({ subject, body })) {
+      let variables: string[];
+      try {
+        variables = templateVariables(source);
+      } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+          throw HttpExceptionHelper.badRequest(
+            `Invalid ${field} template: ${error.message}`,
+          );
+        }
+        throw error;
+      }
+      const unknown = variables.filter((variable) => !allowed.has(variable));
+      if (unknown.length) {
+        throw HttpExceptionHelper.badRequest(
+          `Unknown variables in ${field} of "${key}": ${unknown.join(', ')}`,
+        );
+      }
+    }
+  }
+
+  private async ensureUnique(
+    organizationId: number | null,
+    key: string,
+    language: string,
+  ): Promise<void> {
+    // Unique indexes treat null organizations as distinct, so check here
+    const existing = await this.prisma.emailTemplate.findFirst({
+      where: { organizationId, key, language },
+    });
+    if (existing) {
+      throw HttpExceptionHelper.conflict(
+        `A "${key}" email template in "${language}" already exists ${organizationId ? `for organization ${organizationId}` : 'for the platform'}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  renderTemplate,
+  TemplateSyntaxError,
+  templateVariables,
+} from './template-engine';
+
+describe('template engine', () => {
+  it('escapes values and reads nested variables', () => {
+    expect(
+      renderTemplate('<p>{{ name }} · {{organization.name}}</p>', {
+        name: '<script>alert(1)</script>',
+        organization: { name: 'Health & Co' },
+      }),
+    ).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt; · Health &amp; Co</p>');
+  });
+
+  it('keeps plain text unescaped when asked', () => {
+    expect(
+      renderTemplate(
+        '{{title}} for {{name}}',
+        { title: 'Q&A', name: "O'Hara" },
+        { escape: false },
+      ),
+    ).toBe("Q&A for O'Hara");
+  });
+
+  it('renders conditional blocks', () => {
+    const source = '{{#if notes}}Note: {{notes}}{{else}}No notes{{/if}}';
+
+    expect(renderTemplate(source, { notes: 'Bring results' })).toBe(
+      'Note: Bring results',
+    );
+    expect(renderTemplate(source, { notes: '' })).toBe('No notes');
+  });
+
+  it('does not read inherited properties', () => {
+    expect(
+      renderTemplate('{{constructor.name}}{{toString}}', { name: 'x' }),
+    ).toBe('');
+  });
+
+  it('lists the variables of a template', () => {
+    expect(
+      templateVariables('{{#if a}}{{b}}{{else}}{{c.d}}{{/if}}{{a}}'),
+    ).toEqual(['a', 'b', 'c.d']);
+  });
+
+  it.each([
+    '{{#if a}}never closed',
+    '{{/if}}',
+    '{{#each items}}{{/each}}',
+    '{{a + b}}',
+    '{{#if a}}{{else}}{{else}}{{/if}}',
+  ])('rejects %s', (source) => {
+    expect(() => templateVariables(source)).toThrow(TemplateSyntaxError);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Logic-less templates for admin-edited emails.
+ *
+ * `{{ path }}` inserts a value, HTML-escaped unless rendering plain text, and
+ * `{{#if path}}…{{else}}…{{/if}}` keeps a block when the value is truthy.
+ * Paths only read own properties of the variables, so a template cannot
+ * reach prototypes or run code.
+ */
+
+export type TemplateVariables = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | {
+      type: 'if';
+      path: string;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+export class TemplateSyntaxError extends Error {}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open #if blocks, innermost last; `target` is where children go
+  const stack: {
+    node: Extract<TemplateNode, { type: 'if' }>;
+    target: TemplateNode[];
+  }[] = [];
+  let target = root;
+  let position = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, expression] = match;
+    if (match.index > position) {
+      target.push({ type: 'text', value: source.slice(position, match.index) });
+    }
+    position = match.index + tag.length;
+
+    if (sigil === '#') {
+      const [helper, path, ...rest] = expression.split(/\s+/);
+      if (helper !== 'if' || !path || rest.length) {
+        throw new TemplateSyntaxError(
+          `Unsupported block "${tag}", use {{#if variable}}`,
+        );
+      }
+      const node: Extract<TemplateNode, { type: 'if' }> = {
+        type: 'if',
+        path: checkPath(path),
+        then: [],
+        otherwise: [],
+      };
+      target.push(node);
+      stack.push({ node, target: node.then });
+      target = node.then;
+    } else if (sigil === '/') {
+      if (expression !== 'if' || !stack.length) {
+        throw new TemplateSyntaxError(`Unexpected "${tag}"`);
+      }
+      stack.pop();
+      target = stack.length ? stack[stack.length - 1].target : root;
+    } else if (expression === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.target === block.node.otherwise) {
+        throw new TemplateSyntaxError(
+          '{{else}} must be inside an {{#if}} block',
+        );
+      }
+      block.target = block.node.otherwise;
+      target = block.target;
+    } else {
+      target.push({ type: 'variable', path: checkPath(expression) });
+    }
+  }
+
+  if (stack.length) {
+    throw new TemplateSyntaxError(
+      `{{#if ${stack[stack.length - 1].node.path}}} is never closed`,
+    );
+  }
+  if (position < source.length) {
+    root.push({ type: 'text', value: source.slice(position) });
+  }
+  return root;
+}
+
+/** Variable paths a template reads, in order of first use */
+export function templateVariables(source: string): string[] {
+  const paths = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'variable') {
+        paths.add(node.path);
+      } else if (node.type === 'if') {
+        paths.add(node.path);
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTemplate(source));
+  return [...paths];
+}
+
+export function renderTemplate(
+  source: string,
+  variables: TemplateVariables,
+  options: { escape?: boolean } = {},
+): string {
+  const escape = options.escape ?? true;
+  const render = (nodes: TemplateNode[]): string =>
+    nodes
+      .map((node) => {
+        if (node.type === 'text') {
+          return node.value;
+        }
+        const value = lookup(variables, node.path);
+        if (node.type === 'if') {
+          return render(isTruthy(value) ? node.then : node.otherwise);
+        }
+        const text = stringify(value);
+        return escape ? escapeHtml(text) : text;
+      })
+      .join('');
+
+  return render(parseTemplate(source));
+}
+
+function checkPath(path: string): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`Invalid variable "${path}"`);
+  }
+  return path;
+}
+
+function lookup(variables: TemplateVariables, path: string): unknown {
+  let value: unknown = variables;
+  for (const segment of path.split('.')) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, segment)
+    ) {
+      return undefined;
+    }
+    value = (value as TemplateVariables)[segment];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? '' : String(value);
+}
@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { ExportConsultationsDto } from './export-consultations.dto';
+import { ExportFormat } from '../enums/export-format.enum';
+
+export class CreateExportJobDto extends ExportConsultationsDto {
+  @ApiPropertyOptional({
+    description: 'Format of the exported file.',
+    enum: ExportFormat,
+    default: ExportFormat.CSV,
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat;
+}
@@ -42,4 +42,31 @@ export class ExportConsultationsDto {
   @IsOptional()
   @IsEnum(ConsultationStatus)
   status?: ConsultationStatus;
-} 
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    description: 'Filter consultations by the organization of their group.',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  organizationId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filter consultations by group ID.',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  groupId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filter consultations by speciality ID.',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  specialityId?: number;
+}
@@ -0,0 +1,56 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentStatus } from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+
+export class ExportPaymentsDto {
+  @ApiPropertyOptional({
+    description: 'Export payments created from this date (ISO 8601 format).',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'Export payments created up to this date (ISO 8601 format).',
+    example: '2024-12-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter payments by organization ID.',
+    example: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  organizationId?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filter payments by status.',
+    enum: PaymentStatus,
+    example: PaymentStatus.COMPLETED,
+  })
+  @IsOptional()
+  @IsEnum(PaymentStatus)
+  status?: PaymentStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter payments by currency.',
+    example: 'USD',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+}
@@ -0,0 +1,12 @@
+export enum ExportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+  NDJSON = 'ndjson',
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.NDJSON]: 'application/x-ndjson; charset=utf-8',
+};
@@ -0,0 +1,200 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Writable } from 'stream';
+import { ExportJobService } from './export-job.service';
+import { ExportFormat } from './enums/export-format.enum';
+
+// The service imports its dependencies through the `src/` path alias
+jest.mock('src/config/config.service', () => ({ ConfigService: class {} }), {
+  virtual: true,
+});
+jest.mock(
+  'src/database/database.service',
+  () => ({ DatabaseService: class {} }),
+  { virtual: true },
+);
+jest.mock(
+  'src/common/email/email.service',
+  () => ({ EmailService: class {} }),
+  {
+    virtual: true,
+  },
+);
+jest.mock(
+  'src/common/helpers/execption/http-exception.helper',
+  () => ({
+    HttpExceptionHelper: {
+      notFound: (message: string) => new Error(message),
+      badRequest: (message: string) => new Error(message),
+      internalServerError: (message: string) => new Error(message),
+    },
+  }),
+  { virtual: true },
+);
+
+// Minimal in-memory stand-in for the Redis commands the service uses
+function fakeRedis() {
+  const values = new Map<string, string>();
+  const lists = new Map<string, string[]>();
+  const sorted = new Map<string, Map<string, number>>();
+  const client: any = {
+    on: jest.fn(),
+    connect: jest.fn(),
+    duplicate: () => client,
+    set: jest.fn(async (key, value) => values.set(key, value)),
+    get: jest.fn(async (key) => values.get(key) ?? null),
+    del: jest.fn(async (key) => values.delete(key)),
+    rPush: jest.fn(async (key, value) =>
+      lists.set(key, [...(lists.get(key) ?? []), value]),
+    ),
+    blPop: jest.fn(async (key) => {
+      const element = lists.get(key)?.shift();
+      return element ? { key, element } : null;
+    }),
+    zAdd: jest.fn(async (key, { score, value }) =>
+      sorted.set(key, (sorted.get(key) ?? new Map()).set(value, score)),
+    ),
+    zRangeByScore: jest.fn(async (key, min, max) =>
+      [...(sorted.get(key) ?? new Map()).entries()]
+        .filter(([, score]) => score >= min && score <= max)
+        .map(([value]) => value),
+    ),
+    zRem: jest.fn(async (key, value) => sorted.get(key)?.delete(value)),
+  };
+  return client;
+}
+
+let redis: any;
+jest.mock('redis', () => ({ createClient: () => redis }));
+
+describe('ExportJobService', () => {
+  let service: ExportJobService;
+  let storageDir: string;
+  let configService: any;
+  let emailService: any;
+  let exportService: any;
+
+  const runQueuedJob = async () => {
+    const item = await redis.blPop('export:queue', 0);
+    await (service as any).processJob(item.element);
+  };
+
+  beforeEach(async () => {
+    redis = fakeRedis();
+    storageDir = mkdtempSync(join(tmpdir(), 'export-jobs-'));
+    configService = {
+      redisUrl: 'redis://localhost:6379',
+      exportStorageDir: storageDir,
+      exportResultTtlHours: 24,
+      adminUrl: 'https://admin.example.com',
+    };
+    emailService = { sendExportReadyEmail: jest.fn() };
+    exportService = {
+      streamConsultations: jest.fn(
+        async (_filters, _format, output: Writable) => {
+          output.end('Consultation ID\n1\n');
+          return 1;
+        },
+      ),
+    };
+    const db: any = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({
+          email: 'admin@example.com',
+          firstName: 'Ada',
+          lastName: 'Byron',
+        }),
+      },
+    };
+
+    service = new ExportJobService(
+      configService,
+      db,
+      emailService,
+      exportService,
+    );
+    // Connect to the fake Redis without starting the blocking worker loop
+    jest.spyOn(service as any, 'consumeQueue').mockResolvedValue(undefined);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('runs a queued job, stores the file and emails the admin', async () => {
+    const job = await service.createJob(
+      { format: ExportFormat.CSV, groupId: 2 },
+      7,
+    );
+    expect(job.status).toBe('queued');
+
+    await runQueuedJob();
+
+    const finished = await service.getJob(job.id, 7);
+    expect(finished).toEqual(
+      expect.objectContaining({
+        status: 'completed',
+        rowCount: 1,
+        sizeBytes: 18,
+      }),
+    );
+    expect(exportService.streamConsultations).toHaveBeenCalledWith(
+      { groupId: 2 },
+      ExportFormat.CSV,
+      expect.anything(),
+    );
+    expect(readFileSync(join(storageDir, job.id), 'utf8')).toBe(
+      'Consultation ID\n1\n',
+    );
+    expect(emailService.sendExportReadyEmail).toHaveBeenCalledWith(
+      'admin@example.com',
+      'Ada Byron',
+      job.fileName,
+      1,
+      `https://admin.example.com/dashboard?exportJob=${job.id}`,
+      expect.any(Date),
+    );
+  });
+
+  it('only shows jobs to the admin who created them', async () => {
+    const job = await service.createJob({}, 7);
+
+    await expect(service.getJob(job.id, 8)).rejects.toThrow(
+      'Export job not found',
+    );
+  });
+
+  it('records failures without leaving a partial file', async () => {
+    exportService.streamConsultations.mockRejectedValue(
+      new Error('database down'),
+    );
+    const job = await service.createJob({}, 7);
+
+    await runQueuedJob();
+
+    expect(await service.getJob(job.id, 7)).toEqual(
+      expect.objectContaining({ status: 'failed', error: 'database down' }),
+    );
+    expect(existsSync(join(storageDir, job.id))).toBe(false);
+    expect(emailService.sendExportReadyEmail).not.toHaveBeenCalled();
+  });
+
+  it('removes results once they expire', async () => {
+    const job = await service.createJob({}, 7);
+    await runQueuedJob();
+
+    configService.exportResultTtlHours = -1;
+    const expired = await service.createJob({}, 7);
+    await runQueuedJob();
+
+    await service.cleanupExpiredResults();
+
+    expect(existsSync(join(storageDir, job.id))).toBe(true);
+    expect(existsSync(join(storageDir, expired.id))).toBe(false);
+    await expect(service.getJob(expired.id, 7)).rejects.toThrow(
+      'Export job not found',
+    );
+  });
+});
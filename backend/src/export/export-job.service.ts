@@ -0,0 +1,303 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createClient, RedisClientType } from 'redis';
+import { once } from 'events';
+import { createReadStream, createWriteStream, ReadStream } from 'fs';
+import { mkdir, stat, unlink } from 'fs/promises';
+import { join } from 'path';
+import { finished } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigService } from 'src/config/config.service';
+import { DatabaseService } from 'src/database/database.service';
+import { EmailService } from 'src/common/email/email.service';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
+import { ExportService } from './export.service';
+import { ExportConsultationsDto } from './dto/export-consultations.dto';
+import { CreateExportJobDto } from './dto/create-export-job.dto';
+import { ExportFormat } from './enums/export-format.enum';
+
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ExportJob {
+  id: string;
+  status: ExportJobStatus;
+  format: ExportFormat;
+  filters: ExportConsultationsDto;
+  requestedBy: number;
+  fileName: string;
+  rowCount: number | null;
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+const JOB_KEY_PREFIX = 'export:job:';
+const QUEUE_KEY = 'export:queue';
+const EXPIRY_KEY = 'export:expiry';
+const QUEUE_POLL_SECONDS = 5;
+
+/**
+ * Runs large exports in the background. Jobs and their queue live in Redis,
+ * so any backend instance can pick up a job and report its status; the
+ * generated files are kept in `EXPORT_STORAGE_DIR` until they expire.
+ */
+@Injectable()
+export class ExportJobService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExportJobService.name);
+
+  private redis: RedisClientType | null = null;
+  // BLPOP blocks its connection, so the worker gets its own
+  private queueConsumer: RedisClientType | null = null;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly db: DatabaseService,
+    private readonly emailService: EmailService,
+    private readonly exportService: ExportService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const redisUrl = this.configService.redisUrl;
+    if (!redisUrl || redisUrl.trim() === '') {
+      this.logger.warn('Redis URL not configured - export jobs are disabled');
+      return;
+    }
+
+    try {
+      this.redis = createClient({ url: redisUrl });
+      this.queueConsumer = this.redis.duplicate();
+      for (const client of [this.redis, this.queueConsumer]) {
+        client.on('error', (err) =>
+          this.logger.error('Export job Redis error', err),
+        );
+      }
+      await Promise.all([this.redis.connect(), this.queueConsumer.connect()]);
+      await mkdir(this.configService.exportStorageDir, { recursive: true });
+    } catch (error) {
+      this.logger.error(
+        `Failed to initialize export jobs: ${error.message}`,
+        error.stack,
+      );
+      this.redis = null;
+      this.queueConsumer = null;
+      return;
+    }
+
+    this.running = true;
+    void this.consumeQueue();
+    this.logger.log('Export job worker started');
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.running = false;
+    await Promise.allSettled([
+      this.queueConsumer?.destroy(),
+      this.redis?.close(),
+    ]);
+  }
+
+  async createJob(
+    dto: CreateExportJobDto,
+    requestedBy: number,
+  ): Promise<ExportJob> {
+    const redis = this.requireRedis();
+    const { format = ExportFormat.CSV, ...filters } = dto;
+
+    const job: ExportJob = {
+      id: uuidv4(),
+      status: 'queued',
+      format,
+      filters,
+      requestedBy,
+      fileName: `consultation-export-${new Date().toISOString().split('T')[0]}.${format}`,
+      rowCount: null,
+      sizeBytes: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      completedAt: null,
+      expiresAt: null,
+    };
+
+    await this.saveJob(job);
+    await redis.rPush(QUEUE_KEY, job.id);
+    this.logger.log(`Queued ${format} export job ${job.id}`);
+    return job;
+  }
+
+  async getJob(id: string, userId: number): Promise<ExportJob> {
+    const raw = await this.requireRedis().get(this.jobKey(id));
+    const job = raw ? (JSON.parse(raw) as ExportJob) : null;
+    // Jobs belong to the admin who created them
+    if (!job || job.requestedBy !== userId) {
+      throw HttpExceptionHelper.notFound('Export job not found');
+    }
+    return job;
+  }
+
+  async openResult(
+    id: string,
+    userId: number,
+  ): Promise<{ job: ExportJob; stream: ReadStream }> {
+    const job = await this.getJob(id, userId);
+    if (job.status !== 'completed') {
+      throw HttpExceptionHelper.badRequest(
+        `Export job is ${job.status}, the file is not available`,
+      );
+    }
+    return { job, stream: createReadStream(this.resultPath(job.id)) };
+  }
+
+  /**
+   * Deletes results past their retention time. Job records expire on their
+   * own through their Redis TTL.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredResults(): Promise<void> {
+    if (!this.redis) return;
+
+    const expiredIds = await this.redis.zRangeByScore(
+      EXPIRY_KEY,
+      0,
+      Date.now(),
+    );
+    for (const id of expiredIds) {
+      await this.removeResult(id);
+      await this.redis.del(this.jobKey(id));
+      await this.redis.zRem(EXPIRY_KEY, id);
+    }
+
+    if (expiredIds.length > 0) {
+      this.logger.log(`Removed ${expiredIds.length} expired export results`);
+    }
+  }
+
+  private async consumeQueue(): Promise<void> {
+    while (this.running && this.queueConsumer) {
+      try {
+        const item = await this.queueConsumer.blPop(
+          QUEUE_KEY,
+          QUEUE_POLL_SECONDS,
+        );
+        if (item) {
+          await this.processJob(item.element);
+        }
+      } catch (error) {
+        if (!this.running) return;
+        this.logger.error(`Export queue error: ${error.message}`, error.stack);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+  }
+
+  private async processJob(id: string): Promise<void> {
+    const raw = await this.redis!.get(this.jobKey(id));
+    if (!raw) return;
+    const job = JSON.parse(raw) as ExportJob;
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await this.saveJob(job);
+
+    const path = this.resultPath(job.id);
+    const file = createWriteStream(path);
+    try {
+      job.rowCount = await this.exportService.streamConsultations(
+        job.filters,
+        job.format,
+        file,
+      );
+      await finished(file);
+
+      job.status = 'completed';
+      job.sizeBytes = (await stat(path)).size;
+    } catch (error) {
+      this.logger.error(`Export job ${job.id} failed`, error.stack);
+      job.status = 'failed';
+      job.error = error.message;
+      // Close the file before removing it, or a pending open recreates it
+      file.destroy();
+      if (!file.closed) await once(file, 'close');
+      await this.removeResult(job.id);
+    }
+
+    const expiresAt = new Date(
+      Date.now() + this.configService.exportResultTtlHours * 60 * 60 * 1000,
+    );
+    job.completedAt = new Date().toISOString();
+    job.expiresAt = expiresAt.toISOString();
+    await this.saveJob(job);
+    await this.redis!.zAdd(EXPIRY_KEY, {
+      score: expiresAt.getTime(),
+      value: job.id,
+    });
+
+    if (job.status === 'completed') {
+      await this.notifyRequester(job, expiresAt);
+    }
+  }
+
+  private async notifyRequester(job: ExportJob, expiresAt: Date) {
+    try {
+      const admin = await this.db.user.findUnique({
+        where: { id: job.requestedBy },
+      });
+      if (!admin?.email) return;
+
+      await this.emailService.sendExportReadyEmail(
+        admin.email,
+        `${admin.firstName} ${admin.lastName}`,
+        job.fileName,
+        job.rowCount ?? 0,
+        `${this.configService.adminUrl}/dashboard?exportJob=${job.id}`,
+        expiresAt,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Could not notify admin about export job ${job.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async saveJob(job: ExportJob): Promise<void> {
+    // Keep the record a little longer than the file it points to
+    const ttlSeconds = (this.configService.exportResultTtlHours + 1) * 60 * 60;
+    await this.redis!.set(this.jobKey(job.id), JSON.stringify(job), {
+      EX: ttlSeconds,
+    });
+  }
+
+  private async removeResult(id: string): Promise<void> {
+    try {
+      await unlink(this.resultPath(id));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private requireRedis(): RedisClientType {
+    if (!this.redis) {
+      throw HttpExceptionHelper.internalServerError(
+        'Export jobs are unavailable because Redis is not configured',
+      );
+    }
+    return this.redis;
+  }
+
+  private jobKey(id: string): string {
+    return `${JOB_KEY_PREFIX}${id}`;
+  }
+
+  private resultPath(id: string): string {
+    return join(this.configService.exportStorageDir, id);
+  }
+}
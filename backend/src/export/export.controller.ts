@@ -8,15 +8,31 @@ import {
   Header,
   HttpCode,
   HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Post,
+  Body,
+  Req,
 } from '@nestjs/common';
-import { ApiOperation, ApiTags, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  ApiOperation,
+  ApiTags,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
 import { Response } from 'express';
 import { AuthGuard } from 'src/auth/guards/auth.guard';
 import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { Roles } from 'src/common/decorators/roles.decorator';
 import { Role } from 'src/auth/enums/role.enum';
 import { ExportService } from './export.service';
+import { ExportJobService } from './export-job.service';
+import { CreateExportJobDto } from './dto/create-export-job.dto';
+import { ApiResponseDto } from 'src/common/helpers/response/api-response.dto';
 import { ExportConsultationsDto } from './dto/export-consultations.dto';
+import { ExportPaymentsDto } from './dto/export-payments.dto';
+import { EXPORT_CONTENT_TYPES, ExportFormat } from './enums/export-format.enum';
 
 @ApiTags('Export')
 @ApiBearerAuth()
@@ -25,32 +41,130 @@ import { ExportConsultationsDto } from './dto/export-consultations.dto';
 export class ExportController {
   private readonly logger = new Logger(ExportController.name);
 
-  constructor(private readonly exportService: ExportService) {}
+  constructor(
+    private readonly exportService: ExportService,
+    private readonly exportJobService: ExportJobService,
+  ) {}
+
+  @Post('jobs')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary:
+      'Queue a consultation export to run in the background (Admin only)',
+    description:
+      'Returns immediately with a job id. Poll the job until it is completed, then download the file. The admin is emailed when the export finishes.',
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createExportJob(@Body() dto: CreateExportJobDto, @Req() req: any) {
+    const job = await this.exportJobService.createJob(dto, req.user.id);
+    return ApiResponseDto.success(job, 'Export job queued', 202, {
+      requestId: req['id'],
+      path: req.path,
+    });
+  }
+
+  @Get('jobs/:id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get the status of an export job (Admin only)' })
+  async getExportJob(@Param('id', ParseUUIDPipe) id: string, @Req() req: any) {
+    const job = await this.exportJobService.getJob(id, req.user.id);
+    return ApiResponseDto.success(job, 'Export job retrieved', 200, {
+      requestId: req['id'],
+      path: req.path,
+    });
+  }
+
+  @Get('jobs/:id/download')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Download the result of a completed export job (Admin only)',
+  })
+  async downloadExportJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: any,
+    @Res() res: Response,
+  ) {
+    const { job, stream } = await this.exportJobService.openResult(
+      id,
+      req.user.id,
+    );
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[job.format]);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${job.fileName}"`,
+    );
+    stream.on('error', (error) => {
+      this.logger.error(`Failed to read export job ${id}`, error.stack);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  }
 
-  @Get('consultations/csv')
+  @Get('consultations/:format')
   @Roles(Role.ADMIN)
   @ApiOperation({
-    summary: 'Export consultations to a CSV file (Admin only)',
+    summary: 'Export consultations as CSV, XLSX or NDJSON (Admin only)',
     description:
-      'Exports consultation data based on provided filters. Only accessible by users with the ADMIN role.',
+      'Streams consultation data matching the provided filters. Only accessible by users with the ADMIN role.',
   })
+  @ApiParam({ name: 'format', enum: ExportFormat })
   @HttpCode(HttpStatus.OK)
-  @Header('Content-Type', 'text/csv')
   async exportConsultations(
+    @Param('format', new ParseEnumPipe(ExportFormat)) format: ExportFormat,
     @Query() filters: ExportConsultationsDto,
     @Res() res: Response,
   ) {
     this.logger.log(
-      `Received request to export consultations with filters: ${JSON.stringify(
+      `Received request to export consultations as ${format} with filters: ${JSON.stringify(
+        filters,
+      )}`,
+    );
+
+    const fileName = `consultation-export-${new Date().toISOString().split('T')[0]}.${format}`;
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    try {
+      await this.exportService.streamConsultations(filters, format, res);
+    } catch (error) {
+      this.logger.error(
+        `Consultation export failed: ${error.message}`,
+        error.stack,
+      );
+      // Once rows went out the status is already sent; abort the download
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  @Get('payments/csv')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Export payments and refunds to a CSV file (Admin only)',
+    description:
+      'Exports one row per payment and one negative row per completed refund. Only accessible by users with the ADMIN role.',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'text/csv')
+  async exportPayments(
+    @Query() filters: ExportPaymentsDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `Received request to export payments with filters: ${JSON.stringify(
         filters,
       )}`,
     );
 
-    const csvData = await this.exportService.exportConsultationsAsCsv(filters);
+    const csvData = await this.exportService.exportPaymentsAsCsv(filters);
 
-    const fileName = `consultation-export-${new Date().toISOString().split('T')[0]}.csv`;
+    const fileName = `payment-export-${new Date().toISOString().split('T')[0]}.csv`;
     res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
 
     res.send(csvData);
   }
-} 
\ No newline at end of file
+}
@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ExportController } from './export.controller';
 import { ExportService } from './export.service';
+import { ExportJobService } from './export-job.service';
 import { AuthModule } from 'src/auth/auth.module';
 import { DatabaseModule } from 'src/database/database.module';
+import { ConfigModule } from 'src/config/config.module';
+import { EmailModule } from 'src/common/email/email.module';
 
 @Module({
-  imports: [AuthModule, DatabaseModule],
+  imports: [AuthModule, DatabaseModule, ConfigModule, EmailModule],
   controllers: [ExportController],
-  providers: [ExportService],
+  providers: [ExportService, ExportJobService],
 })
-export class ExportModule {} 
\ No newline at end of file
+export class ExportModule {}
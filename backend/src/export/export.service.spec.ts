@@ -0,0 +1,131 @@
+import { PassThrough } from 'stream';
+import { ConsultationStatus, UserRole } from '@prisma/client';
+import { ExportService } from './export.service';
+import { ExportFormat } from './enums/export-format.enum';
+
+// The service imports DatabaseService through the `src/` path alias
+jest.mock(
+  'src/database/database.service',
+  () => ({ DatabaseService: class DatabaseService {} }),
+  { virtual: true },
+);
+
+function consultation(id: number) {
+  return {
+    id,
+    status: ConsultationStatus.COMPLETED,
+    scheduledDate: null,
+    createdAt: new Date('2026-01-01T09:00:00.000Z'),
+    startedAt: new Date('2026-01-01T10:00:00.000Z'),
+    closedAt: new Date('2026-01-01T10:25:00.000Z'),
+    participants: [
+      {
+        waitingRoomEnteredAt: new Date('2026-01-01T09:55:00.000Z'),
+        admittedAt: new Date('2026-01-01T10:00:00.000Z'),
+        user: {
+          firstName: 'Ada',
+          lastName: 'Byron',
+          email: 'ada@example.com',
+          role: UserRole.PATIENT,
+        },
+      },
+      {
+        waitingRoomEnteredAt: null,
+        admittedAt: null,
+        user: {
+          firstName: 'Alan',
+          lastName: 'Turing',
+          email: 'alan@example.com',
+          role: UserRole.PRACTITIONER,
+        },
+      },
+      {
+        waitingRoomEnteredAt: null,
+        admittedAt: null,
+        user: {
+          firstName: 'Grace',
+          lastName: 'Hopper',
+          email: 'grace@example.com',
+          role: UserRole.PRACTITIONER,
+        },
+      },
+    ],
+    speciality: { name: 'Cardiology' },
+    group: { name: 'Cardio', organization: { name: 'Clinic' } },
+    rating: { rating: 5 },
+    feedback: { satisfaction: 'VERY_SATISFIED' },
+    payment: { status: 'COMPLETED' },
+  };
+}
+
+async function collect(stream: PassThrough): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let dbServiceMock: any;
+
+  beforeEach(() => {
+    const pages = [
+      Array.from({ length: 500 }, (_, i) => consultation(1000 - i)),
+      [consultation(2)],
+    ];
+    dbServiceMock = {
+      consultation: { findMany: jest.fn(() => pages.shift() ?? []) },
+    };
+    service = new ExportService(dbServiceMock);
+  });
+
+  it('pages through consultations with an id cursor', async () => {
+    const output = new PassThrough();
+    const [exported] = await Promise.all([
+      service.streamConsultations(
+        { organizationId: 3 },
+        ExportFormat.NDJSON,
+        output,
+      ),
+      collect(output),
+    ]);
+
+    expect(exported).toBe(501);
+    expect(dbServiceMock.consultation.findMany).toHaveBeenCalledTimes(2);
+    expect(dbServiceMock.consultation.findMany.mock.calls[1][0]).toEqual(
+      expect.objectContaining({
+        where: { group: { organizationId: 3 } },
+        cursor: { id: 501 },
+        skip: 1,
+        take: 500,
+      }),
+    );
+  });
+
+  it('writes every participant and the new columns to CSV', async () => {
+    const output = new PassThrough();
+    const [, csv] = await Promise.all([
+      service.streamConsultations({}, ExportFormat.CSV, output),
+      collect(output),
+    ]);
+    const [header, firstRow] = csv.toString().split('\n');
+
+    expect(header).toContain('Waiting Time (min),Practitioner Names');
+    expect(firstRow).toBe(
+      '1000,COMPLETED,Clinic,Cardio,Cardiology,N/A,2026-01-01T09:00:00.000Z,' +
+        '2026-01-01T10:00:00.000Z,2026-01-01T10:25:00.000Z,25,5,' +
+        'Alan Turing; Grace Hopper,alan@example.com; grace@example.com,' +
+        'Ada Byron,ada@example.com,5,VERY_SATISFIED,COMPLETED',
+    );
+  });
+
+  it('produces a zipped workbook for XLSX', async () => {
+    const output = new PassThrough();
+    const [, xlsx] = await Promise.all([
+      service.streamConsultations({}, ExportFormat.XLSX, output),
+      collect(output),
+    ]);
+
+    expect(xlsx.subarray(0, 2).toString()).toBe('PK');
+  });
+});
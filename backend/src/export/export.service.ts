@@ -1,72 +1,266 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { DatabaseService } from 'src/database/database.service';
 import { ExportConsultationsDto } from './dto/export-consultations.dto';
+import { ExportPaymentsDto } from './dto/export-payments.dto';
 import { CsvUtil } from './utils/csv.util';
-import { Prisma, UserRole } from '@prisma/client';
+import { createExportWriter, ExportRow } from './utils/export-writer';
+import { ExportFormat } from './enums/export-format.enum';
+import { Prisma, RefundStatus, UserRole } from '@prisma/client';
+import { Writable } from 'stream';
+
+const consultationExportInclude = {
+  participants: {
+    include: {
+      user: {
+        select: { firstName: true, lastName: true, email: true, role: true },
+      },
+    },
+  },
+  speciality: { select: { name: true } },
+  group: { select: { name: true, organization: { select: { name: true } } } },
+  rating: { select: { rating: true } },
+  feedback: { select: { satisfaction: true } },
+  payment: { select: { status: true } },
+} satisfies Prisma.ConsultationInclude;
+
+type ConsultationExportRecord = Prisma.ConsultationGetPayload<{
+  include: typeof consultationExportInclude;
+}>;
+
+export const CONSULTATION_EXPORT_COLUMNS = [
+  'Consultation ID',
+  'Status',
+  'Organization',
+  'Group',
+  'Speciality',
+  'Scheduled Date',
+  'Created At',
+  'Started At',
+  'Closed At',
+  'Duration (min)',
+  'Waiting Time (min)',
+  'Practitioner Names',
+  'Practitioner Emails',
+  'Patient Names',
+  'Patient Emails',
+  'Rating',
+  'Feedback Satisfaction',
+  'Payment Status',
+];
 
 @Injectable()
 export class ExportService {
   private readonly logger = new Logger(ExportService.name);
+  private static readonly PAGE_SIZE = 500;
 
   constructor(private readonly db: DatabaseService) {}
 
-  async exportConsultationsAsCsv(
+  /**
+   * Streams every matching consultation to `output` in the requested format.
+   * Consultations are read in pages through an id cursor, so memory use does
+   * not grow with the size of the export.
+   */
+  async streamConsultations(
     filters: ExportConsultationsDto,
-  ): Promise<string> {
+    format: ExportFormat,
+    output: Writable,
+  ): Promise<number> {
     this.logger.log(
-      `Starting CSV export process with filters: ${JSON.stringify(filters)}`,
+      `Starting ${format} consultation export with filters: ${JSON.stringify(filters)}`,
     );
 
     const where = this.buildWhereClause(filters);
+    const writer = createExportWriter(
+      format,
+      CONSULTATION_EXPORT_COLUMNS,
+      output,
+      'Consultations',
+    );
+
+    let cursor: number | undefined;
+    let exported = 0;
 
-    const consultations = await this.db.consultation.findMany({
-      where,
+    do {
+      const consultations = await this.db.consultation.findMany({
+        where,
+        include: consultationExportInclude,
+        orderBy: { id: 'desc' },
+        take: ExportService.PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      for (const consultation of consultations) {
+        await writer.writeRow(this.toConsultationRow(consultation));
+      }
+
+      exported += consultations.length;
+      cursor =
+        consultations.length === ExportService.PAGE_SIZE
+          ? consultations[consultations.length - 1].id
+          : undefined;
+    } while (cursor);
+
+    await writer.end();
+    this.logger.log(`Exported ${exported} consultations as ${format}`);
+    return exported;
+  }
+
+  private toConsultationRow(consultation: ConsultationExportRecord): ExportRow {
+    const participantsWithRole = (role: UserRole) =>
+      consultation.participants.filter((p) => p.user.role === role);
+    const practitioners = participantsWithRole(UserRole.PRACTITIONER);
+    const patients = participantsWithRole(UserRole.PATIENT);
+
+    const names = (participants: typeof practitioners) =>
+      participants
+        .map((p) => `${p.user.firstName} ${p.user.lastName}`)
+        .join('; ') || 'N/A';
+    const emails = (participants: typeof practitioners) =>
+      participants.map((p) => p.user.email).join('; ') || 'N/A';
+
+    return {
+      'Consultation ID': consultation.id,
+      Status: consultation.status,
+      Organization: consultation.group?.organization.name ?? 'N/A',
+      Group: consultation.group?.name ?? 'N/A',
+      Speciality: consultation.speciality?.name ?? 'N/A',
+      'Scheduled Date': consultation.scheduledDate?.toISOString() ?? 'N/A',
+      'Created At': consultation.createdAt?.toISOString() ?? 'N/A',
+      'Started At': consultation.startedAt?.toISOString() ?? 'N/A',
+      'Closed At': consultation.closedAt?.toISOString() ?? 'N/A',
+      'Duration (min)': this.minutesBetween(
+        consultation.startedAt,
+        consultation.closedAt,
+      ),
+      'Waiting Time (min)': this.averageWaitingMinutes(patients),
+      'Practitioner Names': names(practitioners),
+      'Practitioner Emails': emails(practitioners),
+      'Patient Names': names(patients),
+      'Patient Emails': emails(patients),
+      Rating: consultation.rating?.rating ?? null,
+      'Feedback Satisfaction': consultation.feedback?.satisfaction ?? null,
+      'Payment Status': consultation.payment?.status ?? null,
+    };
+  }
+
+  /**
+   * Average time patients spent in the waiting room before being admitted.
+   */
+  private averageWaitingMinutes(
+    patients: ConsultationExportRecord['participants'],
+  ): number | null {
+    const waits = patients
+      .map((p) => this.minutesBetween(p.waitingRoomEnteredAt, p.admittedAt))
+      .filter((minutes): minutes is number => minutes !== null);
+
+    if (waits.length === 0) return null;
+    const average = waits.reduce((sum, minutes) => sum + minutes, 0);
+    return Math.round((average / waits.length) * 10) / 10;
+  }
+
+  private minutesBetween(
+    from: Date | null | undefined,
+    to: Date | null | undefined,
+  ): number | null {
+    if (!from || !to || to < from) return null;
+    return Math.round(((to.getTime() - from.getTime()) / 60000) * 10) / 10;
+  }
+
+  /**
+   * Exports payments together with their completed refunds. Refunds are
+   * written as their own rows with a negative amount, so summing the
+   * amount column gives net revenue per currency.
+   */
+  async exportPaymentsAsCsv(filters: ExportPaymentsDto): Promise<string> {
+    this.logger.log(
+      `Starting payment CSV export with filters: ${JSON.stringify(filters)}`,
+    );
+
+    const payments = await this.db.payment.findMany({
+      where: this.buildPaymentWhereClause(filters),
       include: {
-        participants: {
-          include: {
-            user: true,
-          },
-        },
+        patient: true,
+        organization: true,
+        consultation: { include: { owner: true } },
+        refunds: { where: { status: RefundStatus.COMPLETED } },
       },
       orderBy: {
         createdAt: 'desc',
       },
     });
 
-    if (consultations.length === 0) {
-      this.logger.log('No consultations found for the given filters.');
-      return 'No consultations found for the selected criteria.';
+    if (payments.length === 0) {
+      this.logger.log('No payments found for the given filters.');
+      return 'No payments found for the selected criteria.';
     }
 
-    const formattedData = consultations.map((consultation) => {
-      const practitioner = consultation.participants.find(
-        (p) => p.user.role === UserRole.PRACTITIONER,
-      )?.user;
-      const patient = consultation.participants.find(
-        (p) => p.user.role === UserRole.PATIENT,
-      )?.user;
-
-      return {
-        'Consultation ID': consultation.id,
-        'Status': consultation.status,
-        'Scheduled Date': consultation.scheduledDate?.toISOString() ?? 'N/A',
-        'Created At': consultation.createdAt?.toISOString() ?? 'N/A',
-        'Started At': consultation.startedAt?.toISOString() ?? 'N/A',
-        'Closed At': consultation.closedAt?.toISOString() ?? 'N/A',
+    const formattedData = payments.flatMap((payment) => {
+      const practitioner = payment.consultation.owner;
+      const common = {
+        'Payment ID': payment.id,
+        'Consultation ID': payment.consultationId,
+        Organization: payment.organization?.name ?? 'Platform',
         'Practitioner Name': practitioner
           ? `${practitioner.firstName} ${practitioner.lastName}`
           : 'N/A',
-        'Practitioner Email': practitioner?.email ?? 'N/A',
-        'Patient Name': patient
-          ? `${patient.firstName} ${patient.lastName}`
-          : 'N/A',
-        'Patient Email': patient?.email ?? 'N/A',
+        'Patient Name': `${payment.patient.firstName} ${payment.patient.lastName}`,
+        'Patient Email': payment.patient.email,
+        Provider: payment.provider,
+        Reference: payment.providerReference ?? 'N/A',
+        Currency: payment.currency,
       };
+
+      return [
+        {
+          Type: 'PAYMENT',
+          ...common,
+          Status: payment.status,
+          Amount: Number(payment.amount).toFixed(2),
+          Date: (payment.paidAt ?? payment.createdAt).toISOString(),
+        },
+        ...payment.refunds.map((refund) => ({
+          Type: 'REFUND',
+          ...common,
+          Status: refund.status,
+          Amount: (-Number(refund.amount)).toFixed(2),
+          Date: (refund.processedAt ?? refund.createdAt).toISOString(),
+        })),
+      ];
     });
 
     return CsvUtil.toCsv(formattedData);
   }
 
+  private buildPaymentWhereClause(
+    filters: ExportPaymentsDto,
+  ): Prisma.PaymentWhereInput {
+    const where: Prisma.PaymentWhereInput = {};
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.organizationId) {
+      where.organizationId = filters.organizationId;
+    }
+
+    if (filters.currency) {
+      where.currency = filters.currency.toUpperCase();
+    }
+
+    if (filters.dateFrom || filters.dateTo) {
+      where.createdAt = {};
+      if (filters.dateFrom) {
+        where.createdAt.gte = new Date(filters.dateFrom);
+      }
+      if (filters.dateTo) {
+        where.createdAt.lte = new Date(filters.dateTo);
+      }
+    }
+
+    return where;
+  }
+
   private buildWhereClause(
     filters: ExportConsultationsDto,
   ): Prisma.ConsultationWhereInput {
@@ -86,6 +280,18 @@ export class ExportService {
       }
     }
 
+    if (filters.groupId) {
+      where.groupId = filters.groupId;
+    }
+
+    if (filters.specialityId) {
+      where.specialityId = filters.specialityId;
+    }
+
+    if (filters.organizationId) {
+      where.group = { organizationId: filters.organizationId };
+    }
+
     if (filters.practitionerId) {
       where.participants = {
         some: {
@@ -99,4 +305,4 @@ export class ExportService {
 
     return where;
   }
-} 
\ No newline at end of file
+}
@@ -10,20 +10,23 @@ export class CsvUtil {
     }
 
     const headers = Object.keys(data[0]);
-    const csvRows = [headers.join(',')];
+    const csvRows = [this.toCsvLine(headers)];
 
     for (const row of data) {
-      const values = headers.map((header) => {
-        const value = row[header];
-        return this.escapeCsvField(value);
-      });
-      csvRows.push(values.join(','));
+      csvRows.push(this.toCsvLine(headers.map((header) => row[header])));
     }
 
     this.logger.log(`Successfully converted ${data.length} rows to CSV format.`);
     return csvRows.join('\n');
   }
 
+  /**
+   * Formats a single CSV line, for exports that are streamed row by row.
+   */
+  static toCsvLine(values: any[]): string {
+    return values.map((value) => this.escapeCsvField(value)).join(',');
+  }
+
   private static escapeCsvField(field: any): string {
     if (field === null || field === undefined) {
       return '';
@@ -34,7 +37,8 @@ export class CsvUtil {
     if (
       stringField.includes(',') ||
       stringField.includes('"') ||
-      stringField.includes('\n')
+      stringField.includes('\n') ||
+      stringField.includes('\r')
     ) {
       stringField = `"${stringField.replace(/"/g, '""')}"`;
     }
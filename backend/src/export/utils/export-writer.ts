@@ -0,0 +1,104 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { CsvUtil } from './csv.util';
+import { ExportFormat } from '../enums/export-format.enum';
+
+export type ExportRow = Record<string, string | number | null>;
+
+/**
+ * Writes export rows to an output stream one at a time, so exports never
+ * hold more than one page of records in memory.
+ */
+export interface ExportWriter {
+  writeRow(row: ExportRow): Promise<void>;
+  end(): Promise<void>;
+}
+
+export function createExportWriter(
+  format: ExportFormat,
+  headers: string[],
+  output: Writable,
+  sheetName = 'Export',
+): ExportWriter {
+  switch (format) {
+    case ExportFormat.XLSX:
+      return new XlsxExportWriter(headers, output, sheetName);
+    case ExportFormat.NDJSON:
+      return new TextExportWriter(output, (row) => JSON.stringify(row));
+    case ExportFormat.CSV:
+    default:
+      return new TextExportWriter(
+        output,
+        (row) => CsvUtil.toCsvLine(headers.map((header) => row[header])),
+        CsvUtil.toCsvLine(headers),
+      );
+  }
+}
+
+class TextExportWriter implements ExportWriter {
+  private headerWritten = false;
+
+  constructor(
+    private readonly output: Writable,
+    private readonly format: (row: ExportRow) => string,
+    private readonly header?: string,
+  ) {}
+
+  async writeRow(row: ExportRow): Promise<void> {
+    await this.writeHeader();
+    await this.write(this.format(row));
+  }
+
+  async end(): Promise<void> {
+    await this.writeHeader();
+    this.output.end();
+  }
+
+  private async writeHeader(): Promise<void> {
+    if (this.headerWritten) return;
+    this.headerWritten = true;
+    if (this.header !== undefined) {
+      await this.write(this.header);
+    }
+  }
+
+  // Waits for the client to catch up instead of buffering the whole export
+  private async write(line: string): Promise<void> {
+    if (!this.output.write(`${line}\n`)) {
+      await once(this.output, 'drain');
+    }
+  }
+}
+
+class XlsxExportWriter implements ExportWriter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private readonly worksheet: ExcelJS.Worksheet;
+
+  constructor(
+    private readonly headers: string[],
+    output: Writable,
+    sheetName: string,
+  ) {
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useSharedStrings: false,
+      useStyles: false,
+    });
+    this.worksheet = this.workbook.addWorksheet(sheetName);
+    this.worksheet.columns = headers.map((header) => ({
+      header,
+      key: header,
+      width: Math.max(header.length + 2, 14),
+    }));
+  }
+
+  async writeRow(row: ExportRow): Promise<void> {
+    this.worksheet.addRow(this.headers.map((header) => row[header])).commit();
+  }
+
+  async end(): Promise<void> {
+    this.worksheet.commit();
+    await this.workbook.commit();
+  }
+}
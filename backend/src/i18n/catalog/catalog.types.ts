@@ -0,0 +1,5 @@
+/**
+ * Strings of one language, by template and key. Values may contain
+ * `{{placeholders}}`, and HTML when they are only used in emails.
+ */
+export type MessageCatalog = Record<string, Record<string, string>>;
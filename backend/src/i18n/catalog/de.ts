@@ -0,0 +1,187 @@
+import { MessageCatalog } from './catalog.types';
+
+export const de: MessageCatalog = {
+  common: {
+    hello: 'Guten Tag {{name}},',
+    helloAnonymous: 'Guten Tag,',
+    consultationId: 'Konsultations-Nr.:',
+    automated: 'Dies ist eine automatisch erstellte Nachricht.',
+    copyright: '© {{year}} Gesundheitsplattform.',
+  },
+  roles: {
+    PATIENT: 'Patient',
+    EXPERT: 'Experte',
+    GUEST: 'Gast',
+    PRACTITIONER: 'Behandelnde Person',
+    ADMIN: 'Administrator',
+  },
+  invitation: {
+    subject: 'Einladung zur Konsultation: Teilnahme als {{role}}',
+    title: 'Sie sind eingeladen!',
+    subtitle: 'Einladung zu einer medizinischen Konsultation',
+    intro:
+      '<strong>{{inviter}}</strong> hat Sie als <strong>{{role}}</strong> zu einer medizinischen Konsultation eingeladen.',
+    role: 'Rolle:',
+    invitedBy: 'Eingeladen von:',
+    scheduledTime: 'Geplanter Termin:',
+    deviceTestUntil: 'Gerätetest bis:',
+    platform: 'Plattform:',
+    noteFrom: 'Nachricht von {{inviter}}:',
+    button: 'Bestätigen und Geräte testen',
+    important:
+      '<strong>Wichtig:</strong> Der Gerätetest endet um {{cutoff}}. Die Konsultation beginnt um {{time}}. Sie erhalten 2 Minuten vor Ihrem Termin einen Link zur Teilnahme.',
+    securityNotice: 'Sicherheitshinweis:',
+    securityPatient:
+      'Dieser Link ist persönlich und läuft zum Schutz Ihrer Privatsphäre nach 24 Stunden ab.',
+    securityOther:
+      'Dieser Einladungslink ist sicher und läuft nach 24 Stunden ab.',
+    expectTitle: 'Was Sie erwartet:',
+    expectWaitingRoom: 'Sicherer Zugang zum Wartezimmer',
+    expectAdmission: 'Die behandelnde Person lässt Sie eintreten',
+    expectMedia: 'Chat, Audio und Video verfügbar',
+    expectRoom: 'Direkter Zugang zum Konsultationsraum',
+    expectContribute: 'Teilnahme als {{role}}',
+    requirementsTitle: 'Technische Voraussetzungen:',
+    requirementBrowser: 'Aktueller Browser (Chrome, Firefox, Safari, Edge)',
+    requirementInternet: 'Stabile Internetverbindung',
+    requirementDevices: 'Kamera/Mikrofon (optional)',
+    footer:
+      'Dies ist eine automatisch erstellte Nachricht. Falls Sie sie irrtümlich erhalten haben, ignorieren Sie sie bitte.',
+    sms: '{{inviter}} hat Sie zu einer Videokonsultation eingeladen. Teilnehmen: {{link}}',
+    smsScheduled:
+      '{{inviter}} hat Sie zu einer Videokonsultation am {{time}} eingeladen. Teilnehmen: {{link}}',
+  },
+  consultationAssigned: {
+    subject: 'Behandelnde Person zugewiesen: Planen Sie Ihre Konsultation',
+    title: 'Behandelnde Person zugewiesen',
+    subtitle: 'Ihre Konsultation kann jetzt geplant werden',
+    intro:
+      'Ihre Anfrage wurde <strong>{{practitioner}}</strong> zugewiesen. Bitte planen Sie Ihren Termin, wann es Ihnen passt.',
+    assignedProvider: 'Zugewiesen an:',
+    button: 'Termin planen',
+    nextSteps: 'Nächste Schritte:',
+    stepChoose: 'Klicken Sie oben, um Ihren Termin zu wählen',
+    stepConfirm: 'Sie erhalten nach der Planung eine Bestätigung',
+    stepJoin: 'Nehmen Sie zum geplanten Zeitpunkt teil',
+    help: 'Benötigen Sie Hilfe? Antworten Sie auf diese E-Mail oder kontaktieren Sie den Support.',
+    footer:
+      'Dies ist eine automatisch erstellte Nachricht. Falls die Schaltfläche nicht funktioniert, kopieren Sie diesen Link:',
+  },
+  selfInvitation: {
+    subject: '✨ Ihre Einladung zu unserer Gesundheitsplattform',
+    pageTitle: 'Ihre Einladung',
+    title: '✨ Willkommen!',
+    subtitle: 'Ihre persönliche Einladung zu unseren Gesundheitsdiensten',
+    intro:
+      'Wir freuen uns, Sie auf unsere Gesundheitsplattform einzuladen. Über den folgenden Link erstellen Sie Ihr Konto und können unsere Dienste nutzen.',
+    button: '🔗 Einladung annehmen',
+    nextSteps: 'Nächste Schritte:',
+    stepAccept:
+      'Klicken Sie auf die Schaltfläche oben, um die Einladung anzunehmen',
+    stepAccount: 'Vervollständigen Sie Ihre Kontodaten',
+    stepBook: 'Buchen Sie Konsultationen und verwalten Sie Ihre Termine',
+    help: 'Bei Fragen wenden Sie sich bitte an unser Support-Team.',
+    regards: 'Freundliche Grüße',
+    team: 'Ihr Gesundheitsteam',
+    noReply:
+      'Dies ist eine automatisch erstellte Nachricht. Bitte antworten Sie nicht auf diese E-Mail.',
+    linkFallback:
+      'Falls die Schaltfläche oben nicht funktioniert, kopieren Sie diesen Link in Ihren Browser:',
+  },
+  consultationReminder: {
+    subject: 'Erinnerung: Ihre Konsultation steht bevor',
+    title: 'Terminerinnerung',
+    subtitle: 'Ihr Termin steht bevor',
+    intro: 'Ihre Konsultation ist für <strong>{{time}}</strong> geplant.',
+    ready:
+      '<strong>Bereit?</strong> Klicken Sie unten, um das Wartezimmer zu betreten. Die behandelnde Person lässt Sie in Kürze eintreten.',
+    button: 'An der Konsultation teilnehmen',
+    beforeTitle: 'Vor der Teilnahme:',
+    beforeDevices: 'Kamera und Mikrofon prüfen',
+    beforeSpace: 'Einen ruhigen, gut beleuchteten Ort wählen',
+    beforeRecords: 'Medizinische Unterlagen bereithalten, falls nötig',
+    beforeConnection: 'Internetverbindung testen',
+    help: 'Benötigen Sie Hilfe? Kontaktieren Sie den Support oder laden Sie die Seite neu.',
+  },
+  consultationRescheduled: {
+    subject: 'Ihre Konsultation #{{consultationId}} wurde verschoben',
+    title: 'Konsultation verschoben',
+    intro:
+      'Die Konsultation #{{consultationId}} findet neu am <strong>{{time}}</strong> statt.',
+    button: 'Konsultation ansehen',
+    calendar:
+      'Die angehängte Einladung verschiebt den Termin in Ihrem Kalender.',
+  },
+  consultationCancelled: {
+    subject: 'Ihre Konsultation #{{consultationId}} wurde abgesagt',
+    title: 'Konsultation abgesagt',
+    intro:
+      'Die für <strong>{{time}}</strong> geplante Konsultation #{{consultationId}} wurde abgesagt.',
+    button: 'Dashboard öffnen',
+    calendar: 'Die angehängte Absage entfernt den Termin aus Ihrem Kalender.',
+  },
+  preConsultation: {
+    subject: 'Ihre Konsultation beginnt: Jetzt teilnehmen',
+    title: 'Ihre Konsultation beginnt',
+    subtitle: 'Ihr medizinischer Termin ist bereit',
+    intro:
+      'Ihre Konsultation mit <strong>{{practitioner}}</strong> beginnt jetzt. Bitte nehmen Sie über den sicheren Link unten teil.',
+    practitioner: 'Behandelnde Person:',
+    scheduledTime: 'Geplanter Termin:',
+    status: 'Status:',
+    readyToJoin: 'Bereit',
+    button: 'Konsultationsraum betreten',
+    reminder:
+      '<strong>Hinweis:</strong> Sie betreten zuerst ein Wartezimmer. Die behandelnde Person lässt Sie eintreten, sobald sie bereit ist.',
+    nextTitle: 'So geht es weiter:',
+    nextClick: 'Klicken Sie oben auf „{{button}}“',
+    nextWaitingRoom: 'Sie betreten ein sicheres Wartezimmer',
+    nextNotified: 'Die behandelnde Person wird über Ihre Ankunft informiert',
+    nextAdmitted: 'Sie werden zur Konsultation zugelassen',
+    supportTitle: 'Technische Hilfe:',
+    supportInternet: 'Stabile Internetverbindung',
+    supportPermissions: 'Zugriff auf Kamera und Mikrofon erlauben',
+    supportRefresh: 'Bei Problemen die Seite neu laden',
+    footer:
+      'Dieser Link ist sicher und persönlich. Wenn Sie nicht teilnehmen können, kontaktieren Sie Ihre behandelnde Person.',
+  },
+  invoice: {
+    subject: '{{title}} {{number}} von {{organization}}',
+    intro:
+      'Im Anhang finden Sie Ihr Dokument ({{title}}) zu Ihrer Konsultation.',
+    number: 'Nummer:',
+    amount: 'Betrag:',
+    dashboard:
+      'Sie können dieses Dokument jederzeit auch in Ihrem Dashboard herunterladen.',
+  },
+  exportReady: {
+    subject: 'Ihr Export {{fileName}} ist bereit',
+    title: 'Export bereit',
+    intro:
+      'Ihr Export <strong>{{fileName}}</strong> ist abgeschlossen ({{rowCount}} Zeilen).',
+    button: 'Export öffnen',
+    available: 'Die Datei ist bis {{expiresAt}} verfügbar.',
+  },
+  reminder: {
+    patient:
+      'Erinnerung: Ihre Konsultation bei Dr. {{practitioner}} ist für {{time}} geplant.',
+    practitioner:
+      'Erinnerung: Ihre Konsultation mit {{patient}} ist für {{time}} geplant.',
+    practitionerName: 'Dr. {{name}}',
+  },
+  whatsappInbound: {
+    confirmed: 'Vielen Dank, Ihre Konsultation am {{time}} ist bestätigt.',
+    cancelled:
+      'Ihre Konsultation am {{time}} wurde abgesagt. Wenden Sie sich an Ihre Praxis, um einen neuen Termin zu buchen.',
+    cancelRefused:
+      'Ihre Konsultation am {{time}} konnte nicht abgesagt werden: {{reason}}',
+    stopped:
+      'Sie erhalten von uns keine WhatsApp-Nachrichten mehr. Erinnerungen per E-Mail oder SMS bleiben aktiv, sofern eingeschaltet.',
+    received:
+      'Vielen Dank, Ihre Nachricht wurde an Ihre Praxis weitergeleitet.',
+    noConsultation:
+      'Für diese Nummer wurde keine anstehende Konsultation gefunden. Antworten Sie STOP, um keine WhatsApp-Nachrichten mehr zu erhalten.',
+    unknownSender:
+      'Diese Nummer ist mit keinem Konto verknüpft. Bitte wenden Sie sich direkt an Ihre Praxis.',
+  },
+};
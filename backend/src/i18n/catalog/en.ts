@@ -0,0 +1,182 @@
+import { MessageCatalog } from './catalog.types';
+
+export const en: MessageCatalog = {
+  common: {
+    hello: 'Hello {{name}},',
+    helloAnonymous: 'Hello,',
+    consultationId: 'Consultation ID:',
+    automated: 'This is an automated message.',
+    copyright: '© {{year}} Healthcare Platform.',
+  },
+  roles: {
+    PATIENT: 'Patient',
+    EXPERT: 'Expert',
+    GUEST: 'Guest',
+    PRACTITIONER: 'Practitioner',
+    ADMIN: 'Administrator',
+  },
+  invitation: {
+    subject: 'Consultation Invitation: Join as {{role}}',
+    title: "You're Invited!",
+    subtitle: 'Healthcare Consultation Invitation',
+    intro:
+      '<strong>{{inviter}}</strong> has invited you to join a healthcare consultation as <strong>{{role}}</strong>.',
+    role: 'Role:',
+    invitedBy: 'Invited by:',
+    scheduledTime: 'Scheduled Time:',
+    deviceTestUntil: 'Device Testing Until:',
+    platform: 'Platform:',
+    noteFrom: 'Note from {{inviter}}:',
+    button: 'Acknowledge & Test Devices',
+    important:
+      "<strong>Important:</strong> Device testing closes at {{cutoff}}. Consultation starts at {{time}}. You'll get a join link 2 minutes before your appointment.",
+    securityNotice: 'Security Notice:',
+    securityPatient:
+      'This link is personal and expires in 24 hours for your privacy.',
+    securityOther: 'This invitation link is secure and expires in 24 hours.',
+    expectTitle: 'What to expect:',
+    expectWaitingRoom: 'Secure waiting room access',
+    expectAdmission: 'Practitioner will admit you',
+    expectMedia: 'Chat, voice, and video available',
+    expectRoom: 'Direct consultation room access',
+    expectContribute: 'Contribute as {{role}}',
+    requirementsTitle: 'Technical requirements:',
+    requirementBrowser: 'Modern browser (Chrome, Firefox, Safari, Edge)',
+    requirementInternet: 'Stable internet connection',
+    requirementDevices: 'Camera/microphone (optional)',
+    footer:
+      'This is an automated message. If you received this in error, please ignore.',
+    sms: '{{inviter}} invited you to a video consultation. Join here: {{link}}',
+    smsScheduled:
+      '{{inviter}} invited you to a video consultation on {{time}}. Join here: {{link}}',
+  },
+  consultationAssigned: {
+    subject: 'Provider Assigned: Schedule Your Consultation',
+    title: 'Provider Assigned',
+    subtitle: 'Your consultation is ready to be scheduled',
+    intro:
+      'Your request has been assigned to <strong>{{practitioner}}</strong>. Please schedule your appointment at your convenience.',
+    assignedProvider: 'Assigned Provider:',
+    button: 'Schedule Appointment',
+    nextSteps: 'Next steps:',
+    stepChoose: 'Click above to choose your time slot',
+    stepConfirm: 'Receive confirmation after scheduling',
+    stepJoin: 'Join at your scheduled time',
+    help: 'If you need help, reply to this email or contact support.',
+    footer:
+      "This is an automated message. If the button doesn't work, copy and paste this link:",
+  },
+  selfInvitation: {
+    subject: "✨ You're Invited to Join Our Healthcare Platform",
+    pageTitle: 'Your Healthcare Invitation',
+    title: '✨ Welcome!',
+    subtitle: 'Your personal invitation to access our healthcare services',
+    intro:
+      'We’re excited to invite you to our healthcare platform. Use the link below to create your account and start using our services.',
+    button: '🔗 Accept Invitation',
+    nextSteps: 'Next Steps:',
+    stepAccept: 'Click the button above to accept your invitation',
+    stepAccount: 'Set up your account details',
+    stepBook: 'Book consultations and manage appointments',
+    help: 'If you need assistance, please reach out to our support team.',
+    regards: 'Warm regards,',
+    team: 'Your Healthcare Team',
+    noReply: 'This is an automated message. Please do not reply to this email.',
+    linkFallback:
+      "If the button above doesn't work, copy and paste this link into your browser:",
+  },
+  consultationReminder: {
+    subject: 'Reminder: Your Consultation Starts Soon',
+    title: 'Consultation Reminder',
+    subtitle: 'Your appointment is coming up',
+    intro: 'Your consultation is scheduled for <strong>{{time}}</strong>.',
+    ready:
+      '<strong>Ready to join?</strong> Click below to enter the waiting room. The practitioner will admit you soon.',
+    button: 'Join Consultation',
+    beforeTitle: 'Before you join:',
+    beforeDevices: 'Check camera and microphone',
+    beforeSpace: 'Find a quiet, well-lit space',
+    beforeRecords: 'Have medical records ready if needed',
+    beforeConnection: 'Test your internet connection',
+    help: 'Need help? Contact support or refresh your browser.',
+  },
+  consultationRescheduled: {
+    subject: 'Your consultation #{{consultationId}} was moved',
+    title: 'Consultation moved',
+    intro:
+      'Consultation #{{consultationId}} now takes place on <strong>{{time}}</strong>.',
+    button: 'View consultation',
+    calendar: 'The attached invitation moves the appointment in your calendar.',
+  },
+  consultationCancelled: {
+    subject: 'Your consultation #{{consultationId}} was cancelled',
+    title: 'Consultation cancelled',
+    intro:
+      'Consultation #{{consultationId}} planned for <strong>{{time}}</strong> was cancelled.',
+    button: 'Open dashboard',
+    calendar:
+      'The attached cancellation removes the appointment from your calendar.',
+  },
+  preConsultation: {
+    subject: 'Consultation Starting: Join Now',
+    title: 'Consultation Starting Now',
+    subtitle: 'Your healthcare appointment is ready',
+    intro:
+      'Your scheduled consultation with <strong>{{practitioner}}</strong> is starting now. Please join using the secure link below.',
+    practitioner: 'Practitioner:',
+    scheduledTime: 'Scheduled Time:',
+    status: 'Status:',
+    readyToJoin: 'Ready to Join',
+    button: 'Join Consultation Room',
+    reminder:
+      "<strong>Reminder:</strong> You'll enter a waiting room first. The practitioner will admit you when ready.",
+    nextTitle: 'What happens next:',
+    nextClick: 'Click "{{button}}" above',
+    nextWaitingRoom: "You'll enter a secure waiting room",
+    nextNotified: 'Practitioner will be notified of your arrival',
+    nextAdmitted: 'Admitted to consultation when ready',
+    supportTitle: 'Technical support:',
+    supportInternet: 'Stable internet connection',
+    supportPermissions: 'Allow camera/microphone permissions',
+    supportRefresh: 'If issues, refresh the page',
+    footer:
+      'This link is secure and personal. If you cannot attend, contact your provider.',
+  },
+  invoice: {
+    subject: '{{title}} {{number}} from {{organization}}',
+    intro: 'Please find attached your {{title}} for your consultation.',
+    number: 'Number:',
+    amount: 'Amount:',
+    dashboard:
+      'You can also download this document at any time from your dashboard.',
+  },
+  exportReady: {
+    subject: 'Your export {{fileName}} is ready',
+    title: 'Export ready',
+    intro:
+      'Your export <strong>{{fileName}}</strong> finished with {{rowCount}} rows.',
+    button: 'Open export',
+    available: 'The file is available until {{expiresAt}}.',
+  },
+  reminder: {
+    patient:
+      'Reminder: Your consultation with Dr. {{practitioner}} is scheduled for {{time}}.',
+    practitioner:
+      'Reminder: Your consultation with {{patient}} is scheduled for {{time}}.',
+    practitionerName: 'Dr. {{name}}',
+  },
+  whatsappInbound: {
+    confirmed: 'Thank you, your consultation on {{time}} is confirmed.',
+    cancelled:
+      'Your consultation on {{time}} has been cancelled. Contact your practitioner to book a new one.',
+    cancelRefused:
+      'Your consultation on {{time}} could not be cancelled: {{reason}}',
+    stopped:
+      'You will no longer receive WhatsApp messages from us. Reminders continue by email or SMS if enabled.',
+    received: 'Thank you, your message was forwarded to your practitioner.',
+    noConsultation:
+      'We could not find an upcoming consultation for this number. Reply STOP to stop receiving WhatsApp messages.',
+    unknownSender:
+      'This number is not linked to an account. Please contact your practitioner directly.',
+  },
+};
@@ -0,0 +1,183 @@
+import { MessageCatalog } from './catalog.types';
+
+export const fr: MessageCatalog = {
+  common: {
+    hello: 'Bonjour {{name}},',
+    helloAnonymous: 'Bonjour,',
+    consultationId: 'N° de consultation :',
+    automated: 'Ceci est un message automatique.',
+    copyright: '© {{year}} Plateforme de santé.',
+  },
+  roles: {
+    PATIENT: 'Patient',
+    EXPERT: 'Expert',
+    GUEST: 'Invité',
+    PRACTITIONER: 'Praticien',
+    ADMIN: 'Administrateur',
+  },
+  invitation: {
+    subject: 'Invitation à une consultation : rejoindre en tant que {{role}}',
+    title: 'Vous êtes invité !',
+    subtitle: 'Invitation à une consultation médicale',
+    intro:
+      '<strong>{{inviter}}</strong> vous invite à rejoindre une consultation médicale en tant que <strong>{{role}}</strong>.',
+    role: 'Rôle :',
+    invitedBy: 'Invité par :',
+    scheduledTime: 'Heure prévue :',
+    deviceTestUntil: 'Test des appareils jusqu’à :',
+    platform: 'Plateforme :',
+    noteFrom: 'Note de {{inviter}} :',
+    button: 'Confirmer et tester mes appareils',
+    important:
+      '<strong>Important :</strong> le test des appareils se termine à {{cutoff}}. La consultation commence à {{time}}. Vous recevrez un lien pour rejoindre 2 minutes avant votre rendez-vous.',
+    securityNotice: 'Sécurité :',
+    securityPatient:
+      'Ce lien est personnel et expire dans 24 heures pour protéger votre vie privée.',
+    securityOther:
+      'Ce lien d’invitation est sécurisé et expire dans 24 heures.',
+    expectTitle: 'À quoi vous attendre :',
+    expectWaitingRoom: 'Accès sécurisé à la salle d’attente',
+    expectAdmission: 'Le praticien vous fera entrer',
+    expectMedia: 'Chat, audio et vidéo disponibles',
+    expectRoom: 'Accès direct à la salle de consultation',
+    expectContribute: 'Participer en tant que {{role}}',
+    requirementsTitle: 'Prérequis techniques :',
+    requirementBrowser: 'Navigateur récent (Chrome, Firefox, Safari, Edge)',
+    requirementInternet: 'Connexion internet stable',
+    requirementDevices: 'Caméra/microphone (facultatif)',
+    footer:
+      'Ceci est un message automatique. Si vous l’avez reçu par erreur, veuillez l’ignorer.',
+    sms: '{{inviter}} vous invite à une consultation vidéo. Rejoindre : {{link}}',
+    smsScheduled:
+      '{{inviter}} vous invite à une consultation vidéo le {{time}}. Rejoindre : {{link}}',
+  },
+  consultationAssigned: {
+    subject: 'Praticien attribué : planifiez votre consultation',
+    title: 'Praticien attribué',
+    subtitle: 'Votre consultation peut être planifiée',
+    intro:
+      'Votre demande a été attribuée à <strong>{{practitioner}}</strong>. Planifiez votre rendez-vous quand cela vous convient.',
+    assignedProvider: 'Praticien attribué :',
+    button: 'Planifier le rendez-vous',
+    nextSteps: 'Prochaines étapes :',
+    stepChoose: 'Cliquez ci-dessus pour choisir votre créneau',
+    stepConfirm: 'Recevez une confirmation après la planification',
+    stepJoin: 'Rejoignez la consultation à l’heure prévue',
+    help: 'Besoin d’aide ? Répondez à cet e-mail ou contactez le support.',
+    footer:
+      'Ceci est un message automatique. Si le bouton ne fonctionne pas, copiez et collez ce lien :',
+  },
+  selfInvitation: {
+    subject: '✨ Vous êtes invité à rejoindre notre plateforme de santé',
+    pageTitle: 'Votre invitation',
+    title: '✨ Bienvenue !',
+    subtitle: 'Votre invitation personnelle à nos services de santé',
+    intro:
+      'Nous avons le plaisir de vous inviter sur notre plateforme de santé. Utilisez le lien ci-dessous pour créer votre compte et commencer à utiliser nos services.',
+    button: '🔗 Accepter l’invitation',
+    nextSteps: 'Prochaines étapes :',
+    stepAccept: 'Cliquez sur le bouton ci-dessus pour accepter l’invitation',
+    stepAccount: 'Complétez les informations de votre compte',
+    stepBook: 'Réservez des consultations et gérez vos rendez-vous',
+    help: 'Pour toute question, contactez notre équipe de support.',
+    regards: 'Cordialement,',
+    team: 'Votre équipe médicale',
+    noReply: 'Ceci est un message automatique. Merci de ne pas y répondre.',
+    linkFallback:
+      'Si le bouton ci-dessus ne fonctionne pas, copiez et collez ce lien dans votre navigateur :',
+  },
+  consultationReminder: {
+    subject: 'Rappel : votre consultation approche',
+    title: 'Rappel de consultation',
+    subtitle: 'Votre rendez-vous approche',
+    intro: 'Votre consultation est prévue le <strong>{{time}}</strong>.',
+    ready:
+      '<strong>Prêt à rejoindre ?</strong> Cliquez ci-dessous pour entrer dans la salle d’attente. Le praticien vous fera entrer sous peu.',
+    button: 'Rejoindre la consultation',
+    beforeTitle: 'Avant de rejoindre :',
+    beforeDevices: 'Vérifiez votre caméra et votre microphone',
+    beforeSpace: 'Installez-vous dans un endroit calme et bien éclairé',
+    beforeRecords: 'Préparez vos documents médicaux si nécessaire',
+    beforeConnection: 'Testez votre connexion internet',
+    help: 'Besoin d’aide ? Contactez le support ou actualisez votre navigateur.',
+  },
+  consultationRescheduled: {
+    subject: 'Votre consultation n°{{consultationId}} a été déplacée',
+    title: 'Consultation déplacée',
+    intro:
+      'La consultation n°{{consultationId}} a désormais lieu le <strong>{{time}}</strong>.',
+    button: 'Voir la consultation',
+    calendar: 'L’invitation jointe déplace le rendez-vous dans votre agenda.',
+  },
+  consultationCancelled: {
+    subject: 'Votre consultation n°{{consultationId}} a été annulée',
+    title: 'Consultation annulée',
+    intro:
+      'La consultation n°{{consultationId}} prévue le <strong>{{time}}</strong> a été annulée.',
+    button: 'Ouvrir le tableau de bord',
+    calendar: 'L’annulation jointe retire le rendez-vous de votre agenda.',
+  },
+  preConsultation: {
+    subject: 'Votre consultation commence : rejoignez-la maintenant',
+    title: 'Votre consultation commence',
+    subtitle: 'Votre rendez-vous médical est prêt',
+    intro:
+      'Votre consultation avec <strong>{{practitioner}}</strong> commence maintenant. Rejoignez-la avec le lien sécurisé ci-dessous.',
+    practitioner: 'Praticien :',
+    scheduledTime: 'Heure prévue :',
+    status: 'Statut :',
+    readyToJoin: 'Prête',
+    button: 'Rejoindre la salle de consultation',
+    reminder:
+      '<strong>Rappel :</strong> vous entrerez d’abord dans une salle d’attente. Le praticien vous fera entrer dès qu’il sera prêt.',
+    nextTitle: 'Ce qui va se passer :',
+    nextClick: 'Cliquez sur « {{button}} » ci-dessus',
+    nextWaitingRoom: 'Vous entrez dans une salle d’attente sécurisée',
+    nextNotified: 'Le praticien est informé de votre arrivée',
+    nextAdmitted: 'Vous êtes admis dans la consultation',
+    supportTitle: 'Assistance technique :',
+    supportInternet: 'Connexion internet stable',
+    supportPermissions: 'Autorisez l’accès à la caméra et au microphone',
+    supportRefresh: 'En cas de problème, actualisez la page',
+    footer:
+      'Ce lien est sécurisé et personnel. Si vous ne pouvez pas venir, contactez votre praticien.',
+  },
+  invoice: {
+    subject: '{{title}} {{number}} de {{organization}}',
+    intro:
+      'Veuillez trouver ci-joint votre document ({{title}}) pour votre consultation.',
+    number: 'Numéro :',
+    amount: 'Montant :',
+    dashboard:
+      'Vous pouvez aussi télécharger ce document à tout moment depuis votre tableau de bord.',
+  },
+  exportReady: {
+    subject: 'Votre export {{fileName}} est prêt',
+    title: 'Export prêt',
+    intro:
+      'Votre export <strong>{{fileName}}</strong> est terminé ({{rowCount}} lignes).',
+    button: 'Ouvrir l’export',
+    available: 'Le fichier est disponible jusqu’au {{expiresAt}}.',
+  },
+  reminder: {
+    patient:
+      'Rappel : votre consultation avec le Dr {{practitioner}} est prévue le {{time}}.',
+    practitioner:
+      'Rappel : votre consultation avec {{patient}} est prévue le {{time}}.',
+    practitionerName: 'Dr {{name}}',
+  },
+  whatsappInbound: {
+    confirmed: 'Merci, votre consultation du {{time}} est confirmée.',
+    cancelled:
+      'Votre consultation du {{time}} a été annulée. Contactez votre praticien pour en réserver une nouvelle.',
+    cancelRefused:
+      'Votre consultation du {{time}} n’a pas pu être annulée : {{reason}}',
+    stopped:
+      'Vous ne recevrez plus de messages WhatsApp de notre part. Les rappels continuent par e-mail ou SMS s’ils sont activés.',
+    received: 'Merci, votre message a été transmis à votre praticien.',
+    noConsultation:
+      'Aucune consultation à venir n’est liée à ce numéro. Répondez STOP pour ne plus recevoir de messages WhatsApp.',
+    unknownSender:
+      'Ce numéro n’est lié à aucun compte. Veuillez contacter directement votre praticien.',
+  },
+};
@@ -0,0 +1,9 @@
+import { MessageCatalog } from './catalog.types';
+import { de } from './de';
+import { en } from './en';
+import { fr } from './fr';
+
+export { MessageCatalog } from './catalog.types';
+
+/** Catalogs by language code; `en` holds every key the others may miss */
+export const MESSAGE_CATALOG: Record<string, MessageCatalog> = { en, fr, de };
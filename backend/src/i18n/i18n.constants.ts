@@ -0,0 +1,19 @@
+/** Language used when nothing better matches, and the catalog every string exists in */
+export const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Languages are stored as codes (`fr`, `fr-CH`) on some records and as the
+ * names shown in the practitioner forms (`French`) on others.
+ */
+export const LANGUAGE_NAME_ALIASES: Record<string, string> = {
+  english: 'en',
+  anglais: 'en',
+  englisch: 'en',
+  french: 'fr',
+  français: 'fr',
+  francais: 'fr',
+  französisch: 'fr',
+  german: 'de',
+  allemand: 'de',
+  deutsch: 'de',
+};
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { I18nService } from './i18n.service';
+
+@Module({
+  imports: [DatabaseModule, ConfigModule],
+  providers: [I18nService],
+  exports: [I18nService],
+})
+export class I18nModule {}
@@ -0,0 +1,90 @@
+import { I18nService, normalizeLanguage } from './i18n.service';
+
+describe('I18nService', () => {
+  let service: I18nService;
+  let prisma: any;
+  let configService: any;
+
+  beforeEach(() => {
+    prisma = {
+      user: { findUnique: jest.fn(), findFirst: jest.fn() },
+      participant: { findFirst: jest.fn().mockResolvedValue(null) },
+      consultation: { findUnique: jest.fn().mockResolvedValue(null) },
+    };
+    configService = { defaultLanguage: 'de', defaultTimezone: 'Europe/Berlin' };
+    service = new I18nService(prisma, configService);
+  });
+
+  it('normalizes language names and region tags', () => {
+    expect(normalizeLanguage('French')).toBe('fr');
+    expect(normalizeLanguage('fr_CH')).toBe('fr-ch');
+    expect(normalizeLanguage('Klingon language')).toBeNull();
+  });
+
+  it('falls back from the region to the language, the default and English', () => {
+    expect(service.languageChain('fr_CH')).toEqual(['fr-ch', 'fr', 'de', 'en']);
+    expect(service.languageChain(null)).toEqual(['de', 'en']);
+  });
+
+  it('translates with placeholders and falls back per key', () => {
+    const locale = { language: 'it', timezone: 'UTC' };
+
+    expect(
+      service.translate(
+        'exportReady',
+        'subject',
+        { language: 'fr', timezone: 'UTC' },
+        {
+          fileName: 'users.csv',
+        },
+      ),
+    ).toBe('Votre export users.csv est prêt');
+    // No Italian catalog: the default language is used
+    expect(service.translate('exportReady', 'title', locale)).toBe(
+      'Export bereit',
+    );
+  });
+
+  it('ignores invalid timezones', () => {
+    expect(
+      service.resolveLocale({
+        languages: [null, 'English'],
+        timezones: ['Mars/Olympus'],
+      }),
+    ).toEqual({ language: 'en', timezone: 'Europe/Berlin' });
+  });
+
+  it('formats dates in the recipient timezone', () => {
+    const date = new Date('2030-03-04T13:30:00Z');
+
+    expect(
+      service.formatDateTime(date, {
+        language: 'en',
+        timezone: 'America/New_York',
+      }),
+    ).toMatch(/Monday, March 4, 2030.*08:30/);
+  });
+
+  it('prefers the participant language and the consultation timezone', async () => {
+    prisma.user.findFirst.mockResolvedValue({
+      id: 4,
+      languages: [{ language: { name: 'German' } }],
+    });
+    prisma.participant.findFirst.mockResolvedValue({ language: 'French' });
+    prisma.consultation.findUnique.mockResolvedValue({
+      timezone: 'Europe/Zurich',
+    });
+
+    const locale = await service.localeForUser({
+      email: 'Jane@Example.com ',
+      consultationId: 9,
+    });
+
+    expect(prisma.user.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { email: { equals: 'Jane@Example.com', mode: 'insensitive' } },
+      }),
+    );
+    expect(locale).toEqual({ language: 'fr', timezone: 'Europe/Zurich' });
+  });
+});
@@ -0,0 +1,196 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { MESSAGE_CATALOG } from './catalog';
+import { FALLBACK_LANGUAGE, LANGUAGE_NAME_ALIASES } from './i18n.constants';
+
+/** Language and timezone a message is rendered in */
+export interface RecipientLocale {
+  language: string;
+  timezone: string;
+}
+
+/** Candidates for a recipient's locale, most specific first */
+export interface LocalePreferences {
+  languages?: (string | null | undefined)[];
+  timezones?: (string | null | undefined)[];
+}
+
+export type Translator = (
+  key: string,
+  params?: Record<string, string | number>,
+) => string;
+
+/**
+ * Turns `French`, `fr_CH` or `FR-ch` into a lowercase BCP 47 tag like
+ * `fr-ch`; returns null for values that are not a language.
+ */
+export function normalizeLanguage(value?: string | null): string | null {
+  const language = value?.trim().toLowerCase().replace(/_/g, '-');
+  if (!language) return null;
+  if (LANGUAGE_NAME_ALIASES[language]) return LANGUAGE_NAME_ALIASES[language];
+  return /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/.test(language) ? language : null;
+}
+
+export function isValidTimezone(timezone?: string | null): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders outbound messages (reminders, invitations, emails) in the
+ * recipient's language and timezone. Strings come from the catalog and
+ * fall back from `fr-ch` to `fr`, then to the default language, then to
+ * English.
+ */
+@Injectable()
+export class I18nService {
+  private readonly logger = new Logger(I18nService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /** First usable language and timezone, or the configured defaults */
+  resolveLocale(preferences: LocalePreferences = {}): RecipientLocale {
+    const language =
+      (preferences.languages ?? [])
+        .map((candidate) => normalizeLanguage(candidate))
+        .find((candidate): candidate is string => !!candidate) ??
+      normalizeLanguage(this.configService.defaultLanguage) ??
+      FALLBACK_LANGUAGE;
+    const timezone =
+      [
+        ...(preferences.timezones ?? []),
+        this.configService.defaultTimezone,
+      ].find(isValidTimezone) ?? 'UTC';
+    return { language, timezone };
+  }
+
+  /**
+   * Locale of a user, looked up by id or email. Within a consultation the
+   * participant's language and the consultation's timezone come first.
+   */
+  async localeForUser(recipient: {
+    userId?: number | null;
+    email?: string | null;
+    consultationId?: number | null;
+    /** Timezone picked for this message, e.g. in the invitation form */
+    timezone?: string | null;
+  }): Promise<RecipientLocale> {
+    const select = {
+      id: true,
+      languages: { select: { language: { select: { name: true } } } },
+    };
+    const user = recipient.userId
+      ? await this.prisma.user.findUnique({
+          where: { id: recipient.userId },
+          select,
+        })
+      : recipient.email
+        ? await this.prisma.user.findFirst({
+            where: {
+              email: { equals: recipient.email.trim(), mode: 'insensitive' },
+            },
+            select,
+          })
+        : null;
+
+    const [participant, consultation] = recipient.consultationId
+      ? await Promise.all([
+          user
+            ? this.prisma.participant.findFirst({
+                where: {
+                  consultationId: recipient.consultationId,
+                  userId: user.id,
+                },
+                select: { language: true },
+              })
+            : null,
+          this.prisma.consultation.findUnique({
+            where: { id: recipient.consultationId },
+            select: { timezone: true },
+          }),
+        ])
+      : [null, null];
+
+    return this.resolveLocale({
+      languages: [
+        participant?.language,
+        ...(user?.languages ?? []).map(({ language }) => language.name),
+      ],
+      timezones: [recipient.timezone, consultation?.timezone],
+    });
+  }
+
+  /**
+   * Languages to try for a message, e.g. `fr-ch`, `fr`, the default
+   * language and `en`. Also used to pick WhatsApp templates.
+   */
+  languageChain(language?: string | null): string[] {
+    const chain: string[] = [];
+    const add = (candidate: string | null) => {
+      if (!candidate) return;
+      for (const tag of [candidate, candidate.split('-')[0]]) {
+        if (!chain.includes(tag)) chain.push(tag);
+      }
+    };
+    add(normalizeLanguage(language));
+    add(normalizeLanguage(this.configService.defaultLanguage));
+    add(FALLBACK_LANGUAGE);
+    return chain;
+  }
+
+  translate(
+    template: string,
+    key: string,
+    locale?: RecipientLocale,
+    params: Record<string, string | number> = {},
+  ): string {
+    const language = locale?.language ?? this.resolveLocale().language;
+    for (const candidate of this.languageChain(language)) {
+      const text = MESSAGE_CATALOG[candidate]?.[template]?.[key];
+      if (text !== undefined) {
+        return text.replace(/\{\{(\w+)\}\}/g, (placeholder, name) =>
+          params[name] !== undefined ? String(params[name]) : placeholder,
+        );
+      }
+    }
+    this.logger.warn(`Missing translation ${template}.${key}`);
+    return `${template}.${key}`;
+  }
+
+  /** Binds `translate` to one template and locale */
+  translator(template: string, locale?: RecipientLocale): Translator {
+    return (key, params) => this.translate(template, key, locale, params);
+  }
+
+  /** Date and time with the timezone name, e.g. `lundi 20 octobre 2026 à 14:30 UTC+2` */
+  formatDateTime(date: Date | string, locale?: RecipientLocale): string {
+    const { language, timezone } = locale ?? this.resolveLocale();
+    const options: Intl.DateTimeFormatOptions = {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: timezone,
+      timeZoneName: 'short',
+    };
+    try {
+      return new Intl.DateTimeFormat(language, options).format(new Date(date));
+    } catch {
+      // Unknown language tag
+      return new Intl.DateTimeFormat(FALLBACK_LANGUAGE, options).format(
+        new Date(date),
+      );
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { InAppNotificationService } from './in-app-notification.service';
+import { ListInAppNotificationsDto } from './dto/list-in-app-notifications.dto';
+
+@ApiTags('In-app notifications')
+@ApiBearerAuth()
+@Controller('notifications/in-app')
+@UseGuards(AuthGuard)
+export class InAppNotificationController {
+  constructor(
+    private readonly inAppNotificationService: InAppNotificationService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List notifications of the current user' })
+  async list(@Query() query: ListInAppNotificationsDto, @Req() req) {
+    const result = await this.inAppNotificationService.list(req.user.id, query);
+    return ApiResponseDto.success(
+      result,
+      'Notifications retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Count unread notifications of the current user' })
+  async unreadCount(@Req() req) {
+    const unreadCount = await this.inAppNotificationService.unreadCount(
+      req.user.id,
+    );
+    return ApiResponseDto.success(
+      { unreadCount },
+      'Unread notifications counted',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Patch('read-all')
+  @ApiOperation({ summary: 'Mark every notification as read' })
+  async markAllRead(@Req() req) {
+    const updated = await this.inAppNotificationService.markAllRead(
+      req.user.id,
+    );
+    return ApiResponseDto.success(
+      { updated },
+      'Notifications marked as read',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  async markRead(@Param('id', ParseIntPipe) id: number, @Req() req) {
+    const notification = await this.inAppNotificationService.markRead(
+      req.user.id,
+      id,
+    );
+    return ApiResponseDto.success(
+      notification,
+      'Notification marked as read',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
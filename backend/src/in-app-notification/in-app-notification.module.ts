@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationPreferenceModule } from '../notification/notification-preference.module';
+import { InAppNotificationService } from './in-app-notification.service';
+import { InAppNotificationController } from './in-app-notification.controller';
+
+@Module({
+  imports: [DatabaseModule, NotificationPreferenceModule, AuthModule],
+  controllers: [InAppNotificationController],
+  providers: [InAppNotificationService],
+  exports: [InAppNotificationService],
+})
+export class InAppNotificationModule {}
@@ -0,0 +1,135 @@
+import { NotificationChannel, NotificationEvent } from '@prisma/client';
+import {
+  IN_APP_NOTIFICATION_EVENT,
+  IN_APP_UNREAD_COUNT_EVENT,
+  InAppNotificationService,
+} from './in-app-notification.service';
+
+describe('InAppNotificationService', () => {
+  let prisma: any;
+  let notificationPreferenceService: { isEnabled: jest.Mock };
+  let publisher: { publishToUser: jest.Mock };
+  let service: InAppNotificationService;
+
+  const input = {
+    event: NotificationEvent.PATIENT_WAITING,
+    title: 'Patient waiting',
+    body: 'Jane is waiting in consultation #42',
+    consultationId: 42,
+  };
+
+  beforeEach(() => {
+    prisma = {
+      inAppNotification: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: 1, ...data })),
+        update: jest.fn(({ where, data }) =>
+          Promise.resolve({ id: where.id, ...data }),
+        ),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(3),
+      },
+    };
+    notificationPreferenceService = {
+      isEnabled: jest.fn().mockResolvedValue(true),
+    };
+    publisher = { publishToUser: jest.fn() };
+    service = new InAppNotificationService(
+      prisma,
+      notificationPreferenceService as any,
+    );
+    service.registerPublisher(publisher);
+  });
+
+  describe('notify', () => {
+    it('records the notification and pushes it with the unread count', async () => {
+      const notification = await service.notify(7, input);
+
+      expect(notificationPreferenceService.isEnabled).toHaveBeenCalledWith(
+        7,
+        NotificationEvent.PATIENT_WAITING,
+        NotificationChannel.IN_APP,
+      );
+      expect(prisma.inAppNotification.create).toHaveBeenCalledWith({
+        data: { ...input, userId: 7 },
+      });
+      expect(publisher.publishToUser).toHaveBeenCalledWith(
+        7,
+        IN_APP_NOTIFICATION_EVENT,
+        { notification, unreadCount: 3 },
+      );
+    });
+
+    it('skips events the user turned off', async () => {
+      notificationPreferenceService.isEnabled.mockResolvedValue(false);
+
+      await expect(service.notify(7, input)).resolves.toBeNull();
+      expect(prisma.inAppNotification.create).not.toHaveBeenCalled();
+      expect(publisher.publishToUser).not.toHaveBeenCalled();
+    });
+
+    it('refreshes the unread notification of the same consultation when collapsing', async () => {
+      prisma.inAppNotification.findFirst.mockResolvedValue({ id: 5 });
+
+      await service.notify(7, input, { collapse: true });
+
+      expect(prisma.inAppNotification.findFirst).toHaveBeenCalledWith({
+        where: {
+          userId: 7,
+          event: NotificationEvent.PATIENT_WAITING,
+          consultationId: 42,
+          readAt: null,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(prisma.inAppNotification.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { ...input, createdAt: expect.any(Date) },
+      });
+      expect(prisma.inAppNotification.create).not.toHaveBeenCalled();
+    });
+
+    it('does not fail the caller when recording fails', async () => {
+      prisma.inAppNotification.create.mockRejectedValue(new Error('db down'));
+
+      await expect(service.notify(7, input)).resolves.toBeNull();
+    });
+  });
+
+  describe('markRead', () => {
+    it('only marks notifications of the user', async () => {
+      await expect(service.markRead(7, 99)).rejects.toThrow(
+        'Notification not found',
+      );
+      expect(prisma.inAppNotification.findFirst).toHaveBeenCalledWith({
+        where: { id: 99, userId: 7 },
+      });
+    });
+
+    it('marks the notification read and pushes the unread count', async () => {
+      prisma.inAppNotification.findFirst.mockResolvedValue({
+        id: 5,
+        readAt: null,
+      });
+
+      const notification = await service.markRead(7, 5);
+
+      expect(notification.readAt).toEqual(expect.any(Date));
+      expect(publisher.publishToUser).toHaveBeenCalledWith(
+        7,
+        IN_APP_UNREAD_COUNT_EVENT,
+        { unreadCount: 3 },
+      );
+    });
+  });
+
+  it('marks every unread notification of the user read', async () => {
+    await expect(service.markAllRead(7)).resolves.toBe(2);
+
+    expect(prisma.inAppNotification.updateMany).toHaveBeenCalledWith({
+      where: { userId: 7, readAt: null },
+      data: { readAt: expect.any(Date) },
+    });
+  });
+});
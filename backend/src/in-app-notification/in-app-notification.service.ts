@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  InAppNotification,
+  NotificationChannel,
+  NotificationEvent,
+  Prisma,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { NotificationPreferenceService } from '../notification/notification-preference.service';
+import { ListInAppNotificationsDto } from './dto/list-in-app-notifications.dto';
+
+/** Socket event carrying a new or updated notification */
+export const IN_APP_NOTIFICATION_EVENT = 'notification';
+/** Socket event carrying the unread count after notifications were read */
+export const IN_APP_UNREAD_COUNT_EVENT = 'notification_unread_count';
+
+export interface InAppNotificationInput {
+  event: NotificationEvent;
+  title: string;
+  body: string;
+  consultationId?: number | null;
+  data?: Prisma.InputJsonObject;
+}
+
+/** Pushes to the connected clients of a user, the socket gateway in practice */
+export interface InAppNotificationPublisher {
+  publishToUser(userId: number, event: string, payload: object): void;
+}
+
+@Injectable()
+export class InAppNotificationService {
+  private readonly logger = new Logger(InAppNotificationService.name);
+  private publisher: InAppNotificationPublisher | null = null;
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly notificationPreferenceService: NotificationPreferenceService,
+  ) {}
+
+  /** Called by the socket gateway, which depends on this service */
+  registerPublisher(publisher: InAppNotificationPublisher): void {
+    this.publisher = publisher;
+  }
+
+  /**
+   * Records a notification for the user and pushes it to their connected
+   * clients. With `collapse`, an unread notification of the same event and
+   * consultation is refreshed instead of piling up a new one. Returns null
+   * when the user turned in-app notifications of the event off.
+   */
+  async notify(
+    userId: number,
+    input: InAppNotificationInput,
+    options: { collapse?: boolean } = {},
+  ): Promise<InAppNotification | null> {
+    try {
+      const enabled = await this.notificationPreferenceService.isEnabled(
+        userId,
+        input.event,
+        NotificationChannel.IN_APP,
+      );
+      if (!enabled) {
+        return null;
+      }
+
+      const existing = options.collapse
+        ? await this.prisma.inAppNotification.findFirst({
+            where: {
+              userId,
+              event: input.event,
+              consultationId: input.consultationId ?? null,
+              readAt: null,
+            },
+            orderBy: { createdAt: 'desc' },
+          })
+        : null;
+      const notification = existing
+        ? await this.prisma.inAppNotification.update({
+            where: { id: existing.id },
+            data: { ...input, createdAt: new Date() },
+          })
+        : await this.prisma.inAppNotification.create({
+            data: { ...input, userId },
+          });
+
+      this.publish(userId, IN_APP_NOTIFICATION_EVENT, {
+        notification,
+        unreadCount: await this.unreadCount(userId),
+      });
+      return notification;
+    } catch (error) {
+      // Notifications never fail the action they report on
+      this.logger.error(
+        `Failed to notify user ${userId} of ${input.event}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  async list(userId: number, query: ListInAppNotificationsDto) {
+    const { page = 1, limit = 20, unreadOnly } = query;
+    const where: Prisma.InAppNotificationWhereInput = {
+      userId,
+      readAt: unreadOnly ? null : undefined,
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      this.prisma.inAppNotification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.inAppNotification.count({ where }),
+      this.unreadCount(userId),
+    ]);
+
+    return {
+      notifications,
+      unreadCount,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  unreadCount(userId: number): Promise<number> {
+    return this.prisma.inAppNotification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  async markRead(userId: number, id: number): Promise<InAppNotification> {
+    const notification = await this.prisma.inAppNotification.findFirst({
+      where: { id, userId },
+    });
+    if (!notification) {
+      throw HttpExceptionHelper.notFound('Notification not found');
+    }
+    if (notification.readAt) {
+      return notification;
+    }
+
+    const updated = await this.prisma.inAppNotification.update({
+      where: { id },
+      data: { readAt: new Date() },
+    });
+    await this.publishUnreadCount(userId);
+    return updated;
+  }
+
+  /** Returns the number of notifications marked read */
+  async markAllRead(userId: number): Promise<number> {
+    const { count } = await this.prisma.inAppNotification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    if (count) {
+      await this.publishUnreadCount(userId);
+    }
+    return count;
+  }
+
+  // Keeps the badges of the user's other tabs and devices in sync
+  private async publishUnreadCount(userId: number): Promise<void> {
+    this.publish(userId, IN_APP_UNREAD_COUNT_EVENT, {
+      unreadCount: await this.unreadCount(userId),
+    });
+  }
+
+  private publish(userId: number, event: string, payload: object): void {
+    if (!this.publisher) {
+      this.logger.warn(
+        `No publisher registered, ${event} not pushed to user ${userId}`,
+      );
+      return;
+    }
+    this.publisher.publishToUser(userId, event, payload);
+  }
+}
@@ -0,0 +1,272 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InvoiceType } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+
+const DEFAULT_PRIMARY_COLOR = '#2563eb';
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+export interface InvoiceDocumentData {
+  type: InvoiceType;
+  number: string;
+  issuedAt: Date;
+  organization: {
+    name: string;
+    logo?: string | null;
+    primaryColor?: string | null;
+    footerMarkdown?: string | null;
+  };
+  patient: {
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  consultationId: number;
+  amount: number;
+  currency: string;
+  paymentReference?: string | null;
+  paidAt?: Date | null;
+  /** Number of the invoice a credit note corrects. */
+  originalInvoiceNumber?: string;
+  reason?: string | null;
+}
+
+/**
+ * Renders invoices and credit notes with the organization branding: logo,
+ * primary color and markdown footer (printed as plain text).
+ */
+@Injectable()
+export class InvoicePdfService {
+  private readonly logger = new Logger(InvoicePdfService.name);
+
+  async render(data: InvoiceDocumentData): Promise<Buffer> {
+    const logo = await this.loadLogo(data.organization.logo);
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ margin: 50, size: 'A4' });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const color = this.primaryColor(data.organization.primaryColor);
+        this.addHeader(doc, data, color, logo);
+        this.addParties(doc, data);
+        this.addLines(doc, data, color);
+        this.addFooter(doc, data);
+        doc.end();
+      } catch (error) {
+        this.logger.error('Error rendering invoice PDF:', error);
+        reject(error);
+      }
+    });
+  }
+
+  documentTitle(type: InvoiceType): string {
+    return type === InvoiceType.CREDIT_NOTE ? 'Credit Note' : 'Invoice';
+  }
+
+  formatAmount(amount: number, currency: string): string {
+    try {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+      }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+  }
+
+  private addHeader(
+    doc: PDFKit.PDFDocument,
+    data: InvoiceDocumentData,
+    color: string,
+    logo: Buffer | null,
+  ): void {
+    if (logo) {
+      try {
+        doc.image(logo, 50, 45, { fit: [120, 60] });
+      } catch (error) {
+        this.logger.warn(
+          `Skipping unsupported logo of ${data.organization.name}: ${error.message}`,
+        );
+      }
+    }
+
+    doc
+      .fillColor(color)
+      .fontSize(22)
+      .font('Helvetica-Bold')
+      .text(this.documentTitle(data.type).toUpperCase(), 300, 50, {
+        width: 245,
+        align: 'right',
+      });
+
+    doc
+      .fillColor('#1e293b')
+      .fontSize(10)
+      .font('Helvetica')
+      .text(`Number: ${data.number}`, 300, 80, { width: 245, align: 'right' })
+      .text(`Date: ${this.formatDate(data.issuedAt)}`, {
+        width: 245,
+        align: 'right',
+      });
+
+    if (data.originalInvoiceNumber) {
+      doc.text(`Corrects invoice: ${data.originalInvoiceNumber}`, {
+        width: 245,
+        align: 'right',
+      });
+    }
+
+    doc.moveTo(50, 130).lineTo(545, 130).strokeColor(color).stroke();
+    doc.y = 145;
+  }
+
+  private addParties(doc: PDFKit.PDFDocument, data: InvoiceDocumentData): void {
+    const top = doc.y;
+
+    doc.fontSize(10).font('Helvetica-Bold').text('From', 50, top);
+    doc.font('Helvetica').text(data.organization.name, 50, top + 15);
+
+    doc.font('Helvetica-Bold').text('Billed to', 300, top);
+    doc
+      .font('Helvetica')
+      .text(`${data.patient.firstName} ${data.patient.lastName}`, 300, top + 15)
+      .text(data.patient.email, 300);
+
+    doc.x = 50;
+    doc.y = top + 70;
+  }
+
+  private addLines(
+    doc: PDFKit.PDFDocument,
+    data: InvoiceDocumentData,
+    color: string,
+  ): void {
+    const top = doc.y;
+    const isCreditNote = data.type === InvoiceType.CREDIT_NOTE;
+    const amount = isCreditNote ? -data.amount : data.amount;
+
+    doc.rect(50, top, 495, 20).fill(color);
+    doc
+      .fillColor('#ffffff')
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .text('Description', 60, top + 6)
+      .text('Amount', 400, top + 6, { width: 135, align: 'right' });
+
+    const description = isCreditNote
+      ? `Refund for teleconsultation #${data.consultationId}`
+      : `Teleconsultation #${data.consultationId}`;
+
+    doc
+      .fillColor('#1e293b')
+      .font('Helvetica')
+      .text(description, 60, top + 30, { width: 330 })
+      .text(this.formatAmount(amount, data.currency), 400, top + 30, {
+        width: 135,
+        align: 'right',
+      });
+
+    doc
+      .moveTo(50, top + 50)
+      .lineTo(545, top + 50)
+      .strokeColor('#e2e8f0')
+      .stroke();
+
+    doc
+      .font('Helvetica-Bold')
+      .text('Total', 60, top + 60)
+      .text(this.formatAmount(amount, data.currency), 400, top + 60, {
+        width: 135,
+        align: 'right',
+      });
+
+    doc.font('Helvetica').fontSize(9).fillColor('#64748b');
+    doc.x = 50;
+    doc.y = top + 90;
+
+    if (isCreditNote) {
+      if (data.reason) {
+        doc.text(`Reason: ${data.reason}`);
+      }
+      doc.text('This amount has been refunded to the original payment method.');
+    } else if (data.paidAt) {
+      doc.text(`Paid on ${this.formatDate(data.paidAt)}`);
+    }
+    if (data.paymentReference) {
+      doc.text(`Payment reference: ${data.paymentReference}`);
+    }
+  }
+
+  private addFooter(doc: PDFKit.PDFDocument, data: InvoiceDocumentData): void {
+    const footer = this.stripMarkdown(data.organization.footerMarkdown);
+    if (!footer) {
+      return;
+    }
+
+    doc
+      .fontSize(8)
+      .fillColor('#64748b')
+      .text(footer, 50, doc.page.height - 100, {
+        width: 495,
+        align: 'center',
+      });
+  }
+
+  private async loadLogo(logo?: string | null): Promise<Buffer | null> {
+    if (!logo) {
+      return null;
+    }
+
+    try {
+      if (logo.startsWith('data:')) {
+        return Buffer.from(logo.split(',')[1] ?? '', 'base64');
+      }
+      if (!/^https?:\/\//.test(logo)) {
+        return null;
+      }
+
+      const response = await fetch(logo, {
+        signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      this.logger.warn(
+        `Could not load organization logo ${logo}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  private primaryColor(color?: string | null): string {
+    return color && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)
+      ? color
+      : DEFAULT_PRIMARY_COLOR;
+  }
+
+  private stripMarkdown(markdown?: string | null): string {
+    if (!markdown) {
+      return '';
+    }
+    return markdown
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+      .replace(/^#{1,6}\s+/gm, '')
+      .replace(/(\*\*|__|\*|_|`)/g, '')
+      .trim();
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { InvoiceService } from './invoice.service';
+import { QueryInvoiceDto } from './dto/query-invoice.dto';
+
+@ApiTags('Invoices')
+@ApiBearerAuth()
+@Controller('invoice')
+@UseGuards(AuthGuard, RolesGuard)
+export class InvoiceController {
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  @Get('me')
+  @Roles(UserRole.PATIENT)
+  @ApiOperation({ summary: 'List invoices and credit notes of the patient' })
+  async findMine(@Req() req) {
+    const invoices = await this.invoiceService.findForPatient(req.user.id);
+    return ApiResponseDto.success(
+      invoices,
+      'Invoices retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List invoices and credit notes (Admin only)' })
+  async findAll(@Query() query: QueryInvoiceDto, @Req() req: Request) {
+    const result = await this.invoiceService.findAll(query);
+    return ApiResponseDto.success(
+      result,
+      'Invoices retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get(':id/pdf')
+  @Roles(UserRole.ADMIN, UserRole.PATIENT)
+  @ApiOperation({ summary: 'Download an invoice or credit note as PDF' })
+  async downloadPdf(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req,
+    @Res() res: Response,
+  ) {
+    const { number, pdf } = await this.invoiceService.getPdf(id, req.user);
+
+    res
+      .status(HttpStatus.OK)
+      .set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${number}.pdf"`,
+        'Content-Length': pdf.length.toString(),
+      })
+      .send(pdf);
+  }
+}
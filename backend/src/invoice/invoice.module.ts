@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InvoiceController } from './invoice.controller';
+import { InvoiceService } from './invoice.service';
+import { InvoicePdfService } from './invoice-pdf.service';
+import { AuthModule } from '../auth/auth.module';
+import { EmailModule } from '../common/email/email.module';
+
+@Module({
+  imports: [AuthModule, EmailModule],
+  controllers: [InvoiceController],
+  providers: [InvoiceService, InvoicePdfService],
+  exports: [InvoiceService],
+})
+export class InvoiceModule {}
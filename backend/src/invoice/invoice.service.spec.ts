@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { InvoiceType, RefundStatus, UserRole } from '@prisma/client';
+import { InvoiceService } from './invoice.service';
+import { InvoicePdfService } from './invoice-pdf.service';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../common/email/email.service';
+
+// The real EmailService pulls in SendGrid and app-wide config
+jest.mock('../common/email/email.service', () => ({
+  EmailService: class EmailService {},
+}));
+
+describe('InvoiceService', () => {
+  let service: InvoiceService;
+  let dbServiceMock: any;
+  let emailServiceMock: { sendInvoiceEmail: jest.Mock };
+  let payment: any;
+
+  beforeEach(async () => {
+    payment = {
+      id: 7,
+      consultationId: 3,
+      patientId: 11,
+      organizationId: 2,
+      amount: 50,
+      currency: 'USD',
+      providerReference: 'pi_1',
+      paidAt: new Date('2026-10-01T10:00:00Z'),
+      patient: {
+        id: 11,
+        firstName: 'Ada',
+        lastName: 'Patient',
+        email: 'ada@example.com',
+      },
+      organization: {
+        id: 2,
+        name: 'Health NGO',
+        logo: null,
+        primaryColor: '#0f766e',
+        footerMarkdown:
+          '**Health NGO** - [hcw.example.org](https://hcw.example.org)',
+      },
+      refunds: [],
+      invoices: [],
+    };
+
+    let lastNumber = 0;
+    dbServiceMock = {
+      payment: {
+        findUnique: jest.fn(() => payment),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      invoiceSequence: {
+        createMany: jest.fn(),
+        update: jest.fn(() => ({ lastNumber: ++lastNumber })),
+      },
+      invoice: {
+        create: jest.fn(({ data }) => ({ id: lastNumber, ...data })),
+        update: jest.fn(),
+        findUnique: jest.fn(),
+      },
+    };
+    dbServiceMock.$transaction = jest.fn((callback) => callback(dbServiceMock));
+    emailServiceMock = { sendInvoiceEmail: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        InvoicePdfService,
+        { provide: DatabaseService, useValue: dbServiceMock },
+        { provide: EmailService, useValue: emailServiceMock },
+      ],
+    }).compile();
+
+    service = module.get<InvoiceService>(InvoiceService);
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('issues a numbered invoice and emails it once the payment is paid', async () => {
+    await service.syncForPayment(7);
+
+    const { data } = dbServiceMock.invoice.create.mock.calls[0][0];
+    expect(data).toEqual(
+      expect.objectContaining({
+        type: InvoiceType.INVOICE,
+        documentKey: 'INVOICE:7',
+        number: `INV-${new Date().getUTCFullYear()}-000001`,
+        organizationId: 2,
+        amount: 50,
+      }),
+    );
+    expect(Buffer.from(data.pdf).subarray(0, 5).toString()).toBe('%PDF-');
+    expect(emailServiceMock.sendInvoiceEmail).toHaveBeenCalledWith(
+      'ada@example.com',
+      'Ada Patient',
+      'Invoice',
+      data.number,
+      '$50.00',
+      'Health NGO',
+      expect.any(Buffer),
+      2,
+    );
+  });
+
+  it('numbers invoices by the UTC year they are issued in', async () => {
+    jest.useFakeTimers({
+      now: new Date('2026-12-31T23:30:00Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval'],
+    });
+    try {
+      await service.syncForPayment(7);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(dbServiceMock.invoiceSequence.createMany).toHaveBeenCalledWith({
+      data: [{ key: 'org-2:INVOICE:2026' }],
+      skipDuplicates: true,
+    });
+    expect(dbServiceMock.invoice.create.mock.calls[0][0].data.number).toBe(
+      'INV-2026-000001',
+    );
+  });
+
+  it('catches up on documents that failed to issue', async () => {
+    dbServiceMock.payment.findMany.mockResolvedValue([{ id: 7 }]);
+
+    await service.issueMissingDocuments();
+
+    expect(dbServiceMock.payment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ paidAt: { not: null } }),
+      }),
+    );
+    expect(dbServiceMock.invoice.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ documentKey: 'INVOICE:7' }),
+      select: expect.any(Object),
+    });
+  });
+
+  it('does nothing for unpaid payments', async () => {
+    payment.paidAt = null;
+    await service.syncForPayment(7);
+    expect(dbServiceMock.invoice.create).not.toHaveBeenCalled();
+  });
+
+  it('issues a credit note for each completed refund only once', async () => {
+    payment.invoices = [
+      { id: 1, type: InvoiceType.INVOICE, number: 'INV-2026-000001' },
+      { id: 2, type: InvoiceType.CREDIT_NOTE, refundId: 4 },
+    ];
+    payment.refunds = [
+      { id: 4, amount: 10, status: RefundStatus.COMPLETED },
+      {
+        id: 5,
+        amount: 20,
+        status: RefundStatus.COMPLETED,
+        reason: 'Cancelled',
+      },
+      { id: 6, amount: 5, status: RefundStatus.PENDING },
+    ];
+
+    await service.syncForPayment(7);
+
+    expect(dbServiceMock.invoice.create).toHaveBeenCalledTimes(1);
+    expect(dbServiceMock.invoice.create.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({
+        type: InvoiceType.CREDIT_NOTE,
+        documentKey: 'CREDIT_NOTE:5',
+        refundId: 5,
+        amount: 20,
+      }),
+    );
+  });
+
+  it('only lets patients download their own documents', async () => {
+    dbServiceMock.invoice.findUnique.mockResolvedValue({
+      number: 'INV-2026-000001',
+      patientId: 11,
+      pdf: Buffer.from('%PDF-'),
+    });
+
+    await expect(
+      service.getPdf(1, { id: 12, role: UserRole.PATIENT }),
+    ).rejects.toThrow('You are not allowed to download this invoice');
+    await expect(
+      service.getPdf(1, { id: 1, role: UserRole.ADMIN }),
+    ).resolves.toEqual(expect.objectContaining({ number: 'INV-2026-000001' }));
+  });
+});
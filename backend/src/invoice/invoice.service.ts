@@ -0,0 +1,358 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Invoice,
+  InvoiceType,
+  Prisma,
+  RefundStatus,
+  UserRole,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { EmailService } from '../common/email/email.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { InvoiceDocumentData, InvoicePdfService } from './invoice-pdf.service';
+import { QueryInvoiceDto } from './dto/query-invoice.dto';
+
+const PLATFORM_ORGANIZATION_NAME = 'Healthcare Platform';
+
+/** Payments the catch-up job handles per run */
+const CATCH_UP_BATCH_SIZE = 50;
+
+const NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: 'INV',
+  [InvoiceType.CREDIT_NOTE]: 'CN',
+};
+
+type InvoiceSummary = Omit<Invoice, 'pdf'>;
+
+const summarySelect = {
+  id: true,
+  type: true,
+  documentKey: true,
+  number: true,
+  sequenceKey: true,
+  sequence: true,
+  organizationId: true,
+  paymentId: true,
+  refundId: true,
+  patientId: true,
+  amount: true,
+  currency: true,
+  issuedAt: true,
+  emailedAt: true,
+} satisfies Prisma.InvoiceSelect;
+
+const paymentInclude = {
+  patient: true,
+  organization: true,
+  refunds: true,
+  invoices: { select: summarySelect },
+} satisfies Prisma.PaymentInclude;
+
+type PaymentWithDocuments = Prisma.PaymentGetPayload<{
+  include: typeof paymentInclude;
+}>;
+
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly emailService: EmailService,
+    private readonly invoicePdfService: InvoicePdfService,
+  ) {}
+
+  /**
+   * Issues whatever documents a payment is missing: its invoice once it has
+   * been paid, and a credit note for every completed refund. Safe to call
+   * repeatedly; failures are logged so they never break payment processing.
+   */
+  async syncForPayment(paymentId: number): Promise<void> {
+    try {
+      const payment = await this.prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: paymentInclude,
+      });
+      if (!payment?.paidAt) {
+        return;
+      }
+
+      let invoice = payment.invoices.find(
+        (document) => document.type === InvoiceType.INVOICE,
+      );
+      if (!invoice) {
+        invoice = await this.issue(payment, InvoiceType.INVOICE);
+      }
+
+      for (const refund of payment.refunds) {
+        const hasCreditNote = payment.invoices.some(
+          (document) => document.refundId === refund.id,
+        );
+        if (refund.status !== RefundStatus.COMPLETED || hasCreditNote) {
+          continue;
+        }
+        await this.issue(payment, InvoiceType.CREDIT_NOTE, {
+          refund,
+          originalInvoiceNumber: invoice?.number,
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to issue documents for payment ${paymentId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Issues the documents that failed to issue when their payment or refund
+   * was processed. Stripe's retries of the webhook are skipped once the
+   * event is recorded, so nothing else would issue them.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async issueMissingDocuments(): Promise<void> {
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        paidAt: { not: null },
+        OR: [
+          { invoices: { none: { type: InvoiceType.INVOICE } } },
+          {
+            refunds: {
+              some: { status: RefundStatus.COMPLETED, creditNote: null },
+            },
+          },
+        ],
+      },
+      select: { id: true },
+      orderBy: { paidAt: 'asc' },
+      take: CATCH_UP_BATCH_SIZE,
+    });
+    if (payments.length) {
+      this.logger.log(
+        `Issuing missing documents of ${payments.length} payments`,
+      );
+    }
+    for (const { id } of payments) {
+      await this.syncForPayment(id);
+    }
+  }
+
+  async findForPatient(patientId: number): Promise<InvoiceSummary[]> {
+    return this.prisma.invoice.findMany({
+      where: { patientId },
+      select: summarySelect,
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  async findAll(query: QueryInvoiceDto) {
+    const { page = 1, limit = 20, organizationId, patientId, type } = query;
+    const where: Prisma.InvoiceWhereInput = {
+      organizationId,
+      patientId,
+      type,
+    };
+
+    const [invoices, total] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where,
+        select: {
+          ...summarySelect,
+          patient: {
+            select: { id: true, firstName: true, lastName: true, email: true },
+          },
+          organization: { select: { id: true, name: true } },
+        },
+        orderBy: { issuedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.invoice.count({ where }),
+    ]);
+
+    return {
+      invoices,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getPdf(
+    invoiceId: number,
+    user: { id: number; role: UserRole },
+  ): Promise<{ number: string; pdf: Buffer }> {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { number: true, patientId: true, pdf: true },
+    });
+
+    if (!invoice) {
+      throw HttpExceptionHelper.notFound('Invoice not found');
+    }
+    if (user.role !== UserRole.ADMIN && invoice.patientId !== user.id) {
+      throw HttpExceptionHelper.forbidden(
+        'You are not allowed to download this invoice',
+      );
+    }
+
+    return { number: invoice.number, pdf: Buffer.from(invoice.pdf) };
+  }
+
+  private async issue(
+    payment: PaymentWithDocuments,
+    type: InvoiceType,
+    creditNote?: {
+      refund: PaymentWithDocuments['refunds'][number];
+      originalInvoiceNumber?: string;
+    },
+  ): Promise<InvoiceSummary | undefined> {
+    const refund = creditNote?.refund;
+    const documentKey = refund
+      ? `${type}:${refund.id}`
+      : `${type}:${payment.id}`;
+    const issuedAt = new Date();
+    const sequenceKey = this.sequenceKey(
+      payment.organizationId,
+      type,
+      issuedAt,
+    );
+    const amount = Number(refund ? refund.amount : payment.amount);
+
+    await this.prisma.invoiceSequence.createMany({
+      data: [{ key: sequenceKey }],
+      skipDuplicates: true,
+    });
+
+    let invoice: InvoiceSummary;
+    let pdf: Buffer;
+    try {
+      ({ invoice, pdf } = await this.prisma.$transaction(
+        async (tx) => {
+          // Row-locked increment keeps numbers gapless within a sequence
+          const { lastNumber } = await tx.invoiceSequence.update({
+            where: { key: sequenceKey },
+            data: { lastNumber: { increment: 1 } },
+          });
+          const number = `${NUMBER_PREFIXES[type]}-${issuedAt.getUTCFullYear()}-${String(lastNumber).padStart(6, '0')}`;
+
+          const pdf = await this.invoicePdfService.render(
+            this.documentData(
+              payment,
+              type,
+              number,
+              issuedAt,
+              amount,
+              creditNote,
+            ),
+          );
+
+          const invoice = await tx.invoice.create({
+            data: {
+              type,
+              documentKey,
+              number,
+              sequenceKey,
+              sequence: lastNumber,
+              organizationId: payment.organizationId,
+              paymentId: payment.id,
+              refundId: refund?.id,
+              patientId: payment.patientId,
+              amount,
+              currency: payment.currency,
+              pdf: new Uint8Array(pdf),
+              issuedAt,
+            },
+            select: summarySelect,
+          });
+          return { invoice, pdf };
+        },
+        { timeout: 15000 },
+      ));
+    } catch (error) {
+      // Issued concurrently by another webhook or request
+      if (error.code === 'P2002') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Issued ${type} ${invoice.number} for payment ${payment.id}`,
+    );
+    await this.sendToPatient(payment, invoice, pdf);
+    return invoice;
+  }
+
+  private async sendToPatient(
+    payment: PaymentWithDocuments,
+    invoice: InvoiceSummary,
+    pdf: Buffer,
+  ): Promise<void> {
+    try {
+      await this.emailService.sendInvoiceEmail(
+        payment.patient.email,
+        `${payment.patient.firstName} ${payment.patient.lastName}`,
+        this.invoicePdfService.documentTitle(invoice.type),
+        invoice.number,
+        this.invoicePdfService.formatAmount(
+          Number(invoice.amount),
+          invoice.currency,
+        ),
+        payment.organization?.name ?? PLATFORM_ORGANIZATION_NAME,
+        pdf,
+        payment.organizationId,
+      );
+      await this.prisma.invoice.update({
+        where: { id: invoice.id },
+        data: { emailedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Invoice ${invoice.number} was issued but could not be emailed: ${error.message}`,
+      );
+    }
+  }
+
+  private documentData(
+    payment: PaymentWithDocuments,
+    type: InvoiceType,
+    number: string,
+    issuedAt: Date,
+    amount: number,
+    creditNote?: {
+      refund: PaymentWithDocuments['refunds'][number];
+      originalInvoiceNumber?: string;
+    },
+  ): InvoiceDocumentData {
+    return {
+      type,
+      number,
+      issuedAt,
+      organization: payment.organization ?? {
+        name: PLATFORM_ORGANIZATION_NAME,
+      },
+      patient: payment.patient,
+      consultationId: payment.consultationId,
+      amount,
+      currency: payment.currency,
+      paymentReference: payment.providerReference,
+      paidAt: payment.paidAt,
+      originalInvoiceNumber: creditNote?.originalInvoiceNumber,
+      reason: creditNote?.refund.reason,
+    };
+  }
+
+  private sequenceKey(
+    organizationId: number | null,
+    type: InvoiceType,
+    issuedAt: Date,
+  ): string {
+    const owner = organizationId ? `org-${organizationId}` : 'platform';
+    return `${owner}:${type}:${issuedAt.getUTCFullYear()}`;
+  }
+}
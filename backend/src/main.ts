@@ -31,6 +31,8 @@ class ApplicationBootstrap {
       const app = await NestFactory.create<NestExpressApplication>(AppModule, {
         bufferLogs: true,
         abortOnError: false,
+        // Keep the unparsed body around for webhook signature verification
+        rawBody: true,
       });
 
       const configService = app.get(ConfigService);
@@ -0,0 +1,55 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { MessageService, NotificationStatus } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class SearchNotificationsDto {
+  @ApiPropertyOptional({ description: 'Page number', example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ description: 'Items per page', example: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: NotificationStatus })
+  @IsOptional()
+  @IsEnum(NotificationStatus)
+  status?: NotificationStatus;
+
+  @ApiPropertyOptional({ enum: MessageService })
+  @IsOptional()
+  @IsEnum(MessageService)
+  channel?: MessageService;
+
+  @ApiPropertyOptional({
+    description: 'Email address or phone number, partial matches included',
+  })
+  @IsOptional()
+  @IsString()
+  recipient?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by template key' })
+  @IsOptional()
+  @IsString()
+  templateKey?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by consultation ID' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  consultationId?: number;
+
+  @ApiPropertyOptional({ description: 'Filter by recipient user ID' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  userId?: number;
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '../config/config.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationOutboxModule } from './notification-outbox.module';
+import { NotificationOutboxController } from './notification-outbox.controller';
+import { NotificationWebhookController } from './notification-webhook.controller';
+import { NotificationWebhookService } from './notification-webhook.service';
+
+// Kept apart from NotificationOutboxModule, which the email module imports
+// while AuthModule imports the email module
+@Module({
+  imports: [ConfigModule, NotificationOutboxModule, AuthModule],
+  controllers: [NotificationOutboxController, NotificationWebhookController],
+  providers: [NotificationWebhookService],
+})
+export class NotificationOutboxApiModule {}
@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { NotificationOutboxService } from './notification-outbox.service';
+import { SearchNotificationsDto } from './dto/search-notifications.dto';
+
+@ApiTags('Notification outbox')
+@ApiBearerAuth()
+@Controller('notification-outbox')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class NotificationOutboxController {
+  constructor(
+    private readonly notificationOutboxService: NotificationOutboxService,
+  ) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search outbound emails, SMS and WhatsApp messages',
+  })
+  async search(@Query() query: SearchNotificationsDto, @Req() req: Request) {
+    const result = await this.notificationOutboxService.search(query);
+    return ApiResponseDto.success(
+      result,
+      'Notifications retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a notification with its payload' })
+  async findOne(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    const notification = await this.notificationOutboxService.findOne(id);
+    return ApiResponseDto.success(
+      notification,
+      'Notification retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post(':id/resend')
+  @ApiOperation({ summary: 'Send a notification again as a new notification' })
+  async resend(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    const notification = await this.notificationOutboxService.resend(id);
+    return ApiResponseDto.success(notification, 'Notification resent', 201, {
+      requestId: req['id'],
+      path: req.path,
+    });
+  }
+}
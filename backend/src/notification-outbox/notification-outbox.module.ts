@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { NotificationPreferenceModule } from '../notification/notification-preference.module';
+import { NotificationOutboxService } from './notification-outbox.service';
+
+/**
+ * The outbox itself. Channel modules import it to dispatch messages and
+ * register their sender, so it must not import them back.
+ */
+@Module({
+  imports: [DatabaseModule, ConfigModule, NotificationPreferenceModule],
+  providers: [NotificationOutboxService],
+  exports: [NotificationOutboxService],
+})
+export class NotificationOutboxModule {}
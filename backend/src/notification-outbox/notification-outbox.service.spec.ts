@@ -0,0 +1,262 @@
+import {
+  MessageService,
+  NotificationEvent,
+  NotificationStatus,
+} from '@prisma/client';
+import { NotificationOutboxService } from './notification-outbox.service';
+import { NotificationDeliveryError } from './notification-sender.interface';
+
+describe('NotificationOutboxService', () => {
+  let prisma: any;
+  let configService: any;
+  let notificationPreferenceService: { check: jest.Mock };
+  let service: NotificationOutboxService;
+  let smsSender: { channel: MessageService; send: jest.Mock };
+
+  const input = {
+    channel: MessageService.SMS,
+    recipient: '+41791234567',
+    templateKey: 'consultation_reminder_1h',
+    payload: { body: 'Your consultation starts in 1 hour' },
+    consultationId: 42,
+  };
+
+  const record = (overrides: object = {}) => ({
+    id: 1,
+    ...input,
+    status: NotificationStatus.PENDING,
+    attempts: 0,
+    maxAttempts: 3,
+    nextAttemptAt: null,
+    lastError: null,
+    provider: null,
+    providerMessageId: null,
+    deliveredAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    prisma = {
+      outboundNotification: {
+        create: jest.fn(({ data }) => Promise.resolve(record(data))),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(({ data }) => Promise.resolve(record(data))),
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn(),
+      },
+      user: {
+        findFirst: jest.fn().mockResolvedValue({ id: 9 }),
+      },
+    };
+    configService = {
+      notificationMaxAttempts: 3,
+      notificationRetryBaseDelaySeconds: 60,
+    };
+    notificationPreferenceService = {
+      check: jest.fn().mockResolvedValue({ allowed: true }),
+    };
+    service = new NotificationOutboxService(
+      prisma,
+      configService,
+      notificationPreferenceService as any,
+    );
+    smsSender = {
+      channel: MessageService.SMS,
+      send: jest
+        .fn()
+        .mockResolvedValue({ provider: 'twilio', providerMessageId: 'SM123' }),
+    };
+    service.registerSender(smsSender);
+  });
+
+  it('records the notification and sends it right away', async () => {
+    const notification = await service.dispatch(input);
+
+    expect(prisma.outboundNotification.create).toHaveBeenCalledWith({
+      data: { ...input, userId: null, maxAttempts: 3 },
+    });
+    expect(smsSender.send).toHaveBeenCalledTimes(1);
+    expect(notification).toEqual(
+      expect.objectContaining({
+        status: NotificationStatus.SENT,
+        provider: 'twilio',
+        providerMessageId: 'SM123',
+      }),
+    );
+  });
+
+  it('skips notifications the recipient turned off', async () => {
+    notificationPreferenceService.check.mockResolvedValue({
+      allowed: false,
+      reason: 'REMINDER notifications by SMS are turned off',
+    });
+
+    const notification = await service.dispatch({
+      ...input,
+      event: NotificationEvent.REMINDER,
+    });
+
+    expect(prisma.user.findFirst).toHaveBeenCalledWith({
+      where: { phoneNumber: '+41791234567' },
+      select: { id: true },
+    });
+    expect(notificationPreferenceService.check).toHaveBeenCalledWith(
+      9,
+      NotificationEvent.REMINDER,
+      'SMS',
+    );
+    expect(notification.status).toBe(NotificationStatus.SKIPPED);
+    expect(smsSender.send).not.toHaveBeenCalled();
+  });
+
+  it('holds notifications back during quiet hours', async () => {
+    const deferUntil = new Date('2030-03-05T06:00:00Z');
+    notificationPreferenceService.check.mockResolvedValue({
+      allowed: true,
+      deferUntil,
+    });
+
+    const notification = await service.dispatch({
+      ...input,
+      userId: 9,
+      event: NotificationEvent.REMINDER,
+    });
+
+    expect(notification.status).toBe(NotificationStatus.PENDING);
+    expect(notification.nextAttemptAt).toEqual(deferUntil);
+    expect(smsSender.send).not.toHaveBeenCalled();
+  });
+
+  it('skips notifications quiet hours hold back until they are out of date', async () => {
+    notificationPreferenceService.check.mockResolvedValue({
+      allowed: true,
+      deferUntil: new Date('2030-03-05T06:00:00Z'),
+    });
+
+    const notification = await service.dispatch(
+      { ...input, userId: 9, event: NotificationEvent.REMINDER },
+      { expiresAt: new Date('2030-03-05T05:30:00Z') },
+    );
+
+    expect(notification.status).toBe(NotificationStatus.SKIPPED);
+    expect(notification.nextAttemptAt).toBeFalsy();
+    expect(smsSender.send).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry with exponential backoff', async () => {
+    smsSender.send.mockRejectedValue(new Error('Gateway timeout'));
+    prisma.outboundNotification.create.mockResolvedValue(
+      record({ attempts: 1 }),
+    );
+    const before = Date.now();
+
+    const notification = await service.dispatch(input);
+
+    expect(notification.status).toBe(NotificationStatus.PENDING);
+    expect(notification.lastError).toBe('Gateway timeout');
+    // Second attempt: twice the base delay
+    const delay = notification.nextAttemptAt!.getTime() - before;
+    expect(delay).toBeGreaterThanOrEqual(120_000);
+    expect(delay).toBeLessThan(121_000);
+  });
+
+  it('gives up after the last attempt', async () => {
+    smsSender.send.mockRejectedValue(new Error('Gateway timeout'));
+    prisma.outboundNotification.create.mockResolvedValue(
+      record({ attempts: 2 }),
+    );
+
+    const notification = await service.dispatch(input);
+
+    expect(notification.status).toBe(NotificationStatus.FAILED);
+    expect(notification.nextAttemptAt).toBeNull();
+  });
+
+  it('does not retry permanent failures', async () => {
+    smsSender.send.mockRejectedValue(
+      new NotificationDeliveryError('Invalid phone number', false),
+    );
+
+    const notification = await service.dispatch(input);
+
+    expect(notification.status).toBe(NotificationStatus.FAILED);
+    expect(notification.lastError).toBe('Invalid phone number');
+  });
+
+  it('fails channels without a sender', async () => {
+    const notification = await service.dispatch({
+      ...input,
+      channel: MessageService.WHATSAPP,
+    });
+
+    expect(notification.status).toBe(NotificationStatus.FAILED);
+    expect(notification.lastError).toContain('No sender registered');
+  });
+
+  it('skips notifications another retry job already claimed', async () => {
+    prisma.outboundNotification.findMany.mockResolvedValue([
+      record({ nextAttemptAt: new Date() }),
+    ]);
+    prisma.outboundNotification.updateMany.mockResolvedValue({ count: 0 });
+
+    await service.retryDueNotifications();
+
+    expect(smsSender.send).not.toHaveBeenCalled();
+  });
+
+  it('resends a notification as a new one', async () => {
+    prisma.outboundNotification.findUnique.mockResolvedValue(
+      record({ id: 5, status: NotificationStatus.FAILED }),
+    );
+
+    await service.resend(5);
+
+    expect(prisma.outboundNotification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        recipient: '+41791234567',
+        payload: input.payload,
+        resentFromId: 5,
+      }),
+    });
+    expect(notificationPreferenceService.check).not.toHaveBeenCalled();
+    expect(smsSender.send).toHaveBeenCalled();
+  });
+
+  describe('updateDeliveryStatus', () => {
+    it('records deliveries', async () => {
+      prisma.outboundNotification.findMany.mockResolvedValue([
+        record({ status: NotificationStatus.SENT }),
+      ]);
+
+      const updated = await service.updateDeliveryStatus(
+        'twilio',
+        'SM123',
+        NotificationStatus.DELIVERED,
+      );
+
+      expect(updated).toBe(1);
+      expect(prisma.outboundNotification.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({
+          status: NotificationStatus.DELIVERED,
+          deliveredAt: expect.any(Date),
+        }),
+      });
+    });
+
+    it('ignores callbacks arriving after a later status', async () => {
+      prisma.outboundNotification.findMany.mockResolvedValue([
+        record({ status: NotificationStatus.READ }),
+      ]);
+
+      const updated = await service.updateDeliveryStatus(
+        'twilio',
+        'SM123',
+        NotificationStatus.DELIVERED,
+      );
+
+      expect(updated).toBe(0);
+      expect(prisma.outboundNotification.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  MessageService,
+  NotificationEvent,
+  NotificationStatus,
+  OutboundNotification,
+  Prisma,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import {
+  MESSAGE_SERVICE_CHANNELS,
+  NotificationPreferenceService,
+} from '../notification/notification-preference.service';
+import {
+  NotificationDeliveryError,
+  NotificationSender,
+} from './notification-sender.interface';
+import { SearchNotificationsDto } from './dto/search-notifications.dto';
+
+// Notifications retried per run of the retry job
+const RETRY_BATCH_SIZE = 50;
+
+// Provider callbacks only move a notification forward, so that a late
+// "sent" callback does not hide a delivery
+const STATUS_RANK: Record<NotificationStatus, number> = {
+  PENDING: 0,
+  SENT: 1,
+  FAILED: 2,
+  SKIPPED: 2,
+  DELIVERED: 2,
+  READ: 3,
+};
+
+export interface NotificationInput {
+  channel: MessageService;
+  /** Email address or phone number */
+  recipient: string;
+  templateKey?: string | null;
+  /**
+   * Event of the recipient's notification preferences that applies; the
+   * recipient is looked up by address when `userId` is not given
+   */
+  event?: NotificationEvent | null;
+  /** Everything the sender of the channel needs to build the message again */
+  payload: Prisma.InputJsonObject;
+  consultationId?: number | null;
+  userId?: number | null;
+  /** Notification this one sends again */
+  resentFromId?: number | null;
+}
+
+export interface DispatchOptions {
+  maxAttempts?: number;
+  ignorePreferences?: boolean;
+  /** Messages quiet hours would hold back past this are skipped */
+  expiresAt?: Date;
+}
+
+/**
+ * Records every outbound message before handing it to the sender of its
+ * channel. Failed sends are retried with exponential backoff until
+ * `maxAttempts`, and provider callbacks update the delivery status.
+ */
+@Injectable()
+export class NotificationOutboxService {
+  private readonly logger = new Logger(NotificationOutboxService.name);
+  private readonly senders = new Map<MessageService, NotificationSender>();
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly notificationPreferenceService: NotificationPreferenceService,
+  ) {}
+
+  /** Called by the module owning a channel, which the outbox cannot import */
+  registerSender(sender: NotificationSender): void {
+    this.senders.set(sender.channel, sender);
+  }
+
+  /**
+   * Records a notification and attempts it right away. The returned record
+   * is SENT, PENDING when a retry is scheduled or the recipient's quiet
+   * hours hold it back, SKIPPED when the recipient turned it off or quiet
+   * hours last past `expiresAt`, or FAILED.
+   */
+  async dispatch(
+    input: NotificationInput,
+    options: DispatchOptions = {},
+  ): Promise<OutboundNotification> {
+    const userId =
+      input.userId ?? (input.event ? await this.findRecipient(input) : null);
+    const channel = MESSAGE_SERVICE_CHANNELS[input.channel];
+    const decision =
+      input.event && userId && channel && !options.ignorePreferences
+        ? await this.notificationPreferenceService.check(
+            userId,
+            input.event,
+            channel,
+          )
+        : null;
+    const expired =
+      decision?.allowed &&
+      decision.deferUntil &&
+      options.expiresAt &&
+      decision.deferUntil >= options.expiresAt;
+
+    const notification = await this.prisma.outboundNotification.create({
+      data: {
+        ...input,
+        userId,
+        maxAttempts: Math.max(
+          1,
+          options.maxAttempts ?? this.configService.notificationMaxAttempts,
+        ),
+        ...(decision?.allowed === false && {
+          status: NotificationStatus.SKIPPED,
+          lastError: decision.reason,
+        }),
+        ...(expired && {
+          status: NotificationStatus.SKIPPED,
+          lastError: 'Quiet hours last until the message is out of date',
+        }),
+        ...(decision?.allowed &&
+          decision.deferUntil &&
+          !expired && {
+            nextAttemptAt: decision.deferUntil,
+          }),
+      },
+    });
+
+    if (notification.status === NotificationStatus.SKIPPED) {
+      this.logger.log(
+        `Notification ${notification.id} to ${notification.recipient} skipped: ${notification.lastError}`,
+      );
+      return notification;
+    }
+    if (notification.nextAttemptAt) {
+      this.logger.log(
+        `Notification ${notification.id} to ${notification.recipient} held back by quiet hours until ${notification.nextAttemptAt.toISOString()}`,
+      );
+      return notification;
+    }
+    return this.attempt(notification);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async retryDueNotifications(): Promise<void> {
+    try {
+      const due = await this.prisma.outboundNotification.findMany({
+        where: {
+          status: NotificationStatus.PENDING,
+          nextAttemptAt: { lte: new Date() },
+        },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: RETRY_BATCH_SIZE,
+      });
+      if (due.length) {
+        this.logger.log(`Retrying ${due.length} notifications`);
+      }
+      for (const notification of due) {
+        await this.attempt(notification);
+      }
+    } catch (error) {
+      this.logger.error('Error retrying notifications:', error);
+    }
+  }
+
+  async search(query: SearchNotificationsDto) {
+    const { page = 1, limit = 20, recipient, ...filters } = query;
+    const where: Prisma.OutboundNotificationWhereInput = {
+      status: filters.status,
+      channel: filters.channel,
+      templateKey: filters.templateKey,
+      consultationId: filters.consultationId,
+      userId: filters.userId,
+      recipient: recipient?.trim()
+        ? { contains: recipient.trim(), mode: 'insensitive' }
+        : undefined,
+    };
+
+    const [notifications, total] = await Promise.all([
+      this.prisma.outboundNotification.findMany({
+        where,
+        // Payloads can hold attachments, they are only returned by findOne
+        omit: { payload: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.outboundNotification.count({ where }),
+    ]);
+
+    return {
+      notifications,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findOne(id: number): Promise<OutboundNotification> {
+    const notification = await this.prisma.outboundNotification.findUnique({
+      where: { id },
+    });
+    if (!notification) {
+      throw HttpExceptionHelper.notFound('Notification not found');
+    }
+    return notification;
+  }
+
+  /**
+   * Sends a notification again as a new record, whatever its status and
+   * the recipient's preferences
+   */
+  async resend(id: number): Promise<OutboundNotification> {
+    const original = await this.findOne(id);
+    return this.dispatch(
+      {
+        channel: original.channel,
+        recipient: original.recipient,
+        templateKey: original.templateKey,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonObject,
+        consultationId: original.consultationId,
+        userId: original.userId,
+        resentFromId: original.id,
+      },
+      { ignorePreferences: true },
+    );
+  }
+
+  /**
+   * Applies a delivery callback of a provider. Returns the number of
+   * notifications updated, 0 for unknown or outdated callbacks.
+   */
+  async updateDeliveryStatus(
+    provider: string,
+    providerMessageId: string,
+    status: NotificationStatus,
+    error?: string | null,
+  ): Promise<number> {
+    const notifications = await this.prisma.outboundNotification.findMany({
+      where: { provider, providerMessageId },
+    });
+
+    let updated = 0;
+    for (const notification of notifications) {
+      if (STATUS_RANK[status] <= STATUS_RANK[notification.status]) {
+        continue;
+      }
+      await this.prisma.outboundNotification.update({
+        where: { id: notification.id },
+        data: {
+          status,
+          lastError:
+            status === NotificationStatus.FAILED
+              ? error || 'Rejected by the provider'
+              : notification.lastError,
+          deliveredAt:
+            status === NotificationStatus.DELIVERED ||
+            status === NotificationStatus.READ
+              ? (notification.deliveredAt ?? new Date())
+              : notification.deliveredAt,
+        },
+      });
+      updated++;
+    }
+    return updated;
+  }
+
+  private async findRecipient(
+    input: NotificationInput,
+  ): Promise<number | null> {
+    const user = await this.prisma.user.findFirst({
+      where:
+        input.channel === MessageService.EMAIL
+          ? { email: { equals: input.recipient.trim(), mode: 'insensitive' } }
+          : { phoneNumber: input.recipient },
+      select: { id: true },
+    });
+    return user?.id ?? null;
+  }
+
+  private async attempt(
+    notification: OutboundNotification,
+  ): Promise<OutboundNotification> {
+    // Claim the attempt, so that a retry job running elsewhere skips it
+    const { count } = await this.prisma.outboundNotification.updateMany({
+      where: {
+        id: notification.id,
+        status: NotificationStatus.PENDING,
+        attempts: notification.attempts,
+      },
+      data: { attempts: { increment: 1 }, nextAttemptAt: null },
+    });
+    if (count === 0) {
+      return notification;
+    }
+    const attempts = notification.attempts + 1;
+
+    try {
+      const sender = this.senders.get(notification.channel);
+      if (!sender) {
+        throw new NotificationDeliveryError(
+          `No sender registered for ${notification.channel} notifications`,
+          false,
+        );
+      }
+      const result = await sender.send(notification);
+      this.logger.log(
+        `Notification ${notification.id} sent to ${notification.recipient} through ${result.provider} (attempt ${attempts})`,
+      );
+      return await this.prisma.outboundNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: NotificationStatus.SENT,
+          provider: result.provider,
+          providerMessageId: result.providerMessageId ?? null,
+          lastError: null,
+          sentAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = error?.message || String(error);
+      const retry =
+        error?.retryable !== false && attempts < notification.maxAttempts;
+      const nextAttemptAt = retry
+        ? new Date(
+            Date.now() +
+              this.configService.notificationRetryBaseDelaySeconds *
+                1000 *
+                Math.pow(2, attempts - 1),
+          )
+        : null;
+
+      this.logger.warn(
+        `Notification ${notification.id} to ${notification.recipient} failed (attempt ${attempts}/${notification.maxAttempts}): ${message}${retry ? `, retrying at ${nextAttemptAt!.toISOString()}` : ''}`,
+      );
+      return this.prisma.outboundNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: retry
+            ? NotificationStatus.PENDING
+            : NotificationStatus.FAILED,
+          nextAttemptAt,
+          lastError: message,
+        },
+      });
+    }
+  }
+}
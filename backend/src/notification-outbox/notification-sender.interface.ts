@@ -0,0 +1,31 @@
+import { MessageService, OutboundNotification } from '@prisma/client';
+
+export interface NotificationSendResult {
+  /** Provider that accepted the message, e.g. sendgrid or twilio */
+  provider: string;
+  /** Id of the message at the provider, matched by delivery callbacks */
+  providerMessageId?: string | null;
+}
+
+/**
+ * Delivery failure of a sender. Permanent failures, such as a rejected
+ * recipient or a missing sender number, are not retried.
+ */
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Delivers the outbox notifications of one channel from their stored
+ * payload. Senders throw when a message is not accepted; any error other
+ * than a non-retryable `NotificationDeliveryError` is retried.
+ */
+export interface NotificationSender {
+  readonly channel: MessageService;
+  send(notification: OutboundNotification): Promise<NotificationSendResult>;
+}
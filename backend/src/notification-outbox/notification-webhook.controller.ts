@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  RawBodyRequest,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { NotificationWebhookService } from './notification-webhook.service';
+
+@ApiTags('Notification webhooks')
+@Controller('notification-outbox/webhooks')
+@SkipThrottle()
+export class NotificationWebhookController {
+  constructor(
+    private readonly notificationWebhookService: NotificationWebhookService,
+  ) {}
+
+  @Post('twilio')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Receive signed Twilio status callbacks of SMS and WhatsApp messages',
+  })
+  @ApiResponse({ status: 200, description: 'Callback applied or ignored' })
+  @ApiResponse({ status: 400, description: 'Missing or invalid signature' })
+  async handleTwilioStatus(
+    @Body() body: Record<string, string>,
+    @Headers('x-twilio-signature') signature: string,
+    @Req() req: Request,
+  ) {
+    const result = await this.notificationWebhookService.handleTwilioStatus(
+      body,
+      signature,
+    );
+    return ApiResponseDto.success(result, 'Status callback processed', 200, {
+      requestId: req['id'],
+      path: req.path,
+    });
+  }
+
+  @Post('sendgrid')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive signed SendGrid email events' })
+  @ApiResponse({ status: 200, description: 'Events applied or ignored' })
+  @ApiResponse({ status: 400, description: 'Missing or invalid signature' })
+  async handleSendgridEvents(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-twilio-email-event-webhook-signature') signature: string,
+    @Headers('x-twilio-email-event-webhook-timestamp') timestamp: string,
+  ) {
+    const result = await this.notificationWebhookService.handleSendgridEvents(
+      req.rawBody,
+      signature,
+      timestamp,
+    );
+    return ApiResponseDto.success(result, 'Events processed', 200, {
+      requestId: req['id'],
+      path: req.path,
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { NotificationStatus } from '@prisma/client';
+import { createSign, generateKeyPairSync } from 'crypto';
+import twilio from 'twilio';
+import { NotificationWebhookService } from './notification-webhook.service';
+
+describe('NotificationWebhookService', () => {
+  const callbackUrl =
+    'https://api.example.com/api/v1/notification-outbox/webhooks/twilio';
+  const { publicKey, privateKey } = generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+  });
+
+  let configService: any;
+  let notificationOutboxService: { updateDeliveryStatus: jest.Mock };
+  let service: NotificationWebhookService;
+
+  beforeEach(() => {
+    configService = {
+      twilioAuthToken: 'twilio-secret',
+      twilioStatusCallbackUrl: callbackUrl,
+      sendgridWebhookPublicKey: publicKey
+        .export({ format: 'der', type: 'spki' })
+        .toString('base64'),
+    };
+    notificationOutboxService = {
+      updateDeliveryStatus: jest.fn().mockResolvedValue(1),
+    };
+    service = new NotificationWebhookService(
+      configService,
+      notificationOutboxService as any,
+    );
+  });
+
+  describe('handleTwilioStatus', () => {
+    const params = {
+      MessageSid: 'SM123',
+      MessageStatus: 'undelivered',
+      ErrorCode: '30003',
+    };
+
+    it('applies signed status callbacks', async () => {
+      const signature = twilio.getExpectedTwilioSignature(
+        'twilio-secret',
+        callbackUrl,
+        params,
+      );
+
+      const result = await service.handleTwilioStatus(params, signature);
+
+      expect(result).toEqual({ received: 1, updated: 1 });
+      expect(
+        notificationOutboxService.updateDeliveryStatus,
+      ).toHaveBeenCalledWith(
+        'twilio',
+        'SM123',
+        NotificationStatus.FAILED,
+        'Twilio error 30003',
+      );
+    });
+
+    it('rejects callbacks with an invalid signature', async () => {
+      await expect(
+        service.handleTwilioStatus(params, 'forged'),
+      ).rejects.toThrow('Invalid Twilio signature');
+      expect(
+        notificationOutboxService.updateDeliveryStatus,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSendgridEvents', () => {
+    const body = Buffer.from(
+      JSON.stringify([
+        {
+          event: 'processed',
+          sg_message_id: 'abc123.filter0001.16648.5515E0B88.0',
+        },
+        {
+          event: 'delivered',
+          sg_message_id: 'abc123.filter0001.16648.5515E0B88.0',
+        },
+        {
+          event: 'bounce',
+          sg_message_id: 'def456.filter0002.1.2.0',
+          reason: '550 Mailbox unavailable',
+        },
+      ]),
+    );
+    const timestamp = '1700000000';
+    const sign = (payload: Buffer) =>
+      createSign('sha256')
+        .update(timestamp)
+        .update(payload)
+        .sign(privateKey, 'base64');
+
+    it('applies signed events by X-Message-Id', async () => {
+      const result = await service.handleSendgridEvents(
+        body,
+        sign(body),
+        timestamp,
+      );
+
+      expect(result).toEqual({ received: 3, updated: 2 });
+      expect(
+        notificationOutboxService.updateDeliveryStatus,
+      ).toHaveBeenCalledWith(
+        'sendgrid',
+        'abc123',
+        NotificationStatus.DELIVERED,
+        null,
+      );
+      expect(
+        notificationOutboxService.updateDeliveryStatus,
+      ).toHaveBeenCalledWith(
+        'sendgrid',
+        'def456',
+        NotificationStatus.FAILED,
+        'SendGrid bounce: 550 Mailbox unavailable',
+      );
+    });
+
+    it('rejects events signed for another body', async () => {
+      await expect(
+        service.handleSendgridEvents(body, sign(Buffer.from('[]')), timestamp),
+      ).rejects.toThrow('Invalid SendGrid signature');
+    });
+  });
+});
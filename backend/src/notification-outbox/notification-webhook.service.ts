@@ -0,0 +1,153 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationStatus } from '@prisma/client';
+import { createPublicKey, createVerify } from 'crypto';
+import twilio from 'twilio';
+import { ConfigService } from '../config/config.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { NotificationOutboxService } from './notification-outbox.service';
+
+// Twilio message statuses worth recording; queued, sending and the like
+// are steps before `sent`
+const TWILIO_STATUSES: Record<string, NotificationStatus> = {
+  sent: NotificationStatus.SENT,
+  delivered: NotificationStatus.DELIVERED,
+  read: NotificationStatus.READ,
+  undelivered: NotificationStatus.FAILED,
+  failed: NotificationStatus.FAILED,
+};
+
+const SENDGRID_EVENTS: Record<string, NotificationStatus> = {
+  delivered: NotificationStatus.DELIVERED,
+  open: NotificationStatus.READ,
+  bounce: NotificationStatus.FAILED,
+  dropped: NotificationStatus.FAILED,
+};
+
+export interface SendgridEvent {
+  event: string;
+  sg_message_id?: string;
+  reason?: string;
+}
+
+export interface DeliveryCallbackResult {
+  received: number;
+  updated: number;
+}
+
+/** Verifies delivery callbacks of Twilio and SendGrid and applies them */
+@Injectable()
+export class NotificationWebhookService {
+  private readonly logger = new Logger(NotificationWebhookService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly notificationOutboxService: NotificationOutboxService,
+  ) {}
+
+  /** Status callback of an SMS or WhatsApp message, posted as a form */
+  async handleTwilioStatus(
+    params: Record<string, string>,
+    signature: string | undefined,
+  ): Promise<DeliveryCallbackResult> {
+    if (!signature) {
+      throw HttpExceptionHelper.badRequest('Missing Twilio signature');
+    }
+    const valid = twilio.validateRequest(
+      this.configService.twilioAuthToken,
+      signature,
+      this.configService.twilioStatusCallbackUrl,
+      params,
+    );
+    if (!valid) {
+      this.logger.warn('Rejected Twilio status callback: invalid signature');
+      throw HttpExceptionHelper.badRequest('Invalid Twilio signature');
+    }
+
+    const status = TWILIO_STATUSES[params.MessageStatus?.toLowerCase()];
+    if (!params.MessageSid || !status) {
+      return { received: 1, updated: 0 };
+    }
+    const updated = await this.notificationOutboxService.updateDeliveryStatus(
+      'twilio',
+      params.MessageSid,
+      status,
+      params.ErrorCode ? `Twilio error ${params.ErrorCode}` : null,
+    );
+    return { received: 1, updated };
+  }
+
+  /** Batch of events of the signed SendGrid event webhook */
+  async handleSendgridEvents(
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    timestamp: string | undefined,
+  ): Promise<DeliveryCallbackResult> {
+    const publicKey = this.configService.sendgridWebhookPublicKey;
+    if (!publicKey) {
+      throw HttpExceptionHelper.internalServerError(
+        'SendGrid webhook public key is not configured',
+      );
+    }
+    if (!rawBody || !signature || !timestamp) {
+      throw HttpExceptionHelper.badRequest(
+        'Missing SendGrid signature, timestamp or body',
+      );
+    }
+    if (
+      !this.verifySendgridSignature(publicKey, rawBody, signature, timestamp)
+    ) {
+      this.logger.warn('Rejected SendGrid event webhook: invalid signature');
+      throw HttpExceptionHelper.badRequest('Invalid SendGrid signature');
+    }
+
+    let events: SendgridEvent[];
+    try {
+      events = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw HttpExceptionHelper.badRequest('Invalid SendGrid event payload');
+    }
+    if (!Array.isArray(events)) {
+      throw HttpExceptionHelper.badRequest('Invalid SendGrid event payload');
+    }
+
+    let updated = 0;
+    for (const event of events) {
+      const status = SENDGRID_EVENTS[event.event];
+      if (!status || !event.sg_message_id) {
+        continue;
+      }
+      // sg_message_id is the X-Message-Id of the send followed by
+      // ".filter…" routing details
+      const messageId = event.sg_message_id.split('.')[0];
+      updated += await this.notificationOutboxService.updateDeliveryStatus(
+        'sendgrid',
+        messageId,
+        status,
+        event.reason ? `SendGrid ${event.event}: ${event.reason}` : null,
+      );
+    }
+    return { received: events.length, updated };
+  }
+
+  private verifySendgridSignature(
+    publicKey: string,
+    rawBody: Buffer,
+    signature: string,
+    timestamp: string,
+  ): boolean {
+    try {
+      const key = createPublicKey({
+        key: Buffer.from(publicKey, 'base64'),
+        format: 'der',
+        type: 'spki',
+      });
+      const verifier = createVerify('sha256');
+      verifier.update(timestamp);
+      verifier.update(rawBody);
+      return verifier.verify(key, signature, 'base64');
+    } catch (error) {
+      this.logger.warn(`Could not verify SendGrid signature: ${error.message}`);
+      return false;
+    }
+  }
+}
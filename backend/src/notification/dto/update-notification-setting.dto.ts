@@ -1,11 +1,72 @@
-import { IsBoolean, IsOptional, IsString, Matches,IsPhoneNumber } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationChannel, NotificationEvent } from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsPhoneNumber,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class NotificationPreferenceDto {
+  @ApiProperty({ enum: NotificationEvent })
+  @IsEnum(NotificationEvent)
+  event: NotificationEvent;
+
+  @ApiProperty({ enum: NotificationChannel })
+  @IsEnum(NotificationChannel)
+  channel: NotificationChannel;
+
+  @ApiProperty()
+  @IsBoolean()
+  enabled: boolean;
+}
 
 export class UpdateNotificationSettingDto {
+  @ApiPropertyOptional({ description: 'Turns every notification on or off' })
   @IsOptional()
   @IsBoolean()
   enabled?: boolean;
 
+  @ApiPropertyOptional()
   @IsOptional()
   @IsPhoneNumber(undefined, { message: 'Invalid phone number' }) 
   phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Start of the quiet hours (HH:mm), null to remove them',
+    example: '22:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quietHoursStart must be HH:mm' })
+  quietHoursStart?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'End of the quiet hours (HH:mm), null to remove them',
+    example: '07:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'quietHoursEnd must be HH:mm' })
+  quietHoursEnd?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'IANA timezone of the quiet hours',
+    example: 'Europe/Zurich',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ type: [NotificationPreferenceDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => NotificationPreferenceDto)
+  preferences?: NotificationPreferenceDto[];
 }
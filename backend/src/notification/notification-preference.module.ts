@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { NotificationPreferenceService } from './notification-preference.service';
+
+// Without the controller of NotificationModule, so that the notification
+// outbox can use it while AuthModule depends on the outbox
+@Module({
+  imports: [DatabaseModule, ConfigModule],
+  providers: [NotificationPreferenceService],
+  exports: [NotificationPreferenceService],
+})
+export class NotificationPreferenceModule {}
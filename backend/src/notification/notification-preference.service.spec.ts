@@ -0,0 +1,130 @@
+import { NotificationChannel, NotificationEvent } from '@prisma/client';
+import {
+  NotificationPreferenceService,
+  quietHoursEnd,
+} from './notification-preference.service';
+
+describe('NotificationPreferenceService', () => {
+  let prisma: { user: { findUnique: jest.Mock } };
+  let service: NotificationPreferenceService;
+
+  const userWith = (setting: object | null, preferences: object[] = []) =>
+    prisma.user.findUnique.mockResolvedValue({
+      UserNotificationSetting: setting && {
+        enabled: true,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        timezone: null,
+        ...setting,
+      },
+      notificationPreferences: preferences,
+    });
+
+  beforeEach(() => {
+    prisma = { user: { findUnique: jest.fn() } };
+    service = new NotificationPreferenceService(
+      prisma as any,
+      { defaultTimezone: 'UTC' } as any,
+    );
+  });
+
+  it('allows notifications users never configured', async () => {
+    userWith(null);
+
+    await expect(
+      service.check(1, NotificationEvent.REMINDER, NotificationChannel.SMS),
+    ).resolves.toEqual({ allowed: true });
+  });
+
+  it('honours the global switch', async () => {
+    userWith({ enabled: false });
+
+    const decision = await service.check(
+      1,
+      NotificationEvent.REMINDER,
+      NotificationChannel.EMAIL,
+    );
+
+    expect(decision.allowed).toBe(false);
+  });
+
+  it('honours turned off events per channel', async () => {
+    userWith({}, [{ enabled: false }]);
+
+    await expect(
+      service.check(
+        1,
+        NotificationEvent.CHAT_MESSAGE,
+        NotificationChannel.WHATSAPP,
+      ),
+    ).resolves.toEqual({
+      allowed: false,
+      reason: 'CHAT_MESSAGE notifications by WHATSAPP are turned off',
+    });
+  });
+
+  it('defers notifications during quiet hours in the user timezone', async () => {
+    userWith({
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00',
+      timezone: 'Europe/Zurich',
+    });
+
+    // 23:30 in Zurich (winter time)
+    const decision = await service.check(
+      1,
+      NotificationEvent.REMINDER,
+      NotificationChannel.SMS,
+      new Date('2030-01-15T22:30:00Z'),
+    );
+
+    expect(decision).toEqual({
+      allowed: true,
+      deferUntil: new Date('2030-01-16T06:00:00Z'),
+    });
+  });
+
+  it('does not hold back in-app notifications', async () => {
+    userWith({ quietHoursStart: '00:00', quietHoursEnd: '23:59' });
+
+    await expect(
+      service.check(
+        1,
+        NotificationEvent.PATIENT_WAITING,
+        NotificationChannel.IN_APP,
+      ),
+    ).resolves.toEqual({ allowed: true });
+  });
+});
+
+describe('quietHoursEnd', () => {
+  it('returns null outside the quiet hours', () => {
+    expect(
+      quietHoursEnd('22:00', '07:00', 'UTC', new Date('2030-01-15T12:00:00Z')),
+    ).toBeNull();
+  });
+
+  it('handles windows within a day', () => {
+    expect(
+      quietHoursEnd('12:00', '14:00', 'UTC', new Date('2030-01-15T13:15:30Z')),
+    ).toEqual(new Date('2030-01-15T14:00:00Z'));
+  });
+
+  it('handles windows spanning midnight', () => {
+    expect(
+      quietHoursEnd('22:00', '07:00', 'UTC', new Date('2030-01-16T05:00:00Z')),
+    ).toEqual(new Date('2030-01-16T07:00:00Z'));
+  });
+
+  it('ends at the local time when clocks change during the night', () => {
+    // 23:00 in Zurich before clocks go forward on 31 March 2030
+    expect(
+      quietHoursEnd(
+        '22:00',
+        '07:00',
+        'Europe/Zurich',
+        new Date('2030-03-30T22:00:00Z'),
+      ),
+    ).toEqual(new Date('2030-03-31T05:00:00Z'));
+  });
+});
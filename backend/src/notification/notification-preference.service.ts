@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import {
+  MessageService,
+  NotificationChannel,
+  NotificationEvent,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { isValidTimezone } from '../i18n/i18n.service';
+import {
+  addCalendarDays,
+  toZonedParts,
+  zonedTimeToUtcShifted,
+} from '../common/helpers/timezone.helper';
+
+export type PreferenceDecision =
+  { allowed: true; deferUntil?: Date } | { allowed: false; reason: string };
+
+/** Preference channel of an outbound message service */
+export const MESSAGE_SERVICE_CHANNELS: Partial<
+  Record<MessageService, NotificationChannel>
+> = {
+  [MessageService.EMAIL]: NotificationChannel.EMAIL,
+  [MessageService.SMS]: NotificationChannel.SMS,
+  [MessageService.WHATSAPP]: NotificationChannel.WHATSAPP,
+};
+
+/**
+ * Decides whether a user gets a notification: the global switch, the
+ * preference of the event and channel (enabled when never set) and, for
+ * everything but in-app notifications, the quiet hours in the user's
+ * timezone.
+ */
+@Injectable()
+export class NotificationPreferenceService {
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async check(
+    userId: number,
+    event: NotificationEvent,
+    channel: NotificationChannel,
+    at: Date = new Date(),
+  ): Promise<PreferenceDecision> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        UserNotificationSetting: true,
+        notificationPreferences: { where: { event, channel } },
+      },
+    });
+    if (!user) {
+      return { allowed: true };
+    }
+
+    const setting = user.UserNotificationSetting;
+    if (setting && !setting.enabled) {
+      return { allowed: false, reason: 'Notifications are turned off' };
+    }
+    if (user.notificationPreferences[0]?.enabled === false) {
+      return {
+        allowed: false,
+        reason: `${event} notifications by ${channel} are turned off`,
+      };
+    }
+
+    if (
+      channel !== NotificationChannel.IN_APP &&
+      setting?.quietHoursStart &&
+      setting.quietHoursEnd
+    ) {
+      const timezone = isValidTimezone(setting.timezone)
+        ? setting.timezone!
+        : this.configService.defaultTimezone;
+      const deferUntil = quietHoursEnd(
+        setting.quietHoursStart,
+        setting.quietHoursEnd,
+        timezone,
+        at,
+      );
+      if (deferUntil) {
+        return { allowed: true, deferUntil };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /** Whether the user wants the event on the channel, quiet hours aside */
+  async isEnabled(
+    userId: number,
+    event: NotificationEvent,
+    channel: NotificationChannel,
+  ): Promise<boolean> {
+    return (await this.check(userId, event, channel)).allowed;
+  }
+
+  /** Turns every event off on the channel, e.g. when the user replies STOP */
+  async disableChannel(
+    userId: number,
+    channel: NotificationChannel,
+  ): Promise<void> {
+    await this.prisma.$transaction(
+      Object.values(NotificationEvent).map((event) =>
+        this.prisma.userNotificationPreference.upsert({
+          where: { userId_event_channel: { userId, event, channel } },
+          create: { userId, event, channel, enabled: false },
+          update: { enabled: false },
+        }),
+      ),
+    );
+  }
+}
+
+/**
+ * End of the quiet hours `start`-`end` (HH:mm, local to `timezone`) when
+ * `at` falls inside them, else null. Windows may span midnight.
+ */
+export function quietHoursEnd(
+  start: string,
+  end: string,
+  timezone: string,
+  at: Date,
+): Date | null {
+  const startMinutes = minutesOfDay(start);
+  const endMinutes = minutesOfDay(end);
+  if (startMinutes === endMinutes) {
+    return null;
+  }
+
+  const { date, time } = toZonedParts(at, timezone);
+  const now = minutesOfDay(time);
+
+  const inside =
+    startMinutes < endMinutes
+      ? now >= startMinutes && now < endMinutes
+      : now >= startMinutes || now < endMinutes;
+  if (!inside) {
+    return null;
+  }
+
+  // Quiet hours spanning midnight end on the next day
+  const endDate = now < endMinutes ? date : addCalendarDays(date, 1);
+  return zonedTimeToUtcShifted(endDate, end, timezone);
+}
+
+function minutesOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
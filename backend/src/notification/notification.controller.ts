@@ -1,4 +1,4 @@
-import { Body, Controller, HttpStatus, Patch, Req, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, HttpStatus, Patch, Req, UseGuards } from '@nestjs/common';
 import { NotificationService } from './notification.service';
 import { UpdateNotificationSettingDto } from './dto/update-notification-setting.dto'
 import { ExtendedRequest } from 'src/types/request';
@@ -14,6 +14,16 @@ export class NotificationController {
         private readonly notificationService: NotificationService
     ) { }
 
+    @Get()
+    async findMine(@Req() req: ExtendedRequest) {
+        const userId = req.user?.id
+        if (!userId) {
+            throw new Error('User ID is required');
+        }
+        const result = await this.notificationService.getNotificationSetting(userId);
+        return ApiResponseDto.success(result, "Notification Settings retrieved successfully", HttpStatus.OK);
+    }
+
     @Patch()
     async update(
         @Body() dto: UpdateNotificationSettingDto, @Req() req: ExtendedRequest
@@ -1,6 +1,23 @@
 import { Injectable } from '@nestjs/common';
+import { NotificationChannel, NotificationEvent } from '@prisma/client';
 import { UpdateNotificationSettingDto } from './dto/update-notification-setting.dto';
 import { DatabaseService } from 'src/database/database.service';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
+import { isValidTimezone } from 'src/i18n/i18n.service';
+
+export interface NotificationSettingsView {
+  enabled: boolean;
+  phone: string | null;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string | null;
+  /** Every event and channel, enabled unless the user turned it off */
+  preferences: {
+    event: NotificationEvent;
+    channel: NotificationChannel;
+    enabled: boolean;
+  }[];
+}
 
 @Injectable()
 export class NotificationService {
@@ -8,26 +25,75 @@ export class NotificationService {
         private readonly databaseSevice:DatabaseService
     ) {}
 
+    async getNotificationSetting(userId: number): Promise<NotificationSettingsView> {
+        const [setting, preferences] = await Promise.all([
+            this.databaseSevice.userNotificationSetting.findUnique({
+                where: { userId },
+            }),
+            this.databaseSevice.userNotificationPreference.findMany({
+                where: { userId },
+            }),
+        ]);
+
+        return {
+            enabled: setting?.enabled ?? true,
+            phone: setting?.phone ?? null,
+            quietHoursStart: setting?.quietHoursStart ?? null,
+            quietHoursEnd: setting?.quietHoursEnd ?? null,
+            timezone: setting?.timezone ?? null,
+            preferences: Object.values(NotificationEvent).flatMap((event) =>
+                Object.values(NotificationChannel).map((channel) => ({
+                    event,
+                    channel,
+                    enabled:
+                        preferences.find(
+                            (preference) =>
+                                preference.event === event && preference.channel === channel,
+                        )?.enabled ?? true,
+                })),
+            ),
+        };
+    }
+
     async updateNotificationSetting(userId: number, updateDto: UpdateNotificationSettingDto) {
-        const { enabled, phone } = updateDto;
+        const { enabled, phone, quietHoursStart, quietHoursEnd, timezone, preferences } = updateDto;
 
-        let setting = await this.databaseSevice.userNotificationSetting.findUnique({
+        if (timezone !== undefined && !isValidTimezone(timezone)) {
+            throw HttpExceptionHelper.badRequest(`Unknown timezone "${timezone}"`);
+        }
+
+        const setting = await this.databaseSevice.userNotificationSetting.findUnique({
             where: { userId },
           });
-        if (!setting) {
-            setting = await this.databaseSevice.userNotificationSetting.create({
-                data: { userId, enabled: enabled ?? false, phone: phone ?? null },
-            });
-        } else {
-            setting = await this.databaseSevice.userNotificationSetting.update({
-                where: { userId },
-                data: {
-                    enabled: enabled !== undefined ? enabled : setting.enabled,
-                    phone: phone !== undefined ? phone : setting.phone,
-                },
-            });
+        const start = quietHoursStart !== undefined ? quietHoursStart : setting?.quietHoursStart ?? null;
+        const end = quietHoursEnd !== undefined ? quietHoursEnd : setting?.quietHoursEnd ?? null;
+        if (!start !== !end) {
+            throw HttpExceptionHelper.badRequest('Quiet hours need both a start and an end');
         }
-        return setting;
+
+        const data = {
+            enabled: enabled !== undefined ? enabled : setting?.enabled ?? true,
+            phone: phone !== undefined ? phone : setting?.phone ?? null,
+            quietHoursStart: start,
+            quietHoursEnd: end,
+            timezone: timezone !== undefined ? timezone : setting?.timezone ?? null,
+        };
+
+        await this.databaseSevice.$transaction([
+            this.databaseSevice.userNotificationSetting.upsert({
+                where: { userId },
+                create: { userId, ...data },
+                update: data,
+            }),
+            ...(preferences ?? []).map(({ event, channel, enabled }) =>
+                this.databaseSevice.userNotificationPreference.upsert({
+                    where: { userId_event_channel: { userId, event, channel } },
+                    create: { userId, event, channel, enabled },
+                    update: { enabled },
+                }),
+            ),
+        ]);
+        return this.getNotificationSetting(userId);
     }
 
 }
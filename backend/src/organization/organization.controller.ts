@@ -49,8 +49,8 @@ import { AuthGuard } from 'src/auth/guards/auth.guard';
 import { Roles } from 'src/common/decorators/roles.decorator';
 import { Role } from 'src/auth/enums/role.enum';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
+import { StorageService } from 'src/storage/storage.service';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
 
 
 
@@ -62,6 +62,7 @@ import { extname } from 'path';
 export class OrganizationController {
   constructor(
     private readonly organizationService: OrganizationService,
+    private readonly storageService: StorageService,
   ) {}
 
   @Post()
@@ -422,19 +423,12 @@ export class OrganizationController {
     });
   }
   @Post('upload-logo')
-  @UseInterceptors(
-    FileInterceptor('file', {
-      storage: diskStorage({
-        destination: './uploads/logos',
-        filename: (req, file, cb) => {
-          const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-          cb(null, `${uniqueSuffix}${extname(file.originalname)}`);
-        },
-      }),
-    }),
-  )
+  @UseInterceptors(FileInterceptor('file'))
   async uploadLogo(@UploadedFile() file: Express.Multer.File) {
-    const fileUrl = `http://localhost:3000/uploads/logos/${file.filename}`;
-    return { url: fileUrl };
+    if (!file?.mimetype?.startsWith('image/')) {
+      throw HttpExceptionHelper.badRequest('Logo must be an image');
+    }
+    const stored = await this.storageService.upload(file, 'logos');
+    return { url: this.storageService.getPublicUrl(stored, 'logos') };
   }
 }
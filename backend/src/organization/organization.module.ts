@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { OrganizationService } from './organization.service';
 import { OrganizationController } from './organization.controller';
 import { AuthModule } from 'src/auth/auth.module';
+import { StorageModule } from 'src/storage/storage.module';
 
 @Module({
   controllers: [OrganizationController],
   providers: [OrganizationService],
-  imports:[AuthModule]
+  imports:[AuthModule, StorageModule]
 })
 export class OrganizationModule {}
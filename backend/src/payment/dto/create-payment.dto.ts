@@ -6,9 +6,10 @@ export class CreatePaymentDto {
   @IsNumber()
   consultationId: number;
 
-  @IsNotEmpty()
+  // Ignored for organization consultations, which are priced by price rules
+  @IsOptional()
   @IsNumber()
-  amount: number;
+  amount?: number;
 
   @IsOptional()
   @IsString()
@@ -0,0 +1,61 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+} from 'class-validator';
+
+export class CreatePriceRuleDto {
+  @IsNotEmpty()
+  @IsInt()
+  organizationId: number;
+
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 255)
+  name: string;
+
+  @IsOptional()
+  @IsInt()
+  specialityId?: number;
+
+  @IsOptional()
+  @IsInt()
+  groupId?: number;
+
+  @IsOptional()
+  @IsInt()
+  practitionerId?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minDurationMinutes?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDurationMinutes?: number;
+
+  @IsNotEmpty()
+  @IsNumber()
+  @Min(0)
+  amount: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,52 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Length,
+} from 'class-validator';
+
+export const REPORT_PERIODS = ['day', 'week', 'month'] as const;
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export class PaymentReportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Include payments paid from this date (ISO 8601 format).',
+    example: '2026-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include payments paid up to this date (ISO 8601 format).',
+    example: '2026-12-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by organization ID.' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  organizationId?: number;
+
+  @ApiPropertyOptional({ description: 'Filter by currency.', example: 'USD' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'Granularity of the revenue timeline.',
+    enum: REPORT_PERIODS,
+    default: 'month',
+  })
+  @IsOptional()
+  @IsIn(REPORT_PERIODS)
+  groupBy?: ReportPeriod;
+}
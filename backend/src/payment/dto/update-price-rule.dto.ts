@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreatePriceRuleDto } from './create-price-rule.dto';
+
+export class UpdatePriceRuleDto extends PartialType(
+  OmitType(CreatePriceRuleDto, ['organizationId'] as const),
+) {}
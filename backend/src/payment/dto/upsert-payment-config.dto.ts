@@ -0,0 +1,57 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+  Matches,
+  Length,
+  Min,
+} from 'class-validator';
+import { PaymentProvider } from '@prisma/client';
+
+export class UpsertPaymentConfigDto {
+  @IsOptional()
+  @IsEnum(PaymentProvider)
+  provider?: PaymentProvider;
+
+  @IsOptional()
+  @IsString()
+  manualInstructions?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^pk_(test|live)_/, {
+    message: 'stripePublishableKey must be a Stripe publishable key',
+  })
+  stripePublishableKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^(sk|rk)_(test|live)_/, {
+    message: 'stripeSecretKey must be a Stripe secret or restricted key',
+  })
+  stripeSecretKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^whsec_/, {
+    message: 'stripeWebhookSecret must be a Stripe webhook signing secret',
+  })
+  stripeWebhookSecret?: string;
+
+  @IsNotEmpty()
+  @IsNumber()
+  @Min(0)
+  consultationFee: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  currency?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,215 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentConfig, PaymentProvider } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import {
+  decryptSecret,
+  encryptSecret,
+} from '../common/helpers/encryption.helper';
+import { UpsertPaymentConfigDto } from './dto/upsert-payment-config.dto';
+
+/**
+ * Payment account to charge. `organizationId` is null for the platform
+ * Stripe account configured through STRIPE_SECRET_KEY.
+ */
+export interface PaymentAccount {
+  organizationId: number | null;
+  provider: PaymentProvider;
+  secretKey?: string;
+  publishableKey?: string;
+  webhookSecret?: string;
+  consultationFee?: number;
+  currency?: string;
+  manualInstructions?: string;
+}
+
+export interface PublicPaymentConfig {
+  organizationId: number;
+  provider: PaymentProvider;
+  manualInstructions?: string;
+  stripePublishableKey?: string;
+  consultationFee: number;
+  currency: string;
+  isActive: boolean;
+  hasSecretKey: boolean;
+  hasWebhookSecret: boolean;
+}
+
+@Injectable()
+export class PaymentConfigService {
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getPublicConfig(organizationId: number): Promise<PublicPaymentConfig> {
+    const paymentConfig = await this.prisma.paymentConfig.findUnique({
+      where: { organizationId },
+    });
+
+    return {
+      organizationId,
+      provider: paymentConfig?.provider ?? PaymentProvider.STRIPE,
+      manualInstructions: paymentConfig?.manualInstructions ?? undefined,
+      stripePublishableKey:
+        paymentConfig?.stripePublishableKey ??
+        this.configService.stripePublishableKey,
+      consultationFee: Number(paymentConfig?.consultationFee ?? 50.0),
+      currency: paymentConfig?.currency || 'USD',
+      isActive: paymentConfig?.isActive || false,
+      hasSecretKey: !!paymentConfig?.stripeSecretKey,
+      hasWebhookSecret: !!paymentConfig?.stripeWebhookSecret,
+    };
+  }
+
+  async upsertConfig(
+    organizationId: number,
+    dto: UpsertPaymentConfigDto,
+  ): Promise<PublicPaymentConfig> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+    });
+    if (!organization) {
+      throw HttpExceptionHelper.notFound('Organization not found');
+    }
+
+    // Secrets left out of the request keep their stored value
+    const secrets = {
+      stripeSecretKey: dto.stripeSecretKey
+        ? this.encrypt(dto.stripeSecretKey)
+        : undefined,
+      stripeWebhookSecret: dto.stripeWebhookSecret
+        ? this.encrypt(dto.stripeWebhookSecret)
+        : undefined,
+    };
+
+    await this.prisma.paymentConfig.upsert({
+      where: { organizationId },
+      update: {
+        provider: dto.provider,
+        manualInstructions: dto.manualInstructions,
+        stripePublishableKey: dto.stripePublishableKey,
+        consultationFee: dto.consultationFee,
+        currency: dto.currency?.toUpperCase(),
+        isActive: dto.isActive,
+        ...secrets,
+      },
+      create: {
+        organizationId,
+        provider: dto.provider,
+        manualInstructions: dto.manualInstructions,
+        stripePublishableKey: dto.stripePublishableKey,
+        consultationFee: dto.consultationFee,
+        currency: dto.currency?.toUpperCase() ?? 'USD',
+        isActive: dto.isActive ?? true,
+        ...secrets,
+      },
+    });
+
+    return this.getPublicConfig(organizationId);
+  }
+
+  /**
+   * Resolves the payment account a consultation must be charged on, through
+   * its group's organization. Consultations outside any group keep using the
+   * platform account.
+   */
+  async resolveAccountForConsultation(consultation: {
+    id: number;
+    groupId: number | null;
+  }): Promise<PaymentAccount> {
+    if (!consultation.groupId) {
+      return this.platformAccount();
+    }
+
+    const group = await this.prisma.group.findUnique({
+      where: { id: consultation.groupId },
+      include: { organization: { include: { paymentConfig: true } } },
+    });
+    if (!group) {
+      return this.platformAccount();
+    }
+
+    const { organization } = group;
+    const paymentConfig = organization.paymentConfig;
+
+    if (!paymentConfig || !paymentConfig.isActive) {
+      throw HttpExceptionHelper.badRequest(
+        `Organization "${organization.name}" requires payment for consultation ${consultation.id} but has no active payment configuration`,
+      );
+    }
+    if (
+      paymentConfig.provider === PaymentProvider.STRIPE &&
+      !paymentConfig.stripeSecretKey
+    ) {
+      throw HttpExceptionHelper.badRequest(
+        `Payment configuration of organization "${organization.name}" has no Stripe secret key`,
+      );
+    }
+
+    return this.toAccount(paymentConfig);
+  }
+
+  /**
+   * Account of an existing payment. Inactive configurations are still used
+   * so that payments taken earlier can be confirmed and refunded.
+   */
+  async resolveAccountForOrganization(
+    organizationId: number | null,
+  ): Promise<PaymentAccount> {
+    if (!organizationId) {
+      return this.platformAccount();
+    }
+
+    const paymentConfig = await this.prisma.paymentConfig.findUnique({
+      where: { organizationId },
+    });
+    if (!paymentConfig) {
+      throw HttpExceptionHelper.badRequest(
+        `Organization ${organizationId} has no payment configuration`,
+      );
+    }
+
+    return this.toAccount(paymentConfig);
+  }
+
+  private platformAccount(): PaymentAccount {
+    if (!this.configService.stripeSecretKey) {
+      throw HttpExceptionHelper.badRequest(
+        'Consultation is not linked to an organization and no platform Stripe key is configured',
+      );
+    }
+    return {
+      organizationId: null,
+      provider: PaymentProvider.STRIPE,
+      publishableKey: this.configService.stripePublishableKey,
+      webhookSecret: this.configService.stripeWebhookSecret,
+    };
+  }
+
+  private toAccount(paymentConfig: PaymentConfig): PaymentAccount {
+    return {
+      organizationId: paymentConfig.organizationId,
+      provider: paymentConfig.provider,
+      secretKey: paymentConfig.stripeSecretKey
+        ? this.decrypt(paymentConfig.stripeSecretKey)
+        : undefined,
+      publishableKey: paymentConfig.stripePublishableKey ?? undefined,
+      webhookSecret: paymentConfig.stripeWebhookSecret
+        ? this.decrypt(paymentConfig.stripeWebhookSecret)
+        : undefined,
+      consultationFee: Number(paymentConfig.consultationFee),
+      currency: paymentConfig.currency,
+      manualInstructions: paymentConfig.manualInstructions ?? undefined,
+    };
+  }
+
+  private encrypt(value: string): string {
+    return encryptSecret(value, this.configService.secretsEncryptionKey);
+  }
+
+  private decrypt(value: string): string {
+    return decryptSecret(value, this.configService.secretsEncryptionKey);
+  }
+}
@@ -0,0 +1,37 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { PaymentReportService } from './payment-report.service';
+import { PaymentReportQueryDto } from './dto/payment-report-query.dto';
+
+@ApiTags('Payment reports')
+@ApiBearerAuth()
+@Controller('payment/reports')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class PaymentReportController {
+  constructor(private readonly paymentReportService: PaymentReportService) {}
+
+  @Get('summary')
+  @ApiOperation({
+    summary:
+      'Revenue totals by organization, status, currency, practitioner and period',
+  })
+  async getSummary(@Query() query: PaymentReportQueryDto, @Req() req: Request) {
+    const report = await this.paymentReportService.getReport(query);
+    return ApiResponseDto.success(
+      report,
+      'Payment report generated successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { PaymentReportService } from './payment-report.service';
+import { DatabaseService } from '../database/database.service';
+
+describe('PaymentReportService', () => {
+  let service: PaymentReportService;
+  let dbServiceMock: any;
+
+  // Answers the raw revenue queries by grouping key and table
+  const rows = {
+    payments: {
+      NULL: [
+        {
+          key: null,
+          currency: 'USD',
+          count: 3,
+          amount: new Prisma.Decimal(150),
+        },
+        {
+          key: null,
+          currency: 'CHF',
+          count: 1,
+          amount: new Prisma.Decimal(80),
+        },
+      ],
+      'p."organizationId"': [
+        { key: 5, currency: 'USD', count: 2, amount: new Prisma.Decimal(100) },
+        {
+          key: null,
+          currency: 'USD',
+          count: 1,
+          amount: new Prisma.Decimal(50),
+        },
+      ],
+      'c."ownerId"': [
+        { key: 9, currency: 'USD', count: 3, amount: new Prisma.Decimal(150) },
+      ],
+      period: [
+        {
+          key: new Date('2026-02-01T00:00:00.000Z'),
+          currency: 'USD',
+          count: 1,
+          amount: new Prisma.Decimal(50),
+        },
+        {
+          key: new Date('2026-01-01T00:00:00.000Z'),
+          currency: 'USD',
+          count: 2,
+          amount: new Prisma.Decimal(100),
+        },
+      ],
+    },
+    refunds: {
+      NULL: [
+        {
+          key: null,
+          currency: 'USD',
+          count: 1,
+          amount: new Prisma.Decimal(20),
+        },
+      ],
+      'p."organizationId"': [
+        { key: 5, currency: 'USD', count: 1, amount: new Prisma.Decimal(20) },
+      ],
+      'c."ownerId"': [],
+      period: [
+        {
+          key: new Date('2026-03-01T00:00:00.000Z'),
+          currency: 'USD',
+          count: 1,
+          amount: new Prisma.Decimal(20),
+        },
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    dbServiceMock = {
+      $queryRaw: jest.fn((strings: string[], key: Prisma.Sql) => {
+        const table = strings.join('').includes('payment_refunds')
+          ? rows.refunds
+          : rows.payments;
+        return Promise.resolve(
+          key.sql.startsWith('date_trunc') ? table.period : table[key.sql],
+        );
+      }),
+      payment: {
+        groupBy: jest.fn().mockResolvedValue([
+          {
+            status: PaymentStatus.COMPLETED,
+            currency: 'USD',
+            _count: { _all: 3 },
+            _sum: { amount: new Prisma.Decimal(150) },
+          },
+        ]),
+      },
+      organization: {
+        findMany: jest.fn().mockResolvedValue([{ id: 5, name: 'Clinic' }]),
+      },
+      user: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: 9, firstName: 'Ada', lastName: 'Byron' }]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentReportService,
+        { provide: DatabaseService, useValue: dbServiceMock },
+      ],
+    }).compile();
+
+    service = module.get<PaymentReportService>(PaymentReportService);
+  });
+
+  it('keeps totals separate per currency and nets out refunds', async () => {
+    const report = await service.getReport({});
+
+    expect(report.totals).toEqual([
+      expect.objectContaining({
+        currency: 'USD',
+        gross: 150,
+        refunded: 20,
+        net: 130,
+      }),
+      expect.objectContaining({
+        currency: 'CHF',
+        gross: 80,
+        refunded: 0,
+        net: 80,
+      }),
+    ]);
+    expect(report.byStatus).toEqual([
+      {
+        status: PaymentStatus.COMPLETED,
+        currency: 'USD',
+        count: 3,
+        amount: 150,
+      },
+    ]);
+  });
+
+  it('labels organizations and practitioners', async () => {
+    const report = await service.getReport({});
+
+    expect(report.byOrganization.map((row) => [row.label, row.net])).toEqual([
+      ['Clinic', 80],
+      ['Platform', 50],
+    ]);
+    expect(report.byPractitioner).toEqual([
+      expect.objectContaining({ key: 9, label: 'Ada Byron', net: 150 }),
+    ]);
+  });
+
+  it('orders the timeline by period, including refund-only periods', async () => {
+    const report = await service.getReport({ groupBy: 'month' });
+
+    expect(report.timeline.map((row) => [row.key, row.net])).toEqual([
+      ['2026-01-01T00:00:00.000Z', 100],
+      ['2026-02-01T00:00:00.000Z', 50],
+      ['2026-03-01T00:00:00.000Z', -20],
+    ]);
+  });
+});
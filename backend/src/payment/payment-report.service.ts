@@ -0,0 +1,231 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentStatus, Prisma } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import {
+  PaymentReportQueryDto,
+  ReportPeriod,
+} from './dto/payment-report-query.dto';
+
+export interface RevenueRow {
+  key: string | number | null;
+  label: string;
+  currency: string;
+  count: number;
+  gross: number;
+  refunded: number;
+  net: number;
+}
+
+export interface StatusRow {
+  status: PaymentStatus;
+  currency: string;
+  count: number;
+  amount: number;
+}
+
+export interface PaymentReport {
+  filters: PaymentReportQueryDto & { groupBy: ReportPeriod };
+  totals: RevenueRow[];
+  byOrganization: RevenueRow[];
+  byPractitioner: RevenueRow[];
+  byStatus: StatusRow[];
+  timeline: RevenueRow[];
+}
+
+interface RawRevenueRow {
+  key: string | number | Date | null;
+  currency: string;
+  count: number;
+  amount: Prisma.Decimal | null;
+}
+
+/**
+ * Revenue reporting over payments and refunds. Payments count towards the
+ * day they were paid and refunds towards the day they completed, so a
+ * period's net revenue is what actually moved in that period. Amounts are
+ * never summed across currencies.
+ */
+@Injectable()
+export class PaymentReportService {
+  constructor(private readonly prisma: DatabaseService) {}
+
+  async getReport(query: PaymentReportQueryDto): Promise<PaymentReport> {
+    const groupBy = query.groupBy ?? 'month';
+
+    const [totals, byOrganization, byPractitioner, byStatus, timeline] =
+      await Promise.all([
+        this.revenueBy(query, Prisma.sql`NULL`),
+        this.revenueBy(query, Prisma.sql`p."organizationId"`),
+        this.revenueBy(query, Prisma.sql`c."ownerId"`),
+        this.statusBreakdown(query),
+        this.revenueBy(query, null, groupBy),
+      ]);
+
+    await Promise.all([
+      this.labelOrganizations(byOrganization),
+      this.labelPractitioners(byPractitioner),
+    ]);
+    totals.forEach((row) => (row.label = 'Total'));
+
+    return {
+      filters: { ...query, groupBy },
+      totals,
+      byOrganization,
+      byPractitioner,
+      byStatus,
+      timeline,
+    };
+  }
+
+  /**
+   * Groups gross payments and completed refunds by `key` and currency.
+   * When `period` is given the key is the start of the day, week or month.
+   */
+  private async revenueBy(
+    query: PaymentReportQueryDto,
+    key: Prisma.Sql | null,
+    period?: ReportPeriod,
+  ): Promise<RevenueRow[]> {
+    const paymentKey = period
+      ? Prisma.sql`date_trunc(${period}, p."paidAt")`
+      : key!;
+    const refundKey = period
+      ? Prisma.sql`date_trunc(${period}, r."processedAt")`
+      : key!;
+
+    const [payments, refunds] = await Promise.all([
+      this.prisma.$queryRaw<RawRevenueRow[]>`
+        SELECT ${paymentKey} AS "key", p."currency", COUNT(*)::int AS "count", SUM(p."amount") AS "amount"
+        FROM "payments" p
+        JOIN "consultation" c ON c."id" = p."consultationId"
+        WHERE p."paidAt" IS NOT NULL
+        ${this.filters(query, Prisma.sql`p."paidAt"`)}
+        GROUP BY 1, 2`,
+      this.prisma.$queryRaw<RawRevenueRow[]>`
+        SELECT ${refundKey} AS "key", p."currency", COUNT(*)::int AS "count", SUM(r."amount") AS "amount"
+        FROM "payment_refunds" r
+        JOIN "payments" p ON p."id" = r."paymentId"
+        JOIN "consultation" c ON c."id" = p."consultationId"
+        WHERE r."status" = 'COMPLETED' AND r."processedAt" IS NOT NULL
+        ${this.filters(query, Prisma.sql`r."processedAt"`)}
+        GROUP BY 1, 2`,
+    ]);
+
+    const rows = new Map<string, RevenueRow>();
+    const rowFor = (raw: RawRevenueRow) => {
+      const rowKey = raw.key instanceof Date ? raw.key.toISOString() : raw.key;
+      const id = `${rowKey}|${raw.currency}`;
+      let row = rows.get(id);
+      if (!row) {
+        row = {
+          key: rowKey,
+          label: rowKey === null ? 'None' : String(rowKey),
+          currency: raw.currency,
+          count: 0,
+          gross: 0,
+          refunded: 0,
+          net: 0,
+        };
+        rows.set(id, row);
+      }
+      return row;
+    };
+
+    for (const raw of payments) {
+      const row = rowFor(raw);
+      row.count = raw.count;
+      row.gross = Number(raw.amount ?? 0);
+    }
+    for (const raw of refunds) {
+      rowFor(raw).refunded = Number(raw.amount ?? 0);
+    }
+
+    return [...rows.values()]
+      .map((row) => ({ ...row, net: this.round(row.gross - row.refunded) }))
+      .sort((a, b) =>
+        period
+          ? String(a.key).localeCompare(String(b.key)) ||
+            a.currency.localeCompare(b.currency)
+          : b.net - a.net,
+      );
+  }
+
+  private async statusBreakdown(
+    query: PaymentReportQueryDto,
+  ): Promise<StatusRow[]> {
+    const groups = await this.prisma.payment.groupBy({
+      by: ['status', 'currency'],
+      where: {
+        organizationId: query.organizationId,
+        currency: query.currency?.toUpperCase(),
+        createdAt: {
+          gte: query.dateFrom ? new Date(query.dateFrom) : undefined,
+          lte: query.dateTo ? new Date(query.dateTo) : undefined,
+        },
+      },
+      _count: { _all: true },
+      _sum: { amount: true },
+    });
+
+    return groups.map((group) => ({
+      status: group.status,
+      currency: group.currency,
+      count: group._count._all,
+      amount: Number(group._sum.amount ?? 0),
+    }));
+  }
+
+  private filters(query: PaymentReportQueryDto, dateColumn: Prisma.Sql) {
+    const conditions: Prisma.Sql[] = [];
+
+    if (query.dateFrom) {
+      conditions.push(Prisma.sql`${dateColumn} >= ${new Date(query.dateFrom)}`);
+    }
+    if (query.dateTo) {
+      conditions.push(Prisma.sql`${dateColumn} <= ${new Date(query.dateTo)}`);
+    }
+    if (query.organizationId) {
+      conditions.push(Prisma.sql`p."organizationId" = ${query.organizationId}`);
+    }
+    if (query.currency) {
+      conditions.push(
+        Prisma.sql`p."currency" = ${query.currency.toUpperCase()}`,
+      );
+    }
+
+    return conditions.length
+      ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+  }
+
+  private async labelOrganizations(rows: RevenueRow[]): Promise<void> {
+    const ids = rows.map((row) => row.key).filter((id) => id !== null);
+    const organizations = await this.prisma.organization.findMany({
+      where: { id: { in: ids.map(Number) } },
+      select: { id: true, name: true },
+    });
+    for (const row of rows) {
+      row.label =
+        organizations.find((organization) => organization.id === row.key)
+          ?.name ?? 'Platform';
+    }
+  }
+
+  private async labelPractitioners(rows: RevenueRow[]): Promise<void> {
+    const ids = rows.map((row) => row.key).filter((id) => id !== null);
+    const practitioners = await this.prisma.user.findMany({
+      where: { id: { in: ids.map(Number) } },
+      select: { id: true, firstName: true, lastName: true },
+    });
+    for (const row of rows) {
+      const practitioner = practitioners.find((user) => user.id === row.key);
+      row.label = practitioner
+        ? `${practitioner.firstName} ${practitioner.lastName}`
+        : 'Unassigned';
+    }
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Post,
+  Req,
+  Headers,
+  Param,
+  ParseIntPipe,
+  HttpCode,
+  HttpStatus,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+
+@ApiTags('payment-webhooks')
+@Controller('payment/webhook')
+@SkipThrottle()
+export class PaymentWebhookController {
+  constructor(private readonly paymentWebhookService: PaymentWebhookService) {}
+
+  @Post('stripe')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive signed Stripe webhook events' })
+  @ApiResponse({
+    status: 200,
+    description: 'Event processed or already processed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid Stripe signature',
+  })
+  async handleStripeWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature: string,
+  ) {
+    const result = await this.paymentWebhookService.handleStripeWebhook(
+      req.rawBody,
+      signature,
+    );
+    return ApiResponseDto.success(
+      result,
+      result.duplicate ? 'Event already processed' : 'Event processed',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post('stripe/:organizationId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      "Receive signed Stripe webhook events from an organization's own Stripe account",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event processed or already processed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing or invalid Stripe signature',
+  })
+  async handleOrganizationStripeWebhook(
+    @Param('organizationId', ParseIntPipe) organizationId: number,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature: string,
+  ) {
+    const result = await this.paymentWebhookService.handleStripeWebhook(
+      req.rawBody,
+      signature,
+      organizationId,
+    );
+    return ApiResponseDto.success(
+      result,
+      result.duplicate ? 'Event already processed' : 'Event processed',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
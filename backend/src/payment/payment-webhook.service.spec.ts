@@ -0,0 +1,427 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import {
+  ConsultationStatus,
+  PaymentProvider,
+  PaymentStatus,
+  RefundStatus,
+} from '@prisma/client';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { DatabaseService } from '../database/database.service';
+import { StripeService } from '../stripe/stripe.service';
+import { ConfigService } from '../config/config.service';
+import { PaymentConfigService } from './payment-config.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { ManualPaymentProvider } from './providers/manual-payment.provider';
+import { InvoiceService } from '../invoice/invoice.service';
+
+// The real EmailService pulls in SendGrid and app-wide config
+jest.mock('../common/email/email.service', () => ({
+  EmailService: class EmailService {},
+}));
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const ORGANIZATION_WEBHOOK_SECRET = 'whsec_org_secret';
+
+function stripeEvent(id: string, type: string, object: Record<string, any>) {
+  return {
+    id,
+    object: 'event',
+    api_version: '2025-07-30.basil',
+    created: Math.floor(Date.now() / 1000),
+    type,
+    data: { object },
+  };
+}
+
+describe('PaymentWebhookService', () => {
+  let service: PaymentWebhookService;
+  let stripeService: StripeService;
+  let dbServiceMock: any;
+  let paymentConfigServiceMock: any;
+  let processedEvents: Set<string>;
+
+  // Posts a fixture the way Stripe would: raw JSON body plus signature header
+  const post = (
+    event: Record<string, any>,
+    secret = WEBHOOK_SECRET,
+    organizationId?: number,
+  ) => {
+    const payload = JSON.stringify(event);
+    const signature = stripeService.generateWebhookTestHeader(payload, secret);
+    return service.handleStripeWebhook(
+      Buffer.from(payload),
+      signature,
+      organizationId,
+    );
+  };
+
+  beforeEach(async () => {
+    process.env.STRIPE_SECRET_KEY = 'sk_test_dummy';
+    processedEvents = new Set();
+
+    dbServiceMock = {
+      paymentWebhookEvent: {
+        findUnique: jest.fn(({ where }) =>
+          processedEvents.has(where.id) ? { id: where.id, paymentId: 7 } : null,
+        ),
+        create: jest.fn(({ data }) => processedEvents.add(data.id)),
+        update: jest.fn(),
+      },
+      payment: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 7,
+          consultationId: 3,
+          status: PaymentStatus.PENDING,
+          paidAt: null,
+          metadata: null,
+        }),
+        update: jest.fn(),
+      },
+      paymentRefund: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      consultation: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    dbServiceMock.$transaction = jest.fn((callback) => callback(dbServiceMock));
+
+    paymentConfigServiceMock = {
+      resolveAccountForOrganization: jest.fn().mockResolvedValue({
+        organizationId: 5,
+        provider: PaymentProvider.STRIPE,
+        secretKey: 'sk_test_org',
+        webhookSecret: ORGANIZATION_WEBHOOK_SECRET,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentWebhookService,
+        StripeService,
+        PaymentProviderRegistry,
+        StripePaymentProvider,
+        ManualPaymentProvider,
+        { provide: DatabaseService, useValue: dbServiceMock },
+        {
+          provide: ConfigService,
+          useValue: { stripeWebhookSecret: WEBHOOK_SECRET },
+        },
+        { provide: PaymentConfigService, useValue: paymentConfigServiceMock },
+        {
+          provide: InvoiceService,
+          useValue: { syncForPayment: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentWebhookService>(PaymentWebhookService);
+    stripeService = module.get<StripeService>(StripeService);
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects payloads with an invalid signature', async () => {
+    const event = stripeEvent('evt_bad', 'payment_intent.succeeded', {
+      id: 'pi_1',
+    });
+    await expect(post(event, 'whsec_other_secret')).rejects.toThrow(
+      'Invalid Stripe signature',
+    );
+    expect(dbServiceMock.payment.update).not.toHaveBeenCalled();
+  });
+
+  it("verifies organization routes with that organization's webhook secret", async () => {
+    const event = stripeEvent('evt_org', 'payment_intent.succeeded', {
+      id: 'pi_1',
+      object: 'payment_intent',
+    });
+
+    await expect(post(event, WEBHOOK_SECRET, 5)).rejects.toThrow(
+      'Invalid Stripe signature',
+    );
+    dbServiceMock.payment.findUnique.mockResolvedValueOnce({
+      id: 7,
+      organizationId: 5,
+      consultationId: 3,
+      status: PaymentStatus.PENDING,
+      paidAt: null,
+    });
+    const result = await post(event, ORGANIZATION_WEBHOOK_SECRET, 5);
+
+    expect(
+      paymentConfigServiceMock.resolveAccountForOrganization,
+    ).toHaveBeenCalledWith(5);
+    expect(result.paymentId).toBe(7);
+  });
+
+  it('ignores organization events for payments of another account', async () => {
+    dbServiceMock.payment.findUnique.mockResolvedValue({
+      id: 7,
+      organizationId: 6,
+      consultationId: 3,
+      status: PaymentStatus.PENDING,
+      paidAt: null,
+    });
+
+    const result = await post(
+      stripeEvent('evt_other', 'payment_intent.succeeded', {
+        id: 'pi_1',
+        object: 'payment_intent',
+      }),
+      ORGANIZATION_WEBHOOK_SECRET,
+      5,
+    );
+
+    expect(result.paymentId).toBeNull();
+    expect(dbServiceMock.payment.update).not.toHaveBeenCalled();
+    expect(dbServiceMock.consultation.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('ignores platform events for payments of an organization account', async () => {
+    dbServiceMock.payment.findUnique.mockResolvedValue({
+      id: 7,
+      organizationId: 5,
+      consultationId: 3,
+      status: PaymentStatus.COMPLETED,
+      paidAt: new Date(),
+    });
+
+    const result = await post(
+      stripeEvent('evt_platform', 'charge.refunded', {
+        id: 'ch_1',
+        object: 'charge',
+        payment_intent: 'pi_1',
+        amount: 5000,
+        amount_refunded: 5000,
+        refunds: {
+          object: 'list',
+          data: [
+            { id: 're_1', object: 'refund', amount: 5000, status: 'succeeded' },
+          ],
+        },
+      }),
+    );
+
+    expect(result.paymentId).toBeNull();
+    expect(dbServiceMock.paymentRefund.create).not.toHaveBeenCalled();
+    expect(dbServiceMock.payment.update).not.toHaveBeenCalled();
+  });
+
+  it('completes the payment on payment_intent.succeeded', async () => {
+    const result = await post(
+      stripeEvent('evt_1', 'payment_intent.succeeded', {
+        id: 'pi_1',
+        object: 'payment_intent',
+        status: 'succeeded',
+      }),
+    );
+
+    expect(result).toEqual({
+      eventId: 'evt_1',
+      type: 'payment_intent.succeeded',
+      duplicate: false,
+      paymentId: 7,
+    });
+    expect(dbServiceMock.payment.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: expect.objectContaining({
+        status: PaymentStatus.COMPLETED,
+        paidAt: expect.any(Date),
+        failureReason: null,
+      }),
+    });
+    expect(dbServiceMock.consultation.updateMany).toHaveBeenCalledWith({
+      where: { id: 3, status: ConsultationStatus.DRAFT },
+      data: { status: ConsultationStatus.SCHEDULED },
+    });
+  });
+
+  it('processes each event id only once', async () => {
+    const event = stripeEvent('evt_dup', 'payment_intent.succeeded', {
+      id: 'pi_1',
+      object: 'payment_intent',
+    });
+
+    await post(event);
+    const second = await post(event);
+
+    expect(second.duplicate).toBe(true);
+    expect(dbServiceMock.payment.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('records the failure reason on payment_intent.payment_failed', async () => {
+    await post(
+      stripeEvent('evt_2', 'payment_intent.payment_failed', {
+        id: 'pi_1',
+        object: 'payment_intent',
+        last_payment_error: { message: 'Your card was declined.' },
+      }),
+    );
+
+    expect(dbServiceMock.payment.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: {
+        status: PaymentStatus.FAILED,
+        failureReason: 'Your card was declined.',
+      },
+    });
+  });
+
+  it('stores refunds and marks the payment refunded on charge.refunded', async () => {
+    await post(
+      stripeEvent('evt_3', 'charge.refunded', {
+        id: 'ch_1',
+        object: 'charge',
+        payment_intent: 'pi_1',
+        amount: 5000,
+        amount_refunded: 5000,
+        refunds: {
+          object: 'list',
+          data: [
+            {
+              id: 're_1',
+              object: 'refund',
+              amount: 5000,
+              status: 'succeeded',
+              reason: 'requested_by_customer',
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(dbServiceMock.paymentRefund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentId: 7,
+        stripeRefundId: 're_1',
+        amount: 50,
+        status: RefundStatus.COMPLETED,
+        processedAt: expect.any(Date),
+      }),
+    });
+    expect(dbServiceMock.payment.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { status: PaymentStatus.REFUNDED },
+    });
+  });
+
+  it('fetches refunds Stripe did not embed before opening the transaction', async () => {
+    const listRefunds = jest
+      .spyOn(stripeService, 'listRefunds')
+      .mockImplementation(async () => {
+        expect(dbServiceMock.$transaction).not.toHaveBeenCalled();
+        return [
+          {
+            id: 're_2',
+            object: 'refund',
+            amount: 2000,
+            status: 'succeeded',
+            reason: null,
+          } as any,
+        ];
+      });
+
+    await post(
+      stripeEvent('evt_5', 'charge.refunded', {
+        id: 'ch_1',
+        object: 'charge',
+        payment_intent: 'pi_1',
+        amount: 5000,
+        amount_refunded: 2000,
+      }),
+    );
+
+    expect(listRefunds).toHaveBeenCalledWith(
+      { payment_intent: 'pi_1', limit: 100 },
+      undefined,
+    );
+    expect(dbServiceMock.paymentRefund.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ stripeRefundId: 're_2', amount: 20 }),
+    });
+    expect(dbServiceMock.payment.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { status: PaymentStatus.PARTIALLY_REFUNDED },
+    });
+  });
+
+  it('reports unique conflicts past the event claim as failures', async () => {
+    dbServiceMock.paymentRefund.create.mockRejectedValue(
+      Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+    );
+
+    await expect(
+      post(
+        stripeEvent('evt_6', 'charge.refunded', {
+          id: 'ch_1',
+          object: 'charge',
+          payment_intent: 'pi_1',
+          amount: 5000,
+          amount_refunded: 5000,
+          refunds: {
+            object: 'list',
+            data: [
+              {
+                id: 're_1',
+                object: 'refund',
+                amount: 5000,
+                status: 'succeeded',
+              },
+            ],
+          },
+        }),
+      ),
+    ).rejects.toThrow('Unique constraint failed');
+  });
+
+  it('reports a concurrent delivery of the event as a duplicate', async () => {
+    dbServiceMock.paymentWebhookEvent.create.mockRejectedValue(
+      Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }),
+    );
+
+    const result = await post(
+      stripeEvent('evt_7', 'payment_intent.succeeded', {
+        id: 'pi_1',
+        object: 'payment_intent',
+      }),
+    );
+
+    expect(result.duplicate).toBe(true);
+    expect(dbServiceMock.payment.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps dispute details in the payment metadata', async () => {
+    await post(
+      stripeEvent('evt_4', 'charge.dispute.created', {
+        id: 'dp_1',
+        object: 'dispute',
+        payment_intent: 'pi_1',
+        amount: 5000,
+        status: 'needs_response',
+        reason: 'fraudulent',
+      }),
+    );
+
+    expect(dbServiceMock.payment.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: {
+        metadata: {
+          dispute: expect.objectContaining({
+            id: 'dp_1',
+            status: 'needs_response',
+            reason: 'fraudulent',
+          }),
+        },
+      },
+    });
+  });
+});
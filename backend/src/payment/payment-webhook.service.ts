@@ -0,0 +1,464 @@
+import { Injectable, Logger } from '@nestjs/common';
+import Stripe from 'stripe';
+import {
+  ConsultationStatus,
+  PaymentProvider,
+  PaymentStatus,
+  Prisma,
+  RefundStatus,
+} from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { StripeService } from '../stripe/stripe.service';
+import { ConfigService } from '../config/config.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { PaymentAccount, PaymentConfigService } from './payment-config.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { InvoiceService } from '../invoice/invoice.service';
+
+type TransactionClient = Prisma.TransactionClient;
+
+interface EventContext {
+  /** Organization whose Stripe account signed the event, null for the platform */
+  organizationId: number | null;
+  /** Refunds of a charge.refunded event */
+  refunds: Stripe.Refund[];
+}
+
+export interface WebhookProcessingResult {
+  eventId: string;
+  type: string;
+  duplicate: boolean;
+  paymentId: number | null;
+}
+
+/**
+ * Reconciles `Payment` and `PaymentRefund` rows from Stripe webhook events,
+ * so payment state no longer depends on the patient's browser calling
+ * `confirm`. Each event id is recorded in `PaymentWebhookEvent` inside the
+ * same transaction as its updates, which makes redelivered events no-ops.
+ */
+@Injectable()
+export class PaymentWebhookService {
+  private readonly logger = new Logger(PaymentWebhookService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly stripeService: StripeService,
+    private readonly configService: ConfigService,
+    private readonly paymentConfigService: PaymentConfigService,
+    private readonly paymentProviderRegistry: PaymentProviderRegistry,
+    private readonly invoiceService: InvoiceService,
+  ) {}
+
+  /**
+   * Verifies and processes one webhook delivery. Organizations with their
+   * own Stripe account post to a per-organization route, signed with that
+   * account's webhook secret; otherwise the platform secret is used.
+   */
+  async handleStripeWebhook(
+    rawBody: Buffer | undefined,
+    signature: string | undefined,
+    organizationId?: number,
+  ): Promise<WebhookProcessingResult> {
+    const account: PaymentAccount = organizationId
+      ? await this.paymentConfigService.resolveAccountForOrganization(
+          organizationId,
+        )
+      : {
+          organizationId: null,
+          provider: PaymentProvider.STRIPE,
+          webhookSecret: this.configService.stripeWebhookSecret,
+        };
+    if (!account.webhookSecret) {
+      throw HttpExceptionHelper.internalServerError(
+        'Stripe webhook secret is not configured',
+      );
+    }
+    if (!rawBody || !signature) {
+      throw HttpExceptionHelper.badRequest('Missing Stripe signature or body');
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.paymentProviderRegistry
+        .get(PaymentProvider.STRIPE)
+        .parseWebhook(rawBody, signature, account) as Stripe.Event;
+    } catch (error) {
+      this.logger.warn(`Rejected Stripe webhook: ${error.message}`);
+      throw HttpExceptionHelper.badRequest('Invalid Stripe signature');
+    }
+
+    return this.processEvent(event, account);
+  }
+
+  /**
+   * Applies a verified event. Only payments taken through the account that
+   * signed the event are touched: an organization's Stripe account cannot
+   * change the payments of another organization or of the platform.
+   */
+  async processEvent(
+    event: Stripe.Event,
+    account: PaymentAccount,
+  ): Promise<WebhookProcessingResult> {
+    const alreadyProcessed = await this.prisma.paymentWebhookEvent.findUnique({
+      where: { id: event.id },
+    });
+    if (alreadyProcessed) {
+      this.logger.log(
+        `Skipping duplicate Stripe event ${event.id} (${event.type})`,
+      );
+      return {
+        eventId: event.id,
+        type: event.type,
+        duplicate: true,
+        paymentId: alreadyProcessed.paymentId,
+      };
+    }
+
+    let claimed = false;
+    try {
+      // Stripe is called before the transaction, which must not stay open
+      // while waiting on the network
+      const refunds = await this.fetchRefunds(event, account);
+
+      const paymentId = await this.prisma.$transaction(async (tx) => {
+        // Claim the event first: a concurrent delivery of the same event
+        // fails on the primary key and rolls back without touching payments.
+        await tx.paymentWebhookEvent.create({
+          data: {
+            id: event.id,
+            type: event.type,
+            payload: event.data.object as unknown as Prisma.InputJsonValue,
+          },
+        });
+        claimed = true;
+
+        const handledPaymentId = await this.dispatch(tx, event, {
+          organizationId: account.organizationId,
+          refunds,
+        });
+
+        if (handledPaymentId) {
+          await tx.paymentWebhookEvent.update({
+            where: { id: event.id },
+            data: { paymentId: handledPaymentId },
+          });
+        }
+        return handledPaymentId;
+      });
+
+      // Invoices and credit notes are issued once the state is committed
+      if (paymentId) {
+        await this.invoiceService.syncForPayment(paymentId);
+      }
+
+      return {
+        eventId: event.id,
+        type: event.type,
+        duplicate: false,
+        paymentId,
+      };
+    } catch (error) {
+      // Only the claim tells a concurrent delivery apart; other unique
+      // conflicts are failures Stripe has to retry
+      if (error.code === 'P2002' && !claimed) {
+        return {
+          eventId: event.id,
+          type: event.type,
+          duplicate: true,
+          paymentId: null,
+        };
+      }
+      this.logger.error(
+        `Failed to process Stripe event ${event.id} (${event.type})`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /** Refunds of a charge.refunded event, fetched when Stripe did not embed them */
+  private async fetchRefunds(
+    event: Stripe.Event,
+    account: PaymentAccount,
+  ): Promise<Stripe.Refund[]> {
+    if (event.type !== 'charge.refunded') return [];
+
+    const charge = event.data.object;
+    // Recent API versions no longer embed `charge.refunds`, so fetch them.
+    if (charge.refunds?.data?.length) return charge.refunds.data;
+    const intentId = this.resolveId(charge.payment_intent);
+    if (!intentId) return [];
+    return this.stripeService.listRefunds(
+      { payment_intent: intentId, limit: 100 },
+      account.secretKey,
+    );
+  }
+
+  private async dispatch(
+    tx: TransactionClient,
+    event: Stripe.Event,
+    context: EventContext,
+  ): Promise<number | null> {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return this.handlePaymentIntentSucceeded(
+          tx,
+          context,
+          event.data.object,
+        );
+      case 'payment_intent.payment_failed':
+        return this.handlePaymentIntentFailed(tx, context, event.data.object);
+      case 'payment_intent.canceled':
+        return this.handlePaymentIntentCanceled(tx, context, event.data.object);
+      case 'charge.refunded':
+        return this.handleChargeRefunded(tx, context, event.data.object);
+      case 'charge.refund.updated':
+        return this.handleRefundUpdated(tx, context, event.data.object);
+      case 'charge.dispute.created':
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+      case 'charge.dispute.funds_withdrawn':
+      case 'charge.dispute.funds_reinstated':
+        return this.handleDispute(tx, context, event.type, event.data.object);
+      default:
+        this.logger.debug(`Ignoring unhandled Stripe event type ${event.type}`);
+        return null;
+    }
+  }
+
+  private async handlePaymentIntentSucceeded(
+    tx: TransactionClient,
+    context: EventContext,
+    intent: Stripe.PaymentIntent,
+  ): Promise<number | null> {
+    const payment = await this.findPaymentByIntent(tx, context, intent.id);
+    if (!payment) return null;
+
+    // Refund events can arrive before a late `succeeded` redelivery; never
+    // move a refunded payment back to COMPLETED.
+    if (
+      payment.status === PaymentStatus.REFUNDED ||
+      payment.status === PaymentStatus.PARTIALLY_REFUNDED
+    ) {
+      return payment.id;
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.COMPLETED,
+        paidAt: payment.paidAt ?? new Date(),
+        failureReason: null,
+      },
+    });
+
+    // Only a consultation still waiting for its payment is scheduled; a late
+    // or replayed event leaves cancelled and finished ones alone
+    await tx.consultation.updateMany({
+      where: { id: payment.consultationId, status: ConsultationStatus.DRAFT },
+      data: { status: ConsultationStatus.SCHEDULED },
+    });
+
+    return payment.id;
+  }
+
+  private async handlePaymentIntentFailed(
+    tx: TransactionClient,
+    context: EventContext,
+    intent: Stripe.PaymentIntent,
+  ): Promise<number | null> {
+    const payment = await this.findPaymentByIntent(tx, context, intent.id);
+    if (!payment) return null;
+    if (payment.status === PaymentStatus.COMPLETED) return payment.id;
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.FAILED,
+        failureReason: intent.last_payment_error?.message ?? 'Payment failed',
+      },
+    });
+    return payment.id;
+  }
+
+  private async handlePaymentIntentCanceled(
+    tx: TransactionClient,
+    context: EventContext,
+    intent: Stripe.PaymentIntent,
+  ): Promise<number | null> {
+    const payment = await this.findPaymentByIntent(tx, context, intent.id);
+    if (!payment) return null;
+    if (payment.status === PaymentStatus.COMPLETED) return payment.id;
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: PaymentStatus.CANCELLED,
+        failureReason: intent.cancellation_reason ?? 'Payment canceled',
+      },
+    });
+    return payment.id;
+  }
+
+  private async handleChargeRefunded(
+    tx: TransactionClient,
+    context: EventContext,
+    charge: Stripe.Charge,
+  ): Promise<number | null> {
+    const intentId = this.resolveId(charge.payment_intent);
+    if (!intentId) return null;
+
+    const payment = await this.findPaymentByIntent(tx, context, intentId);
+    if (!payment) return null;
+
+    for (const refund of context.refunds) {
+      await this.upsertRefund(tx, payment.id, refund);
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status:
+          charge.amount_refunded >= charge.amount
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+    return payment.id;
+  }
+
+  private async handleRefundUpdated(
+    tx: TransactionClient,
+    context: EventContext,
+    refund: Stripe.Refund,
+  ): Promise<number | null> {
+    const intentId = this.resolveId(refund.payment_intent);
+    if (!intentId) return null;
+
+    const payment = await this.findPaymentByIntent(tx, context, intentId);
+    if (!payment) return null;
+
+    await this.upsertRefund(tx, payment.id, refund);
+    return payment.id;
+  }
+
+  private async handleDispute(
+    tx: TransactionClient,
+    context: EventContext,
+    type: string,
+    dispute: Stripe.Dispute,
+  ): Promise<number | null> {
+    const intentId = this.resolveId(dispute.payment_intent);
+    if (!intentId) return null;
+
+    const payment = await this.findPaymentByIntent(tx, context, intentId);
+    if (!payment) return null;
+
+    const metadata = (payment.metadata as Prisma.JsonObject | null) ?? {};
+    const data: Prisma.PaymentUpdateInput = {
+      metadata: {
+        ...metadata,
+        dispute: {
+          id: dispute.id,
+          status: dispute.status,
+          reason: dispute.reason,
+          amount: dispute.amount / 100,
+          lastEvent: type,
+          updatedAt: new Date().toISOString(),
+        },
+      },
+    };
+
+    // A lost dispute means the funds went back to the cardholder.
+    if (type === 'charge.dispute.closed' && dispute.status === 'lost') {
+      data.status = PaymentStatus.REFUNDED;
+      data.failureReason = `Dispute lost: ${dispute.reason}`;
+    }
+
+    await tx.payment.update({ where: { id: payment.id }, data });
+    return payment.id;
+  }
+
+  private async upsertRefund(
+    tx: TransactionClient,
+    paymentId: number,
+    refund: Stripe.Refund,
+  ): Promise<void> {
+    const status = this.mapRefundStatus(refund.status);
+    const processedAt = status === RefundStatus.COMPLETED ? new Date() : null;
+
+    const existing = await tx.paymentRefund.findUnique({
+      where: { stripeRefundId: refund.id },
+    });
+
+    if (existing) {
+      await tx.paymentRefund.update({
+        where: { id: existing.id },
+        data: {
+          status,
+          processedAt: existing.processedAt ?? processedAt,
+        },
+      });
+      return;
+    }
+
+    await tx.paymentRefund.create({
+      data: {
+        paymentId,
+        stripeRefundId: refund.id,
+        amount: refund.amount / 100,
+        reason: refund.reason ?? null,
+        status,
+        processedAt,
+      },
+    });
+  }
+
+  private mapRefundStatus(status: string | null): RefundStatus {
+    switch (status) {
+      case 'succeeded':
+        return RefundStatus.COMPLETED;
+      case 'failed':
+        return RefundStatus.FAILED;
+      case 'canceled':
+        return RefundStatus.CANCELLED;
+      case 'requires_action':
+        return RefundStatus.PROCESSING;
+      default:
+        return RefundStatus.PENDING;
+    }
+  }
+
+  private async findPaymentByIntent(
+    tx: TransactionClient,
+    context: EventContext,
+    intentId: string,
+  ) {
+    const payment = await tx.payment.findUnique({
+      where: { stripeIntentId: intentId },
+    });
+    if (!payment) {
+      this.logger.warn(
+        `No payment found for Stripe payment intent ${intentId}`,
+      );
+      return null;
+    }
+    // Payments record the organization whose account took them, null for
+    // the platform account
+    if ((payment.organizationId ?? null) !== context.organizationId) {
+      this.logger.warn(
+        `Ignoring Stripe event for payment ${payment.id} from the account of ${context.organizationId ? `organization ${context.organizationId}` : 'the platform'}`,
+      );
+      return null;
+    }
+    return payment;
+  }
+
+  private resolveId(
+    ref: string | { id: string } | null | undefined,
+  ): string | null {
+    if (!ref) return null;
+    return typeof ref === 'string' ? ref : ref.id;
+  }
+}
@@ -3,6 +3,7 @@ import {
   Post,
   Body,
   Get,
+  Put,
   Param,
   UseGuards,
   Request,
@@ -12,12 +13,14 @@ import { PaymentService } from './payment.service';
 import { RefundPaymentDto } from './dto/refund-payment.dto';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { ConfirmPaymentDto } from './dto/confirm-payment.dto';
+import { UpsertPaymentConfigDto } from './dto/upsert-payment-config.dto';
 import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
 import { UserRole } from '@prisma/client';
 import { Roles } from '../common/decorators/roles.decorator';
 
 @Controller('payment')
-@UseGuards(AuthGuard)
+@UseGuards(AuthGuard, RolesGuard)
 export class PaymentController {
   constructor(private readonly paymentService: PaymentService) {}
 
@@ -35,6 +38,19 @@ export class PaymentController {
     };
   }
 
+  @Get('options/:consultationId')
+  @Roles(UserRole.PATIENT)
+  async getPaymentOptions(
+    @Param('consultationId', ParseIntPipe) consultationId: number,
+    @Request() req
+  ): Promise<any> {
+    const result = await this.paymentService.getPaymentOptions(consultationId, req.user.id);
+    return {
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   @Post('confirm')
   @Roles(UserRole.PATIENT)
   async confirmPayment(
@@ -49,6 +65,18 @@ export class PaymentController {
     };
   }
 
+  @Post(':paymentId/mark-received')
+  @Roles(UserRole.ADMIN)
+  async markPaymentReceived(
+    @Param('paymentId', ParseIntPipe) paymentId: number
+  ): Promise<any> {
+    const result = await this.paymentService.markPaymentReceived(paymentId);
+    return {
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   @Post('refund')
   @Roles(UserRole.ADMIN)
   async refundPayment(@Body() refundPaymentDto: RefundPaymentDto): Promise<any> {
@@ -69,4 +97,17 @@ export class PaymentController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  @Put('config/:organizationId')
+  @Roles(UserRole.ADMIN)
+  async updatePaymentConfig(
+    @Param('organizationId', ParseIntPipe) organizationId: number,
+    @Body() upsertPaymentConfigDto: UpsertPaymentConfigDto,
+  ): Promise<any> {
+    const result = await this.paymentService.updatePaymentConfig(organizationId, upsertPaymentConfigDto);
+    return {
+      ...result,
+      timestamp: new Date().toISOString(),
+    };
+  }
 }
\ No newline at end of file
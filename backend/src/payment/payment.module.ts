@@ -1,15 +1,39 @@
 import { Module } from '@nestjs/common';
 import { PaymentController } from './payment.controller';
+import { PaymentWebhookController } from './payment-webhook.controller';
 import { PaymentService } from './payment.service';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { PaymentConfigService } from './payment-config.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { StripePaymentProvider } from './providers/stripe-payment.provider';
+import { ManualPaymentProvider } from './providers/manual-payment.provider';
+import { PriceRuleController } from './price-rule.controller';
+import { PriceRuleService } from './price-rule.service';
+import { PaymentReportController } from './payment-report.controller';
+import { PaymentReportService } from './payment-report.service';
 import { StripeModule } from '../stripe/stripe.module';
+import { AuthModule } from '../auth/auth.module';
+import { ConfigModule } from '../config/config.module';
+import { InvoiceModule } from '../invoice/invoice.module';
 
 @Module({
-  imports: [StripeModule],
-  controllers: [PaymentController],
-  providers: [PaymentService],
-  exports: [PaymentService],
+  imports: [StripeModule, AuthModule, ConfigModule, InvoiceModule],
+  controllers: [
+    PaymentController,
+    PaymentWebhookController,
+    PriceRuleController,
+    PaymentReportController,
+  ],
+  providers: [
+    PaymentService,
+    PaymentWebhookService,
+    PaymentConfigService,
+    PaymentProviderRegistry,
+    StripePaymentProvider,
+    ManualPaymentProvider,
+    PriceRuleService,
+    PaymentReportService,
+  ],
+  exports: [PaymentService, PaymentConfigService],
 })
 export class PaymentModule {}
-
-
-
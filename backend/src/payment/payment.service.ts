@@ -1,9 +1,21 @@
 import { Injectable, BadRequestException, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
-import { StripeService } from '../stripe/stripe.service';
+import { PaymentAccount, PaymentConfigService } from './payment-config.service';
+import { PricingContext, PriceRuleService } from './price-rule.service';
+import { PaymentProviderRegistry } from './providers/payment-provider.registry';
+import { InvoiceService } from '../invoice/invoice.service';
+import { ProviderConfirmation } from './providers/payment-provider.interface';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { RefundPaymentDto } from './dto/refund-payment.dto';
-import { PaymentStatus, ConsultationStatus, UserRole } from '@prisma/client';
+import { UpsertPaymentConfigDto } from './dto/upsert-payment-config.dto';
+import {
+  PaymentStatus,
+  ConsultationStatus,
+  Prisma,
+  PaymentMethod,
+  PaymentProvider,
+  RefundStatus,
+} from '@prisma/client';
 import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
 import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
 
@@ -11,17 +23,21 @@ import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception
 export class PaymentService {
   constructor(
     private readonly prisma: DatabaseService,
-    private readonly stripeService: StripeService,
+    private readonly paymentConfigService: PaymentConfigService,
+    private readonly paymentProviderRegistry: PaymentProviderRegistry,
+    private readonly invoiceService: InvoiceService,
+    private readonly priceRuleService: PriceRuleService,
   ) {}
 
   async createPaymentIntent(createPaymentDto: CreatePaymentDto, patientId: number): Promise<ApiResponseDto<any>> {
-    const { consultationId, amount, currency = 'USD' } = createPaymentDto;
+    const { consultationId } = createPaymentDto;
 
     const consultation = await this.prisma.consultation.findUnique({
       where: { id: consultationId },
       include: { 
         owner: true, 
         payment: true,
+        timeSlot: true,
         participants: {
           where: { userId: patientId }
         }
@@ -50,46 +66,48 @@ export class PaymentService {
       throw HttpExceptionHelper.notFound('Patient not found');
     }
 
-    let stripeCustomerId = patient.stripeCustomerId;
-    if (!stripeCustomerId) {
-      const stripeCustomer = await this.stripeService.createCustomer({
-        email: patient.email,
-        name: `${patient.firstName} ${patient.lastName}`,
-      });
-      
-      stripeCustomerId = stripeCustomer.id;
-      await this.prisma.user.update({
-        where: { id: patientId },
-        data: { stripeCustomerId },
-      });
-    }
+    // Charge the payment account of the consultation's organization
+    const account = await this.paymentConfigService.resolveAccountForConsultation(consultation);
+    const provider = this.paymentProviderRegistry.get(account.provider);
+    const { amount, currency, pricing } = await this.computeAmount(consultation, account, createPaymentDto);
 
-    const paymentIntent = await this.stripeService.createPaymentIntent({
-      amount: Math.round(amount * 100),
+    const intent = await provider.createIntent({
+      account,
+      consultationId,
+      patient,
+      amount,
       currency,
-      customer: stripeCustomerId,
-      metadata: {
-        consultationId: consultationId.toString(),
-        patientId: patientId.toString(),
-      },
     });
 
+    const isStripe = account.provider === PaymentProvider.STRIPE;
     const payment = await this.prisma.payment.create({
       data: {
         consultationId,
         patientId,
-        stripePaymentId: paymentIntent.id,
-        stripeIntentId: paymentIntent.id,
+        organizationId: account.organizationId,
+        provider: account.provider,
+        providerReference: intent.reference,
+        stripePaymentId: isStripe ? intent.reference : null,
+        stripeIntentId: isStripe ? intent.reference : null,
         amount,
         currency,
-        status: PaymentStatus.PENDING,
-        paymentMethod: createPaymentDto.paymentMethod,
+        status: intent.status,
+        paymentMethod: isStripe
+          ? createPaymentDto.paymentMethod
+          : PaymentMethod.BANK_TRANSFER,
+        metadata: { pricing },
       },
     });
 
     const responseData = {
-      clientSecret: paymentIntent.client_secret,
+      provider: account.provider,
       paymentId: payment.id,
+      reference: intent.reference,
+      amount,
+      currency,
+      clientSecret: intent.clientSecret,
+      publishableKey: intent.publishableKey,
+      instructions: intent.instructions,
     };
 
     return ApiResponseDto.success(
@@ -99,9 +117,44 @@ export class PaymentService {
     );
   }
 
-  async confirmPayment(paymentIntentId: string, patientId: number): Promise<ApiResponseDto<any>> {
+  /**
+   * Tells the patient which payment flow the consultation's organization
+   * uses, so the payment page can render it before anything is created.
+   */
+  async getPaymentOptions(consultationId: number, patientId: number): Promise<ApiResponseDto<any>> {
+    const consultation = await this.prisma.consultation.findUnique({
+      where: { id: consultationId },
+      include: {
+        timeSlot: true,
+        participants: { where: { userId: patientId } },
+      },
+    });
+
+    if (!consultation || !consultation.participants.length) {
+      throw HttpExceptionHelper.notFound('Consultation not found');
+    }
+
+    const account = await this.paymentConfigService.resolveAccountForConsultation(consultation);
+    const price = account.organizationId
+      ? await this.priceRuleService.resolvePrice(consultation, account)
+      : null;
+
+    return ApiResponseDto.success(
+      {
+        provider: account.provider,
+        publishableKey: account.publishableKey,
+        consultationFee: price?.amount,
+        currency: price?.currency,
+        instructions: account.manualInstructions,
+      },
+      'Payment options retrieved successfully',
+      200,
+    );
+  }
+
+  async confirmPayment(reference: string, patientId: number): Promise<ApiResponseDto<any>> {
     const payment = await this.prisma.payment.findUnique({
-      where: { stripeIntentId: paymentIntentId },
+      where: { providerReference: reference },
       include: { consultation: true },
     });
 
@@ -109,27 +162,20 @@ export class PaymentService {
       throw HttpExceptionHelper.notFound('Payment not found');
     }
 
-    const paymentIntent = await this.stripeService.retrievePaymentIntent(paymentIntentId);
-
-    const updatedPayment = await this.prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: paymentIntent.status === 'succeeded' ? PaymentStatus.COMPLETED : PaymentStatus.FAILED,
-        paidAt: paymentIntent.status === 'succeeded' ? new Date() : null,
-        failureReason: paymentIntent.last_payment_error?.message || null,
-      },
-    });
+    const account = await this.paymentConfigService.resolveAccountForOrganization(payment.organizationId);
+    const confirmation = await this.paymentProviderRegistry
+      .get(payment.provider)
+      .confirm(reference, account);
 
-    // Update consultation status if payment is successful
-    if (paymentIntent.status === 'succeeded') {
-      await this.prisma.consultation.update({
-        where: { id: payment.consultationId },
-        data: { status: ConsultationStatus.SCHEDULED },
-      });
+    // Offline payments stay pending until an administrator records them
+    if (confirmation.status === PaymentStatus.PENDING) {
+      return ApiResponseDto.success(payment, 'Payment is awaiting settlement', 200);
     }
 
-    const message = paymentIntent.status === 'succeeded' 
-      ? 'Payment confirmed successfully' 
+    const updatedPayment = await this.completeOrFail(payment.id, payment.consultationId, confirmation);
+
+    const message = confirmation.status === PaymentStatus.COMPLETED
+      ? 'Payment confirmed successfully'
       : 'Payment confirmation failed';
 
     return ApiResponseDto.success(
@@ -139,6 +185,32 @@ export class PaymentService {
     );
   }
 
+  async markPaymentReceived(paymentId: number): Promise<ApiResponseDto<any>> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment) {
+      throw HttpExceptionHelper.notFound('Payment not found');
+    }
+    if (payment.provider !== PaymentProvider.MANUAL) {
+      throw HttpExceptionHelper.badRequest('Only offline payments can be marked as received');
+    }
+    if (payment.status !== PaymentStatus.PENDING) {
+      throw HttpExceptionHelper.badRequest(`Payment is already ${payment.status.toLowerCase()}`);
+    }
+
+    const updatedPayment = await this.completeOrFail(payment.id, payment.consultationId, {
+      status: PaymentStatus.COMPLETED,
+    });
+
+    return ApiResponseDto.success(
+      updatedPayment,
+      'Payment marked as received',
+      200,
+    );
+  }
+
   async refundPayment(refundDto: RefundPaymentDto): Promise<ApiResponseDto<any>> {
     const { paymentId, amount, reason } = refundDto;
 
@@ -146,28 +218,35 @@ export class PaymentService {
       where: { id: paymentId },
     });
 
-    if (!payment || payment.status !== PaymentStatus.COMPLETED) {
+    if (!payment || payment.status !== PaymentStatus.COMPLETED || !payment.providerReference) {
       throw HttpExceptionHelper.badRequest('Payment not found or not eligible for refund');
     }
 
-    // Create refund in Stripe
-    const refund = await this.stripeService.createRefund({
-      payment_intent: payment.stripeIntentId!,
-      amount: amount ? Math.round(amount * 100) : undefined,
-      reason: 'requested_by_customer',
+    // Refund on the account that took the payment
+    const account = await this.paymentConfigService.resolveAccountForOrganization(payment.organizationId);
+    const refund = await this.paymentProviderRegistry.get(payment.provider).refund({
+      account,
+      reference: payment.providerReference,
+      amount,
     });
 
-    // Create refund record
-    const paymentRefund = await this.prisma.paymentRefund.create({
-      data: {
-        paymentId,
-        stripeRefundId: refund.id,
-        amount: refund.amount / 100,
-        reason,
-        status: 'COMPLETED',
-        processedAt: new Date(),
-      },
-    });
+    const refundData = {
+      paymentId,
+      stripeRefundId: refund.reference,
+      amount: refund.amount,
+      reason,
+      status: refund.status,
+      processedAt: refund.status === RefundStatus.COMPLETED ? new Date() : null,
+    };
+
+    // Stripe refunds may already have been stored by the charge.refunded webhook
+    const paymentRefund = refund.reference
+      ? await this.prisma.paymentRefund.upsert({
+          where: { stripeRefundId: refund.reference },
+          update: { reason },
+          create: refundData,
+        })
+      : await this.prisma.paymentRefund.create({ data: refundData });
 
     // Update payment status
     const totalRefunded = await this.prisma.paymentRefund.aggregate({
@@ -185,6 +264,9 @@ export class PaymentService {
       data: { status: paymentStatus },
     });
 
+    // Issue the credit note once the refund has completed
+    await this.invoiceService.syncForPayment(paymentId);
+
     return ApiResponseDto.success(
       paymentRefund,
       'Payment refunded successfully',
@@ -193,22 +275,106 @@ export class PaymentService {
   }
 
   async getPaymentConfig(organizationId: number): Promise<ApiResponseDto<any>> {
-    const paymentConfig = await this.prisma.paymentConfig.findUnique({
-      where: { organizationId },
-    });
+    const responseData = await this.paymentConfigService.getPublicConfig(organizationId);
 
-    const responseData = {
-      stripePublishableKey: process.env.STRIPE_PUBLISHABLE_KEY,
+    return ApiResponseDto.success(
+      responseData,
+      'Payment configuration retrieved successfully',
+      200,
+    );
+  }
+
+  async updatePaymentConfig(
+    organizationId: number,
+    upsertPaymentConfigDto: UpsertPaymentConfigDto,
+  ): Promise<ApiResponseDto<any>> {
+    const responseData = await this.paymentConfigService.upsertConfig(
       organizationId,
-      consultationFee: paymentConfig?.consultationFee || 50.00,
-      currency: paymentConfig?.currency || 'USD',
-      isActive: paymentConfig?.isActive || false,
-    };
+      upsertPaymentConfigDto,
+    );
 
     return ApiResponseDto.success(
       responseData,
-      'Payment configuration retrieved successfully',
+      'Payment configuration updated successfully',
       200,
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Organization consultations are priced from their price rules (or the
+   * organization fee); only platform consultations use the requested amount.
+   */
+  private async computeAmount(
+    consultation: PricingContext,
+    account: PaymentAccount,
+    createPaymentDto: CreatePaymentDto,
+  ): Promise<{ amount: number; currency: string; pricing: Prisma.InputJsonObject }> {
+    if (!account.organizationId) {
+      if (!createPaymentDto.amount) {
+        throw HttpExceptionHelper.badRequest('Amount is required for this consultation');
+      }
+      const currency = createPaymentDto.currency || 'USD';
+      return {
+        amount: createPaymentDto.amount,
+        currency,
+        pricing: { source: 'REQUEST', amount: createPaymentDto.amount, currency },
+      };
+    }
+
+    const price = await this.priceRuleService.resolvePrice(consultation, account);
+    if (price.amount <= 0) {
+      throw HttpExceptionHelper.badRequest('This consultation has no fee to pay');
+    }
+
+    return {
+      amount: price.amount,
+      currency: price.currency,
+      pricing: {
+        source: price.source,
+        amount: price.amount,
+        currency: price.currency,
+        durationMinutes: price.durationMinutes,
+        rule: price.rule
+          ? {
+              id: price.rule.id,
+              name: price.rule.name,
+              specialityId: price.rule.specialityId,
+              groupId: price.rule.groupId,
+              practitionerId: price.rule.practitionerId,
+              minDurationMinutes: price.rule.minDurationMinutes,
+              maxDurationMinutes: price.rule.maxDurationMinutes,
+              priority: price.rule.priority,
+            }
+          : null,
+      },
+    };
+  }
+
+  private async completeOrFail(
+    paymentId: number,
+    consultationId: number,
+    confirmation: ProviderConfirmation,
+  ) {
+    const completed = confirmation.status === PaymentStatus.COMPLETED;
+
+    const updatedPayment = await this.prisma.payment.update({
+      where: { id: paymentId },
+      data: {
+        status: confirmation.status,
+        paidAt: completed ? new Date() : null,
+        failureReason: confirmation.failureReason || null,
+      },
+    });
+
+    // Update consultation status and issue the invoice if payment is successful
+    if (completed) {
+      await this.prisma.consultation.update({
+        where: { id: consultationId },
+        data: { status: ConsultationStatus.SCHEDULED },
+      });
+      await this.invoiceService.syncForPayment(paymentId);
+    }
+
+    return updatedPayment;
+  }
+}
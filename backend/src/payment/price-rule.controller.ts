@@ -0,0 +1,124 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { PriceRuleService } from './price-rule.service';
+import { CreatePriceRuleDto } from './dto/create-price-rule.dto';
+import { UpdatePriceRuleDto } from './dto/update-price-rule.dto';
+
+@ApiTags('Price rules')
+@ApiBearerAuth()
+@Controller('payment/price-rules')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class PriceRuleController {
+  constructor(private readonly priceRuleService: PriceRuleService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List consultation price rules' })
+  @ApiQuery({ name: 'organizationId', required: false, type: Number })
+  async findAll(
+    @Req() req: Request,
+    @Query('organizationId', new ParseIntPipe({ optional: true }))
+    organizationId?: number,
+  ) {
+    const rules = await this.priceRuleService.findAll(organizationId);
+    return ApiResponseDto.success(
+      rules,
+      'Price rules retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a consultation price rule' })
+  async findOne(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    const rule = await this.priceRuleService.findOne(id);
+    return ApiResponseDto.success(
+      rule,
+      'Price rule retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a consultation price rule' })
+  async create(
+    @Body() createPriceRuleDto: CreatePriceRuleDto,
+    @Req() req: Request,
+  ) {
+    const rule = await this.priceRuleService.create(createPriceRuleDto);
+    return ApiResponseDto.success(
+      rule,
+      'Price rule created successfully',
+      201,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a consultation price rule' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updatePriceRuleDto: UpdatePriceRuleDto,
+    @Req() req: Request,
+  ) {
+    const rule = await this.priceRuleService.update(id, updatePriceRuleDto);
+    return ApiResponseDto.success(
+      rule,
+      'Price rule updated successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a consultation price rule' })
+  async remove(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    await this.priceRuleService.remove(id);
+    return ApiResponseDto.success(
+      null,
+      'Price rule deleted successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
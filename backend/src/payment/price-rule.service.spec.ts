@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentProvider } from '@prisma/client';
+import { PriceRuleService, PricingContext } from './price-rule.service';
+import { DatabaseService } from '../database/database.service';
+import { PaymentAccount } from './payment-config.service';
+
+const account: PaymentAccount = {
+  organizationId: 1,
+  provider: PaymentProvider.STRIPE,
+  consultationFee: 50,
+  currency: 'CHF',
+};
+
+function rule(overrides: Record<string, any>) {
+  return {
+    organizationId: 1,
+    name: 'rule',
+    specialityId: null,
+    groupId: null,
+    practitionerId: null,
+    minDurationMinutes: null,
+    maxDurationMinutes: null,
+    currency: null,
+    priority: 0,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+describe('PriceRuleService', () => {
+  let service: PriceRuleService;
+  let dbServiceMock: any;
+
+  const consultation: PricingContext = {
+    groupId: 4,
+    specialityId: 2,
+    ownerId: 9,
+    timeSlot: { practitionerId: 9, startTime: '09:00', endTime: '09:30' },
+  };
+
+  beforeEach(async () => {
+    dbServiceMock = { priceRule: { findMany: jest.fn() } };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceRuleService,
+        { provide: DatabaseService, useValue: dbServiceMock },
+      ],
+    }).compile();
+
+    service = module.get<PriceRuleService>(PriceRuleService);
+  });
+
+  it('falls back to the organization fee when no rule matches', async () => {
+    dbServiceMock.priceRule.findMany.mockResolvedValue([
+      rule({ id: 1, specialityId: 3, amount: 120 }),
+    ]);
+
+    await expect(service.resolvePrice(consultation, account)).resolves.toEqual({
+      amount: 50,
+      currency: 'CHF',
+      source: 'ORGANIZATION_DEFAULT',
+      rule: null,
+      durationMinutes: 30,
+    });
+  });
+
+  it('prefers practitioner over group over speciality rules', async () => {
+    dbServiceMock.priceRule.findMany.mockResolvedValue([
+      rule({ id: 1, specialityId: 2, amount: 120 }),
+      rule({ id: 2, groupId: 4, specialityId: 2, amount: 90 }),
+      rule({ id: 3, practitionerId: 9, amount: 80, currency: 'EUR' }),
+    ]);
+
+    const price = await service.resolvePrice(consultation, account);
+
+    expect(price.rule?.id).toBe(3);
+    expect(price).toEqual(
+      expect.objectContaining({
+        amount: 80,
+        currency: 'EUR',
+        source: 'PRICE_RULE',
+      }),
+    );
+  });
+
+  it('matches duration ranges against the booked time slot', async () => {
+    dbServiceMock.priceRule.findMany.mockResolvedValue([
+      rule({ id: 1, specialityId: 2, amount: 100 }),
+      rule({ id: 2, specialityId: 2, maxDurationMinutes: 20, amount: 60 }),
+      rule({ id: 3, specialityId: 2, minDurationMinutes: 25, amount: 140 }),
+    ]);
+
+    const price = await service.resolvePrice(consultation, account);
+    expect(price.rule?.id).toBe(3);
+
+    const withoutSlot = await service.resolvePrice(
+      { ...consultation, timeSlot: null },
+      account,
+    );
+    expect(withoutSlot.rule?.id).toBe(1);
+  });
+
+  it('uses priority to break ties between equally specific rules', async () => {
+    dbServiceMock.priceRule.findMany.mockResolvedValue([
+      rule({ id: 1, groupId: 4, amount: 70 }),
+      rule({ id: 2, groupId: 4, amount: 75, priority: 10 }),
+    ]);
+
+    const price = await service.resolvePrice(consultation, account);
+    expect(price.rule?.id).toBe(2);
+  });
+});
@@ -0,0 +1,253 @@
+import { Injectable } from '@nestjs/common';
+import { PriceRule, Prisma, UserRole } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { PaymentAccount } from './payment-config.service';
+import { CreatePriceRuleDto } from './dto/create-price-rule.dto';
+import { UpdatePriceRuleDto } from './dto/update-price-rule.dto';
+
+/**
+ * Weight of each criterion when ranking matching rules. A practitioner rule
+ * beats any combination of group and speciality, a group rule beats a
+ * speciality rule, and a duration range only refines otherwise equal rules.
+ */
+const SPECIFICITY = {
+  practitioner: 8,
+  group: 4,
+  speciality: 2,
+  duration: 1,
+};
+
+export interface PricingContext {
+  groupId: number | null;
+  specialityId: number | null;
+  ownerId: number | null;
+  timeSlot?: {
+    practitionerId: number;
+    startTime: string;
+    endTime: string;
+  } | null;
+}
+
+export interface ResolvedPrice {
+  amount: number;
+  currency: string;
+  source: 'PRICE_RULE' | 'ORGANIZATION_DEFAULT';
+  rule: PriceRule | null;
+  durationMinutes: number | null;
+}
+
+@Injectable()
+export class PriceRuleService {
+  constructor(private readonly prisma: DatabaseService) {}
+
+  async findAll(organizationId?: number): Promise<PriceRule[]> {
+    return this.prisma.priceRule.findMany({
+      where: { organizationId },
+      orderBy: [{ organizationId: 'asc' }, { priority: 'desc' }, { id: 'asc' }],
+    });
+  }
+
+  async findOne(id: number): Promise<PriceRule> {
+    const rule = await this.prisma.priceRule.findUnique({ where: { id } });
+    if (!rule) {
+      throw HttpExceptionHelper.notFound('Price rule not found');
+    }
+    return rule;
+  }
+
+  async create(dto: CreatePriceRuleDto): Promise<PriceRule> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: dto.organizationId },
+    });
+    if (!organization) {
+      throw HttpExceptionHelper.notFound('Organization not found');
+    }
+
+    await this.validateCriteria(dto.organizationId, dto);
+
+    return this.prisma.priceRule.create({
+      data: { ...dto, currency: dto.currency?.toUpperCase() },
+    });
+  }
+
+  async update(id: number, dto: UpdatePriceRuleDto): Promise<PriceRule> {
+    const rule = await this.findOne(id);
+    await this.validateCriteria(rule.organizationId, { ...rule, ...dto });
+
+    return this.prisma.priceRule.update({
+      where: { id },
+      data: { ...dto, currency: dto.currency?.toUpperCase() },
+    });
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.findOne(id);
+    await this.prisma.priceRule.delete({ where: { id } });
+  }
+
+  /**
+   * Computes the fee of a consultation charged on `account`: the most
+   * specific active rule of the organization, otherwise the organization's
+   * default `consultationFee`.
+   */
+  async resolvePrice(
+    consultation: PricingContext,
+    account: PaymentAccount,
+  ): Promise<ResolvedPrice> {
+    if (!account.organizationId) {
+      throw HttpExceptionHelper.badRequest(
+        'Price rules only apply to organization payment accounts',
+      );
+    }
+
+    const durationMinutes = this.durationMinutes(consultation.timeSlot);
+    const practitionerId =
+      consultation.ownerId ?? consultation.timeSlot?.practitionerId ?? null;
+
+    const rules = await this.prisma.priceRule.findMany({
+      where: { organizationId: account.organizationId, isActive: true },
+    });
+
+    const rule = rules
+      .filter((candidate) =>
+        this.matches(candidate, consultation, practitionerId, durationMinutes),
+      )
+      .sort(
+        (a, b) =>
+          this.specificity(b) - this.specificity(a) ||
+          b.priority - a.priority ||
+          a.id - b.id,
+      )[0];
+
+    if (rule) {
+      return {
+        amount: Number(rule.amount),
+        currency: rule.currency ?? account.currency ?? 'USD',
+        source: 'PRICE_RULE',
+        rule,
+        durationMinutes,
+      };
+    }
+
+    return {
+      amount: Number(account.consultationFee ?? 0),
+      currency: account.currency ?? 'USD',
+      source: 'ORGANIZATION_DEFAULT',
+      rule: null,
+      durationMinutes,
+    };
+  }
+
+  private matches(
+    rule: PriceRule,
+    consultation: PricingContext,
+    practitionerId: number | null,
+    durationMinutes: number | null,
+  ): boolean {
+    if (rule.practitionerId && rule.practitionerId !== practitionerId) {
+      return false;
+    }
+    if (rule.groupId && rule.groupId !== consultation.groupId) {
+      return false;
+    }
+    if (rule.specialityId && rule.specialityId !== consultation.specialityId) {
+      return false;
+    }
+    if (rule.minDurationMinutes != null || rule.maxDurationMinutes != null) {
+      if (durationMinutes == null) {
+        return false;
+      }
+      if (
+        rule.minDurationMinutes != null &&
+        durationMinutes < rule.minDurationMinutes
+      ) {
+        return false;
+      }
+      if (
+        rule.maxDurationMinutes != null &&
+        durationMinutes > rule.maxDurationMinutes
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private specificity(rule: PriceRule): number {
+    return (
+      (rule.practitionerId ? SPECIFICITY.practitioner : 0) +
+      (rule.groupId ? SPECIFICITY.group : 0) +
+      (rule.specialityId ? SPECIFICITY.speciality : 0) +
+      (rule.minDurationMinutes != null || rule.maxDurationMinutes != null
+        ? SPECIFICITY.duration
+        : 0)
+    );
+  }
+
+  private durationMinutes(timeSlot: PricingContext['timeSlot']): number | null {
+    if (!timeSlot) {
+      return null;
+    }
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const duration =
+      toMinutes(timeSlot.endTime) - toMinutes(timeSlot.startTime);
+    return Number.isFinite(duration) && duration > 0 ? duration : null;
+  }
+
+  private async validateCriteria(
+    organizationId: number,
+    criteria: Pick<
+      Prisma.PriceRuleUncheckedCreateInput,
+      | 'groupId'
+      | 'specialityId'
+      | 'practitionerId'
+      | 'minDurationMinutes'
+      | 'maxDurationMinutes'
+    >,
+  ): Promise<void> {
+    const { groupId, specialityId, practitionerId } = criteria;
+
+    if (groupId) {
+      const group = await this.prisma.group.findUnique({
+        where: { id: groupId },
+      });
+      if (!group || group.organizationId !== organizationId) {
+        throw HttpExceptionHelper.badRequest(
+          'Group does not belong to the organization of the price rule',
+        );
+      }
+    }
+
+    if (specialityId) {
+      const speciality = await this.prisma.speciality.findUnique({
+        where: { id: specialityId },
+      });
+      if (!speciality) {
+        throw HttpExceptionHelper.badRequest('Speciality not found');
+      }
+    }
+
+    if (practitionerId) {
+      const practitioner = await this.prisma.user.findUnique({
+        where: { id: practitionerId },
+      });
+      if (!practitioner || practitioner.role !== UserRole.PRACTITIONER) {
+        throw HttpExceptionHelper.badRequest('Practitioner not found');
+      }
+    }
+
+    if (
+      criteria.minDurationMinutes != null &&
+      criteria.maxDurationMinutes != null &&
+      criteria.minDurationMinutes > criteria.maxDurationMinutes
+    ) {
+      throw HttpExceptionHelper.badRequest(
+        'minDurationMinutes must not be greater than maxDurationMinutes',
+      );
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { PaymentProvider, PaymentStatus, RefundStatus } from '@prisma/client';
+import { ManualPaymentProvider } from './manual-payment.provider';
+import { PaymentAccount } from '../payment-config.service';
+
+describe('ManualPaymentProvider', () => {
+  const provider = new ManualPaymentProvider();
+  const account: PaymentAccount = {
+    organizationId: 4,
+    provider: PaymentProvider.MANUAL,
+    manualInstructions: 'IBAN CH00 0000 0000 0000 0000 0',
+  };
+
+  it('issues an invoice reference with the organization instructions', async () => {
+    const intent = await provider.createIntent({
+      account,
+      consultationId: 12,
+      patient: { id: 1 } as any,
+      amount: 50,
+      currency: 'CHF',
+    });
+
+    expect(intent.reference).toMatch(/^INV-12-[A-Z0-9]+$/);
+    expect(intent.status).toBe(PaymentStatus.PENDING);
+    expect(intent.instructions).toBe(account.manualInstructions);
+    expect(intent.clientSecret).toBeUndefined();
+  });
+
+  it('keeps payments pending when the patient confirms', async () => {
+    await expect(provider.confirm()).resolves.toEqual({
+      status: PaymentStatus.PENDING,
+    });
+  });
+
+  it('records refunds without a provider reference', async () => {
+    await expect(
+      provider.refund({ account, reference: 'INV-12-ABC', amount: 20 }),
+    ).resolves.toEqual({
+      reference: null,
+      amount: 20,
+      status: RefundStatus.COMPLETED,
+    });
+  });
+});
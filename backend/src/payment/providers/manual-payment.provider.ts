@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentProvider, PaymentStatus, RefundStatus } from '@prisma/client';
+import { HttpExceptionHelper } from '../../common/helpers/execption/http-exception.helper';
+import {
+  CreateIntentParams,
+  IPaymentProvider,
+  ProviderConfirmation,
+  ProviderIntent,
+  ProviderRefund,
+  ProviderWebhookEvent,
+  RefundParams,
+} from './payment-provider.interface';
+
+const DEFAULT_INSTRUCTIONS =
+  'Please pay this invoice by bank transfer, quoting the reference below. Your consultation is confirmed once the payment has been received.';
+
+/**
+ * Offline invoice flow: the patient receives a reference and payment
+ * instructions, and an administrator marks the payment as received once
+ * the transfer shows up. Nothing is charged automatically.
+ */
+@Injectable()
+export class ManualPaymentProvider implements IPaymentProvider {
+  readonly provider = PaymentProvider.MANUAL;
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderIntent> {
+    return {
+      reference: this.generateReference(params.consultationId),
+      status: PaymentStatus.PENDING,
+      instructions: params.account.manualInstructions || DEFAULT_INSTRUCTIONS,
+    };
+  }
+
+  async confirm(): Promise<ProviderConfirmation> {
+    // Patients cannot confirm a transfer themselves
+    return { status: PaymentStatus.PENDING };
+  }
+
+  async refund(params: RefundParams): Promise<ProviderRefund> {
+    if (!params.amount) {
+      throw HttpExceptionHelper.badRequest(
+        'Refund amount is required for offline payments',
+      );
+    }
+    // The money is returned outside the platform; only record it
+    return {
+      reference: null,
+      amount: params.amount,
+      status: RefundStatus.COMPLETED,
+    };
+  }
+
+  parseWebhook(): ProviderWebhookEvent {
+    throw HttpExceptionHelper.badRequest(
+      'Offline payments do not receive webhooks',
+    );
+  }
+
+  private generateReference(consultationId: number): string {
+    const suffix = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `INV-${consultationId}-${suffix}`;
+  }
+}
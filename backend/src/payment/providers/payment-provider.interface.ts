@@ -0,0 +1,66 @@
+import {
+  PaymentProvider,
+  PaymentStatus,
+  RefundStatus,
+  User,
+} from '@prisma/client';
+import { PaymentAccount } from '../payment-config.service';
+
+export interface CreateIntentParams {
+  account: PaymentAccount;
+  consultationId: number;
+  patient: User;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * What the patient needs to complete a payment: a client secret for card
+ * flows, or instructions and a reference for offline flows.
+ */
+export interface ProviderIntent {
+  reference: string;
+  status: PaymentStatus;
+  clientSecret?: string | null;
+  publishableKey?: string;
+  instructions?: string;
+}
+
+export interface ProviderConfirmation {
+  status: PaymentStatus;
+  failureReason?: string | null;
+}
+
+export interface RefundParams {
+  account: PaymentAccount;
+  reference: string;
+  amount?: number;
+}
+
+export interface ProviderRefund {
+  /** Refund id on the provider side, when the provider issues one. */
+  reference: string | null;
+  amount: number;
+  status: RefundStatus;
+}
+
+export interface ProviderWebhookEvent {
+  id: string;
+  type: string;
+  data: { object: unknown };
+}
+
+export interface IPaymentProvider {
+  readonly provider: PaymentProvider;
+  createIntent(params: CreateIntentParams): Promise<ProviderIntent>;
+  confirm(
+    reference: string,
+    account: PaymentAccount,
+  ): Promise<ProviderConfirmation>;
+  refund(params: RefundParams): Promise<ProviderRefund>;
+  parseWebhook(
+    rawBody: Buffer,
+    signature: string,
+    account: PaymentAccount,
+  ): ProviderWebhookEvent;
+}
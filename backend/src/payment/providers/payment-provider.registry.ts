@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { PaymentProvider } from '@prisma/client';
+import { HttpExceptionHelper } from '../../common/helpers/execption/http-exception.helper';
+import { IPaymentProvider } from './payment-provider.interface';
+import { StripePaymentProvider } from './stripe-payment.provider';
+import { ManualPaymentProvider } from './manual-payment.provider';
+
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly providers: Map<PaymentProvider, IPaymentProvider>;
+
+  constructor(
+    stripePaymentProvider: StripePaymentProvider,
+    manualPaymentProvider: ManualPaymentProvider,
+  ) {
+    this.providers = new Map<PaymentProvider, IPaymentProvider>([
+      [stripePaymentProvider.provider, stripePaymentProvider],
+      [manualPaymentProvider.provider, manualPaymentProvider],
+    ]);
+  }
+
+  get(provider: PaymentProvider): IPaymentProvider {
+    const implementation = this.providers.get(provider);
+    if (!implementation) {
+      throw HttpExceptionHelper.badRequest(
+        `Payment provider ${provider} is not supported`,
+      );
+    }
+    return implementation;
+  }
+}
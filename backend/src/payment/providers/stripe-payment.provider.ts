@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PaymentProvider,
+  PaymentStatus,
+  RefundStatus,
+  User,
+} from '@prisma/client';
+import Stripe from 'stripe';
+import { DatabaseService } from '../../database/database.service';
+import { StripeService } from '../../stripe/stripe.service';
+import { HttpExceptionHelper } from '../../common/helpers/execption/http-exception.helper';
+import { PaymentAccount } from '../payment-config.service';
+import {
+  CreateIntentParams,
+  IPaymentProvider,
+  ProviderConfirmation,
+  ProviderIntent,
+  ProviderRefund,
+  RefundParams,
+} from './payment-provider.interface';
+
+@Injectable()
+export class StripePaymentProvider implements IPaymentProvider {
+  readonly provider = PaymentProvider.STRIPE;
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly stripeService: StripeService,
+  ) {}
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderIntent> {
+    const { account, consultationId, patient, amount, currency } = params;
+    const customer = await this.getOrCreateCustomer(patient, account);
+
+    const paymentIntent = await this.stripeService.createPaymentIntent(
+      {
+        amount: Math.round(amount * 100),
+        currency,
+        customer,
+        metadata: {
+          consultationId: consultationId.toString(),
+          patientId: patient.id.toString(),
+          organizationId: account.organizationId?.toString() ?? '',
+        },
+      },
+      account.secretKey,
+    );
+
+    return {
+      reference: paymentIntent.id,
+      status: PaymentStatus.PENDING,
+      clientSecret: paymentIntent.client_secret,
+      publishableKey: account.publishableKey,
+    };
+  }
+
+  async confirm(
+    reference: string,
+    account: PaymentAccount,
+  ): Promise<ProviderConfirmation> {
+    const paymentIntent = await this.stripeService.retrievePaymentIntent(
+      reference,
+      account.secretKey,
+    );
+
+    return {
+      status:
+        paymentIntent.status === 'succeeded'
+          ? PaymentStatus.COMPLETED
+          : PaymentStatus.FAILED,
+      failureReason: paymentIntent.last_payment_error?.message || null,
+    };
+  }
+
+  async refund(params: RefundParams): Promise<ProviderRefund> {
+    const refund = await this.stripeService.createRefund(
+      {
+        payment_intent: params.reference,
+        amount: params.amount ? Math.round(params.amount * 100) : undefined,
+        reason: 'requested_by_customer',
+      },
+      params.account.secretKey,
+    );
+
+    // Pending refunds are completed later by the charge.refund.updated webhook
+    return {
+      reference: refund.id,
+      amount: refund.amount / 100,
+      status:
+        refund.status === 'succeeded'
+          ? RefundStatus.COMPLETED
+          : RefundStatus.PENDING,
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    signature: string,
+    account: PaymentAccount,
+  ): Stripe.Event {
+    if (!account.webhookSecret) {
+      throw HttpExceptionHelper.internalServerError(
+        'Stripe webhook secret is not configured',
+      );
+    }
+    return this.stripeService.constructWebhookEvent(
+      rawBody,
+      signature,
+      account.webhookSecret,
+    );
+  }
+
+  /**
+   * Stripe customers belong to one Stripe account: the platform account keeps
+   * using `User.stripeCustomerId`, organization accounts use `PaymentCustomer`.
+   */
+  private async getOrCreateCustomer(
+    patient: User,
+    account: PaymentAccount,
+  ): Promise<string> {
+    const customerParams = {
+      email: patient.email,
+      name: `${patient.firstName} ${patient.lastName}`,
+    };
+
+    if (!account.organizationId) {
+      if (patient.stripeCustomerId) {
+        return patient.stripeCustomerId;
+      }
+      const stripeCustomer =
+        await this.stripeService.createCustomer(customerParams);
+      await this.prisma.user.update({
+        where: { id: patient.id },
+        data: { stripeCustomerId: stripeCustomer.id },
+      });
+      return stripeCustomer.id;
+    }
+
+    const existing = await this.prisma.paymentCustomer.findUnique({
+      where: {
+        userId_organizationId: {
+          userId: patient.id,
+          organizationId: account.organizationId,
+        },
+      },
+    });
+    if (existing) {
+      return existing.stripeCustomerId;
+    }
+
+    const stripeCustomer = await this.stripeService.createCustomer(
+      customerParams,
+      account.secretKey,
+    );
+    await this.prisma.paymentCustomer.create({
+      data: {
+        userId: patient.id,
+        organizationId: account.organizationId,
+        stripeCustomerId: stripeCustomer.id,
+      },
+    });
+    return stripeCustomer.id;
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { MessageService, User } from '@prisma/client';
+import { EmailService } from 'src/common/email/email.service';
+import {
+  outboxSendStatus,
+  ReminderChannel,
+  ReminderContent,
+  ReminderDelivery,
+  reminderDispatchOptions,
+} from './reminder-channel.interface';
+
+// Patients created from a phone number get a placeholder address
+const PLACEHOLDER_EMAIL_DOMAIN = '@temporary.local';
+
+@Injectable()
+export class EmailReminderChannel implements ReminderChannel {
+  readonly service = MessageService.EMAIL;
+
+  constructor(private readonly emailService: EmailService) {}
+
+  canReach(user: User): boolean {
+    return !!user.email && !user.email.endsWith(PLACEHOLDER_EMAIL_DOMAIN);
+  }
+
+  async send(user: User, content: ReminderContent): Promise<ReminderDelivery> {
+    const notification = await this.emailService.sendConsultationReminderEmail(
+      user.email,
+      content.recipientName,
+      content.scheduledTime,
+      content.joinLink,
+      content.consultationId,
+      content.locale,
+      reminderDispatchOptions(content),
+    );
+    return { sendStatus: outboxSendStatus(notification) };
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  MessageService,
+  NotificationStatus,
+  OutboundNotification,
+  User,
+} from '@prisma/client';
+import { RecipientLocale } from '../../i18n/i18n.service';
+
+/** What a reminder says, for every channel to render its own way */
+export interface ReminderContent {
+  consultationId: number;
+  reminderType: string;
+  recipientName: string;
+  /** Plain text version, used as is by SMS */
+  text: string;
+  /** Scheduled date, formatted for the recipient */
+  scheduledTime: string;
+  /** Start of the consultation */
+  scheduledDate: Date;
+  joinLink: string;
+  locale: RecipientLocale;
+  /** Template picked by the reminder plan step, if any */
+  templateKey?: string | null;
+}
+
+export interface ReminderDelivery {
+  sendStatus: string;
+  templateKey?: string;
+  templateSid?: string | null;
+}
+
+/**
+ * One way of reaching a user with a reminder. Channels throw when the
+ * message is not accepted, so that the next channel can be tried.
+ */
+export interface ReminderChannel {
+  readonly service: MessageService;
+  canReach(user: User): boolean;
+  send(user: User, content: ReminderContent): Promise<ReminderDelivery>;
+}
+
+/**
+ * Outbox options of reminder messages. A single attempt makes a provider
+ * failure show in `outboxSendStatus`, so the next channel is tried right
+ * away instead of the outbox retrying one the reminder already gave up on.
+ * Quiet hours lasting until the consultation starts drop the message.
+ */
+export function reminderDispatchOptions(content: ReminderContent) {
+  return { maxAttempts: 1, expiresAt: content.scheduledDate };
+}
+
+/**
+ * Reminder send status of a message handed to the notification outbox.
+ * Throws when it failed or was skipped, so that the next channel is tried;
+ * messages held back by the user's quiet hours count as queued.
+ */
+export function outboxSendStatus(notification: OutboundNotification): string {
+  if (
+    notification.status === NotificationStatus.FAILED ||
+    notification.status === NotificationStatus.SKIPPED
+  ) {
+    throw new Error(notification.lastError || 'Message could not be sent');
+  }
+  if (notification.status === NotificationStatus.PENDING) {
+    return 'QUEUED until quiet hours end';
+  }
+  return `SENT via ${notification.provider}`;
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { MessageService } from '@prisma/client';
+import { ReminderChannel } from './reminder-channel.interface';
+import { SmsReminderChannel } from './sms-reminder.channel';
+import { EmailReminderChannel } from './email-reminder.channel';
+import { WhatsappReminderChannel } from './whatsapp-reminder.channel';
+import {
+  DEFAULT_REMINDER_CHANNEL,
+  REMINDER_CHANNEL_FALLBACKS,
+} from '../reminder.constants';
+
+@Injectable()
+export class ReminderChannelRegistry {
+  private readonly channels: Map<MessageService, ReminderChannel>;
+
+  constructor(
+    smsReminderChannel: SmsReminderChannel,
+    emailReminderChannel: EmailReminderChannel,
+    whatsappReminderChannel: WhatsappReminderChannel,
+  ) {
+    this.channels = new Map<MessageService, ReminderChannel>([
+      [smsReminderChannel.service, smsReminderChannel],
+      [emailReminderChannel.service, emailReminderChannel],
+      [whatsappReminderChannel.service, whatsappReminderChannel],
+    ]);
+  }
+
+  /**
+   * Channels to try for a consultation: its own message service first,
+   * then the fallbacks. MANUALLY consultations get no channel at all.
+   */
+  deliveryOrder(preferred: MessageService | null): ReminderChannel[] {
+    if (preferred === MessageService.MANUALLY) {
+      return [];
+    }
+    const first = preferred ?? DEFAULT_REMINDER_CHANNEL;
+    return [
+      first,
+      ...REMINDER_CHANNEL_FALLBACKS.filter((service) => service !== first),
+    ]
+      .map((service) => this.channels.get(service))
+      .filter((channel): channel is ReminderChannel => !!channel);
+  }
+}
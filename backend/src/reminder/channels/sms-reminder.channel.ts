@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { MessageService, NotificationEvent, User } from '@prisma/client';
+import { NotificationOutboxService } from 'src/notification-outbox/notification-outbox.service';
+import {
+  outboxSendStatus,
+  ReminderChannel,
+  ReminderContent,
+  ReminderDelivery,
+  reminderDispatchOptions,
+} from './reminder-channel.interface';
+
+@Injectable()
+export class SmsReminderChannel implements ReminderChannel {
+  readonly service = MessageService.SMS;
+
+  constructor(
+    private readonly notificationOutboxService: NotificationOutboxService,
+  ) {}
+
+  canReach(user: User): boolean {
+    return !!user.phoneNumber;
+  }
+
+  async send(user: User, content: ReminderContent): Promise<ReminderDelivery> {
+    const notification = await this.notificationOutboxService.dispatch(
+      {
+        channel: MessageService.SMS,
+        recipient: user.phoneNumber!,
+        templateKey: content.templateKey ?? content.reminderType,
+        event: NotificationEvent.REMINDER,
+        payload: { body: `${content.text} ${content.joinLink}` },
+        consultationId: content.consultationId,
+        userId: user.id,
+      },
+      reminderDispatchOptions(content),
+    );
+    return { sendStatus: outboxSendStatus(notification) };
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { MessageService, NotificationEvent, User } from '@prisma/client';
+import { WhatsappTemplateSeederService } from 'src/whatsapp-template/whatsapp-template-seeder.service';
+import { NotificationOutboxService } from 'src/notification-outbox/notification-outbox.service';
+import { I18nService } from '../../i18n/i18n.service';
+import { ReminderType } from '../reminder.constants';
+import {
+  outboxSendStatus,
+  ReminderChannel,
+  ReminderContent,
+  ReminderDelivery,
+  reminderDispatchOptions,
+} from './reminder-channel.interface';
+
+@Injectable()
+export class WhatsappReminderChannel implements ReminderChannel {
+  readonly service = MessageService.WHATSAPP;
+
+  constructor(
+    private readonly whatsappTemplateSeederService: WhatsappTemplateSeederService,
+    private readonly notificationOutboxService: NotificationOutboxService,
+    private readonly i18nService: I18nService,
+  ) {}
+
+  canReach(user: User): boolean {
+    return !!user.phoneNumber;
+  }
+
+  async send(user: User, content: ReminderContent): Promise<ReminderDelivery> {
+    const templateKey =
+      content.templateKey ?? this.templateKeyFor(content.reminderType);
+    const template =
+      await this.whatsappTemplateSeederService.getProcessedTemplate(
+        templateKey,
+        this.i18nService.languageChain(content.locale.language),
+      );
+    if (!template) {
+      throw new Error(`WhatsApp template not found for key: ${templateKey}`);
+    }
+
+    const notification = await this.notificationOutboxService.dispatch(
+      {
+        channel: MessageService.WHATSAPP,
+        recipient: user.phoneNumber!,
+        templateKey,
+        event: NotificationEvent.REMINDER,
+        payload: {
+          templateSid: template.sid ?? '',
+          variables: {
+            patient_name: content.recipientName,
+            consultation_time: content.scheduledTime,
+          },
+        },
+        consultationId: content.consultationId,
+        userId: user.id,
+      },
+      reminderDispatchOptions(content),
+    );
+    return {
+      sendStatus: outboxSendStatus(notification),
+      templateKey,
+      templateSid: template.sid,
+    };
+  }
+
+  private templateKeyFor(reminderType: string): string {
+    switch (reminderType) {
+      case ReminderType.UPCOMING_APPOINTMENT_24H:
+        return 'consultation_reminder_24h';
+      case ReminderType.UPCOMING_APPOINTMENT_1H:
+        return 'consultation_reminder_1h';
+      default:
+        return 'consultation_reminder_generic';
+    }
+  }
+}
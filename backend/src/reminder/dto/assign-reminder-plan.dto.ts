@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, ValidateIf } from 'class-validator';
+
+export class AssignReminderPlanDto {
+  @ApiPropertyOptional({
+    description:
+      'Plan used for this consultation only; null goes back to the group or organization plan',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  planId?: number | null;
+}
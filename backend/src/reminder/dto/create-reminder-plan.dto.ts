@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MessageService } from '@prisma/client';
+
+export class ReminderPlanStepDto {
+  @ApiProperty({
+    description: 'Minutes before the scheduled date, e.g. 4320 for 72h',
+    example: 4320,
+  })
+  @IsInt()
+  @Min(1)
+  offsetMinutes: number;
+
+  @ApiPropertyOptional({
+    description: "Channel of this step, defaults to the consultation's",
+    enum: MessageService,
+  })
+  @IsOptional()
+  @IsEnum(MessageService)
+  channel?: MessageService;
+
+  @ApiPropertyOptional({ description: 'Template key used by this step' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  templateKey?: string;
+}
+
+export class CreateReminderPlanDto {
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsInt()
+  organizationId: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Group of the organization, or none for the whole organization',
+  })
+  @IsOptional()
+  @IsInt()
+  groupId?: number;
+
+  @ApiProperty({ example: '72h and 3h before' })
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 255)
+  name: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({ type: [ReminderPlanStepDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ReminderPlanStepDto)
+  steps: ReminderPlanStepDto[];
+}
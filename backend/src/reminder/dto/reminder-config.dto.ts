@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { IsBoolean, IsEnum, IsInt, IsOptional } from 'class-validator';
 import { ReminderType } from '../reminder.constants';
 
 export class ReminderConfigDto {
@@ -12,4 +12,9 @@ export class ReminderConfigDto {
   @IsEnum(ReminderType, { each: true })
   @IsOptional()
   types?: ReminderType[];
+
+  @ApiPropertyOptional({ description: 'Reminder plan overriding the group and organization plans' })
+  @IsInt()
+  @IsOptional()
+  planId?: number;
 }
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateReminderPlanDto } from './create-reminder-plan.dto';
+
+export class UpdateReminderPlanDto extends PartialType(
+  OmitType(CreateReminderPlanDto, ['organizationId'] as const),
+) {}
@@ -0,0 +1,158 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { ApiResponseDto } from '../common/helpers/response/api-response.dto';
+import { ReminderPlanService } from './reminder-plan.service';
+import { ReminderService } from './reminder.service';
+import { CreateReminderPlanDto } from './dto/create-reminder-plan.dto';
+import { UpdateReminderPlanDto } from './dto/update-reminder-plan.dto';
+import { AssignReminderPlanDto } from './dto/assign-reminder-plan.dto';
+
+@ApiTags('Reminder plans')
+@ApiBearerAuth()
+@Controller('reminder-plans')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class ReminderPlanController {
+  constructor(
+    private readonly reminderPlanService: ReminderPlanService,
+    private readonly reminderService: ReminderService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List reminder plans' })
+  @ApiQuery({ name: 'organizationId', required: false, type: Number })
+  async findAll(
+    @Req() req: Request,
+    @Query('organizationId', new ParseIntPipe({ optional: true }))
+    organizationId?: number,
+  ) {
+    const plans = await this.reminderPlanService.findAll(organizationId);
+    return ApiResponseDto.success(
+      plans,
+      'Reminder plans retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a reminder plan' })
+  async findOne(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    const plan = await this.reminderPlanService.findOne(id);
+    return ApiResponseDto.success(
+      plan,
+      'Reminder plan retrieved successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a reminder plan for an organization or one of its groups',
+  })
+  async create(
+    @Body() createReminderPlanDto: CreateReminderPlanDto,
+    @Req() req: Request,
+  ) {
+    const plan = await this.reminderPlanService.create(createReminderPlanDto);
+    return ApiResponseDto.success(
+      plan,
+      'Reminder plan created successfully',
+      201,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Patch('consultations/:consultationId')
+  @ApiOperation({
+    summary: 'Override the reminder plan of a single consultation',
+  })
+  async assign(
+    @Param('consultationId', ParseIntPipe) consultationId: number,
+    @Body() assignReminderPlanDto: AssignReminderPlanDto,
+    @Req() req: Request,
+  ) {
+    await this.reminderService.assignPlan(
+      consultationId,
+      assignReminderPlanDto.planId ?? null,
+    );
+    return ApiResponseDto.success(
+      null,
+      'Consultation reminders rescheduled successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a reminder plan' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateReminderPlanDto: UpdateReminderPlanDto,
+    @Req() req: Request,
+  ) {
+    const plan = await this.reminderPlanService.update(
+      id,
+      updateReminderPlanDto,
+    );
+    return ApiResponseDto.success(
+      plan,
+      'Reminder plan updated successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a reminder plan' })
+  async remove(@Param('id', ParseIntPipe) id: number, @Req() req: Request) {
+    await this.reminderPlanService.remove(id);
+    return ApiResponseDto.success(
+      null,
+      'Reminder plan deleted successfully',
+      200,
+      {
+        requestId: req['id'],
+        path: req.path,
+      },
+    );
+  }
+}
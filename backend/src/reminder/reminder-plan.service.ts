@@ -0,0 +1,239 @@
+import { Injectable } from '@nestjs/common';
+import { MessageService, Prisma } from '@prisma/client';
+import { DatabaseService } from 'src/database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import {
+  DEFAULT_REMINDER_TYPES,
+  REMINDER_TIMING,
+  ReminderType,
+} from './reminder.constants';
+import {
+  CreateReminderPlanDto,
+  ReminderPlanStepDto,
+} from './dto/create-reminder-plan.dto';
+import { UpdateReminderPlanDto } from './dto/update-reminder-plan.dto';
+
+const planInclude = {
+  steps: { orderBy: { offsetMinutes: 'desc' } },
+} satisfies Prisma.ReminderPlanInclude;
+
+export type ReminderPlanWithSteps = Prisma.ReminderPlanGetPayload<{
+  include: typeof planInclude;
+}>;
+
+/** One reminder to schedule, before the consultation's scheduled date */
+export interface ReminderStep {
+  type: string;
+  offsetMinutes: number;
+  planStepId: number | null;
+  channel: MessageService | null;
+  templateKey: string | null;
+}
+
+/**
+ * Reminder type of a plan step. Offsets of the built-in reminders keep
+ * their historical type, so they map to the same WhatsApp templates.
+ */
+export function reminderTypeForOffset(offsetMinutes: number): string {
+  const builtIn = (Object.keys(REMINDER_TIMING) as ReminderType[]).find(
+    (type) => REMINDER_TIMING[type] === offsetMinutes * 60 * 1000,
+  );
+  return builtIn ?? `BEFORE_${offsetMinutes}M`;
+}
+
+@Injectable()
+export class ReminderPlanService {
+  constructor(private readonly prisma: DatabaseService) {}
+
+  async findAll(organizationId?: number): Promise<ReminderPlanWithSteps[]> {
+    return this.prisma.reminderPlan.findMany({
+      where: { organizationId },
+      include: planInclude,
+      orderBy: [{ organizationId: 'asc' }, { groupId: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async findOne(id: number): Promise<ReminderPlanWithSteps> {
+    const plan = await this.prisma.reminderPlan.findUnique({
+      where: { id },
+      include: planInclude,
+    });
+    if (!plan) {
+      throw HttpExceptionHelper.notFound('Reminder plan not found');
+    }
+    return plan;
+  }
+
+  async create(dto: CreateReminderPlanDto): Promise<ReminderPlanWithSteps> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: dto.organizationId },
+    });
+    if (!organization) {
+      throw HttpExceptionHelper.notFound('Organization not found');
+    }
+    await this.validateGroup(dto.organizationId, dto.groupId);
+    this.validateSteps(dto.steps);
+    if (dto.isActive ?? true) {
+      await this.ensureSingleActivePlan(
+        dto.organizationId,
+        dto.groupId ?? null,
+      );
+    }
+
+    const { steps, ...plan } = dto;
+    return this.prisma.reminderPlan.create({
+      data: { ...plan, steps: { create: steps } },
+      include: planInclude,
+    });
+  }
+
+  async update(
+    id: number,
+    dto: UpdateReminderPlanDto,
+  ): Promise<ReminderPlanWithSteps> {
+    const plan = await this.findOne(id);
+    const groupId = dto.groupId !== undefined ? dto.groupId : plan.groupId;
+    await this.validateGroup(plan.organizationId, groupId);
+    if (dto.steps) {
+      this.validateSteps(dto.steps);
+    }
+    if (dto.isActive ?? plan.isActive) {
+      await this.ensureSingleActivePlan(
+        plan.organizationId,
+        groupId ?? null,
+        id,
+      );
+    }
+
+    const { steps, ...data } = dto;
+    return this.prisma.$transaction(async (tx) => {
+      // Steps are replaced as a whole; reminders already scheduled from the
+      // old steps keep their time and lose their step link.
+      if (steps) {
+        await tx.reminderPlanStep.deleteMany({ where: { planId: id } });
+      }
+      return tx.reminderPlan.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(steps && { steps: { create: steps } }),
+        },
+        include: planInclude,
+      });
+    });
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.findOne(id);
+    await this.prisma.reminderPlan.delete({ where: { id } });
+  }
+
+  /**
+   * Reminder steps of a consultation: its own plan, else the active plan
+   * of its group, else the active plan of the group's organization, else
+   * the built-in 24h, 1h and 2m reminders.
+   */
+  async resolveSteps(consultation: {
+    reminderPlanId: number | null;
+    groupId: number | null;
+  }): Promise<ReminderStep[]> {
+    let plan: ReminderPlanWithSteps | null = null;
+
+    if (consultation.reminderPlanId) {
+      plan = await this.prisma.reminderPlan.findUnique({
+        where: { id: consultation.reminderPlanId },
+        include: planInclude,
+      });
+    }
+
+    if (!plan && consultation.groupId) {
+      const group = await this.prisma.group.findUnique({
+        where: { id: consultation.groupId },
+        select: { organizationId: true },
+      });
+      plan =
+        (await this.prisma.reminderPlan.findFirst({
+          where: { groupId: consultation.groupId, isActive: true },
+          include: planInclude,
+        })) ??
+        (group
+          ? await this.prisma.reminderPlan.findFirst({
+              where: {
+                organizationId: group.organizationId,
+                groupId: null,
+                isActive: true,
+              },
+              include: planInclude,
+            })
+          : null);
+    }
+
+    if (!plan) {
+      return DEFAULT_REMINDER_TYPES.map((type) => this.builtInStep(type));
+    }
+
+    return plan.steps.map((step) => ({
+      type: reminderTypeForOffset(step.offsetMinutes),
+      offsetMinutes: step.offsetMinutes,
+      planStepId: step.id,
+      channel: step.channel,
+      templateKey: step.templateKey,
+    }));
+  }
+
+  builtInStep(type: ReminderType): ReminderStep {
+    return {
+      type,
+      offsetMinutes: REMINDER_TIMING[type] / (60 * 1000),
+      planStepId: null,
+      channel: null,
+      templateKey: null,
+    };
+  }
+
+  private async validateGroup(
+    organizationId: number,
+    groupId?: number | null,
+  ): Promise<void> {
+    if (!groupId) return;
+    const group = await this.prisma.group.findUnique({
+      where: { id: groupId },
+    });
+    if (!group || group.organizationId !== organizationId) {
+      throw HttpExceptionHelper.badRequest(
+        'Group does not belong to the organization of the reminder plan',
+      );
+    }
+  }
+
+  private validateSteps(steps: ReminderPlanStepDto[]): void {
+    const offsets = new Set(steps.map((step) => step.offsetMinutes));
+    if (offsets.size !== steps.length) {
+      throw HttpExceptionHelper.badRequest(
+        'Reminder plan steps must have different offsets',
+      );
+    }
+  }
+
+  private async ensureSingleActivePlan(
+    organizationId: number,
+    groupId: number | null,
+    excludeId?: number,
+  ): Promise<void> {
+    const existing = await this.prisma.reminderPlan.findFirst({
+      where: {
+        organizationId,
+        groupId,
+        isActive: true,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+    if (existing) {
+      throw HttpExceptionHelper.conflict(
+        groupId
+          ? `Group ${groupId} already has an active reminder plan`
+          : `Organization ${organizationId} already has an active reminder plan`,
+      );
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { MessageService } from '@prisma/client';
+
 export enum ReminderType {
   UPCOMING_APPOINTMENT_24H = 'UPCOMING_APPOINTMENT_24H',
   UPCOMING_APPOINTMENT_1H = 'UPCOMING_APPOINTMENT_1H',
@@ -22,3 +24,13 @@ export const DEFAULT_REMINDER_TYPES = [
   ReminderType.UPCOMING_APPOINTMENT_1H,
   ReminderType.UPCOMING_APPOINTMENT_2M, // Include 2-minute reminder
 ];
+
+// Consultations without a message service keep the historical WhatsApp reminders
+export const DEFAULT_REMINDER_CHANNEL = MessageService.WHATSAPP;
+
+// Channels tried, in this order, when the consultation's own channel fails
+export const REMINDER_CHANNEL_FALLBACKS: MessageService[] = [
+  MessageService.WHATSAPP,
+  MessageService.SMS,
+  MessageService.EMAIL,
+];
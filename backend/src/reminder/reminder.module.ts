@@ -3,21 +3,41 @@ import { ReminderService } from './reminder.service';
 import { ReminderProcessor } from './reminder.processor';
 import { DatabaseModule } from 'src/database/database.module';
 import { ConfigModule } from 'src/config/config.module';
-import { SmsProviderModule } from 'src/sms_provider/sms_provider.module';
+import { CoreModule } from 'src/core/core.module';
+import { SmsModule } from 'src/sms/sms.module';
 import { UserModule } from 'src/user/user.module';
+import { AuthModule } from 'src/auth/auth.module';
+import { NotificationOutboxModule } from 'src/notification-outbox/notification-outbox.module';
+import { NotificationPreferenceModule } from 'src/notification/notification-preference.module';
 import { WhatsappTemplateModule } from 'src/whatsapp-template/whatsapp-template.module';
+import { ReminderChannelRegistry } from './channels/reminder-channel.registry';
+import { SmsReminderChannel } from './channels/sms-reminder.channel';
+import { EmailReminderChannel } from './channels/email-reminder.channel';
+import { WhatsappReminderChannel } from './channels/whatsapp-reminder.channel';
+import { ReminderPlanService } from './reminder-plan.service';
+import { ReminderPlanController } from './reminder-plan.controller';
 
 @Module({
   imports: [
     DatabaseModule,
     ConfigModule,
-    SmsProviderModule,
+    CoreModule,
+    SmsModule,
     UserModule,
     WhatsappTemplateModule,
+    NotificationOutboxModule,
+    NotificationPreferenceModule,
+    AuthModule,
   ],
+  controllers: [ReminderPlanController],
   providers: [
     ReminderService,
+    ReminderPlanService,
     ReminderProcessor,
+    ReminderChannelRegistry,
+    SmsReminderChannel,
+    EmailReminderChannel,
+    WhatsappReminderChannel,
   ],
   exports: [ReminderService],
 })
@@ -2,16 +2,43 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ReminderService } from './reminder.service';
 import { DatabaseService } from 'src/database/database.service';
 import { ConfigService } from 'src/config/config.service';
-import { SmsProviderService } from 'src/sms_provider/sms_provider.service';
+import { ReminderChannelRegistry } from './channels/reminder-channel.registry';
+import { SmsReminderChannel } from './channels/sms-reminder.channel';
+import { EmailReminderChannel } from './channels/email-reminder.channel';
+import { ReminderPlanService } from './reminder-plan.service';
+import { I18nService } from '../i18n/i18n.service';
 import { ReminderType, ReminderStatus } from './reminder.constants';
-import { ConsultationStatus, ReminderStatus as PrismaReminderStatus } from '@prisma/client';
+import { ConsultationStatus, MessageService, NotificationStatus, ReminderStatus as PrismaReminderStatus } from '@prisma/client';
 import { Logger } from '@nestjs/common';
 
+// The reminder classes import their dependencies through the `src/` alias
+jest.mock('src/database/database.service', () => ({ DatabaseService: class {} }), { virtual: true });
+jest.mock('src/config/config.service', () => ({ ConfigService: class {} }), { virtual: true });
+jest.mock(
+  'src/notification-outbox/notification-outbox.service',
+  () => ({ NotificationOutboxService: class {} }),
+  { virtual: true },
+);
+jest.mock(
+  'src/notification/notification-preference.service',
+  () => ({ NotificationPreferenceService: class {} }),
+  { virtual: true },
+);
+// The real EmailService pulls in SendGrid and app-wide config
+jest.mock('src/common/email/email.service', () => ({ EmailService: class {} }), { virtual: true });
+jest.mock(
+  'src/whatsapp-template/whatsapp-template-seeder.service',
+  () => ({ WhatsappTemplateSeederService: class {} }),
+  { virtual: true },
+);
+
 describe('ReminderService', () => {
   let service: ReminderService;
   let dbServiceMock: any;
   let configServiceMock: any;
-  let smsProviderServiceMock: any;
+  let channelRegistryMock: any;
+  let whatsappChannel: any;
+  let smsChannel: any;
 
   beforeEach(async () => {
     // Create mocks
@@ -26,14 +53,39 @@ describe('ReminderService', () => {
         findUnique: jest.fn(),
         update: jest.fn(),
       },
+      reminderPlan: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      group: {
+        findUnique: jest.fn().mockResolvedValue({ organizationId: 4 }),
+      },
     };
 
-    configServiceMock = {};
-    smsProviderServiceMock = {};
+    configServiceMock = {
+      generatePatientRoute: jest.fn((route) => `https://patient.example.com/${route}`),
+      generatePractitionerRoute: jest.fn((route) => `https://practitioner.example.com/${route}`),
+      defaultLanguage: 'en',
+      defaultTimezone: 'UTC',
+    };
+    whatsappChannel = {
+      service: MessageService.WHATSAPP,
+      canReach: jest.fn().mockReturnValue(true),
+      send: jest.fn().mockResolvedValue({ sendStatus: 'SENT' }),
+    };
+    smsChannel = {
+      service: MessageService.SMS,
+      canReach: jest.fn().mockReturnValue(true),
+      send: jest.fn().mockResolvedValue({ sendStatus: 'SENT via fake' }),
+    };
+    channelRegistryMock = {
+      deliveryOrder: jest.fn().mockReturnValue([whatsappChannel, smsChannel]),
+    };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ReminderService,
+        ReminderPlanService,
         {
           provide: DatabaseService,
           useValue: dbServiceMock,
@@ -43,8 +95,12 @@ describe('ReminderService', () => {
           useValue: configServiceMock,
         },
         {
-          provide: SmsProviderService,
-          useValue: smsProviderServiceMock,
+          provide: ReminderChannelRegistry,
+          useValue: channelRegistryMock,
+        },
+        {
+          provide: I18nService,
+          useValue: new I18nService(dbServiceMock, configServiceMock),
         },
       ],
     }).compile();
@@ -102,6 +158,135 @@ describe('ReminderService', () => {
     });
   });
 
+  describe('reminder plans', () => {
+    const inTwoDays = () => new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    const plan = {
+      id: 8,
+      isActive: true,
+      steps: [
+        { id: 81, offsetMinutes: 48 * 60 - 30, channel: MessageService.EMAIL, templateKey: null },
+        { id: 82, offsetMinutes: 60, channel: null, templateKey: 'clinic_reminder' },
+      ],
+    };
+
+    it('expands the group plan into reminders', async () => {
+      dbServiceMock.consultation.findUnique.mockResolvedValue({ reminderPlanId: null, groupId: 6 });
+      dbServiceMock.reminderPlan.findFirst.mockResolvedValueOnce(plan);
+      const scheduledDate = inTwoDays();
+
+      await service.scheduleReminders(1, scheduledDate);
+
+      expect(dbServiceMock.reminderPlan.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { groupId: 6, isActive: true } }),
+      );
+      expect(dbServiceMock.consultationReminder.create).toHaveBeenCalledTimes(2);
+      expect(dbServiceMock.consultationReminder.create).toHaveBeenCalledWith({
+        data: {
+          consultationId: 1,
+          type: 'BEFORE_2850M',
+          scheduledFor: new Date(scheduledDate.getTime() - (48 * 60 - 30) * 60 * 1000),
+          status: PrismaReminderStatus.PENDING,
+          planStepId: 81,
+        },
+      });
+      expect(dbServiceMock.consultationReminder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: ReminderType.UPCOMING_APPOINTMENT_1H,
+          planStepId: 82,
+        }),
+      });
+    });
+
+    it('falls back to the organization plan of the group', async () => {
+      dbServiceMock.consultation.findUnique.mockResolvedValue({ reminderPlanId: null, groupId: 6 });
+      dbServiceMock.reminderPlan.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(plan);
+
+      await service.scheduleReminders(1, inTwoDays());
+
+      expect(dbServiceMock.reminderPlan.findFirst).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { organizationId: 4, groupId: null, isActive: true } }),
+      );
+      expect(dbServiceMock.consultationReminder.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('reschedules pending reminders from the new scheduled date', async () => {
+      const scheduledDate = inTwoDays();
+      dbServiceMock.consultation.findUnique
+        .mockResolvedValueOnce({ scheduledDate, status: ConsultationStatus.SCHEDULED, reminderEnabled: true })
+        .mockResolvedValueOnce({ reminderPlanId: null, groupId: null });
+
+      await service.rescheduleReminders(1);
+
+      expect(dbServiceMock.consultationReminder.updateMany).toHaveBeenCalledWith({
+        where: { consultationId: 1, status: PrismaReminderStatus.PENDING },
+        data: { status: PrismaReminderStatus.CANCELLED },
+      });
+      expect(dbServiceMock.consultationReminder.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: ReminderType.UPCOMING_APPOINTMENT_24H,
+          scheduledFor: new Date(scheduledDate.getTime() - 24 * 60 * 60 * 1000),
+        }),
+      });
+    });
+
+    it('uses the channel and template of the plan step', async () => {
+      const scheduledDate = new Date(Date.now() + 60 * 60 * 1000);
+      dbServiceMock.consultation.findUnique.mockResolvedValue({ remindersSent: {} });
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([
+        {
+          id: 5,
+          consultationId: 9,
+          type: ReminderType.UPCOMING_APPOINTMENT_1H,
+          scheduledFor: new Date(scheduledDate.getTime() - 60 * 60 * 1000),
+          planStep: plan.steps[1],
+          consultation: {
+            id: 9,
+            status: ConsultationStatus.SCHEDULED,
+            scheduledDate,
+            messageService: MessageService.SMS,
+            owner: { id: 2, firstName: 'Doctor', lastName: 'Smith', role: 'PRACTITIONER' },
+            participants: [{ userId: 3, user: { id: 3, firstName: 'John', lastName: 'Doe', role: 'PATIENT' } }],
+          },
+        },
+      ]);
+
+      await service.processDueReminders();
+
+      expect(channelRegistryMock.deliveryOrder).toHaveBeenCalledWith(MessageService.SMS);
+      expect(whatsappChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 3 }),
+        expect.objectContaining({ templateKey: 'clinic_reminder' }),
+      );
+    });
+
+    it('cancels reminders planned for an earlier scheduled date', async () => {
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([
+        {
+          id: 5,
+          consultationId: 9,
+          type: ReminderType.UPCOMING_APPOINTMENT_1H,
+          scheduledFor: new Date(),
+          planStep: null,
+          consultation: {
+            id: 9,
+            status: ConsultationStatus.SCHEDULED,
+            scheduledDate: new Date(Date.now() + 3 * 60 * 60 * 1000),
+            owner: { id: 2, firstName: 'Doctor', lastName: 'Smith', role: 'PRACTITIONER' },
+            participants: [],
+          },
+        },
+      ]);
+
+      await service.processDueReminders();
+
+      expect(whatsappChannel.send).not.toHaveBeenCalled();
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { status: PrismaReminderStatus.CANCELLED, sentAt: undefined },
+      });
+    });
+  });
+
   describe('cancelReminders', () => {
     it('should cancel all pending reminders for a consultation', async () => {
       const consultationId = 1;
@@ -219,4 +404,164 @@ describe('ReminderService', () => {
       });
     });
   });
+
+  describe('channel routing', () => {
+    const dueReminder = (messageService: MessageService | null) => ({
+      id: 5,
+      consultationId: 9,
+      type: ReminderType.UPCOMING_APPOINTMENT_1H,
+      scheduledFor: new Date(),
+      status: PrismaReminderStatus.PENDING,
+      consultation: {
+        id: 9,
+        status: ConsultationStatus.SCHEDULED,
+        scheduledDate: new Date(Date.now() + 60 * 60 * 1000),
+        messageService,
+        owner: { id: 2, firstName: 'Doctor', lastName: 'Smith', role: 'PRACTITIONER' },
+        participants: [
+          {
+            userId: 3,
+            user: { id: 3, firstName: 'John', lastName: 'Doe', phoneNumber: '+41791234567', role: 'PATIENT' },
+          },
+        ],
+      },
+    });
+
+    beforeEach(() => {
+      dbServiceMock.consultation.findUnique.mockResolvedValue({ remindersSent: {} });
+    });
+
+    it('falls back to the next channel and records the one used', async () => {
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([dueReminder(MessageService.WHATSAPP)]);
+      whatsappChannel.send.mockRejectedValue(new Error('template missing'));
+
+      await service.processDueReminders();
+
+      expect(channelRegistryMock.deliveryOrder).toHaveBeenCalledWith(MessageService.WHATSAPP);
+      expect(smsChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 3 }),
+        expect.objectContaining({
+          joinLink: 'https://patient.example.com/join-consultation/9',
+        }),
+      );
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: expect.objectContaining({ channel: MessageService.SMS }),
+      });
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { status: PrismaReminderStatus.SENT, sentAt: expect.any(Date) },
+      });
+    });
+
+    it('moves on to the next channel when the outbox could not send the message', async () => {
+      const dispatch = jest.fn().mockResolvedValue({
+        status: NotificationStatus.FAILED,
+        attempts: 1,
+        lastError: 'Twilio rejected the number',
+      });
+      const outboxSmsChannel = new SmsReminderChannel({ dispatch } as any);
+      channelRegistryMock.deliveryOrder.mockReturnValue([outboxSmsChannel, whatsappChannel]);
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([dueReminder(MessageService.SMS)]);
+
+      await service.processDueReminders();
+
+      expect(dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: MessageService.SMS }),
+        { maxAttempts: 1, expiresAt: expect.any(Date) },
+      );
+      expect(whatsappChannel.send).toHaveBeenCalled();
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: expect.objectContaining({ channel: MessageService.WHATSAPP }),
+      });
+    });
+
+    it('moves on to the next channel when the reminder email failed', async () => {
+      const emailService = {
+        sendConsultationReminderEmail: jest
+          .fn()
+          .mockRejectedValue(new Error('Email delivery failed: Connection timeout')),
+      };
+      const emailChannel = new EmailReminderChannel(emailService as any);
+      channelRegistryMock.deliveryOrder.mockReturnValue([emailChannel, smsChannel]);
+      const reminder = dueReminder(MessageService.EMAIL);
+      Object.assign(reminder.consultation.participants[0].user, { email: 'john@example.com' });
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([reminder]);
+
+      await service.processDueReminders();
+
+      expect(emailService.sendConsultationReminderEmail).toHaveBeenCalledWith(
+        'john@example.com',
+        'John',
+        expect.any(String),
+        'https://patient.example.com/join-consultation/9',
+        9,
+        expect.any(Object),
+        { maxAttempts: 1, expiresAt: reminder.consultation.scheduledDate },
+      );
+      expect(smsChannel.send).toHaveBeenCalled();
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: expect.objectContaining({ channel: MessageService.SMS }),
+      });
+    });
+
+    it('marks the reminder failed when no channel delivers it', async () => {
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([dueReminder(MessageService.SMS)]);
+      whatsappChannel.send.mockRejectedValue(new Error('down'));
+      smsChannel.send.mockRejectedValue(new Error('down'));
+
+      await service.processDueReminders();
+
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: expect.objectContaining({ channel: null }),
+      });
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { status: PrismaReminderStatus.FAILED, sentAt: undefined },
+      });
+    });
+
+    it('writes to each recipient in their language and timezone', async () => {
+      const reminder = dueReminder(MessageService.WHATSAPP);
+      reminder.consultation.scheduledDate = new Date('2030-03-04T13:30:00Z');
+      reminder.scheduledFor = new Date('2030-03-04T12:30:00Z');
+      (reminder.consultation as any).timezone = 'Europe/Zurich';
+      (reminder.consultation.participants[0] as any).language = 'French';
+      (reminder.consultation.owner as any).languages = [{ language: { name: 'German' } }];
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([reminder]);
+
+      await service.processDueReminders();
+
+      expect(whatsappChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 3 }),
+        expect.objectContaining({
+          text: expect.stringMatching(/^Rappel : votre consultation avec le Dr Smith est prévue le lundi 4 mars 2030.*14:30/),
+          locale: { language: 'fr', timezone: 'Europe/Zurich' },
+        }),
+      );
+      expect(whatsappChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 2 }),
+        expect.objectContaining({
+          text: expect.stringMatching(/^Erinnerung: Ihre Konsultation mit John Doe ist für Montag, 4\. März 2030.*14:30/),
+          locale: { language: 'de', timezone: 'Europe/Zurich' },
+        }),
+      );
+    });
+
+    it('skips consultations messaged manually', async () => {
+      dbServiceMock.consultationReminder.findMany.mockResolvedValue([dueReminder(MessageService.MANUALLY)]);
+
+      await service.processDueReminders();
+
+      expect(whatsappChannel.send).not.toHaveBeenCalled();
+      expect(smsChannel.send).not.toHaveBeenCalled();
+      expect(dbServiceMock.consultationReminder.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { status: PrismaReminderStatus.CANCELLED, sentAt: undefined },
+      });
+    });
+  });
 });
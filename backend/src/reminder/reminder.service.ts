@@ -1,13 +1,18 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { ReminderType, ReminderStatus, REMINDER_TIMING, DEFAULT_REMINDER_TYPES } from './reminder.constants';
+import { ReminderType, ReminderStatus, REMINDER_TIMING } from './reminder.constants';
 import { DatabaseService } from 'src/database/database.service';
 import { ConfigService } from 'src/config/config.service';
-import { SmsProviderService } from 'src/sms_provider/sms_provider.service';
-import { WhatsappTemplateService } from 'src/whatsapp-template/whatsapp-template.service';
-import { WhatsappTemplateSeederService } from 'src/whatsapp-template/whatsapp-template-seeder.service';
-import { TwilioWhatsappService } from 'src/whatsapp-template/twilio-template.service';
-import { ConsultationStatus, Prisma, ReminderStatus as PrismaReminderStatus, User } from '@prisma/client';
+import { ReminderChannelRegistry } from './channels/reminder-channel.registry';
+import { ReminderContent, ReminderDelivery } from './channels/reminder-channel.interface';
+import { ReminderPlanService, ReminderStep } from './reminder-plan.service';
+import { I18nService, RecipientLocale } from '../i18n/i18n.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { ConsultationStatus, MessageService, Prisma, ReminderStatus as PrismaReminderStatus, User } from '@prisma/client';
+
+interface ReminderOutcome extends ReminderDelivery {
+  channel: MessageService | null;
+}
 
 @Injectable()
 export class ReminderService {
@@ -16,22 +21,23 @@ export class ReminderService {
   constructor(
     private readonly db: DatabaseService,
     private readonly configService: ConfigService,
-    private readonly smsProviderService: SmsProviderService,
-  private readonly whatsappTemplateService: WhatsappTemplateService,
-  private readonly whatsappTemplateSeederService: WhatsappTemplateSeederService,
-  private readonly twilioWhatsappService: TwilioWhatsappService,
+    private readonly reminderChannelRegistry: ReminderChannelRegistry,
+    private readonly reminderPlanService: ReminderPlanService,
+    private readonly i18nService: I18nService,
   ) {}
 
   /**
-   * Schedule reminders for a consultation
+   * Schedule reminders for a consultation. Calling it again, for instance
+   * after the scheduled date changed, replaces the pending reminders.
    * @param consultationId The ID of the consultation
    * @param scheduledDate The scheduled date of the consultation
-   * @param reminderTypes Types of reminders to schedule (default: 24h and 1h before)
+   * @param reminderTypes Built-in reminder types to schedule instead of the
+   * consultation's reminder plan
    */
   async scheduleReminders(
     consultationId: number,
     scheduledDate: Date,
-    reminderTypes: ReminderType[] = DEFAULT_REMINDER_TYPES,
+    reminderTypes?: ReminderType[],
   ): Promise<void> {
     this.logger.log(`Scheduling reminders for consultation ${consultationId}`);
 
@@ -45,24 +51,29 @@ export class ReminderService {
     }
 
     try {
-      for (const reminderType of reminderTypes) {
-        const reminderTime = new Date(scheduledDate.getTime() - REMINDER_TIMING[reminderType]);
+      const steps = reminderTypes
+        ? reminderTypes.map((type) => this.reminderPlanService.builtInStep(type))
+        : await this.resolveSteps(consultationId);
+
+      for (const step of steps) {
+        const reminderTime = new Date(scheduledDate.getTime() - step.offsetMinutes * 60 * 1000);
         
         if (reminderTime <= new Date()) {
-          this.logger.log(`Reminder time for ${reminderType} is in the past, skipping`);
+          this.logger.log(`Reminder time for ${step.type} is in the past, skipping`);
           continue;
         }
 
         await this.db.consultationReminder.create({
           data: {
             consultationId,
-            type: reminderType,
+            type: step.type,
             scheduledFor: reminderTime,
             status: PrismaReminderStatus.PENDING,
+            planStepId: step.planStepId,
           },
         });
 
-        this.logger.log(`Scheduled ${reminderType} reminder for consultation ${consultationId} at ${reminderTime.toISOString()}`);
+        this.logger.log(`Scheduled ${step.type} reminder for consultation ${consultationId} at ${reminderTime.toISOString()}`);
       }
     } catch (error) {
       this.logger.error(`Error scheduling reminders for consultation ${consultationId}:`, error);
@@ -70,6 +81,63 @@ export class ReminderService {
     }
   }
 
+  /**
+   * Bring the reminders of a consultation in line with its current
+   * scheduled date, status and reminder plan
+   * @param consultationId The ID of the consultation
+   */
+  async rescheduleReminders(consultationId: number): Promise<void> {
+    const consultation = await this.db.consultation.findUnique({
+      where: { id: consultationId },
+      select: { scheduledDate: true, status: true, reminderEnabled: true },
+    });
+    if (!consultation) {
+      throw HttpExceptionHelper.notFound('Consultation not found');
+    }
+
+    if (
+      consultation.scheduledDate &&
+      consultation.reminderEnabled &&
+      consultation.status === ConsultationStatus.SCHEDULED
+    ) {
+      await this.scheduleReminders(consultationId, consultation.scheduledDate);
+    } else {
+      await this.cancelReminders(consultationId);
+    }
+  }
+
+  /**
+   * Use a reminder plan for one consultation only, or go back to its group
+   * or organization plan with `null`, and reschedule its reminders
+   * @param consultationId The ID of the consultation
+   * @param planId The plan to use
+   */
+  async assignPlan(consultationId: number, planId: number | null): Promise<void> {
+    if (planId !== null) {
+      const plan = await this.reminderPlanService.findOne(planId);
+      if (!plan.isActive) {
+        throw HttpExceptionHelper.badRequest('Reminder plan is not active');
+      }
+    }
+
+    await this.db.consultation.update({
+      where: { id: consultationId },
+      data: { reminderPlanId: planId },
+    });
+    await this.rescheduleReminders(consultationId);
+  }
+
+  private async resolveSteps(consultationId: number): Promise<ReminderStep[]> {
+    const consultation = await this.db.consultation.findUnique({
+      where: { id: consultationId },
+      select: { reminderPlanId: true, groupId: true },
+    });
+    return this.reminderPlanService.resolveSteps({
+      reminderPlanId: consultation?.reminderPlanId ?? null,
+      groupId: consultation?.groupId ?? null,
+    });
+  }
+
   /**
    * Cancel all pending reminders for a consultation
    * @param consultationId The ID of the consultation
@@ -107,12 +175,17 @@ export class ReminderService {
           },
         },
         include: {
+          planStep: true,
           consultation: {
             include: {
-              owner: true,
+              owner: {
+                include: { languages: { include: { language: true } } },
+              },
               participants: {
                 include: {
-                  user: true,
+                  user: {
+                    include: { languages: { include: { language: true } } },
+                  },
                 },
               },
             },
@@ -152,9 +225,25 @@ export class ReminderService {
         await this.markReminderAs(reminder.id, PrismaReminderStatus.CANCELLED);
         return;
       }
+      if (this.isStale(reminder, new Date(scheduledDate))) {
+        this.logger.log(`Consultation ${reminder.consultationId} was rescheduled after reminder ${reminder.id} was planned, cancelling it`);
+        await this.markReminderAs(reminder.id, PrismaReminderStatus.CANCELLED);
+        return;
+      }
+
+      // Practitioners contact MANUALLY consultations themselves
+      if (reminder.consultation.messageService === MessageService.MANUALLY) {
+        this.logger.log(`Consultation ${reminder.consultationId} is messaged manually, skipping reminder`);
+        await this.markReminderAs(reminder.id, PrismaReminderStatus.CANCELLED);
+        return;
+      }
 
       // Send the reminder
-      await this.sendReminder(reminder);
+      const delivery = await this.sendReminder(reminder);
+      await this.recordDelivery(reminder.id, delivery);
+      if (!delivery.channel) {
+        throw new Error(`No channel could deliver reminder ${reminder.id}`);
+      }
 
       // Mark the reminder as sent
       await this.markReminderAs(reminder.id, PrismaReminderStatus.SENT, new Date());
@@ -168,10 +257,12 @@ export class ReminderService {
   }
 
   /**
-   * Send a reminder message
+   * Send a reminder to the patient and the practitioner
    * @param reminder The reminder to send
+   * @returns The delivery to the patient, or to the practitioner when the
+   * patient could not be reached
    */
-  private async sendReminder(reminder: any): Promise<void> {
+  private async sendReminder(reminder: any): Promise<ReminderOutcome> {
     const { consultation } = reminder;
     const practitioner = consultation.owner;
     
@@ -185,109 +276,149 @@ export class ReminderService {
     }
 
     const patient = patientParticipant.user;
+    const practitionerParticipant = consultation.participants.find(
+      p => p.userId === practitioner.id
+    );
 
-    // Format the consultation date for display
-    const consultationDate = new Date(consultation.scheduledDate);
-    const formattedDate = consultationDate.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-    
-    const formattedTime = consultationDate.toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+    // Each recipient reads the reminder in their language and timezone
+    const patientLocale = this.recipientLocale(patientParticipant, patient, consultation);
+    const practitionerLocale = this.recipientLocale(practitionerParticipant, practitioner, consultation);
+    const patientTime = this.i18nService.formatDateTime(consultation.scheduledDate, patientLocale);
+    const practitionerTime = this.i18nService.formatDateTime(consultation.scheduledDate, practitionerLocale);
+
+    // Plan steps may pick their own channel
+    const preferredChannel: MessageService | null =
+      reminder.planStep?.channel ?? consultation.messageService;
 
     // Send message to patient
-    if (patient.phoneNumber) {
-      await this.sendReminderMessage(
-        patient,
-        `Reminder: Your consultation with Dr. ${practitioner.lastName} is scheduled for ${formattedDate} at ${formattedTime}.`,
-        consultation.messageService
-      );
-    }
+    const patientDelivery = await this.sendReminderMessage(
+      patient,
+      {
+        consultationId: consultation.id,
+        reminderType: reminder.type,
+        recipientName: patient.firstName,
+        text: this.i18nService.translate('reminder', 'patient', patientLocale, {
+          practitioner: practitioner.lastName,
+          time: patientTime,
+        }),
+        scheduledTime: patientTime,
+        scheduledDate: consultation.scheduledDate,
+        locale: patientLocale,
+        joinLink: this.configService.generatePatientRoute(`join-consultation/${consultation.id}`),
+        templateKey: reminder.planStep?.templateKey,
+      },
+      preferredChannel
+    );
 
     // Send message to practitioner
-    if (practitioner.phoneNumber) {
-      await this.sendReminderMessage(
-        practitioner,
-        `Reminder: Your consultation with ${patient.firstName} ${patient.lastName} is scheduled for ${formattedDate} at ${formattedTime}.`,
-        consultation.messageService
-      );
-    }
+    const practitionerDelivery = await this.sendReminderMessage(
+      practitioner,
+      {
+        consultationId: consultation.id,
+        reminderType: reminder.type,
+        recipientName: this.i18nService.translate('reminder', 'practitionerName', practitionerLocale, {
+          name: practitioner.lastName,
+        }),
+        text: this.i18nService.translate('reminder', 'practitioner', practitionerLocale, {
+          patient: `${patient.firstName} ${patient.lastName}`,
+          time: practitionerTime,
+        }),
+        scheduledTime: practitionerTime,
+        scheduledDate: consultation.scheduledDate,
+        locale: practitionerLocale,
+        joinLink: this.configService.generatePractitionerRoute(`consultation-room/${consultation.id}`),
+        templateKey: reminder.planStep?.templateKey,
+      },
+      preferredChannel
+    );
+
+    const describe = (delivery: ReminderOutcome | null) =>
+      delivery ? `${delivery.channel} ${delivery.sendStatus}` : 'FAILED';
+    const main = patientDelivery ?? practitionerDelivery;
+    return {
+      channel: main?.channel ?? null,
+      sendStatus: `patient: ${describe(patientDelivery)}; practitioner: ${describe(practitionerDelivery)}`.slice(0, 100),
+      templateKey: main?.templateKey,
+      templateSid: main?.templateSid,
+    };
   }
 
   /**
-   * Send a reminder message to a user
+   * Send a reminder message to a user, trying the consultation's message
+   * service first and then the fallback channels
    * @param user The user to send the message to
-   * @param message The message text
-   * @param messageService The message service to use
+   * @param content The reminder content
+   * @param messageService The message service of the consultation
+   * @returns The delivery, or null when no channel reached the user
    */
   private async sendReminderMessage(
     user: User,
-    message: string,
-    messageService: any,
-    reminderId?: number,
-    reminderType?: string
-  ): Promise<void> {
-    if (!user.phoneNumber) {
-      this.logger.warn(`User ${user.id} has no phone number, cannot send reminder`);
-      return;
+    content: ReminderContent,
+    messageService: MessageService | null
+  ): Promise<ReminderOutcome | null> {
+    for (const channel of this.reminderChannelRegistry.deliveryOrder(messageService)) {
+      if (!channel.canReach(user)) {
+        continue;
+      }
+      try {
+        const delivery = await channel.send(user, content);
+        this.logger.log(`${channel.service} reminder sent to user ${user.id} for consultation ${content.consultationId}`);
+        return { ...delivery, channel: channel.service };
+      } catch (error) {
+        this.logger.warn(`${channel.service} reminder to user ${user.id} failed, trying next channel: ${error.message}`);
+      }
     }
 
-    // Choose template key based on reminderType
-    let templateKey = '';
-    if (reminderType === 'UPCOMING_APPOINTMENT_24H') {
-      templateKey = 'consultation_reminder_24h';
-    } else if (reminderType === 'UPCOMING_APPOINTMENT_1H') {
-      templateKey = 'consultation_reminder_1h';
-    } else {
-      templateKey = 'consultation_reminder_generic';
-    }
+    this.logger.error(`No channel could deliver the reminder to user ${user.id} for consultation ${content.consultationId}`);
+    return null;
+  }
 
-    let sendStatus = 'FAILED';
-    let templateSid = null;
-    try {
-      // Fetch template from SeederService (not WhatsappTemplateService)
-      const template = await this.whatsappTemplateSeederService.getProcessedTemplate(templateKey);
-      if (!template) {
-        this.logger.error(`WhatsApp template not found for key: ${templateKey}`);
-        throw new Error('WhatsApp template not found');
-      }
-      templateSid = template.sid;
-
-      // Prepare variables for template (customize as needed)
-      const variables = {
-        patient_name: user.firstName,
-        consultation_time: message, // fallback, ideally pass formatted time
-      };
-
-      // Send WhatsApp message using TwilioWhatsappService
-      const result = await this.twilioWhatsappService.sendTemplateMessage({
-        to: user.phoneNumber,
-  templateSid: templateSid ?? '',
-        variables,
-      });
-      sendStatus = result.status || 'SENT';
-      this.logger.log(`WhatsApp reminder sent to ${user.phoneNumber} using template ${templateKey}`);
-    } catch (error) {
-      this.logger.error(`Error sending WhatsApp reminder to ${user.phoneNumber}:`, error);
-      sendStatus = 'FAILED';
-    }
+  /**
+   * Locale of a reminder recipient: the language set on their participation,
+   * then their spoken languages, in the consultation's timezone
+   */
+  private recipientLocale(participant: any, user: any, consultation: any): RecipientLocale {
+    return this.i18nService.resolveLocale({
+      languages: [
+        participant?.language,
+        ...(user.languages ?? []).map((userLanguage) => userLanguage.language.name),
+      ],
+      timezones: [consultation.timezone],
+    });
+  }
 
-    // Log template info and send status in DB
-    if (reminderId) {
-      await this.db.consultationReminder.update({
-        where: { id: reminderId },
-        data: {
-          templateKey: templateKey ?? undefined,
-          templateSid,
-          sendStatus,
-        },
-      });
+  /**
+   * Whether a reminder was planned for an earlier scheduled date
+   * @param reminder The reminder, with its plan step
+   * @param scheduledDate The current scheduled date of the consultation
+   */
+  private isStale(reminder: any, scheduledDate: Date): boolean {
+    const offsetMs = reminder.planStep
+      ? reminder.planStep.offsetMinutes * 60 * 1000
+      : REMINDER_TIMING[reminder.type as ReminderType];
+    if (offsetMs === undefined) {
+      return false;
     }
+    const expected = scheduledDate.getTime() - offsetMs;
+    return Math.abs(new Date(reminder.scheduledFor).getTime() - expected) > 60 * 1000;
+  }
+
+  /**
+   * Store the channel actually used and the send result on the reminder
+   */
+  private async recordDelivery(
+    reminderId: number,
+    delivery: ReminderOutcome
+  ): Promise<void> {
+    await this.db.consultationReminder.update({
+      where: { id: reminderId },
+      data: {
+        channel: delivery.channel,
+        sendStatus: delivery.sendStatus,
+        templateKey: delivery.templateKey,
+        templateSid: delivery.templateSid,
+      },
+    });
   }
 
   /**
@@ -0,0 +1,21 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SmsAdapter, SmsMessage, SmsSendResult } from './sms-adapter.interface';
+
+/**
+ * Keeps messages in memory instead of sending them. Meant for tests and
+ * local development, through an `SmsProvider` row named `fake`.
+ */
+@Injectable()
+export class FakeSmsAdapter implements SmsAdapter {
+  readonly name = 'fake';
+  readonly sent: Array<SmsMessage & { messageId: string }> = [];
+  private readonly logger = new Logger(FakeSmsAdapter.name);
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const messageId = randomUUID();
+    this.sent.push({ ...message, messageId });
+    this.logger.log(`Fake SMS to ${message.to}: ${message.body}`);
+    return { provider: this.name, messageId };
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { ConfigService } from '../../config/config.service';
+import { SmsAdapter, SmsMessage, SmsSendResult } from './sms-adapter.interface';
+
+/**
+ * Posts `{ to, from, text }` as JSON to SMS_HTTP_GATEWAY_URL, for gateways
+ * without a dedicated adapter. Any 2xx response counts as accepted.
+ */
+@Injectable()
+export class HttpGatewaySmsAdapter implements SmsAdapter {
+  readonly name = 'http';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const { url, token, from } = this.configService.smsHttpGatewayConfig;
+    if (!url) {
+      throw new Error('SMS_HTTP_GATEWAY_URL is not configured');
+    }
+
+    const { data } = await axios.post(
+      url,
+      { to: message.to, from, text: message.body },
+      {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        timeout: 10000,
+      },
+    );
+    return { provider: this.name, messageId: data?.id ?? data?.messageId };
+  }
+}
@@ -0,0 +1,21 @@
+export interface SmsMessage {
+  /** Destination in international format, e.g. +41791234567 */
+  to: string;
+  body: string;
+}
+
+export interface SmsSendResult {
+  provider: string;
+  messageId?: string;
+}
+
+/**
+ * Sends SMS through one gateway. Adapters are looked up by the `provider`
+ * column of `SmsProvider` rows and throw when a message is not accepted,
+ * which makes `SmsService` fall back to the next provider.
+ */
+export interface SmsAdapter {
+  readonly name: string;
+  readonly aliases?: string[];
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { SmsAdapter } from './sms-adapter.interface';
+import { TwilioSmsAdapter } from './twilio-sms.adapter';
+import { VonageSmsAdapter } from './vonage-sms.adapter';
+import { HttpGatewaySmsAdapter } from './http-gateway-sms.adapter';
+import { FakeSmsAdapter } from './fake-sms.adapter';
+
+@Injectable()
+export class SmsAdapterRegistry {
+  private readonly adapters = new Map<string, SmsAdapter>();
+
+  constructor(
+    twilioSmsAdapter: TwilioSmsAdapter,
+    vonageSmsAdapter: VonageSmsAdapter,
+    httpGatewaySmsAdapter: HttpGatewaySmsAdapter,
+    fakeSmsAdapter: FakeSmsAdapter,
+  ) {
+    const adapters: SmsAdapter[] = [
+      twilioSmsAdapter,
+      vonageSmsAdapter,
+      httpGatewaySmsAdapter,
+      fakeSmsAdapter,
+    ];
+    for (const adapter of adapters) {
+      for (const name of [adapter.name, ...(adapter.aliases ?? [])]) {
+        this.adapters.set(name, adapter);
+      }
+    }
+  }
+
+  /** Adapter for a `SmsProvider.provider` value, matched case-insensitively */
+  find(provider: string | null): SmsAdapter | undefined {
+    return provider
+      ? this.adapters.get(provider.trim().toLowerCase())
+      : undefined;
+  }
+
+  get names(): string[] {
+    return [...this.adapters.keys()];
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import twilio from 'twilio';
+import { ConfigService } from '../../config/config.service';
+import { SmsAdapter, SmsMessage, SmsSendResult } from './sms-adapter.interface';
+
+@Injectable()
+export class TwilioSmsAdapter implements SmsAdapter {
+  readonly name = 'twilio';
+  private client: twilio.Twilio | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const from = this.configService.twilioSmsFrom;
+    if (!from) {
+      throw new Error('TWILIO_SMS_FROM is not configured');
+    }
+
+    const result = await this.getClient().messages.create({
+      to: message.to,
+      from,
+      body: message.body,
+      statusCallback: this.configService.twilioStatusCallbackUrl,
+    });
+    return { provider: this.name, messageId: result.sid };
+  }
+
+  private getClient(): twilio.Twilio {
+    if (!this.client) {
+      this.client = twilio(
+        this.configService.twilioAccountSid,
+        this.configService.twilioAuthToken,
+      );
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { ConfigService } from '../../config/config.service';
+import { SmsAdapter, SmsMessage, SmsSendResult } from './sms-adapter.interface';
+
+const VONAGE_SMS_URL = 'https://rest.nexmo.com/sms/json';
+
+interface VonageSmsResponse {
+  messages: Array<{
+    status: string;
+    'message-id'?: string;
+    'error-text'?: string;
+  }>;
+}
+
+@Injectable()
+export class VonageSmsAdapter implements SmsAdapter {
+  readonly name = 'vonage';
+  readonly aliases = ['nexmo'];
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const { apiKey, apiSecret, from } = this.configService.vonageConfig;
+    if (!apiKey || !apiSecret || !from) {
+      throw new Error('Vonage SMS is not configured');
+    }
+
+    const { data } = await axios.post<VonageSmsResponse>(VONAGE_SMS_URL, {
+      api_key: apiKey,
+      api_secret: apiSecret,
+      from,
+      // Vonage expects the number without the leading +
+      to: message.to.replace(/^\+/, ''),
+      text: message.body,
+    });
+
+    // Long messages are split into several parts, each with its own status
+    const failed = data.messages.find((part) => part.status !== '0');
+    if (failed) {
+      throw new Error(
+        `Vonage rejected the message (status ${failed.status}): ${failed['error-text']}`,
+      );
+    }
+    return { provider: this.name, messageId: data.messages[0]?.['message-id'] };
+  }
+}
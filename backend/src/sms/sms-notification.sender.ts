@@ -0,0 +1,48 @@
+import { HttpStatus, Injectable, OnModuleInit } from '@nestjs/common';
+import { MessageService, OutboundNotification } from '@prisma/client';
+import { NotificationOutboxService } from '../notification-outbox/notification-outbox.service';
+import {
+  NotificationDeliveryError,
+  NotificationSender,
+  NotificationSendResult,
+} from '../notification-outbox/notification-sender.interface';
+import { SmsService } from './sms.service';
+
+/** SMS as stored in the notification outbox */
+export interface SmsPayload {
+  body: string;
+}
+
+/** Sends outbox SMS through the provider routing table */
+@Injectable()
+export class SmsNotificationSender implements NotificationSender, OnModuleInit {
+  readonly channel = MessageService.SMS;
+
+  constructor(
+    private readonly smsService: SmsService,
+    private readonly notificationOutboxService: NotificationOutboxService,
+  ) {}
+
+  onModuleInit(): void {
+    this.notificationOutboxService.registerSender(this);
+  }
+
+  async send(
+    notification: OutboundNotification,
+  ): Promise<NotificationSendResult> {
+    const payload = notification.payload as unknown as SmsPayload;
+    try {
+      const result = await this.smsService.send(
+        notification.recipient,
+        payload.body,
+      );
+      return { provider: result.provider, providerMessageId: result.messageId };
+    } catch (error) {
+      // No provider routes to the number: retrying will not help
+      throw new NotificationDeliveryError(
+        error.message,
+        error.getStatus?.() !== HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { NotificationOutboxModule } from '../notification-outbox/notification-outbox.module';
+import { SmsService } from './sms.service';
+import { SmsNotificationSender } from './sms-notification.sender';
+import { SmsAdapterRegistry } from './adapters/sms-adapter.registry';
+import { TwilioSmsAdapter } from './adapters/twilio-sms.adapter';
+import { VonageSmsAdapter } from './adapters/vonage-sms.adapter';
+import { HttpGatewaySmsAdapter } from './adapters/http-gateway-sms.adapter';
+import { FakeSmsAdapter } from './adapters/fake-sms.adapter';
+
+@Module({
+  imports: [DatabaseModule, ConfigModule, NotificationOutboxModule],
+  providers: [
+    SmsService,
+    SmsNotificationSender,
+    SmsAdapterRegistry,
+    TwilioSmsAdapter,
+    VonageSmsAdapter,
+    HttpGatewaySmsAdapter,
+    FakeSmsAdapter,
+  ],
+  exports: [SmsService],
+})
+export class SmsModule {}
@@ -0,0 +1,99 @@
+import { Logger } from '@nestjs/common';
+import { SmsService, normalizePhoneNumber } from './sms.service';
+import { SmsAdapterRegistry } from './adapters/sms-adapter.registry';
+import { FakeSmsAdapter } from './adapters/fake-sms.adapter';
+
+// The Twilio, Vonage and HTTP adapters are never reached with "fake" rows
+jest.mock('../config/config.service', () => ({ ConfigService: class {} }));
+
+function provider(id: number, prefix: string | null, name = 'fake') {
+  return {
+    id,
+    order: id,
+    provider: name,
+    prefix,
+    isWhatsapp: false,
+    isDisabled: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('SmsService', () => {
+  let service: SmsService;
+  let prisma: any;
+  let fakeAdapter: FakeSmsAdapter;
+  let failingAdapter: any;
+
+  beforeEach(() => {
+    prisma = { smsProvider: { findMany: jest.fn() } };
+    fakeAdapter = new FakeSmsAdapter();
+    failingAdapter = {
+      name: 'http',
+      send: jest.fn().mockRejectedValue(new Error('gateway down')),
+    };
+    const registry = new SmsAdapterRegistry(
+      { name: 'twilio', send: jest.fn() } as any,
+      { name: 'vonage', aliases: ['nexmo'], send: jest.fn() } as any,
+      failingAdapter,
+      fakeAdapter,
+    );
+    service = new SmsService(prisma, registry);
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => {});
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+  });
+
+  it('routes to the first enabled provider whose prefix matches', async () => {
+    prisma.smsProvider.findMany.mockResolvedValue([
+      provider(1, '+33', 'http'),
+      provider(2, '0041'),
+      provider(3, null, 'http'),
+    ]);
+
+    const result = await service.send('+41 79 123 45 67', 'Hello');
+
+    expect(prisma.smsProvider.findMany).toHaveBeenCalledWith({
+      where: { isDisabled: false, isWhatsapp: false },
+      orderBy: { order: 'asc' },
+    });
+    expect(result.provider).toBe('fake');
+    expect(fakeAdapter.sent).toEqual([
+      expect.objectContaining({ to: '+41791234567', body: 'Hello' }),
+    ]);
+    expect(failingAdapter.send).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    prisma.smsProvider.findMany.mockResolvedValue([
+      provider(1, '+41', 'http'),
+      provider(2, null, 'unknown'),
+      provider(3, null),
+    ]);
+
+    const result = await service.send('+41791234567', 'Hello');
+
+    expect(failingAdapter.send).toHaveBeenCalledTimes(1);
+    expect(result.provider).toBe('fake');
+  });
+
+  it('fails when every matching provider fails', async () => {
+    prisma.smsProvider.findMany.mockResolvedValue([provider(1, null, 'http')]);
+
+    await expect(service.send('+41791234567', 'Hello')).rejects.toThrow(
+      'http: gateway down',
+    );
+  });
+
+  it('fails when no provider matches the number', async () => {
+    prisma.smsProvider.findMany.mockResolvedValue([provider(1, '+33')]);
+
+    await expect(service.send('+41791234567', 'Hello')).rejects.toThrow(
+      'No enabled SMS provider matches +41791234567',
+    );
+  });
+
+  it('normalizes phone numbers before matching prefixes', () => {
+    expect(normalizePhoneNumber('0041 (79) 123-45-67')).toBe('+41791234567');
+    expect(normalizePhoneNumber('41791234567')).toBe('+41791234567');
+  });
+});
@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SmsProvider } from '@prisma/client';
+import { DatabaseService } from '../database/database.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { SmsAdapterRegistry } from './adapters/sms-adapter.registry';
+import { SmsSendResult } from './adapters/sms-adapter.interface';
+
+/**
+ * Sends SMS through the `SmsProvider` routing table: enabled providers are
+ * tried in `order`, keeping those whose `prefix` matches the destination
+ * (an empty prefix matches every number), until one accepts the message.
+ */
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly adapterRegistry: SmsAdapterRegistry,
+  ) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const destination = normalizePhoneNumber(to);
+    const providers = await this.findRoutes(destination);
+    if (providers.length === 0) {
+      throw HttpExceptionHelper.badRequest(
+        `No enabled SMS provider matches ${destination}`,
+      );
+    }
+
+    const errors: string[] = [];
+    for (const provider of providers) {
+      const adapter = this.adapterRegistry.find(provider.provider);
+      if (!adapter) {
+        this.logger.warn(
+          `Skipping SMS provider ${provider.id}: no adapter for "${provider.provider}"`,
+        );
+        errors.push(`${provider.provider}: unsupported`);
+        continue;
+      }
+
+      try {
+        const result = await adapter.send({ to: destination, body });
+        this.logger.log(
+          `SMS to ${destination} sent through ${adapter.name} (provider ${provider.id})`,
+        );
+        return result;
+      } catch (error) {
+        this.logger.warn(
+          `SMS provider ${provider.id} (${adapter.name}) failed for ${destination}: ${error.message}`,
+        );
+        errors.push(`${adapter.name}: ${error.message}`);
+      }
+    }
+
+    throw HttpExceptionHelper.internalServerError(
+      `SMS to ${destination} could not be delivered (${errors.join('; ')})`,
+    );
+  }
+
+  /**
+   * Enabled SMS providers able to reach a number, in routing order.
+   */
+  async findRoutes(destination: string): Promise<SmsProvider[]> {
+    const providers = await this.prisma.smsProvider.findMany({
+      where: { isDisabled: false, isWhatsapp: false },
+      orderBy: { order: 'asc' },
+    });
+    return providers.filter(
+      (provider) =>
+        !provider.prefix ||
+        destination.startsWith(normalizePhoneNumber(provider.prefix)),
+    );
+  }
+}
+
+/**
+ * Strips formatting from a phone number and turns a leading 00 into +,
+ * so that `0041 79 123 45 67` and `+41791234567` route the same way.
+ */
+export function normalizePhoneNumber(value: string): string {
+  const compact = value.replace(/[\s\-().]/g, '');
+  if (compact.startsWith('00')) {
+    return `+${compact.slice(2)}`;
+  }
+  return compact.startsWith('+') ? compact : `+${compact}`;
+}
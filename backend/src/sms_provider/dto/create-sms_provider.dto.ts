@@ -14,8 +14,9 @@ export class CreateSmsProviderDto {
   order?: number;
 
   @ApiProperty({
-    description: 'Name of the SMS provider',
-    example: 'Twilio',
+    description:
+      'Adapter that sends the messages: twilio, vonage (or nexmo), http or fake',
+    example: 'twilio',
     required: false,
     maxLength: 100,
   })
@@ -25,8 +26,9 @@ export class CreateSmsProviderDto {
   provider?: string;
 
   @ApiProperty({
-    description: 'Prefix for the SMS provider',
-    example: 'TW',
+    description:
+      'Phone number prefix routed to this provider; empty matches every number',
+    example: '+41',
     required: false,
     maxLength: 20,
   })
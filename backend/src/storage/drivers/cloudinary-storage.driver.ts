@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { CloudinaryService } from 'nestjs-cloudinary';
+import { ResourceType } from 'cloudinary';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Stores files on Cloudinary as authenticated assets, which are not
+ * reachable through a public delivery URL. Keys have the form
+ * `<resource type>|<public id>|<format>`.
+ */
+@Injectable()
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly name = 'cloudinary' as const;
+
+  constructor(private readonly cloudinaryService: CloudinaryService) {}
+
+  async upload(file: Express.Multer.File, folder: string): Promise<string> {
+    const result = await this.cloudinaryService.uploadFile(file, {
+      folder,
+      type: 'authenticated',
+      resource_type: 'auto',
+    });
+    if (!('public_id' in result) || !result.public_id) {
+      throw new Error(`Cloudinary upload failed: ${result.message}`);
+    }
+    return [result.resource_type, result.public_id, result.format ?? ''].join(
+      '|',
+    );
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const { resourceType, publicId, format } = this.parseKey(key);
+    return this.cloudinaryService.cloudinary.utils.private_download_url(
+      publicId,
+      format,
+      {
+        resource_type: resourceType,
+        type: 'authenticated',
+        expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+      },
+    );
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await fetch(await this.getSignedUrl(key, 60));
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Cloudinary download failed with HTTP ${response.status}`,
+      );
+    }
+    return Readable.fromWeb(response.body as any);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { resourceType, publicId } = this.parseKey(key);
+    await this.cloudinaryService.cloudinary.uploader.destroy(publicId, {
+      resource_type: resourceType,
+      type: 'authenticated',
+      invalidate: true,
+    });
+  }
+
+  isInFolder(key: string, folder: string): boolean {
+    return this.parseKey(key).publicId?.startsWith(`${folder}/`) ?? false;
+  }
+
+  private parseKey(key: string): {
+    resourceType: ResourceType;
+    publicId: string;
+    format: string;
+  } {
+    const [resourceType, publicId, format = ''] = key.split('|');
+    return { resourceType: resourceType as ResourceType, publicId, format };
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, stat, unlink, writeFile } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigService } from 'src/config/config.service';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
+import { StorageDriver } from './storage-driver.interface';
+
+const KEY_PATTERN = /^[a-z0-9-]+\/[A-Za-z0-9-]+(\.[A-Za-z0-9]+)?$/;
+
+/**
+ * Stores files on the backend's own disk, for deployments that must not send
+ * files to a third party. Links point to `GET /storage/files/...` and are
+ * signed with an HMAC over the key and expiry time.
+ */
+@Injectable()
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async upload(file: Express.Multer.File, folder: string): Promise<string> {
+    const key = `${folder}/${uuidv4()}${extname(file.originalname).toLowerCase()}`;
+    this.assertValidKey(key);
+
+    await mkdir(join(this.rootDir, folder), { recursive: true });
+    await writeFile(this.pathFor(key), file.buffer);
+    return key;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    this.assertValidKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(key, expires);
+    return `${this.configService.backendApiBaseUrl}/api/v1/storage/files/${key}?expires=${expires}&signature=${signature}`;
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    this.assertValidKey(key);
+    const path = this.pathFor(key);
+    try {
+      await stat(path);
+    } catch {
+      throw HttpExceptionHelper.notFound('File not found');
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.assertValidKey(key);
+    try {
+      await unlink(this.pathFor(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  isInFolder(key: string, folder: string): boolean {
+    return KEY_PATTERN.test(key) && key.startsWith(`${folder}/`);
+  }
+
+  /**
+   * Checks a link produced by `getSignedUrl` before its file is served.
+   */
+  verifySignature(key: string, expires: number, signature: string): boolean {
+    if (!KEY_PATTERN.test(key) || !expires || !signature) return false;
+    if (expires < Math.floor(Date.now() / 1000)) return false;
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const received = Buffer.from(signature);
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.configService.secretsEncryptionKey)
+      .update(`${key}:${expires}`)
+      .digest('hex');
+  }
+
+  // Keys come back through URLs, so never let them leave the storage root
+  private assertValidKey(key: string): void {
+    if (!KEY_PATTERN.test(key)) {
+      throw HttpExceptionHelper.badRequest('Invalid storage key');
+    }
+  }
+
+  private pathFor(key: string): string {
+    return join(this.rootDir, key);
+  }
+
+  private get rootDir(): string {
+    return resolve(this.configService.storageLocalDir);
+  }
+}
@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigService } from 'src/config/config.service';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO). Links are
+ * presigned GET requests, so files are fetched straight from the bucket.
+ */
+@Injectable()
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+
+  private client: S3Client | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async upload(file: Express.Multer.File, folder: string): Promise<string> {
+    const key = `${folder}/${uuidv4()}${extname(file.originalname).toLowerCase()}`;
+
+    await this.s3.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: file.buffer,
+        ContentType: file.mimetype,
+        ContentLength: file.size,
+      }),
+    );
+    return key;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.s3,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn: expiresInSeconds },
+    );
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const object = await this.s3.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    return object.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  isInFolder(key: string, folder: string): boolean {
+    return key.startsWith(`${folder}/`) && !key.includes('..');
+  }
+
+  // Created on first use so deployments on another driver need no S3 config
+  private get s3(): S3Client {
+    if (!this.client) {
+      const config = this.configService.s3Config;
+      if (!config.bucket) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+      }
+      this.client = new S3Client({
+        endpoint: config.endpoint,
+        region: config.region,
+        forcePathStyle: config.forcePathStyle,
+        credentials:
+          config.accessKeyId && config.secretAccessKey
+            ? {
+                accessKeyId: config.accessKeyId,
+                secretAccessKey: config.secretAccessKey,
+              }
+            : undefined,
+      });
+    }
+    return this.client;
+  }
+
+  private get bucket(): string {
+    return this.configService.s3Config.bucket;
+  }
+}
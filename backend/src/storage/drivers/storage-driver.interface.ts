@@ -0,0 +1,22 @@
+import { Readable } from 'stream';
+
+export type StorageDriverName = 'cloudinary' | 'local' | 's3';
+
+/**
+ * Backend able to store files and hand out short-lived links to them. Keys
+ * are opaque to callers: only the driver that produced a key can resolve it.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  upload(file: Express.Multer.File, folder: string): Promise<string>;
+
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+
+  getStream(key: string): Promise<Readable>;
+
+  delete(key: string): Promise<void>;
+
+  /** Whether `key` was uploaded into `folder`. */
+  isInFolder(key: string, folder: string): boolean;
+}
@@ -1,10 +1,18 @@
 import {
   Controller,
+  Get,
+  Param,
   Post,
+  Query,
+  Res,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { extname } from 'path';
+import { Readable } from 'stream';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
 import { StorageService } from './storage.service';
 
 @Controller('storage')
@@ -14,7 +22,58 @@ export class StorageController {
   @Post('upload')
   @UseInterceptors(FileInterceptor('file'))
   async uploadFile(@UploadedFile() file: Express.Multer.File) {
-    const fileUrl = await this.storageService.uploadFile(file);
-    return { url: fileUrl };
+    const stored = await this.storageService.upload(file, 'uploads');
+    const url = await this.storageService.getSignedUrl(
+      stored.key,
+      stored.storage,
+    );
+    return { ...stored, url };
+  }
+
+  /**
+   * Serves files of the local driver through the links it signs.
+   */
+  @Get('files/:folder/:name')
+  async getLocalFile(
+    @Param('folder') folder: string,
+    @Param('name') name: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response,
+  ) {
+    const key = `${folder}/${name}`;
+    if (
+      !this.storageService.verifyLocalSignature(key, Number(expires), signature)
+    ) {
+      throw HttpExceptionHelper.forbidden('Link is invalid or has expired');
+    }
+
+    const stream = await this.storageService.getStream(key, 'local');
+    res.setHeader('Cache-Control', 'private, no-store');
+    this.send(res, stream, name);
+  }
+
+  @Get('public/:storage/:folder/:key')
+  async getPublicFile(
+    @Param('storage') storage: string,
+    @Param('folder') folder: string,
+    @Param('key') key: string,
+    @Res() res: Response,
+  ) {
+    const stream = await this.storageService.getPublicStream(
+      storage,
+      folder,
+      key,
+    );
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    this.send(res, stream, key);
+  }
+
+  private send(res: Response, stream: Readable, name: string) {
+    // Cloudinary keys end with `|<format>` instead of an extension
+    const extension = extname(name.replace(/\|/g, '.'));
+    if (extension.length > 1) res.type(extension);
+    stream.on('error', () => res.destroy());
+    stream.pipe(res);
   }
 }
@@ -2,21 +2,34 @@ import { Module } from '@nestjs/common';
 import { StorageService } from './storage.service';
 import { StorageController } from './storage.controller';
 import { CloudinaryModule } from 'nestjs-cloudinary';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  ConfigModule as NestConfigModule,
+  ConfigService as NestConfigService,
+} from '@nestjs/config';
+import { ConfigModule } from 'src/config/config.module';
+import { CloudinaryStorageDriver } from './drivers/cloudinary-storage.driver';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
 
 @Module({
   imports: [
+    ConfigModule,
     CloudinaryModule.forRootAsync({
-      imports: [ConfigModule],
-      useFactory: (configService: ConfigService) => ({
+      imports: [NestConfigModule],
+      useFactory: (configService: NestConfigService) => ({
         cloud_name: configService.get('cloudinary.cloud_name'),
         api_key: configService.get('cloudinary.api_key'),
         api_secret: configService.get('cloudinary.api_secret'),
       }),
-      inject: [ConfigService],
+      inject: [NestConfigService],
     }),
   ],
-  providers: [StorageService],
+  providers: [
+    StorageService,
+    CloudinaryStorageDriver,
+    LocalStorageDriver,
+    S3StorageDriver,
+  ],
   controllers: [StorageController],
   exports: [StorageService],
 })
@@ -0,0 +1,151 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { StorageService } from './storage.service';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+
+// The storage classes import their dependencies through the `src/` alias
+jest.mock('src/config/config.service', () => ({ ConfigService: class {} }), {
+  virtual: true,
+});
+jest.mock(
+  'src/common/helpers/execption/http-exception.helper',
+  () => ({
+    HttpExceptionHelper: {
+      notFound: (message: string) => new Error(message),
+      badRequest: (message: string) => new Error(message),
+    },
+  }),
+  { virtual: true },
+);
+jest.mock('nestjs-cloudinary', () => ({ CloudinaryService: class {} }));
+
+function file(name: string, content: string): Express.Multer.File {
+  const buffer = Buffer.from(content);
+  return {
+    buffer,
+    originalname: name,
+    mimetype: 'text/plain',
+    size: buffer.length,
+  } as Express.Multer.File;
+}
+
+async function read(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+}
+
+describe('StorageService', () => {
+  let service: StorageService;
+  let localDriver: LocalStorageDriver;
+  let s3Driver: any;
+  let storageDir: string;
+  let configService: any;
+
+  beforeEach(() => {
+    storageDir = mkdtempSync(join(tmpdir(), 'storage-'));
+    configService = {
+      storageDriver: 'local',
+      storageLocalDir: storageDir,
+      storageSignedUrlTtlSeconds: 300,
+      secretsEncryptionKey: 'test-key',
+      backendApiBaseUrl: 'https://api.example.com',
+    };
+    localDriver = new LocalStorageDriver(configService);
+    s3Driver = {
+      name: 's3',
+      getSignedUrl: jest.fn().mockResolvedValue('https://minio/signed'),
+    };
+    service = new StorageService(
+      configService,
+      {} as any,
+      localDriver,
+      s3Driver,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('signs local links that expire', async () => {
+    const stored = await service.upload(
+      file('Report.PDF', 'hello'),
+      'consultations-1',
+    );
+    expect(stored).toEqual({
+      key: expect.stringMatching(/^consultations-1\/[0-9a-f-]+\.pdf$/),
+      storage: 'local',
+    });
+
+    const url = new URL(await service.getSignedUrl(stored.key, stored.storage));
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(url.pathname).toBe(`/api/v1/storage/files/${stored.key}`);
+    expect(service.verifyLocalSignature(stored.key, expires, signature)).toBe(
+      true,
+    );
+    expect(
+      service.verifyLocalSignature(stored.key, expires + 1, signature),
+    ).toBe(false);
+    expect(
+      service.verifyLocalSignature(
+        stored.key,
+        Math.floor(Date.now() / 1000) - 1,
+        signature,
+      ),
+    ).toBe(false);
+    expect(await read(await service.getStream(stored.key, 'local'))).toBe(
+      'hello',
+    );
+  });
+
+  it('rejects keys that would escape the storage directory', async () => {
+    await expect(service.getStream('../etc/passwd', 'local')).rejects.toThrow(
+      'Invalid storage key',
+    );
+    expect(service.verifyLocalSignature('logos/../../secret', 1, 'x')).toBe(
+      false,
+    );
+  });
+
+  it('resolves files through the driver that stored them', async () => {
+    await expect(service.getSignedUrl('uploads/a.png', 's3')).resolves.toBe(
+      'https://minio/signed',
+    );
+    expect(s3Driver.getSignedUrl).toHaveBeenCalledWith('uploads/a.png', 300);
+  });
+
+  it('rejects unknown driver names, inherited object keys included', async () => {
+    expect(() => service.getSignedUrl('uploads/a.png', 'ftp')).toThrow(
+      'Unknown storage driver "ftp"',
+    );
+    await expect(
+      service.getPublicStream('constructor', 'logos', 'logos/a.png'),
+    ).rejects.toThrow('Unknown storage driver "constructor"');
+  });
+
+  it('only serves public folders without a signature', async () => {
+    const logo = await service.upload(file('logo.png', 'png'), 'logos');
+    const attachment = await service.upload(
+      file('scan.png', 'scan'),
+      'consultations-1',
+    );
+
+    expect(service.getPublicUrl(logo, 'logos')).toBe(
+      `https://api.example.com/api/v1/storage/public/local/logos/${encodeURIComponent(logo.key)}`,
+    );
+    expect(
+      await read(await service.getPublicStream('local', 'logos', logo.key)),
+    ).toBe('png');
+    await expect(
+      service.getPublicStream('local', 'logos', attachment.key),
+    ).rejects.toThrow('File not found');
+    await expect(
+      service.getPublicStream('local', 'consultations-1', attachment.key),
+    ).rejects.toThrow('File not found');
+  });
+});
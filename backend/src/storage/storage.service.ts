@@ -1,12 +1,107 @@
 import { Injectable } from '@nestjs/common';
-import { CloudinaryService } from 'nestjs-cloudinary';
+import { Readable } from 'stream';
+import { ConfigService } from 'src/config/config.service';
+import { HttpExceptionHelper } from 'src/common/helpers/execption/http-exception.helper';
+import {
+  StorageDriver,
+  StorageDriverName,
+} from './drivers/storage-driver.interface';
+import { CloudinaryStorageDriver } from './drivers/cloudinary-storage.driver';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
 
+// Folders whose files may be served without authentication
+export const PUBLIC_STORAGE_FOLDERS = ['logos'];
+
+export interface StoredFile {
+  key: string;
+  storage: StorageDriverName;
+}
+
+/**
+ * Entry point for file storage. New files go to the driver selected by
+ * STORAGE_DRIVER; existing files are always resolved through the driver
+ * that stored them, so switching drivers does not break older files.
+ */
 @Injectable()
 export class StorageService {
-  constructor(private readonly cloudinaryService: CloudinaryService) {}
+  private readonly drivers: Map<string, StorageDriver>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    cloudinaryDriver: CloudinaryStorageDriver,
+    private readonly localDriver: LocalStorageDriver,
+    s3Driver: S3StorageDriver,
+  ) {
+    this.drivers = new Map<string, StorageDriver>([
+      ['cloudinary', cloudinaryDriver],
+      ['local', localDriver],
+      ['s3', s3Driver],
+    ]);
+  }
+
+  async upload(file: Express.Multer.File, folder: string): Promise<StoredFile> {
+    const driver = this.driver();
+    const key = await driver.upload(file, folder);
+    return { key, storage: driver.name };
+  }
+
+  /**
+   * Short-lived link to a stored file, valid for
+   * STORAGE_SIGNED_URL_TTL_SECONDS.
+   */
+  getSignedUrl(key: string, storage?: string | null): Promise<string> {
+    return this.driver(storage).getSignedUrl(
+      key,
+      this.configService.storageSignedUrlTtlSeconds,
+    );
+  }
+
+  getStream(key: string, storage?: string | null): Promise<Readable> {
+    return this.driver(storage).getStream(key);
+  }
+
+  delete(key: string, storage?: string | null): Promise<void> {
+    return this.driver(storage).delete(key);
+  }
+
+  /**
+   * Permanent URL for files that are meant to be public, such as
+   * organization logos. It is served by `GET /storage/public/...`, which
+   * only exposes files from `PUBLIC_STORAGE_FOLDERS`.
+   */
+  getPublicUrl(file: StoredFile, folder: string): string {
+    return `${this.configService.backendApiBaseUrl}/api/v1/storage/public/${file.storage}/${folder}/${encodeURIComponent(file.key)}`;
+  }
+
+  async getPublicStream(
+    storage: string,
+    folder: string,
+    key: string,
+  ): Promise<Readable> {
+    const driver = this.driver(storage);
+    if (
+      !PUBLIC_STORAGE_FOLDERS.includes(folder) ||
+      !driver.isInFolder(key, folder)
+    ) {
+      throw HttpExceptionHelper.notFound('File not found');
+    }
+    return driver.getStream(key);
+  }
+
+  verifyLocalSignature(
+    key: string,
+    expires: number,
+    signature: string,
+  ): boolean {
+    return this.localDriver.verifySignature(key, expires, signature);
+  }
 
-  async uploadFile(file: Express.Multer.File): Promise<string> {
-    const result = await this.cloudinaryService.uploadFile(file);
-    return result.url;
+  private driver(name?: string | null): StorageDriver {
+    const driver = this.drivers.get(name ?? this.configService.storageDriver);
+    if (!driver) {
+      throw HttpExceptionHelper.badRequest(`Unknown storage driver "${name}"`);
+    }
+    return driver;
   }
 }
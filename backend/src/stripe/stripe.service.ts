@@ -1,33 +1,75 @@
 import { Injectable } from '@nestjs/common';
 import Stripe from 'stripe';
 
+const STRIPE_API_VERSION = '2025-07-30.basil';
+
+/**
+ * Thin wrapper around the Stripe SDK. Every call accepts an optional secret
+ * key so an organization's own Stripe account can be charged; without one
+ * the platform key from STRIPE_SECRET_KEY is used.
+ */
 @Injectable()
 export class StripeService {
   private stripe: Stripe;
+  private readonly accountClients = new Map<string, Stripe>();
 
   constructor() {
     this.stripe = new Stripe(process.env.STRIPE_SECRET_KEY! , {
-      apiVersion: '2025-07-30.basil',
+      apiVersion: STRIPE_API_VERSION,
     });
   }
 
-  async createCustomer(params: Stripe.CustomerCreateParams): Promise<Stripe.Customer> {
-    return this.stripe.customers.create(params);
+  async createCustomer(params: Stripe.CustomerCreateParams, secretKey?: string): Promise<Stripe.Customer> {
+    return this.client(secretKey).customers.create(params);
+  }
+
+  async createPaymentIntent(params: Stripe.PaymentIntentCreateParams, secretKey?: string): Promise<Stripe.PaymentIntent> {
+    return this.client(secretKey).paymentIntents.create(params);
+  }
+
+  async retrievePaymentIntent(id: string, secretKey?: string): Promise<Stripe.PaymentIntent> {
+    return this.client(secretKey).paymentIntents.retrieve(id);
   }
 
-  async createPaymentIntent(params: Stripe.PaymentIntentCreateParams): Promise<Stripe.PaymentIntent> {
-    return this.stripe.paymentIntents.create(params);
+  async createRefund(params: Stripe.RefundCreateParams, secretKey?: string): Promise<Stripe.Refund> {
+    return this.client(secretKey).refunds.create(params);
   }
 
-  async retrievePaymentIntent(id: string): Promise<Stripe.PaymentIntent> {
-    return this.stripe.paymentIntents.retrieve(id);
+  async listRefunds(params: Stripe.RefundListParams, secretKey?: string): Promise<Stripe.Refund[]> {
+    const refunds = await this.client(secretKey).refunds.list(params);
+    return refunds.data;
   }
 
-  async createRefund(params: Stripe.RefundCreateParams): Promise<Stripe.Refund> {
-    return this.stripe.refunds.create(params);
+  async createSetupIntent(params: Stripe.SetupIntentCreateParams, secretKey?: string): Promise<Stripe.SetupIntent> {
+    return this.client(secretKey).setupIntents.create(params);
   }
 
-  async createSetupIntent(params: Stripe.SetupIntentCreateParams): Promise<Stripe.SetupIntent> {
-    return this.stripe.setupIntents.create(params);
+  /**
+   * Verifies the `Stripe-Signature` header against the raw request body
+   * and returns the parsed event. Throws if the signature does not match.
+   */
+  constructWebhookEvent(payload: Buffer | string, signature: string, secret: string): Stripe.Event {
+    return this.stripe.webhooks.constructEvent(payload, signature, secret);
+  }
+
+  /**
+   * Builds a valid `Stripe-Signature` header for a payload, so signed
+   * fixtures can be posted to the webhook without the Stripe CLI.
+   */
+  generateWebhookTestHeader(payload: string, secret: string): string {
+    return this.stripe.webhooks.generateTestHeaderString({ payload, secret });
+  }
+
+  private client(secretKey?: string): Stripe {
+    if (!secretKey) {
+      return this.stripe;
+    }
+
+    let client = this.accountClients.get(secretKey);
+    if (!client) {
+      client = new Stripe(secretKey, { apiVersion: STRIPE_API_VERSION });
+      this.accountClients.set(secretKey, client);
+    }
+    return client;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Res,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Response } from 'express';
+import twilio from 'twilio';
+import { WhatsappInboundService } from './whatsapp-inbound.service';
+
+@ApiTags('WhatsApp inbound')
+@Controller('whatsapp')
+@SkipThrottle()
+export class WhatsappInboundController {
+  constructor(
+    private readonly whatsappInboundService: WhatsappInboundService,
+  ) {}
+
+  // Answered with TwiML, which Twilio sends back to the patient; written
+  // directly so the response interceptor does not wrap it in JSON
+  @Post('inbound')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Receive signed WhatsApp messages patients send to the sender',
+  })
+  @ApiResponse({ status: 200, description: 'TwiML reply to the patient' })
+  @ApiResponse({ status: 400, description: 'Missing or invalid signature' })
+  async handleInbound(
+    @Body() body: Record<string, string>,
+    @Headers('x-twilio-signature') signature: string,
+    @Res() res: Response,
+  ) {
+    const { reply } = await this.whatsappInboundService.handleInbound(
+      body,
+      signature,
+    );
+    const response = new twilio.twiml.MessagingResponse();
+    if (reply) {
+      response.message(reply);
+    }
+    res.type('text/xml').send(response.toString());
+  }
+}
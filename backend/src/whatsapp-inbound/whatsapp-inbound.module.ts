@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { ConfigModule } from '../config/config.module';
+import { CoreModule } from '../core/core.module';
+import { ChatModule } from '../chat/chat.module';
+import { NotificationPreferenceModule } from '../notification/notification-preference.module';
+import { InAppNotificationModule } from '../in-app-notification/in-app-notification.module';
+import { ConsultationBookingModule } from '../consultation-booking/consultation-booking.module';
+import { WhatsappInboundController } from './whatsapp-inbound.controller';
+import { WhatsappInboundService } from './whatsapp-inbound.service';
+
+// Kept apart from WhatsappTemplateModule, which the reminder module imports
+@Module({
+  imports: [
+    DatabaseModule,
+    ConfigModule,
+    CoreModule,
+    ChatModule,
+    NotificationPreferenceModule,
+    InAppNotificationModule,
+    ConsultationBookingModule,
+  ],
+  controllers: [WhatsappInboundController],
+  providers: [WhatsappInboundService],
+})
+export class WhatsappInboundModule {}
@@ -0,0 +1,277 @@
+import { HttpException } from '@nestjs/common';
+import {
+  ConsultationStatus,
+  MessageType,
+  NotificationChannel,
+  NotificationEvent,
+  UserRole,
+} from '@prisma/client';
+import twilio from 'twilio';
+import { WhatsappInboundService } from './whatsapp-inbound.service';
+
+jest.mock('../chat/chat.service', () => ({ ChatService: class {} }));
+jest.mock('../chat/chat.gateway', () => ({ ChatGateway: class {} }));
+jest.mock('../consultation-booking/consultation-booking.service', () => ({
+  ConsultationBookingService: class {},
+}));
+
+describe('WhatsappInboundService', () => {
+  const inboundUrl = 'https://api.example.com/api/v1/whatsapp/inbound';
+  const patient = {
+    id: 7,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    role: UserRole.PATIENT,
+    phoneNumber: '+41791234567',
+    UserNotificationSetting: null,
+  };
+  const consultation = {
+    id: 42,
+    ownerId: 3,
+    status: ConsultationStatus.SCHEDULED,
+    scheduledDate: new Date('2026-10-20T14:30:00Z'),
+  };
+
+  let prisma: any;
+  let i18nService: any;
+  let chatService: { createMessage: jest.Mock };
+  let chatGateway: { emitNewMessage: jest.Mock };
+  let notificationPreferenceService: { disableChannel: jest.Mock };
+  let inAppNotificationService: { notify: jest.Mock };
+  let consultationBookingService: { cancel: jest.Mock };
+  let service: WhatsappInboundService;
+
+  const receive = (body: string, from = 'whatsapp:+41791234567') => {
+    const params = { MessageSid: 'SM123', From: from, Body: body };
+    const signature = twilio.getExpectedTwilioSignature(
+      'twilio-secret',
+      inboundUrl,
+      params,
+    );
+    return service.handleInbound(params, signature);
+  };
+
+  beforeEach(() => {
+    prisma = {
+      message: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => Promise.resolve({ id: 90, ...data })),
+      },
+      user: { findMany: jest.fn().mockResolvedValue([patient]) },
+      consultation: {
+        findFirst: jest.fn().mockResolvedValue(consultation),
+        update: jest.fn().mockResolvedValue(consultation),
+      },
+    };
+    i18nService = {
+      localeForUser: jest
+        .fn()
+        .mockResolvedValue({ language: 'en', timezone: 'UTC' }),
+      translator: jest.fn(
+        () => (key: string, params?: Record<string, string>) =>
+          [key, params?.time, params?.reason].filter(Boolean).join(' '),
+      ),
+      formatDateTime: jest.fn().mockReturnValue('Tuesday 20 October 14:30'),
+    };
+    chatService = {
+      createMessage: jest.fn(({ content }) =>
+        Promise.resolve({ id: 91, content }),
+      ),
+    };
+    chatGateway = { emitNewMessage: jest.fn() };
+    notificationPreferenceService = {
+      disableChannel: jest.fn().mockResolvedValue(undefined),
+    };
+    inAppNotificationService = { notify: jest.fn().mockResolvedValue(null) };
+    consultationBookingService = {
+      cancel: jest.fn().mockResolvedValue({ refund: null }),
+    };
+    service = new WhatsappInboundService(
+      prisma,
+      {
+        twilioAuthToken: 'twilio-secret',
+        twilioWhatsappInboundUrl: inboundUrl,
+      } as any,
+      i18nService,
+      chatService as any,
+      chatGateway as any,
+      notificationPreferenceService as any,
+      inAppNotificationService as any,
+      consultationBookingService as any,
+    );
+  });
+
+  it('rejects messages with an invalid signature', async () => {
+    await expect(
+      service.handleInbound(
+        { MessageSid: 'SM123', From: 'whatsapp:+41791234567', Body: 'Hi' },
+        'forged',
+      ),
+    ).rejects.toThrow('Invalid Twilio signature');
+    expect(prisma.user.findMany).not.toHaveBeenCalled();
+  });
+
+  it('posts free text to the consultation chat and notifies the owner', async () => {
+    const result = await receive('Can I bring my son along?');
+
+    expect(chatService.createMessage).toHaveBeenCalledWith({
+      userId: 7,
+      consultationId: 42,
+      content: 'Can I bring my son along?',
+      clientUuid: 'whatsapp:SM123',
+    });
+    expect(chatGateway.emitNewMessage).toHaveBeenCalledWith(42, {
+      id: 91,
+      content: 'Can I bring my son along?',
+    });
+    expect(inAppNotificationService.notify).toHaveBeenCalledWith(
+      3,
+      expect.objectContaining({
+        event: NotificationEvent.CHAT_MESSAGE,
+        consultationId: 42,
+      }),
+      { collapse: true },
+    );
+    expect(result).toEqual({
+      reply: 'received',
+      command: null,
+      consultationId: 42,
+      messageId: 91,
+    });
+  });
+
+  it('confirms the upcoming consultation', async () => {
+    const result = await receive(' confirm! ');
+
+    expect(prisma.consultation.update).toHaveBeenCalledWith({
+      where: { id: 42 },
+      data: { patientConfirmedAt: expect.any(Date) },
+    });
+    expect(prisma.message.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        consultationId: 42,
+        userId: 7,
+        isSystem: true,
+        messageType: MessageType.SYSTEM,
+        clientUuid: 'whatsapp:SM123',
+      }),
+    });
+    expect(result.reply).toBe('confirmed Tuesday 20 October 14:30');
+  });
+
+  it('cancels the upcoming scheduled consultation as the patient', async () => {
+    const result = await receive('CANCEL');
+
+    expect(prisma.consultation.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: expect.arrayContaining([{ status: { in: [] } }]),
+        }),
+      }),
+    );
+    expect(consultationBookingService.cancel).toHaveBeenCalledWith(42, 7);
+    expect(prisma.message.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ consultationId: 42, isSystem: true }),
+    });
+    expect(result.command).toBe('CANCEL');
+    expect(result.reply).toBe('cancelled Tuesday 20 October 14:30');
+  });
+
+  it('answers with the reason when the cancellation policy refuses', async () => {
+    consultationBookingService.cancel.mockRejectedValue(
+      new HttpException(
+        'Consultations cannot be changed less than 1440 minutes before their start',
+        400,
+      ),
+    );
+
+    const result = await receive('annuler');
+
+    expect(prisma.message.create).not.toHaveBeenCalled();
+    expect(result.reply).toBe(
+      'cancelRefused Tuesday 20 October 14:30 Consultations cannot be changed less than 1440 minutes before their start',
+    );
+  });
+
+  it('turns WhatsApp notifications off on STOP', async () => {
+    const result = await receive('stop');
+
+    expect(notificationPreferenceService.disableChannel).toHaveBeenCalledWith(
+      7,
+      NotificationChannel.WHATSAPP,
+    );
+    expect(prisma.consultation.findFirst).not.toHaveBeenCalled();
+    expect(result.reply).toBe('stopped');
+  });
+
+  it('matches stored numbers in another format', async () => {
+    prisma.user.findMany.mockResolvedValue([
+      { ...patient, id: 8, phoneNumber: '0041 79 123 45 67' },
+    ]);
+
+    await receive('Hello');
+
+    expect(prisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          OR: [
+            { phoneNumber: { endsWith: '91234567' } },
+            { UserNotificationSetting: { phone: { endsWith: '91234567' } } },
+          ],
+        },
+      }),
+    );
+    expect(chatService.createMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 8 }),
+    );
+  });
+
+  it('does not match numbers that only share their last digits', async () => {
+    prisma.user.findMany.mockResolvedValue([
+      { ...patient, id: 8, phoneNumber: '+33791234567' },
+      { ...patient, id: 9, phoneNumber: '0791234567' },
+    ]);
+
+    const result = await receive('Hello');
+
+    expect(result.reply).toBe('unknownSender');
+    expect(chatService.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('rejects numbers several users share', async () => {
+    prisma.user.findMany.mockResolvedValue([
+      patient,
+      {
+        ...patient,
+        id: 8,
+        phoneNumber: null,
+        UserNotificationSetting: { phone: '+41 79 123 45 67' },
+      },
+    ]);
+
+    const result = await receive('cancel');
+
+    expect(result.reply).toBe('unknownSender');
+    expect(consultationBookingService.cancel).not.toHaveBeenCalled();
+  });
+
+  it('answers unknown numbers without posting anything', async () => {
+    prisma.user.findMany.mockResolvedValue([]);
+
+    const result = await receive('Hello');
+
+    expect(result.reply).toBe('unknownSender');
+    expect(chatService.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('only handles a retried message once', async () => {
+    prisma.message.findFirst.mockResolvedValue({ id: 91 });
+
+    const result = await receive('CANCEL');
+
+    expect(result).toEqual(
+      expect.objectContaining({ reply: null, messageId: 91 }),
+    );
+    expect(prisma.consultation.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,350 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import {
+  Consultation,
+  ConsultationStatus,
+  MessageType,
+  NotificationChannel,
+  NotificationEvent,
+  User,
+} from '@prisma/client';
+import twilio from 'twilio';
+import { DatabaseService } from '../database/database.service';
+import { ConfigService } from '../config/config.service';
+import { HttpExceptionHelper } from '../common/helpers/execption/http-exception.helper';
+import { I18nService } from '../i18n/i18n.service';
+import { ChatService } from '../chat/chat.service';
+import { ChatGateway } from '../chat/chat.gateway';
+import { NotificationPreferenceService } from '../notification/notification-preference.service';
+import { InAppNotificationService } from '../in-app-notification/in-app-notification.service';
+import { ConsultationBookingService } from '../consultation-booking/consultation-booking.service';
+import { normalizePhoneNumber } from '../sms/sms.service';
+
+export type WhatsappCommand = 'CONFIRM' | 'CANCEL' | 'STOP';
+
+// Replies are matched on the whole message, case and punctuation aside, so
+// that "Cancel the appointment?" still reaches the practitioner as a question
+const COMMANDS: Record<string, WhatsappCommand> = {
+  CONFIRM: 'CONFIRM',
+  YES: 'CONFIRM',
+  OUI: 'CONFIRM',
+  JA: 'CONFIRM',
+  CANCEL: 'CANCEL',
+  ANNULER: 'CANCEL',
+  ABSAGEN: 'CANCEL',
+  STOP: 'STOP',
+  UNSUBSCRIBE: 'STOP',
+  STOPP: 'STOP',
+};
+
+// Scheduled consultations stay "upcoming" for a while after their start, as
+// patients often reply to the last reminder when they are running late
+const SCHEDULED_GRACE_MS = 2 * 60 * 60 * 1000;
+
+/** Minimum digits of a sender number worth looking up */
+const MIN_PHONE_DIGITS = 8;
+
+export interface WhatsappInboundResult {
+  /** Reply sent back to the sender in the TwiML response, if any */
+  reply: string | null;
+  command: WhatsappCommand | null;
+  consultationId: number | null;
+  messageId: number | null;
+}
+
+type Sender = Pick<User, 'id' | 'firstName' | 'lastName' | 'role'>;
+
+/**
+ * Handles WhatsApp messages patients send to the Twilio sender: keyword
+ * commands act on their upcoming consultation, anything else is posted to
+ * the consultation chat for the practitioner.
+ */
+@Injectable()
+export class WhatsappInboundService {
+  private readonly logger = new Logger(WhatsappInboundService.name);
+
+  constructor(
+    private readonly prisma: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly i18nService: I18nService,
+    private readonly chatService: ChatService,
+    private readonly chatGateway: ChatGateway,
+    private readonly notificationPreferenceService: NotificationPreferenceService,
+    private readonly inAppNotificationService: InAppNotificationService,
+    private readonly consultationBookingService: ConsultationBookingService,
+  ) {}
+
+  /** Incoming message webhook of Twilio, posted as a form */
+  async handleInbound(
+    params: Record<string, string>,
+    signature: string | undefined,
+  ): Promise<WhatsappInboundResult> {
+    if (!signature) {
+      throw HttpExceptionHelper.badRequest('Missing Twilio signature');
+    }
+    const valid = twilio.validateRequest(
+      this.configService.twilioAuthToken,
+      signature,
+      this.configService.twilioWhatsappInboundUrl,
+      params,
+    );
+    if (!valid) {
+      this.logger.warn('Rejected WhatsApp message: invalid signature');
+      throw HttpExceptionHelper.badRequest('Invalid Twilio signature');
+    }
+
+    const result: WhatsappInboundResult = {
+      reply: null,
+      command: null,
+      consultationId: null,
+      messageId: null,
+    };
+    const body = (params.Body ?? '').trim();
+    if (!params.MessageSid || !params.From || !body) {
+      return result;
+    }
+
+    // Twilio retries messages it could not deliver to us; the message id
+    // makes the chat message unique, so a retry is only answered once
+    const clientUuid = `whatsapp:${params.MessageSid}`;
+    const duplicate = await this.prisma.message.findFirst({
+      where: { clientUuid },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return { ...result, messageId: duplicate.id };
+    }
+
+    const sender = await this.findSender(params.From);
+    if (!sender) {
+      this.logger.warn(
+        `WhatsApp message ${params.MessageSid} from an unknown number`,
+      );
+      const t = this.i18nService.translator('whatsappInbound');
+      return { ...result, reply: t('unknownSender') };
+    }
+
+    const command = COMMANDS[body.toUpperCase().replace(/[^A-Z]/g, '')] ?? null;
+    const consultation =
+      command === 'STOP'
+        ? null
+        : await this.findUpcomingConsultation(sender.id, command === 'CANCEL');
+    const locale = await this.i18nService.localeForUser({
+      userId: sender.id,
+      consultationId: consultation?.id,
+    });
+    const t = this.i18nService.translator('whatsappInbound', locale);
+    result.command = command;
+    result.consultationId = consultation?.id ?? null;
+
+    if (command === 'STOP') {
+      await this.notificationPreferenceService.disableChannel(
+        sender.id,
+        NotificationChannel.WHATSAPP,
+      );
+      this.logger.log(`User ${sender.id} stopped WhatsApp messages`);
+      return { ...result, reply: t('stopped') };
+    }
+    if (!consultation) {
+      return { ...result, reply: t('noConsultation') };
+    }
+
+    const time = consultation.scheduledDate
+      ? this.i18nService.formatDateTime(consultation.scheduledDate, locale)
+      : '';
+    if (command === 'CONFIRM') {
+      await this.prisma.consultation.update({
+        where: { id: consultation.id },
+        data: { patientConfirmedAt: new Date() },
+      });
+      const message = await this.postSystemMessage(
+        sender,
+        consultation,
+        clientUuid,
+        `${this.displayName(sender)} confirmed the consultation via WhatsApp.`,
+      );
+      return {
+        ...result,
+        messageId: message.id,
+        reply: t('confirmed', { time }),
+      };
+    }
+    if (command === 'CANCEL') {
+      // Patients cancel under the same policy as in the app
+      try {
+        await this.consultationBookingService.cancel(
+          consultation.id,
+          sender.id,
+        );
+      } catch (error) {
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+        return {
+          ...result,
+          reply: t('cancelRefused', { time, reason: error.message }),
+        };
+      }
+      this.logger.log(`Consultation ${consultation.id} cancelled via WhatsApp`);
+      const message = await this.postSystemMessage(
+        sender,
+        consultation,
+        clientUuid,
+        `${this.displayName(sender)} cancelled the consultation via WhatsApp.`,
+      );
+      return {
+        ...result,
+        messageId: message.id,
+        reply: t('cancelled', { time }),
+      };
+    }
+
+    const message = await this.chatService.createMessage({
+      userId: sender.id,
+      consultationId: consultation.id,
+      content: body,
+      clientUuid,
+    });
+    this.chatGateway.emitNewMessage(consultation.id, message);
+    await this.notifyOwner(consultation, sender, body);
+    return { ...result, messageId: message.id, reply: t('received') };
+  }
+
+  /**
+   * User of a `whatsapp:+…` address, whose stored number is the same in
+   * E.164 form. Numbers shared by several users match none of them, as
+   * commands must not act on someone else's consultation.
+   */
+  private async findSender(from: string): Promise<Sender | null> {
+    const number = normalizePhoneNumber(from.replace(/^whatsapp:/i, ''));
+    const digits = number.replace(/\D/g, '');
+    if (digits.length < MIN_PHONE_DIGITS) {
+      return null;
+    }
+    // Stored numbers may be formatted, so candidates are only narrowed down
+    // by their last digits and compared once normalized
+    const suffix = digits.slice(-MIN_PHONE_DIGITS);
+    const candidates = await this.prisma.user.findMany({
+      where: {
+        OR: [
+          { phoneNumber: { endsWith: suffix } },
+          { UserNotificationSetting: { phone: { endsWith: suffix } } },
+        ],
+      },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        phoneNumber: true,
+        UserNotificationSetting: { select: { phone: true } },
+      },
+    });
+    const matches = (phone?: string | null) =>
+      !!phone && normalizePhoneNumber(phone) === number;
+    const senders = candidates.filter(
+      (user) =>
+        matches(user.phoneNumber) ||
+        matches(user.UserNotificationSetting?.phone),
+    );
+    if (senders.length > 1) {
+      this.logger.warn(
+        `WhatsApp number ${number} belongs to users ${senders.map((user) => user.id).join(', ')}`,
+      );
+      return null;
+    }
+    const [sender] = senders;
+    if (!sender) {
+      return null;
+    }
+    const { id, firstName, lastName, role } = sender;
+    return { id, firstName, lastName, role };
+  }
+
+  /**
+   * Next consultation the user takes part in, the running one first unless
+   * only scheduled ones are wanted
+   */
+  private async findUpcomingConsultation(
+    userId: number,
+    scheduledOnly = false,
+  ): Promise<Consultation | null> {
+    const running = scheduledOnly
+      ? []
+      : [ConsultationStatus.WAITING, ConsultationStatus.ACTIVE];
+    return this.prisma.consultation.findFirst({
+      where: {
+        isDeleted: false,
+        participants: { some: { userId } },
+        OR: [
+          { status: { in: running } },
+          {
+            status: ConsultationStatus.SCHEDULED,
+            OR: [
+              { scheduledDate: null },
+              {
+                scheduledDate: {
+                  gte: new Date(Date.now() - SCHEDULED_GRACE_MS),
+                },
+              },
+            ],
+          },
+        ],
+      },
+      // Enum order puts ACTIVE and WAITING before SCHEDULED
+      orderBy: [
+        { status: 'desc' },
+        { scheduledDate: { sort: 'asc', nulls: 'last' } },
+      ],
+    });
+  }
+
+  private async postSystemMessage(
+    sender: Sender,
+    consultation: Consultation,
+    clientUuid: string,
+    content: string,
+  ) {
+    const message = await this.prisma.message.create({
+      data: {
+        userId: sender.id,
+        consultationId: consultation.id,
+        content,
+        clientUuid,
+        isSystem: true,
+        senderRole: sender.role,
+        messageType: MessageType.SYSTEM,
+      },
+    });
+    this.chatGateway.emitNewMessage(consultation.id, message);
+    await this.notifyOwner(consultation, sender, content);
+    return message;
+  }
+
+  private async notifyOwner(
+    consultation: Consultation,
+    sender: Sender,
+    body: string,
+  ): Promise<void> {
+    if (!consultation.ownerId || consultation.ownerId === sender.id) {
+      return;
+    }
+    await this.inAppNotificationService.notify(
+      consultation.ownerId,
+      {
+        event: NotificationEvent.CHAT_MESSAGE,
+        title: `WhatsApp message from ${this.displayName(sender)}`,
+        body,
+        consultationId: consultation.id,
+        data: { senderId: sender.id, channel: NotificationChannel.WHATSAPP },
+      },
+      { collapse: true },
+    );
+  }
+
+  private displayName(sender: Sender): string {
+    return (
+      [sender.firstName, sender.lastName].filter(Boolean).join(' ') ||
+      'The patient'
+    );
+  }
+}
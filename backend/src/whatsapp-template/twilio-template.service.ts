@@ -18,6 +18,7 @@ import { ConfigService } from '../config/config.service';
 import twilio from 'twilio';
 import { ContentInstance } from 'twilio/lib/rest/content/v1/content';
 import axios from 'axios';
+import { NotificationDeliveryError } from '../notification-outbox/notification-sender.interface';
 
 export interface TwilioTemplateResponse {
   sid: string;
@@ -102,7 +103,9 @@ export class TwilioWhatsappService {
   }
 
   /**
-   * Send a WhatsApp template message to a user
+   * Send a WhatsApp template message to a user. Twilio posts the delivery
+   * status of the message, identified by `messageSid`, to the status
+   * callback URL.
    */
   async sendTemplateMessage({
     to,
@@ -112,7 +115,7 @@ export class TwilioWhatsappService {
     to: string;
     templateSid: string;
     variables: any;
-  }): Promise<{ status: string }> {
+  }): Promise<{ status: string; messageSid?: string }> {
     if (!this.isConfigured || !this.twilioClient) {
       this.logger.warn(
         `📱 [MOCK] WhatsApp message would be sent to ${to} using template ${templateSid}`,
@@ -123,18 +126,43 @@ export class TwilioWhatsappService {
       return { status: 'MOCKED' };
     }
 
+    const from = this.configService.twilioWhatsappFrom;
+    if (!from) {
+      throw new NotificationDeliveryError(
+        'TWILIO_WHATSAPP_FROM is not configured',
+        false,
+      );
+    }
+
     try {
       this.logger.log(
         `Sending WhatsApp template message to ${to} using template SID ${templateSid}`,
       );
-      // Actual Twilio implementation would go here
-      return { status: 'SENT' };
-    } catch (error) {
+      const message = await this.twilioClient.messages.create({
+        to: this.whatsappAddress(to),
+        from: this.whatsappAddress(from),
+        contentSid: templateSid,
+        contentVariables: JSON.stringify(variables ?? {}),
+        statusCallback: this.configService.twilioStatusCallbackUrl,
+      });
+      return { status: 'SENT', messageSid: message.sid };
+    } catch (error: any) {
       this.logger.error(`Failed to send WhatsApp message to ${to}:`, error);
-      throw new Error('Failed to send WhatsApp message');
+      // Twilio rejects invalid numbers and templates with a 4xx status
+      const status = Number(error?.status);
+      throw new NotificationDeliveryError(
+        `Failed to send WhatsApp message: ${error?.message || error}`,
+        !(status >= 400 && status < 500 && status !== 429),
+      );
     }
   }
 
+  private whatsappAddress(phoneNumber: string): string {
+    return phoneNumber.startsWith('whatsapp:')
+      ? phoneNumber
+      : `whatsapp:${phoneNumber}`;
+  }
+
   /**
    * Convert ContentInstance to TwilioTemplateResponse
    */
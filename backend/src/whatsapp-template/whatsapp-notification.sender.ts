@@ -0,0 +1,45 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { MessageService, OutboundNotification } from '@prisma/client';
+import { NotificationOutboxService } from '../notification-outbox/notification-outbox.service';
+import {
+  NotificationSender,
+  NotificationSendResult,
+} from '../notification-outbox/notification-sender.interface';
+import { TwilioWhatsappService } from './twilio-template.service';
+
+/** WhatsApp template message as stored in the notification outbox */
+export interface WhatsappPayload {
+  templateSid: string;
+  variables: Record<string, string>;
+}
+
+@Injectable()
+export class WhatsappNotificationSender
+  implements NotificationSender, OnModuleInit
+{
+  readonly channel = MessageService.WHATSAPP;
+
+  constructor(
+    private readonly twilioWhatsappService: TwilioWhatsappService,
+    private readonly notificationOutboxService: NotificationOutboxService,
+  ) {}
+
+  onModuleInit(): void {
+    this.notificationOutboxService.registerSender(this);
+  }
+
+  async send(
+    notification: OutboundNotification,
+  ): Promise<NotificationSendResult> {
+    const payload = notification.payload as unknown as WhatsappPayload;
+    const result = await this.twilioWhatsappService.sendTemplateMessage({
+      to: notification.recipient,
+      templateSid: payload.templateSid,
+      variables: payload.variables,
+    });
+    // Without Twilio credentials messages are only logged
+    return result.status === 'MOCKED'
+      ? { provider: 'mock' }
+      : { provider: 'twilio', providerMessageId: result.messageSid };
+  }
+}
@@ -20,6 +20,7 @@ describe('WhatsappTemplateSeederService', () => {
     db = {
       whatsapp_Template: {
         findFirst: jest.fn(),
+        findMany: jest.fn(),
         create: jest.fn(),
         update: jest.fn(),
       },
@@ -84,6 +85,19 @@ describe('WhatsappTemplateSeederService', () => {
     expect(db.whatsapp_Template.create).not.toHaveBeenCalled();
   });
 
+  it('should pick the template in the first matching language', async () => {
+    db.whatsapp_Template.findMany.mockResolvedValue([
+      { id: 1, key: 'reminder', language: 'en' },
+      { id: 2, key: 'reminder', language: 'fr_CH' },
+    ]);
+    const french = await service.getProcessedTemplate('reminder', ['fr-ch', 'fr', 'en']);
+    const german = await service.getProcessedTemplate('reminder', ['de', 'en']);
+    const italian = await service.getProcessedTemplate('reminder', ['it']);
+    expect(french.id).toBe(2);
+    expect(german.id).toBe(1);
+    expect(italian.id).toBe(1);
+  });
+
   it('should handle malformed JSON', async () => {
     (fs.existsSync as jest.Mock).mockReturnValue(true);
     (fs.readFileSync as jest.Mock).mockReturnValue('not-json');
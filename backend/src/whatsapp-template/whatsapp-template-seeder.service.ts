@@ -323,11 +323,31 @@ export class WhatsappTemplateSeederService implements OnModuleInit {
   }
 
   // Method to get processed template by key (useful for runtime)
-  async getProcessedTemplate(key: string): Promise<any> {
-    const template = await this.databaseService.whatsapp_Template.findFirst({
+  /**
+   * Template for a key, in the first of `languages` it exists in, else in
+   * any language. Languages match with or without their region: `fr`
+   * picks `fr_CH` when there is no plain `fr` template.
+   */
+  async getProcessedTemplate(key: string, languages: string[] = []): Promise<any> {
+    const templates = await this.databaseService.whatsapp_Template.findMany({
       where: { key },
+      orderBy: { id: 'asc' },
     });
 
+    const normalize = (language: string) =>
+      language.toLowerCase().replace(/_/g, '-');
+    const template =
+      languages
+        .map(normalize)
+        .map(
+          (language) =>
+            templates.find((t) => normalize(t.language) === language) ??
+            templates.find(
+              (t) => normalize(t.language).split('-')[0] === language,
+            ),
+        )
+        .find(Boolean) ?? templates[0];
+
     if (!template) {
       return null;
     }
@@ -7,14 +7,23 @@ import { ConfigModule } from 'src/config/config.module';
 import { CoreModule } from '../core/core.module';
 import { TwilioWhatsappService } from './twilio-template.service';
 import { AuthModule } from 'src/auth/auth.module';
+import { NotificationOutboxModule } from 'src/notification-outbox/notification-outbox.module';
+import { WhatsappNotificationSender } from './whatsapp-notification.sender';
 
 @Module({
-  imports: [DatabaseModule, ConfigModule, CoreModule, AuthModule],
+  imports: [
+    DatabaseModule,
+    ConfigModule,
+    CoreModule,
+    AuthModule,
+    NotificationOutboxModule,
+  ],
   controllers: [WhatsappTemplateController],
   providers: [
     WhatsappTemplateService,
     WhatsappTemplateSeederService,
     TwilioWhatsappService,
+    WhatsappNotificationSender,
   ],
   exports: [
     WhatsappTemplateService,
@@ -12,6 +12,7 @@ import { AuthGuard } from './auth/guards/auth.guard';
 import { ProfileComponent } from './components/profile/profile.component';
 import { TermBoxComponent } from './components/term-box/term-box.component';
 import { PaymentPage } from './pages/payment/payment.page';
+import { RescheduleConsultationPage } from './pages/reschedule-consultation/reschedule-consultation.page';
 
 export const routes: Routes = [
   {
@@ -63,6 +64,11 @@ export const routes: Routes = [
     component: PaymentPage,
     canActivate: [AuthGuard],
   },
+  {
+    path: RoutePaths.RescheduleConsultation,
+    component: RescheduleConsultationPage,
+    canActivate: [AuthGuard],
+  },
   {
     path: 'join-consultation/:id',
     component: JoinConsultationPage,
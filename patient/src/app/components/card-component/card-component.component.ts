@@ -1,22 +1,24 @@
-import { Component, Input, inject } from '@angular/core';
+import { Component, EventEmitter, Input, Output, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 import {
   IonCard, IonCardHeader, IonCardTitle, IonCardContent,
   IonList, IonItem, IonLabel, IonButton, IonIcon,
-  IonChip, IonText, ToastController, LoadingController
+  IonChip, IonText, ToastController, LoadingController, AlertController
 } from '@ionic/angular/standalone';
 import { addIcons } from 'ionicons';
 import {
   videocamOutline, starOutline,
   calendarOutline,
   checkmarkCircle,
-  informationCircleOutline
+  informationCircleOutline,
+  swapHorizontalOutline,
+  closeCircleOutline
 } from 'ionicons/icons';
 
 import { AuthService } from 'src/app/services/auth.service';
 import { Router } from '@angular/router';
-import { Consultation } from 'src/app/services/consultation.service';
+import { Consultation, ConsultationService } from 'src/app/services/consultation.service';
 import { JoinConsultationService, JoinError } from 'src/app/services/joinConsultation.service';
 import { RoutePaths } from 'src/app/constants/route-path.enum';
 @Component({
@@ -46,6 +48,8 @@ export class CardComponentComponent {
   private router = inject(Router);
   private joinConsultationService = inject(JoinConsultationService);
   private authService = inject(AuthService);
+  private alertController = inject(AlertController);
+  private consultationService = inject(ConsultationService);
 
   constructor() {
     addIcons({
@@ -53,12 +57,16 @@ export class CardComponentComponent {
       starOutline,
       calendarOutline,
       checkmarkCircle,
-      informationCircleOutline
+      informationCircleOutline,
+      swapHorizontalOutline,
+      closeCircleOutline
     });
   }
   @Input() activeConsultations: Consultation[] = [];
   @Input() completedConsultations: Consultation[] = [];
   @Input() upcomingConsultations: Consultation[] = [];
+  /** Emitted once a consultation was cancelled, so the lists can be reloaded */
+  @Output() consultationCancelled = new EventEmitter<number>();
 
   /**
    * Enhanced join consultation with comprehensive error handling and state management
@@ -218,6 +226,73 @@ export class CardComponentComponent {
     }
   }
 
+  rescheduleConsultation(consultationId: number) {
+    this.router.navigate([`/${RoutePaths.generateRescheduleConsultationRoute(consultationId)}`]);
+  }
+
+  /**
+   * Cancels an upcoming consultation after the patient confirmed the refund
+   * the organization's cancellation policy grants
+   */
+  cancelConsultation(consultation: Consultation) {
+    this.consultationService.getChangeOptions(consultation.consultationId).subscribe({
+      next: async (response) => {
+        const options = response.data;
+        if (!options.canCancel) {
+          await this.presentErrorToast('This consultation can no longer be cancelled online. Please contact your practitioner.');
+          return;
+        }
+
+        let message = 'Do you want to cancel this consultation?';
+        const quote = options.cancellation;
+        if (quote) {
+          message = quote.feeAmount > 0
+            ? `A late cancellation fee of ${quote.feeAmount.toFixed(2)} ${quote.currency} applies; ${quote.refundAmount.toFixed(2)} ${quote.currency} will be refunded.`
+            : `Your payment of ${quote.refundAmount.toFixed(2)} ${quote.currency} will be refunded in full.`;
+        }
+
+        const alert = await this.alertController.create({
+          header: 'Cancel consultation',
+          message,
+          inputs: [{ name: 'reason', type: 'textarea', placeholder: 'Reason (optional)' }],
+          buttons: [
+            { text: 'Keep it', role: 'cancel' },
+            {
+              text: 'Cancel consultation',
+              role: 'destructive',
+              handler: (data) => this.confirmCancellation(consultation.consultationId, data?.reason)
+            }
+          ]
+        });
+        await alert.present();
+      },
+      error: async (error) => {
+        console.error('[CardComponent] Failed to load change options:', error);
+        await this.presentErrorToast('Could not load this consultation. Please try again.');
+      }
+    });
+  }
+
+  private confirmCancellation(consultationId: number, reason?: string) {
+    this.consultationService.cancelConsultation(consultationId, reason || undefined).subscribe({
+      next: async (response) => {
+        const { refund, refundFailed } = response.data;
+        if (refundFailed) {
+          await this.presentInfoToast('Consultation cancelled. Your refund will be processed by the organization.');
+        } else if (refund) {
+          await this.presentSuccessToast(`Consultation cancelled. ${refund.refundAmount.toFixed(2)} ${refund.currency} will be refunded.`);
+        } else {
+          await this.presentSuccessToast('Consultation cancelled.');
+        }
+        this.consultationCancelled.emit(consultationId);
+      },
+      error: async (error) => {
+        console.error('[CardComponent] Failed to cancel consultation:', error);
+        await this.presentErrorToast(error.error?.message || 'Failed to cancel the consultation. Please try again.');
+      }
+    });
+  }
+
   // we have to provide it after consultation ends
 
   navigateToFeedback(consultationId: number) {
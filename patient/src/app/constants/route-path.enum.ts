@@ -14,6 +14,7 @@ export const RoutePaths = {
   ConsultationRoom: 'consultation-room',
   JoinConsultation: 'join-consultation',
   payment: 'payment',
+  RescheduleConsultation: 'reschedule-consultation/:consultationId',
   // Terms and Legal Routes  
   AcceptTerm: 'accept-terms',
 
@@ -22,4 +23,5 @@ export const RoutePaths = {
   generateConsultationRoomRoute: (consultationId: number | string) => `consultation-room/${consultationId}`,
   generateJoinConsultationRoute: (id: number | string) => `join-consultation/${id}`,
   generateJoinConsultationTokenRoute: (token: string) => `join-consultation/token/${token}`,
+  generateRescheduleConsultationRoute: (consultationId: number | string) => `reschedule-consultation/${consultationId}`,
 };
@@ -1,7 +1,7 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
 import { AlertController, LoadingController, ToastController } from '@ionic/angular';
-import { format, addDays } from 'date-fns';
+import { format, addDays, parseISO } from 'date-fns';
 import {
   IonContent,
   IonDatetime,
@@ -53,7 +53,7 @@ interface BookingRequest {
     IonAvatar,
   ],
 })
-export class ChooseConsultationTimeslotPage implements OnInit {
+export class ChooseConsultationTimeslotPage implements OnInit, OnDestroy {
   practitioners: Practitioner[] = [];
   selectedPractitioner: Practitioner | null = null;
   selectedDate: string = '';
@@ -87,6 +87,10 @@ export class ChooseConsultationTimeslotPage implements OnInit {
     }
   }
 
+  ngOnDestroy() {
+    this.releaseSelectedHold();
+  }
+
   private initializePatientId() {
     let user = JSON.parse(localStorage.getItem('currentUser') || '{}');
     
@@ -120,12 +124,12 @@ export class ChooseConsultationTimeslotPage implements OnInit {
   generateSlotsForPractitioner() {
     if (!this.selectedPractitioner) return;
 
-    this.selectedDate = new Date().toISOString().split('T')[0];
+    this.selectedDate = format(new Date(), 'yyyy-MM-dd');
     this.loadAvailableSlots();
   }
 
   onPractitionerChange() {
-    this.selectedSlot = null;
+    this.releaseSelectedHold();
     this.availableSlots = [];
     if (this.selectedPractitioner && this.selectedDate) {
       this.loadAvailableSlots();
@@ -133,7 +137,7 @@ export class ChooseConsultationTimeslotPage implements OnInit {
   }
 
   onDateChange() {
-    this.selectedSlot = null;
+    this.releaseSelectedHold();
     this.availableSlots = [];
     this.paymentCompleted = false;
 
@@ -151,19 +155,19 @@ export class ChooseConsultationTimeslotPage implements OnInit {
     await loading.present();
 
     try {
-      const endDate = addDays(new Date(this.selectedDate), 1);
-      
+      // ion-datetime may add a time to the date
+      const day = this.selectedDate.split('T')[0];
+
       this.availabilityService.getAvailableSlots(
         this.selectedPractitioner.id,
-        this.selectedDate,
-        endDate.toISOString().split('T')[0]
+        day,
+        day
       ).subscribe({
         next: (response) => {
-          const slots = response?.data || [];
-          this.availableSlots = slots.filter((slot: any) => {
-            const slotDate = new Date(slot.date).toISOString().split('T')[0];
-            return slotDate === this.selectedDate;
-          });
+          const slots: TimeSlot[] = response?.data || [];
+          this.availableSlots = slots.filter(
+            (slot) => format(new Date(slot.startsAt), 'yyyy-MM-dd') === day
+          );
           loading.dismiss();
         },
         error: (error) => {
@@ -206,7 +210,11 @@ export class ChooseConsultationTimeslotPage implements OnInit {
         },
         error: (error) => {
           console.error('Booking error:', error);
-          this.showToast('Failed to book appointment. Please try again.', 'danger');
+          if (error.status === 409) {
+            this.handleSlotTaken(this.selectedSlot!);
+          } else {
+            this.showToast('Failed to book appointment. Please try again.', 'danger');
+          }
           loading.dismiss();
         }
       });
@@ -217,9 +225,41 @@ export class ChooseConsultationTimeslotPage implements OnInit {
     }
   }
 
+  /** Holds the slot so nobody else can book it while the patient pays */
   selectSlot(slot: TimeSlot) {
-    this.selectedSlot = slot;
+    if (this.selectedSlot?.id === slot.id) return;
+
+    this.releaseSelectedHold();
+    this.paymentCompleted = false;
+    this.availabilityService.holdTimeSlot(slot.id).subscribe({
+      next: (response) => {
+        this.selectedSlot = response.data;
+      },
+      error: (error) => {
+        console.error('Error holding slot:', error);
+        if (error.status === 409) {
+          this.handleSlotTaken(slot);
+        } else {
+          this.showToast('Could not reserve this time slot. Please try again.', 'danger');
+        }
+      }
+    });
+  }
+
+  private releaseSelectedHold() {
+    if (this.selectedSlot) {
+      this.availabilityService.releaseHold(this.selectedSlot.id).subscribe({
+        error: (error) => console.error('Error releasing slot:', error)
+      });
+    }
+    this.selectedSlot = null;
+  }
+
+  private handleSlotTaken(slot: TimeSlot) {
+    this.availableSlots = this.availableSlots.filter((item) => item.id !== slot.id);
+    this.selectedSlot = null;
     this.paymentCompleted = false;
+    this.showToast('This time slot was just taken. Please choose another one.', 'warning');
   }
 
   async proceedToPayment() {
@@ -270,15 +310,13 @@ export class ChooseConsultationTimeslotPage implements OnInit {
   }
 
   formatDate(dateString: string): string {
-    return format(new Date(dateString), 'EEEE, MMMM dd, yyyy');
+    // Date-only strings are read as local days
+    return format(parseISO(dateString), 'EEEE, MMMM dd, yyyy');
   }
 
-  formatTime(time: string): string {
-    const [hours, minutes] = time.split(':');
-    const hour = parseInt(hours);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    const displayHour = hour % 12 || 12;
-    return `${displayHour}:${minutes} ${ampm}`;
+  /** Time of an instant in the patient's timezone */
+  formatTime(instant: string): string {
+    return format(new Date(instant), 'h:mm a');
   }
 
   getMinDate(): string {
@@ -293,11 +331,9 @@ export class ChooseConsultationTimeslotPage implements OnInit {
   getSlotDuration(): number {
     if (this.availableSlots.length > 0) {
       const slot = this.availableSlots[0];
-      const [startHours, startMinutes] = slot.startTime.split(':').map(Number);
-      const [endHours, endMinutes] = slot.endTime.split(':').map(Number);
-      const startTotalMinutes = startHours * 60 + startMinutes;
-      const endTotalMinutes = endHours * 60 + endMinutes;
-      return endTotalMinutes - startTotalMinutes;
+      return Math.round(
+        (new Date(slot.endsAt).getTime() - new Date(slot.startsAt).getTime()) / 60000
+      );
     }
     return 0;
   }
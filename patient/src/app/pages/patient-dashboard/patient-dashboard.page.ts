@@ -3,16 +3,27 @@ import { HeaderComponent } from 'src/app/components/header/header.component';
 import { Component, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { 
-  IonContent
+  IonContent,
+  IonCard,
+  IonCardHeader,
+  IonCardTitle,
+  IonCardContent,
+  IonList,
+  IonItem,
+  IonLabel,
+  IonButton,
+  IonIcon
 } from '@ionic/angular/standalone';
 
 import { addIcons } from 'ionicons';
 import { 
   videocamOutline, starOutline,
-  calendarOutline, checkmarkCircle 
+  calendarOutline, checkmarkCircle,
+  downloadOutline
 } from 'ionicons/icons';
 import { Consultation, ConsultationService } from 'src/app/services/consultation.service';
 import { AuthService } from 'src/app/services/auth.service';
+import { Invoice, InvoiceService } from 'src/app/services/invoice.service';
 
 
 @Component({
@@ -24,7 +35,16 @@ import { AuthService } from 'src/app/services/auth.service';
     CardComponentComponent,
     HeaderComponent,
     CommonModule,
-    IonContent
+    IonContent,
+    IonCard,
+    IonCardHeader,
+    IonCardTitle,
+    IonCardContent,
+    IonList,
+    IonItem,
+    IonLabel,
+    IonButton,
+    IonIcon
   ],
 })
 
@@ -33,19 +53,31 @@ export class PatientDashboard implements OnInit{
   activeConsultations: Consultation[] = [];
   completedConsultations: Consultation[] = [];
   upcomingConsultations: Consultation[] = [];
+  invoices: Invoice[] = [];
 
   constructor(
     private consultationService: ConsultationService,
-    private authService: AuthService
+    private authService: AuthService,
+    private invoiceService: InvoiceService
   ){
     addIcons({
       videocamOutline, 
       starOutline, 
       calendarOutline,
-      checkmarkCircle
+      checkmarkCircle,
+      downloadOutline
     });
   }
   ngOnInit() {
+    this.loadInvoices();
+  }
+
+  // Ionic keeps the page alive while the patient reschedules an appointment
+  ionViewWillEnter() {
+    this.loadConsultations();
+  }
+
+  loadConsultations() {
     const user = this.authService.getCurrentUser();
     const patientId = user?.id; 
     if (!patientId) {
@@ -77,4 +109,31 @@ export class PatientDashboard implements OnInit{
       }
     });
   }
-}
\ No newline at end of file
+
+  private loadInvoices() {
+    this.invoiceService.getMyInvoices().subscribe({
+      next: (res) => {
+        this.invoices = res.data;
+      },
+      error: err => {
+        console.error('Error fetching invoices', err);
+      }
+    });
+  }
+
+  downloadInvoice(invoice: Invoice) {
+    this.invoiceService.downloadPdf(invoice.id).subscribe({
+      next: (blob) => {
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${invoice.number}.pdf`;
+        link.click();
+        window.URL.revokeObjectURL(url);
+      },
+      error: err => {
+        console.error('Error downloading invoice', err);
+      }
+    });
+  }
+}
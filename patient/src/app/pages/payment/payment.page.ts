@@ -2,14 +2,19 @@ import { Component, OnInit, ViewChild, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { switchMap, catchError } from 'rxjs/operators';
 import { FormGroup, Validators, FormBuilder, ReactiveFormsModule } from '@angular/forms';
-import { StripeCardNumberComponent, StripeService, NgxStripeModule } from 'ngx-stripe';
+import { StripeCardNumberComponent, StripeFactoryService, StripeInstance, NgxStripeModule } from 'ngx-stripe';
 import {
   StripeCardElementOptions,
   StripeElementsOptions,
   PaymentIntent,
 } from '@stripe/stripe-js';
 import { of, Subscription } from 'rxjs';
-import { PaymentService, PaymentIntentDTO, PaymentIntentResponse } from 'src/app/services/payment.service';
+import {
+  PaymentService,
+  PaymentIntentDTO,
+  PaymentIntentResponse,
+  PaymentProviderType,
+} from 'src/app/services/payment.service';
 import { 
   IonIcon,
   IonContent, 
@@ -48,6 +53,15 @@ export class PaymentPage implements OnInit, OnDestroy {
   private readonly consultationId = 8;
   private subscription: Subscription = new Subscription();
 
+  // Payment flow selected by the consultation's organization
+  public provider: PaymentProviderType = 'STRIPE';
+  public manualInstructions?: string;
+  public invoiceReference?: string;
+
+  // Stripe of the account taking the payment: organizations may have their own
+  public stripe?: StripeInstance;
+  private stripePublishableKey?: string;
+
   // Currency mapping for symbols and names
   private currencyMap = {
     usd: { symbol: '$', name: 'US Dollars' },
@@ -87,7 +101,7 @@ export class PaymentPage implements OnInit, OnDestroy {
 
   constructor(
     private fb: FormBuilder,
-    private stripeService: StripeService,
+    private stripeFactory: StripeFactoryService,
     private paymentService: PaymentService,
     private loadingController: LoadingController,
     private alertController: AlertController,
@@ -95,6 +109,8 @@ export class PaymentPage implements OnInit, OnDestroy {
   ) {}
 
   ngOnInit() {
+    this.loadPaymentOptions();
+
     // Watch for currency changes to update the display
     this.paymentForm.get('currency')?.valueChanges.subscribe(() => {
       // This will trigger the UI update for currency symbols
@@ -121,6 +137,11 @@ export class PaymentPage implements OnInit, OnDestroy {
       return;
     }
 
+    if (this.provider === 'MANUAL') {
+      await this.requestInvoice();
+      return;
+    }
+
     if (!this.card?.element) {
       await this.presentErrorAlert('Card information is required');
       return;
@@ -148,9 +169,14 @@ export class PaymentPage implements OnInit, OnDestroy {
             if (!response.data.success || !response.data?.data?.clientSecret) {
               throw new Error(response.message || 'Failed to create payment intent');
             }
+            // The card fields belong to the Stripe account they were created with
+            const publishableKey = response.data.data.publishableKey;
+            if (!this.stripe || (publishableKey && publishableKey !== this.stripePublishableKey)) {
+              throw new Error('The payment settings changed, please reload the page');
+            }
             
             console.log('Payment Intent created:', response.data);
-            return this.stripeService.confirmCardPayment(response.data.data.clientSecret, {
+            return this.stripe.confirmCardPayment(response.data.data.clientSecret, {
               payment_method: {
                 card: this.card.element,
                 billing_details: {
@@ -185,6 +211,52 @@ export class PaymentPage implements OnInit, OnDestroy {
     }
   }
 
+  private loadPaymentOptions(): void {
+    const optionsSub = this.paymentService.getPaymentOptions(this.consultationId)
+      .subscribe({
+        next: (response) => {
+          this.provider = response.data.provider;
+          this.manualInstructions = response.data.instructions;
+          if (response.data.provider === 'STRIPE' && response.data.publishableKey) {
+            this.stripePublishableKey = response.data.publishableKey;
+            this.stripe = this.stripeFactory.create(response.data.publishableKey);
+          }
+        },
+        error: (error) => {
+          console.error('Failed to load payment options:', error);
+        }
+      });
+
+    this.subscription.add(optionsSub);
+  }
+
+  private async requestInvoice(): Promise<void> {
+    const loading = await this.loadingController.create({
+      message: 'Requesting invoice...',
+      spinner: 'crescent'
+    });
+    await loading.present();
+
+    const formData = this.paymentForm.value;
+    const invoiceSub = this.paymentService.createPaymentIntent({
+      amount: formData.amount,
+      consultationId: this.consultationId,
+      currency: formData.currency || 'usd'
+    }).subscribe({
+      next: async (response: PaymentIntentResponse) => {
+        await loading.dismiss();
+        this.invoiceReference = response.data.data.reference;
+        this.manualInstructions = response.data.data.instructions || this.manualInstructions;
+      },
+      error: async (error) => {
+        await loading.dismiss();
+        await this.presentErrorAlert(error.error?.message || 'Failed to request invoice');
+      }
+    });
+
+    this.subscription.add(invoiceSub);
+  }
+
   private async handlePaymentResult(result: any): Promise<void> {
     console.log("Payment result: ", result);
     
@@ -0,0 +1,17 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { RescheduleConsultationPage } from './reschedule-consultation.page';
+
+describe('RescheduleConsultationPage', () => {
+  let component: RescheduleConsultationPage;
+  let fixture: ComponentFixture<RescheduleConsultationPage>;
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(RescheduleConsultationPage);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,225 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { LoadingController, ToastController } from '@ionic/angular';
+import { format, addDays, parseISO } from 'date-fns';
+import {
+  IonContent,
+  IonDatetime,
+  IonIcon,
+  IonLabel,
+  IonItem,
+  IonCardHeader,
+  IonCardTitle,
+  IonButton,
+  IonCardContent,
+  IonCard,
+  IonChip,
+  IonCardSubtitle,
+} from '@ionic/angular/standalone';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { HeaderComponent } from 'src/app/components/header/header.component';
+import { AvailabilityService, TimeSlot } from '../../services/availability.service';
+import { ChangeOptions, ConsultationService } from '../../services/consultation.service';
+import { RoutePaths } from 'src/app/constants/route-path.enum';
+
+@Component({
+  selector: 'app-reschedule-consultation',
+  templateUrl: './reschedule-consultation.page.html',
+  styleUrls: ['./reschedule-consultation.page.scss'],
+  standalone: true,
+  imports: [
+    HeaderComponent,
+    IonContent,
+    CommonModule,
+    FormsModule,
+    IonDatetime,
+    IonIcon,
+    IonLabel,
+    IonItem,
+    IonCardHeader,
+    IonCardTitle,
+    IonButton,
+    IonCardContent,
+    IonCard,
+    IonChip,
+    IonCardSubtitle,
+  ],
+})
+export class RescheduleConsultationPage implements OnInit, OnDestroy {
+  consultationId = 0;
+  options: ChangeOptions | null = null;
+  selectedDate = '';
+  availableSlots: TimeSlot[] = [];
+  selectedSlot: TimeSlot | null = null;
+  loading = false;
+
+  constructor(
+    private loadingController: LoadingController,
+    private toastController: ToastController,
+    private availabilityService: AvailabilityService,
+    private consultationService: ConsultationService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {}
+
+  ngOnInit() {
+    this.consultationId = Number(this.route.snapshot.paramMap.get('consultationId'));
+    if (!this.consultationId) {
+      this.router.navigate([`/${RoutePaths.PatientDashboard}`]);
+      return;
+    }
+    this.loadChangeOptions();
+  }
+
+  ngOnDestroy() {
+    this.releaseSelectedHold();
+  }
+
+  private loadChangeOptions() {
+    this.loading = true;
+    this.consultationService.getChangeOptions(this.consultationId).subscribe({
+      next: (response) => {
+        this.options = response.data;
+        this.loading = false;
+        if (this.options.canReschedule) {
+          this.selectedDate = format(new Date(), 'yyyy-MM-dd');
+          this.loadAvailableSlots();
+        }
+      },
+      error: (error) => {
+        console.error('Error loading consultation:', error);
+        this.loading = false;
+        this.showToast('Could not load this consultation.', 'danger');
+      }
+    });
+  }
+
+  onDateChange() {
+    this.releaseSelectedHold();
+    this.availableSlots = [];
+    if (this.selectedDate) {
+      this.loadAvailableSlots();
+    }
+  }
+
+  async loadAvailableSlots() {
+    if (!this.options?.practitionerId || !this.selectedDate) return;
+
+    const loading = await this.loadingController.create({
+      message: 'Loading available slots...',
+    });
+    await loading.present();
+
+    // ion-datetime may add a time to the date
+    const day = this.selectedDate.split('T')[0];
+    this.availabilityService.getAvailableSlots(this.options.practitionerId, day, day).subscribe({
+      next: (response) => {
+        const slots: TimeSlot[] = response?.data || [];
+        this.availableSlots = slots.filter(
+          (slot) => format(new Date(slot.startsAt), 'yyyy-MM-dd') === day
+        );
+        loading.dismiss();
+      },
+      error: (error) => {
+        console.error('Error loading slots:', error);
+        this.showToast('Error loading available slots', 'danger');
+        loading.dismiss();
+      }
+    });
+  }
+
+  /** Holds the slot so nobody else can book it while the patient confirms */
+  selectSlot(slot: TimeSlot) {
+    if (this.selectedSlot?.id === slot.id) return;
+
+    this.releaseSelectedHold();
+    this.availabilityService.holdTimeSlot(slot.id).subscribe({
+      next: (response) => {
+        this.selectedSlot = response.data;
+      },
+      error: (error) => {
+        console.error('Error holding slot:', error);
+        if (error.status === 409) {
+          this.handleSlotTaken(slot);
+        } else {
+          this.showToast('Could not reserve this time slot. Please try again.', 'danger');
+        }
+      }
+    });
+  }
+
+  async confirmReschedule() {
+    if (!this.selectedSlot) {
+      this.showToast('Please select a time slot', 'warning');
+      return;
+    }
+
+    const loading = await this.loadingController.create({
+      message: 'Moving your appointment...',
+    });
+    await loading.present();
+
+    const slot = this.selectedSlot;
+    this.consultationService.rescheduleConsultation(this.consultationId, slot.id).subscribe({
+      next: () => {
+        // The slot is booked now, there is no hold left to release
+        this.selectedSlot = null;
+        loading.dismiss();
+        this.showToast(`Appointment moved to ${this.formatDate(slot.startsAt)} at ${this.formatTime(slot.startsAt)}`, 'success');
+        this.router.navigate([`/${RoutePaths.PatientDashboard}`]);
+      },
+      error: (error) => {
+        console.error('Reschedule error:', error);
+        loading.dismiss();
+        if (error.status === 409) {
+          this.handleSlotTaken(slot);
+        } else {
+          this.showToast(error.error?.message || 'Failed to move the appointment. Please try again.', 'danger');
+        }
+      }
+    });
+  }
+
+  private releaseSelectedHold() {
+    if (this.selectedSlot) {
+      this.availabilityService.releaseHold(this.selectedSlot.id).subscribe({
+        error: (error) => console.error('Error releasing slot:', error)
+      });
+    }
+    this.selectedSlot = null;
+  }
+
+  private handleSlotTaken(slot: TimeSlot) {
+    this.availableSlots = this.availableSlots.filter((item) => item.id !== slot.id);
+    this.selectedSlot = null;
+    this.showToast('This time slot was just taken. Please choose another one.', 'warning');
+  }
+
+  private async showToast(message: string, color: string) {
+    const toast = await this.toastController.create({
+      message,
+      duration: 3000,
+      color,
+      position: 'top',
+    });
+    toast.present();
+  }
+
+  formatDate(dateString: string): string {
+    return format(parseISO(dateString), 'EEEE, MMMM dd, yyyy');
+  }
+
+  /** Time of an instant in the patient's timezone */
+  formatTime(instant: string): string {
+    return format(new Date(instant), 'h:mm a');
+  }
+
+  getMinDate(): string {
+    return format(new Date(), 'yyyy-MM-dd');
+  }
+
+  getMaxDate(): string {
+    return format(addDays(new Date(), 30), 'yyyy-MM-dd');
+  }
+}
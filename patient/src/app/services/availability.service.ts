@@ -9,7 +9,12 @@ export interface TimeSlot {
   date: Date;
   startTime: string;
   endTime: string;
-  status: 'AVAILABLE' | 'BOOKED' | 'BLOCKED';
+  /** Start and end as ISO instants, to be shown in the viewer's timezone */
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  status: 'AVAILABLE' | 'HELD' | 'BOOKED' | 'BLOCKED';
+  heldUntil?: string | null;
 }
 
 export interface Practitioner {
@@ -34,12 +39,14 @@ export class AvailabilityService {
 
   constructor(private http: HttpClient) {}
 
+  /** Slots on the calendar days startDate to endDate of the viewer's timezone */
   getAvailableSlots(practitionerId: number, startDate: string, endDate: string): Observable<any> {
     return this.http.get<any>(`${this.apiUrl}/slots/available`, {
       params: {
         practitionerId: practitionerId.toString(),
         startDate,
-        endDate
+        endDate,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
       }
     });
   }
@@ -53,6 +60,15 @@ export class AvailabilityService {
     });
   }
 
+  /** Reserves the slot for the current patient while they pay */
+  holdTimeSlot(timeSlotId: number): Observable<{ data: TimeSlot }> {
+    return this.http.post<{ data: TimeSlot }>(`${this.apiUrl}/slots/${timeSlotId}/hold`, null);
+  }
+
+  releaseHold(timeSlotId: number): Observable<{ data: { released: boolean } }> {
+    return this.http.delete<{ data: { released: boolean } }>(`${this.apiUrl}/slots/${timeSlotId}/hold`);
+  }
+
   createConsultationWithTimeSlot(request: CreateConsultationRequest): Observable<any> {
     return this.http.post<any>(`${environment.apiUrl}/consultation/with-timeslot`, request);
   }
@@ -21,6 +21,30 @@ export interface Consultation {
   };
 }
 
+export interface CancellationQuote {
+  refundAmount: number;
+  feeAmount: number;
+  currency: string;
+}
+
+/** What the patient can still change on a booked consultation */
+export interface ChangeOptions {
+  consultationId: number;
+  practitionerId: number | null;
+  scheduledDate: string | null;
+  canReschedule: boolean;
+  canCancel: boolean;
+  changeDeadline: string | null;
+  freeCancellationUntil: string | null;
+  /** Refund of cancelling now, null when nothing was paid */
+  cancellation: CancellationQuote | null;
+}
+
+export interface CancellationResult {
+  refund: CancellationQuote | null;
+  refundFailed: boolean;
+}
+
 export interface SubmitFeedbackRequest {
   consultationId: number;
   satisfaction?: 'SATISFIED' | 'NEUTRAL' | 'DISSATISFIED';
@@ -71,5 +95,25 @@ export class ConsultationService {
       { params }
     );
   }
-}
 
+  getChangeOptions(consultationId: number): Observable<{ data: ChangeOptions }> {
+    return this.http.get<{ data: ChangeOptions }>(
+      `${environment.apiUrl}/consultation/${consultationId}/change-options`
+    );
+  }
+
+  /** Moves the consultation to another slot of its practitioner */
+  rescheduleConsultation(consultationId: number, timeSlotId: number): Observable<any> {
+    return this.http.post<any>(
+      `${environment.apiUrl}/consultation/${consultationId}/reschedule`,
+      { timeSlotId }
+    );
+  }
+
+  cancelConsultation(consultationId: number, reason?: string): Observable<{ data: CancellationResult }> {
+    return this.http.post<{ data: CancellationResult }>(
+      `${environment.apiUrl}/consultation/${consultationId}/cancel`,
+      { reason }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from 'src/environments/environment';
+
+export interface Invoice {
+  id: number;
+  type: 'INVOICE' | 'CREDIT_NOTE';
+  number: string;
+  paymentId: number;
+  amount: string;
+  currency: string;
+  issuedAt: string;
+}
+
+export interface InvoiceListResponse {
+  data: Invoice[];
+  success: boolean;
+  message?: string;
+}
+
+@Injectable({ providedIn: 'root' })
+export class InvoiceService {
+  private readonly baseUrl = `${environment.apiUrl}/invoice`;
+
+  constructor(private http: HttpClient) {}
+
+  getMyInvoices(): Observable<InvoiceListResponse> {
+    return this.http.get<InvoiceListResponse>(`${this.baseUrl}/me`);
+  }
+
+  downloadPdf(id: number): Observable<Blob> {
+    return this.http.get(`${this.baseUrl}/${id}/pdf`, { responseType: 'blob' });
+  }
+}
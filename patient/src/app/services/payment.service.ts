@@ -14,17 +14,35 @@ export interface ConfirmPaymentDTO {
   paymentIntentId: string;
 }
 
+export type PaymentProviderType = 'STRIPE' | 'MANUAL';
+
 export interface PaymentIntentResponse {
   data: {
     data: {
-      clientSecret: string;
-      paymentIntentId: string;
+      provider: PaymentProviderType;
+      paymentId: number;
+      reference: string;
+      clientSecret?: string;
+      publishableKey?: string;
+      instructions?: string;
     };
     success: boolean;
   };
   message?: string;
 }
 
+export interface PaymentOptionsResponse {
+  data: {
+    provider: PaymentProviderType;
+    publishableKey?: string;
+    consultationFee?: number;
+    currency?: string;
+    instructions?: string;
+  };
+  success: boolean;
+  message?: string;
+}
+
 export interface PaymentConfirmationResponse {
   success: boolean;
   message?: string;
@@ -37,6 +55,11 @@ export class PaymentService {
 
   constructor(private http: HttpClient) {}
 
+  getPaymentOptions(consultationId: number): Observable<PaymentOptionsResponse> {
+    const url = `${this.baseUrl}/options/${consultationId}`;
+    return this.http.get<PaymentOptionsResponse>(url);
+  }
+
   createPaymentIntent(paymentIntentDto: PaymentIntentDTO): Observable<PaymentIntentResponse> {
     const url = `${this.baseUrl}/create-intent`;
     return this.http.post<PaymentIntentResponse>(url, paymentIntentDto);
@@ -10,7 +10,6 @@ import { authInterceptor } from './app/auth/auth.interceptor';
 import { provideMarkdown } from 'ngx-markdown';
 import { importProvidersFrom } from '@angular/core';
 import { NgxStripeModule } from 'ngx-stripe';
-import { environment } from './environments/environment';
 
 addIcons({
   'pulse-outline': pulseOutline,
@@ -25,8 +24,9 @@ bootstrapApplication(AppComponent, {
     provideRouter(routes, withPreloading(PreloadAllModules)),
     provideHttpClient(withInterceptors([authInterceptor])),
     provideMarkdown(),
+    // Stripe is set up per payment with the key of the organization's account
     importProvidersFrom(
-      NgxStripeModule.forRoot(environment.stripePublishableKey)
+      NgxStripeModule.forRoot()
     )
 
   ],
@@ -6,6 +6,7 @@ import { AngularSvgIconModule, SvgIconRegistryService } from 'angular-svg-icon';
 import { AuthService } from './auth/auth.service';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { DashboardWebSocketService } from './services/dashboard-websocket.service';
+import { InAppNotificationService } from './services/in-app-notification.service';
 import { Subscription } from 'rxjs';
 import { ToastContainerComponent } from './components/toast-container/toast-container.component';
 import { ConfirmationDialogComponent } from './components/confirmation-dialog/confirmation-dialog.component';
@@ -38,7 +39,8 @@ export class AppComponent implements OnInit, OnDestroy {
   constructor(
     private iconRegistry: SvgIconRegistryService,
     private authService: AuthService,
-    private dashboardWebSocketService: DashboardWebSocketService
+    private dashboardWebSocketService: DashboardWebSocketService,
+    private inAppNotificationService: InAppNotificationService
 
   ) { }
 
@@ -53,6 +55,7 @@ export class AppComponent implements OnInit, OnDestroy {
 
   ngOnDestroy(): void {
     this.dashboardSubscription?.unsubscribe();
+    this.inAppNotificationService.disconnect();
   }
 
   private initializeDashboardWebSocket(): void {
@@ -63,6 +66,10 @@ export class AppComponent implements OnInit, OnDestroy {
         this.dashboardWebSocketService.initializeDashboardConnection(currentUser.id);
         console.log('[AppComponent] Dashboard WebSocket initialized for practitioner:', currentUser.id);
       }
+      const token = this.authService.getToken();
+      if (token) {
+        this.inAppNotificationService.connect(token);
+      }
     } catch (error) {
       console.warn('[AppComponent] Failed to initialize dashboard WebSocket:', error);
     }
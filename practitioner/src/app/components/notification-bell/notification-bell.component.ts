@@ -0,0 +1,38 @@
+import { Component, inject } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatBadgeModule } from '@angular/material/badge';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { InAppNotification, InAppNotificationService } from '../../services/in-app-notification.service';
+import { RoutePaths } from '../../constants/route-paths.enum';
+
+@Component({
+  selector: 'app-notification-bell',
+  standalone: true,
+  imports: [DatePipe, MatBadgeModule, MatButtonModule, MatIconModule, MatMenuModule],
+  templateUrl: './notification-bell.component.html',
+  styleUrls: ['./notification-bell.component.scss']
+})
+export class NotificationBellComponent {
+  private readonly router = inject(Router);
+  readonly notificationService = inject(InAppNotificationService);
+
+  open(notification: InAppNotification): void {
+    if (!notification.readAt) {
+      this.notificationService.markRead(notification.id).subscribe();
+    }
+    if (notification.event === 'PATIENT_WAITING') {
+      this.router.navigate([RoutePaths.WaitingRoom]);
+    } else if (notification.event === 'CONSULTATION_ASSIGNED') {
+      this.router.navigate([RoutePaths.OpenConsultations]);
+    }
+  }
+
+  markAllRead(event: MouseEvent): void {
+    // Keep the menu open
+    event.stopPropagation();
+    this.notificationService.markAllRead().subscribe();
+  }
+}
@@ -20,4 +20,8 @@ export const API_ENDPOINTS = {
   INVITES: `${API_BASE_URL}/invites`,
 
   NOTIFICATIONS: `${API_BASE_URL}/notifications`,
+
+  IN_APP_NOTIFICATIONS: `${API_BASE_URL}/notifications/in-app`,
+
+  CALENDAR_FEED: `${API_BASE_URL}/calendar/feed`,
 } as const;
@@ -217,12 +217,10 @@ export class AvailabilityComponent implements OnInit, OnDestroy {
           }
           
           if (this.timeSlots.length > 0) {
-            // Sort slots by date and time
-            this.timeSlots.sort((a, b) => {
-              const dateComparison = new Date(a.date).getTime() - new Date(b.date).getTime();
-              if (dateComparison !== 0) return dateComparison;
-              return a.startTime.localeCompare(b.startTime);
-            });
+            // Sort slots by start
+            this.timeSlots.sort(
+              (a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime()
+            );
           }
           
           // Reset pagination
@@ -248,6 +246,8 @@ export class AvailabilityComponent implements OnInit, OnDestroy {
         startTime: rawFormData.startTime,
         endTime: rawFormData.endTime,
         slotDuration: Number(rawFormData.slotDuration),
+        // Times are entered on the practitioner's own clock
+        timezone: this.availabilityService.getViewerTimezone(),
         isActive: true
       };
       
@@ -530,6 +530,7 @@ export class AvailabilityComponent implements OnInit, OnDestroy {
   getSlotStatusClass(status: string): string {
     switch (status) {
       case 'AVAILABLE': return 'status-available';
+      case 'HELD': return 'status-held';
       case 'BOOKED': return 'status-booked';
       case 'BLOCKED': return 'status-blocked';
       default: return '';
@@ -544,6 +545,20 @@ export class AvailabilityComponent implements OnInit, OnDestroy {
     });
   }
 
+  /** Time of an instant in the viewer's timezone */
+  formatInstantTime(instant: string): string {
+    return new Date(instant).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  }
+
+  /** Availability times are on the clock of their timezone */
+  isOtherTimezone(timezone?: string): boolean {
+    return !!timezone && timezone !== this.availabilityService.getViewerTimezone();
+  }
+
   formatDate(date: string): string {
     return new Date(date).toLocaleDateString('en-US', {
       weekday: 'short',
@@ -18,6 +18,7 @@ import { UserService } from '../../services/user.service';
 import { LanguageService } from '../../services/language.service';
 import { SpecialityService } from '../../services/speciality.service';
 import { ToastService } from '../../services/toast/toast.service';
+import { CalendarFeedService } from '../../services/calendar-feed.service';
 import { User, UserRole, UserSex, UserStatus, Language, Speciality, UpdateUserProfileDto } from '../../models/user.model';
 
 const MOCK_USER: User = {
@@ -73,6 +74,12 @@ class MockToastService {
   show = jasmine.createSpy('show');
 }
 
+class MockCalendarFeedService {
+  getFeed = jasmine.createSpy('getFeed').and.returnValue(of({ data: null }));
+  rotateFeed = jasmine.createSpy('rotateFeed');
+  revokeFeed = jasmine.createSpy('revokeFeed');
+}
+
 function createTestBed(): void {
   TestBed.configureTestingModule({
     imports: [
@@ -95,7 +102,8 @@ function createTestBed(): void {
       { provide: UserService, useClass: MockUserService },
       { provide: LanguageService, useClass: MockLanguageService },
       { provide: SpecialityService, useClass: MockSpecialityService },
-      { provide: ToastService, useClass: MockToastService }
+      { provide: ToastService, useClass: MockToastService },
+      { provide: CalendarFeedService, useClass: MockCalendarFeedService }
     ]
   });
 }
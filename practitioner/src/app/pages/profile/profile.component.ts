@@ -20,8 +20,16 @@ import { ConfigService } from '../../services/config.service';
 import { AuthService } from '../../auth/auth.service';
 import { SnackbarService } from '../../services/snackbar/snackbar.service';
 import { MatSlideToggle } from '@angular/material/slide-toggle';
+import { MatCheckboxModule } from '@angular/material/checkbox';
 import { NotificationService } from '../../services/notification.service';
-import { NotificationSettings } from '../../services/notification.service';
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreference,
+  NotificationSettings
+} from '../../services/notification.service';
+import { CalendarFeed, CalendarFeedService } from '../../services/calendar-feed.service';
+import { ConfirmationDialogService } from '../../services/confirmation-dialog.service';
 
 const PHONE_NUMBER_REGEX = /^\+[1-9][\d\s\-\(\)]{7,14}$/;
 const MIN_NAME_LENGTH = 2;
@@ -29,6 +37,23 @@ const MAX_NAME_LENGTH = 50;
 
 
 
+const NOTIFICATION_EVENTS: readonly { value: NotificationEvent; label: string }[] = [
+  { value: 'REMINDER', label: 'Consultation reminders' },
+  { value: 'CONSULTATION_ASSIGNED', label: 'Assigned consultations' },
+  { value: 'PATIENT_WAITING', label: 'Patient waiting' },
+  { value: 'CHAT_MESSAGE', label: 'New chat messages' },
+  { value: 'INVITATION', label: 'Invitations' }
+];
+
+const NOTIFICATION_CHANNELS: readonly { value: NotificationChannel; label: string }[] = [
+  { value: 'EMAIL', label: 'Email' },
+  { value: 'SMS', label: 'SMS' },
+  { value: 'WHATSAPP', label: 'WhatsApp' },
+  { value: 'IN_APP', label: 'In-app' }
+];
+
+const QUIET_HOURS_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
 const GENDER_OPTIONS = [
   { value: UserSex.MALE, label: 'Male' },
   { value: UserSex.FEMALE, label: 'Female' },
@@ -59,13 +84,16 @@ interface GenderOption {
     MatChipsModule,
     MatIconModule,
     ButtonComponent,
-    MatSlideToggle
+    MatSlideToggle,
+    MatCheckboxModule
   ],
   templateUrl: './profile.component.html',
   styleUrls: ['./profile.component.scss']
 })
 export class ProfileComponent implements OnInit, OnDestroy {
   private readonly notificationService = inject(NotificationService);
+  private readonly calendarFeedService = inject(CalendarFeedService);
+  private readonly confirmationDialogService = inject(ConfirmationDialogService);
   private readonly languageService = inject(LanguageService);
   private readonly specialityService = inject(SpecialityService);
   private readonly configService = inject(ConfigService)
@@ -80,9 +108,13 @@ export class ProfileComponent implements OnInit, OnDestroy {
   readonly specialities = signal<Speciality[]>([]);
   readonly countries = signal<CountryOption[]>([]);
   readonly genderOptions: readonly GenderOption[] = GENDER_OPTIONS;
+  readonly notificationEvents = NOTIFICATION_EVENTS;
+  readonly notificationChannels = NOTIFICATION_CHANNELS;
 
   readonly isLoading = signal<boolean>(true);
   readonly isSaving = signal<boolean>(false);
+  readonly calendarFeed = signal<CalendarFeed | null>(null);
+  readonly isUpdatingCalendarFeed = signal<boolean>(false);
 
   readonly isFormValid = computed(() => this.profileForm?.valid ?? false);
   readonly hasUnsavedChanges = computed(() => this.profileForm?.dirty && !this.isSaving());
@@ -100,6 +132,7 @@ export class ProfileComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.loadProfileData();
+    this.loadCalendarFeed();
   }
 
   ngOnDestroy(): void {
@@ -124,6 +157,15 @@ export class ProfileComponent implements OnInit, OnDestroy {
       sex: [''],
       notificationsEnabled: [true],
       notificationPhoneNumber: ['', [Validators.pattern(PHONE_NUMBER_REGEX)]],
+      quietHoursStart: ['', [Validators.pattern(QUIET_HOURS_REGEX)]],
+      quietHoursEnd: ['', [Validators.pattern(QUIET_HOURS_REGEX)]],
+      notificationPreferences: this.fb.group(
+        Object.fromEntries(
+          NOTIFICATION_EVENTS.flatMap(event =>
+            NOTIFICATION_CHANNELS.map(channel => [this.preferenceKey(event.value, channel.value), [true]])
+          )
+        )
+      ),
       practitioner_languages: [[]],
       practitioner_specialities: [[]]
     });
@@ -155,18 +197,28 @@ export class ProfileComponent implements OnInit, OnDestroy {
           this.toastService.showError('Failed to load countries');
           return of([]);
         })
+      ),
+      notificationSettings: this.notificationService.getNotificationSettings().pipe(
+        catchError(error => {
+          console.error('Error loading notification settings:', error);
+          this.toastService.showError('Failed to load notification settings');
+          return of(null);
+        })
       )
     }).pipe(
       takeUntil(this.destroy$),
       finalize(() => this.isLoading.set(false))
     ).subscribe({
-      next: ({ languages, specialities, countries }) => {
+      next: ({ languages, specialities, countries, notificationSettings }) => {
         this.languages.set(languages);
         this.specialities.set(specialities);
         this.countries.set(countries)
         if (user) {
           this.populateForm(user);
         }
+        if (notificationSettings?.data) {
+          this.populateNotificationSettings(notificationSettings.data);
+        }
       },
       error: (error) => {
         console.error('Error loading profile data:', error);
@@ -190,6 +242,25 @@ export class ProfileComponent implements OnInit, OnDestroy {
     this.setupNotificationValidation()
     this.setDefaultPhone()
   }
+
+  private populateNotificationSettings(settings: NotificationSettings): void {
+    this.profileForm.patchValue({
+      notificationsEnabled: settings.enabled,
+      quietHoursStart: settings.quietHoursStart || '',
+      quietHoursEnd: settings.quietHoursEnd || '',
+      notificationPreferences: Object.fromEntries(
+        (settings.preferences ?? []).map(preference => [
+          this.preferenceKey(preference.event, preference.channel),
+          preference.enabled
+        ])
+      )
+    });
+  }
+
+  preferenceKey(event: NotificationEvent, channel: NotificationChannel): string {
+    return `${event}_${channel}`;
+  }
+
   private setDefaultPhone(): void {
     const notificationPhoneControl = this.profileForm.get('notificationPhoneNumber');
     const phoneControl = this.profileForm.get('phoneNumber');
@@ -245,9 +316,27 @@ export class ProfileComponent implements OnInit, OnDestroy {
       specialityIds: formValue.practitioner_specialities || []
     };
     // Prepare notification settings
+    const quietHoursStart = formValue.quietHoursStart || null;
+    const quietHoursEnd = formValue.quietHoursEnd || null;
+    if (!quietHoursStart !== !quietHoursEnd) {
+      this.isSaving.set(false);
+      this.snackBarService.showError('Quiet hours need both a start and an end');
+      return;
+    }
+    const preferences: NotificationPreference[] = NOTIFICATION_EVENTS.flatMap(event =>
+      NOTIFICATION_CHANNELS.map(channel => ({
+        event: event.value,
+        channel: channel.value,
+        enabled: formValue.notificationPreferences[this.preferenceKey(event.value, channel.value)]
+      }))
+    );
     const notificationSettings: NotificationSettings = {
       enabled: formValue.notificationsEnabled,
-      phone: formValue.notificationPhoneNumber?.trim() || null
+      phone: formValue.notificationPhoneNumber?.trim() || null,
+      quietHoursStart,
+      quietHoursEnd,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      preferences
     };
 
 
@@ -276,6 +365,7 @@ export class ProfileComponent implements OnInit, OnDestroy {
 
         this.currentUser.set(updatedUser);
         this.populateForm(updatedUser);
+        this.populateNotificationSettings(updatedNotifications.data);
         this.profileForm.markAsPristine();
       },
       error: (error) => {
@@ -291,6 +381,74 @@ export class ProfileComponent implements OnInit, OnDestroy {
 
   }
 
+  loadCalendarFeed(): void {
+    this.calendarFeedService.getFeed().pipe(
+      takeUntil(this.destroy$)
+    ).subscribe({
+      next: (response) => this.calendarFeed.set(response.data ?? null),
+      error: (error) => {
+        console.error('Error loading calendar feed:', error);
+      }
+    });
+  }
+
+  async onRotateCalendarFeed(): Promise<void> {
+    if (this.calendarFeed()) {
+      const confirmed = await this.confirmationDialogService.confirmWarning(
+        'Calendars subscribed to the current address will stop receiving your consultations.',
+        'Generate a new calendar address?',
+        'Generate'
+      );
+      if (!confirmed) return;
+    }
+    this.isUpdatingCalendarFeed.set(true);
+    this.calendarFeedService.rotateFeed().pipe(
+      takeUntil(this.destroy$),
+      finalize(() => this.isUpdatingCalendarFeed.set(false))
+    ).subscribe({
+      next: (response) => {
+        this.calendarFeed.set(response.data);
+        this.snackBarService.showSuccess('Calendar address created');
+      },
+      error: (error) => {
+        this.snackBarService.showError(error.error?.message || 'Could not create the calendar address');
+      }
+    });
+  }
+
+  async onRevokeCalendarFeed(): Promise<void> {
+    const confirmed = await this.confirmationDialogService.confirmDanger(
+      'Subscribed calendars will stop receiving your consultations.',
+      'Turn off the calendar feed?',
+      'Turn off'
+    );
+    if (!confirmed) return;
+    this.isUpdatingCalendarFeed.set(true);
+    this.calendarFeedService.revokeFeed().pipe(
+      takeUntil(this.destroy$),
+      finalize(() => this.isUpdatingCalendarFeed.set(false))
+    ).subscribe({
+      next: () => {
+        this.calendarFeed.set(null);
+        this.snackBarService.showSuccess('Calendar feed turned off');
+      },
+      error: (error) => {
+        this.snackBarService.showError(error.error?.message || 'Could not turn the calendar feed off');
+      }
+    });
+  }
+
+  async onCopyCalendarFeedUrl(): Promise<void> {
+    const feed = this.calendarFeed();
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      this.snackBarService.showSuccess('Calendar address copied');
+    } catch {
+      this.snackBarService.showError('Could not copy the calendar address');
+    }
+  }
+
   onReset(): void {
     const user = this.currentUser();
     if (user) {
@@ -322,4 +480,6 @@ export class ProfileComponent implements OnInit, OnDestroy {
   get practitioner_specialities(): FormControl { return this.profileForm.get('practitioner_specialities') as FormControl; }
   get notificationsEnabled(): FormControl { return this.profileForm.get('notificationsEnabled') as FormControl; }
   get notificationPhoneNumber(): FormControl { return this.profileForm.get('notificationPhoneNumber') as FormControl }
+  get quietHoursStart(): FormControl { return this.profileForm.get('quietHoursStart') as FormControl; }
+  get quietHoursEnd(): FormControl { return this.profileForm.get('quietHoursEnd') as FormControl; }
 }
@@ -9,7 +9,11 @@ export interface TimeSlot {
   date: string;
   startTime: string;
   endTime: string;
-  status: 'AVAILABLE' | 'BOOKED' | 'BLOCKED';
+  /** Start and end as ISO instants, to be shown in the viewer's timezone */
+  startsAt: string;
+  endsAt: string;
+  timezone: string;
+  status: 'AVAILABLE' | 'HELD' | 'BOOKED' | 'BLOCKED';
   consultation?: any;
 }
 
@@ -20,6 +24,7 @@ export interface PractitionerAvailability {
   startTime: string;
   endTime: string;
   slotDuration: number;
+  timezone: string;
   isActive: boolean;
   practitioner?: any;
 }
@@ -29,6 +34,7 @@ export interface CreateAvailabilityRequest {
   startTime: string;
   endTime: string;
   slotDuration: number;
+  timezone?: string;
   isActive?: boolean;
 }
 
@@ -61,6 +67,11 @@ export class AvailabilityService {
     });
   }
 
+  /** IANA timezone of the browser, e.g. Europe/Zurich */
+  getViewerTimezone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  }
+
   getCurrentPractitionerId(): number {
     const user = JSON.parse(localStorage.getItem('currentUser') || '{}');
     console.log('Current user from localStorage:', user);
@@ -127,9 +138,9 @@ export class AvailabilityService {
   }
 
   getMyTimeSlots(startDate?: string, endDate?: string, cacheBuster?: string): Observable<any> {
-    let params: any = {};
+    let params: any = { timezone: this.getViewerTimezone() };
     if (startDate && endDate) {
-      params = { startDate, endDate };
+      params = { ...params, startDate, endDate };
     }
     
     console.log('API URL:', this.apiUrl);
@@ -352,6 +363,11 @@ export class AvailabilityService {
           const slotStartTime = formatTime(timeMinutes);
           const slotEndTime = formatTime(slotEndMinutes);
           
+          // Approximation read in the browser's timezone, which is the one
+          // availabilities are created in
+          const startsAt = new Date(`${dateStr}T${slotStartTime}`);
+          const endsAt = new Date(startsAt.getTime() + (slotEndMinutes - timeMinutes) * 60000);
+          
           // Create a slot for this specific time window
           const slot: TimeSlot = {
             id: slotId--, // Use unique negative IDs
@@ -359,6 +375,9 @@ export class AvailabilityService {
             date: dateStr,
             startTime: slotStartTime,
             endTime: slotEndTime,
+            startsAt: startsAt.toISOString(),
+            endsAt: endsAt.toISOString(),
+            timezone: avail.timezone || this.getViewerTimezone(),
             status: 'AVAILABLE'
           };
           
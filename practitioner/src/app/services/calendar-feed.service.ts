@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { ApiResponse } from '../dtos';
+import { API_ENDPOINTS } from '../constants/api-endpoints';
+
+export interface CalendarFeed {
+  /** Secret address calendar apps subscribe to */
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  lastAccessedAt: string | null;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CalendarFeedService {
+  private baseUrl = API_ENDPOINTS.CALENDAR_FEED;
+
+  constructor(private http: HttpClient) { }
+
+  /**
+   * Get the calendar feed of the current practitioner, null while it is off
+   */
+  getFeed(): Observable<ApiResponse<CalendarFeed | null>> {
+    return this.http.get<ApiResponse<CalendarFeed | null>>(this.baseUrl);
+  }
+
+  /**
+   * Turn the calendar feed on, or move it to a new address; calendars
+   * subscribed to the old address stop receiving updates
+   */
+  rotateFeed(): Observable<ApiResponse<CalendarFeed>> {
+    return this.http.post<ApiResponse<CalendarFeed>>(this.baseUrl, {});
+  }
+
+  /**
+   * Turn the calendar feed off
+   */
+  revokeFeed(): Observable<ApiResponse<null>> {
+    return this.http.delete<ApiResponse<null>>(this.baseUrl);
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, tap } from 'rxjs';
+import { io, Socket } from 'socket.io-client';
+import { ApiResponse } from '../dtos';
+import { API_ENDPOINTS } from '../constants/api-endpoints';
+import { environment } from '../../environments/environment';
+import { NotificationEvent } from './notification.service';
+
+export interface InAppNotification {
+  id: number;
+  event: NotificationEvent;
+  title: string;
+  body: string;
+  data: Record<string, unknown> | null;
+  consultationId: number | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface InAppNotificationPage {
+  notifications: InAppNotification[];
+  unreadCount: number;
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+/**
+ * Notification center of the current user: loads the persisted
+ * notifications and keeps them and the unread count live over the
+ * consultation socket.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InAppNotificationService {
+  private baseUrl = API_ENDPOINTS.IN_APP_NOTIFICATIONS;
+  private socket: Socket | null = null;
+
+  readonly notifications = signal<InAppNotification[]>([]);
+  readonly unreadCount = signal(0);
+
+  constructor(private http: HttpClient) { }
+
+  connect(token: string): void {
+    this.disconnect();
+    this.socket = io(`${environment.wsUrl}/consultation`, {
+      auth: { token },
+      transports: ['websocket', 'polling'],
+      withCredentials: true
+    });
+    // Subscribing again after a reconnection also resyncs the unread count
+    this.socket.on('connect', () => this.socket?.emit('subscribe_notifications'));
+    this.socket.on('notification', (data: { notification: InAppNotification; unreadCount: number }) => {
+      this.notifications.update(list => [
+        data.notification,
+        ...list.filter(item => item.id !== data.notification.id)
+      ]);
+      this.unreadCount.set(data.unreadCount);
+    });
+    this.socket.on('notification_unread_count', (data: { unreadCount: number }) => {
+      this.unreadCount.set(data.unreadCount);
+    });
+    this.load().subscribe();
+  }
+
+  disconnect(): void {
+    this.socket?.disconnect();
+    this.socket = null;
+  }
+
+  load(page = 1, limit = 20): Observable<ApiResponse<InAppNotificationPage>> {
+    return this.http
+      .get<ApiResponse<InAppNotificationPage>>(this.baseUrl, { params: { page, limit } })
+      .pipe(
+        tap(res => {
+          this.notifications.set(res.data.notifications);
+          this.unreadCount.set(res.data.unreadCount);
+        })
+      );
+  }
+
+  markRead(id: number): Observable<ApiResponse<InAppNotification>> {
+    return this.http.patch<ApiResponse<InAppNotification>>(`${this.baseUrl}/${id}/read`, {}).pipe(
+      tap(res => {
+        this.notifications.update(list => list.map(item => (item.id === id ? res.data : item)));
+      })
+    );
+  }
+
+  markAllRead(): Observable<ApiResponse<{ updated: number }>> {
+    return this.http.patch<ApiResponse<{ updated: number }>>(`${this.baseUrl}/read-all`, {}).pipe(
+      tap(() => {
+        const readAt = new Date().toISOString();
+        this.notifications.update(list => list.map(item => ({ ...item, readAt: item.readAt ?? readAt })));
+        this.unreadCount.set(0);
+      })
+    );
+  }
+}
@@ -4,9 +4,29 @@ import { Observable } from 'rxjs';
 import { ApiResponse } from '../dtos';
 import { API_ENDPOINTS } from '../constants/api-endpoints';
 
+export type NotificationEvent =
+  | 'REMINDER'
+  | 'CONSULTATION_ASSIGNED'
+  | 'PATIENT_WAITING'
+  | 'CHAT_MESSAGE'
+  | 'INVITATION';
+
+export type NotificationChannel = 'EMAIL' | 'SMS' | 'WHATSAPP' | 'IN_APP';
+
+export interface NotificationPreference {
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
 export interface NotificationSettings {
   enabled: boolean;
-  phone?: string;
+  phone?: string | null;
+  /** Quiet hours, HH:mm in `timezone`; non in-app notifications wait until they end */
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone?: string | null;
+  preferences?: NotificationPreference[];
 }
 
 @Injectable({
@@ -27,9 +47,10 @@ export class NotificationService {
   }
 
   /**
-   * Optionally get current notification settings
+   * Get the notification settings of the current user, with a preference
+   * for every event and channel
    */
-  getNotificationSettings(): Observable<NotificationSettings> {
-    return this.http.get<NotificationSettings>(this.baseUrl);
+  getNotificationSettings(): Observable<ApiResponse<NotificationSettings>> {
+    return this.http.get<ApiResponse<NotificationSettings>>(this.baseUrl);
   }
 }
@@ -13,6 +13,7 @@ import { AuthService } from '../../../auth/auth.service';
 import { MatMenuModule } from '@angular/material/menu';
 import { AngularSvgIconModule } from 'angular-svg-icon';
 import { User } from '../../../models/user.model';
+import { NotificationBellComponent } from '../../../components/notification-bell/notification-bell.component';
 
 @Component({
   selector: 'app-sidebar',
@@ -30,7 +31,8 @@ import { User } from '../../../models/user.model';
     MatTooltipModule,
     BadgeComponent,
     AngularSvgIconModule,
-    MatMenuModule
+    MatMenuModule,
+    NotificationBellComponent
   ],
 })
 export class SidebarComponent {